@@ -6,6 +6,8 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { HelmetProvider } from "react-helmet-async";
 import Index from "./pages/Index";
 import ZNE from "./pages/ZNE";
+import PEC from "./pages/PEC";
+import DynamicalDecoupling from "./pages/DynamicalDecoupling";
 import AlgorithmBenchmark from "./pages/AlgorithmBenchmark";
 import NoiseModels from "./pages/NoiseModels";
 import BlochSpherePage from "./pages/BlochSphere";
@@ -28,6 +30,8 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/zne" element={<ZNE />} />
+            <Route path="/pec" element={<PEC />} />
+            <Route path="/dynamical-decoupling" element={<DynamicalDecoupling />} />
             <Route path="/benchmark" element={<AlgorithmBenchmark />} />
             <Route path="/noise-models" element={<NoiseModels />} />
             <Route path="/bloch-sphere" element={<BlochSpherePage />} />
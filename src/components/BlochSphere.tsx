@@ -167,6 +167,41 @@ const Trail = ({ points, color }: TrailProps) => {
   );
 };
 
+// Image of the Bloch sphere under r → T·r + c, drawn by transforming a unit
+// sphere with the affine map itself
+export interface BlochEllipsoid {
+  matrix: number[][];
+  offset: number[];
+  color: string;
+}
+
+const Ellipsoid = ({ matrix: t, offset: c, color }: BlochEllipsoid) => {
+  // The scene's axes are (x, z, y) in Bloch coordinates
+  const transform = useMemo(() => {
+    const axis = [0, 2, 1];
+    const m = axis.map(i => axis.map(j => t[i][j]));
+    return new THREE.Matrix4().set(
+      m[0][0], m[0][1], m[0][2], c[axis[0]],
+      m[1][0], m[1][1], m[1][2], c[axis[1]],
+      m[2][0], m[2][1], m[2][2], c[axis[2]],
+      0, 0, 0, 1
+    );
+  }, [t, c]);
+
+  return (
+    <group matrix={transform} matrixAutoUpdate={false}>
+      <mesh>
+        <sphereGeometry args={[1, 32, 32]} />
+        <meshBasicMaterial color={color} transparent opacity={0.2} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+      <mesh>
+        <sphereGeometry args={[1, 16, 12]} />
+        <meshBasicMaterial color={color} wireframe transparent opacity={0.35} />
+      </mesh>
+    </group>
+  );
+};
+
 interface BlochScene3DProps {
   states: {
     vector: { x: number; y: number; z: number };
@@ -174,9 +209,10 @@ interface BlochScene3DProps {
     color: string;
     name: string;
   }[];
+  ellipsoid?: BlochEllipsoid;
 }
 
-const BlochScene3D = ({ states }: BlochScene3DProps) => {
+const BlochScene3D = ({ states, ellipsoid }: BlochScene3DProps) => {
   return (
     <>
       <ambientLight intensity={0.5} />
@@ -184,6 +220,7 @@ const BlochScene3D = ({ states }: BlochScene3DProps) => {
       
       <BlochSphereWireframe />
       <Axes />
+      {ellipsoid && <Ellipsoid {...ellipsoid} />}
       
       {states.map((state, idx) => (
         <group key={idx}>
@@ -210,15 +247,17 @@ interface BlochSphereCanvasProps {
     color: string;
     name: string;
   }[];
+  ellipsoid?: BlochEllipsoid;
+  className?: string;
 }
 
-const BlochSphereCanvas = ({ states }: BlochSphereCanvasProps) => {
+const BlochSphereCanvas = ({ states, ellipsoid, className = 'h-[500px]' }: BlochSphereCanvasProps) => {
   return (
-    <div className="w-full h-[500px] rounded-2xl overflow-hidden">
+    <div className={`w-full rounded-2xl overflow-hidden ${className}`}>
       <Canvas camera={{ position: [2.5, 2, 2.5], fov: 50 }}>
         <color attach="background" args={['#0a0a0f']} />
         <fog attach="fog" args={['#0a0a0f', 5, 15]} />
-        <BlochScene3D states={states} />
+        <BlochScene3D states={states} ellipsoid={ellipsoid} />
       </Canvas>
     </div>
   );
@@ -0,0 +1,204 @@
+import { ReactNode } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CircuitGate, gateSpan } from '@/lib/quantum/circuit';
+import { formatAngle, formatGate, gateColors, gateSymbol } from '@/lib/circuit-display';
+
+interface DiagramCell {
+  gate: CircuitGate;
+  role: 'target' | 'control' | 'wire';
+  // Vertical connector above/below the cell, linking the gate's qubits
+  lineUp: boolean;
+  lineDown: boolean;
+}
+
+// Small badge drawn on the wire just before a cell, e.g. an injected error
+export interface DiagramMarker {
+  qubit: number;
+  step: number;
+  label: string;
+  title?: string;
+}
+
+interface CircuitDiagramProps {
+  numQubits: number;
+  // Valid gates only; each is drawn at its step
+  gates: CircuitGate[];
+  clbitNames: string[];
+  numSteps: number;
+  qubitLabel?: (qubit: number) => string;
+  // Editing: empty cells add a gate and gates remove themselves on click
+  onAddGate?: (qubit: number, step: number) => void;
+  onRemoveGate?: (gate: CircuitGate) => void;
+  // Any cell, gate or not, for picking a location in the circuit
+  onCellClick?: (qubit: number, step: number) => void;
+  // Stepping: columns before it have run, it is highlighted and later
+  // columns are dimmed
+  currentStep?: number;
+  markers?: DiagramMarker[];
+  // Extra content at the end of each qubit's wire
+  renderQubitEnd?: (qubit: number) => ReactNode;
+}
+
+const CircuitDiagram = ({
+  numQubits,
+  gates,
+  clbitNames,
+  numSteps,
+  qubitLabel = (qubit) => `q[${qubit}] |0⟩`,
+  onAddGate,
+  onRemoveGate,
+  onCellClick,
+  currentStep,
+  markers = [],
+  renderQubitEnd
+}: CircuitDiagramProps) => {
+  const gatesByQubitAndStep: (DiagramCell | null)[][] = Array(numQubits)
+    .fill(null)
+    .map(() => Array(numSteps).fill(null));
+
+  gates.forEach(gate => {
+    const [top, bottom] = gateSpan(gate);
+    for (let q = top; q <= bottom; q++) {
+      gatesByQubitAndStep[q][gate.step] = {
+        gate,
+        role: gate.targets.includes(q) ? 'target' : gate.controls.includes(q) ? 'control' : 'wire',
+        lineUp: q > top,
+        lineDown: q < bottom
+      };
+    }
+  });
+
+  const columnClass = (step: number) =>
+    currentStep === undefined ? ''
+      : step === currentStep ? 'bg-primary/10 rounded-lg'
+      : step > currentStep ? 'opacity-40'
+      : '';
+  const clickable = onRemoveGate || onCellClick ? 'cursor-pointer hover:opacity-80' : '';
+  const gateTitle = (gate: CircuitGate) =>
+    onRemoveGate ? `${formatGate(gate, clbitNames)} - click to remove` : formatGate(gate, clbitNames);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[600px]">
+        {Array(numQubits).fill(null).map((_, qubit) => (
+          <div key={qubit} className="flex items-center gap-2 mb-4">
+            <div className="w-16 font-mono text-sm text-muted-foreground">
+              {qubitLabel(qubit)}
+            </div>
+            <div className="flex-1 flex items-center">
+              <div className="h-0.5 w-4 bg-muted-foreground" />
+              {Array(numSteps).fill(null).map((_, step) => {
+                const cell = gatesByQubitAndStep[qubit][step];
+                const marker = markers.find(m => m.qubit === qubit && m.step === step);
+                const pick = onCellClick ? () => onCellClick(qubit, step) : undefined;
+                return (
+                  <div key={step} className={`flex items-center ${columnClass(step)}`}>
+                    {cell ? (
+                      <div className="w-12 h-12 relative flex items-center justify-center" onClick={pick}>
+                        {cell.lineUp && (
+                          <div className={`absolute left-1/2 -translate-x-1/2 w-0.5 -top-4 bottom-1/2 ${gateColors[cell.gate.type]}`} />
+                        )}
+                        {cell.lineDown && (
+                          <div className={`absolute left-1/2 -translate-x-1/2 w-0.5 top-1/2 -bottom-4 ${gateColors[cell.gate.type]}`} />
+                        )}
+                        {cell.role === 'wire' && (
+                          <div className="absolute inset-x-0 top-1/2 h-0.5 bg-muted-foreground" />
+                        )}
+                        {cell.role === 'control' && (
+                          <div
+                            className={`w-4 h-4 rounded-full ${gateColors[cell.gate.type]} relative z-10 ${clickable}`}
+                            onClick={onRemoveGate ? () => onRemoveGate(cell.gate) : undefined}
+                            title={gateTitle(cell.gate)}
+                          />
+                        )}
+                        {cell.role === 'target' && (
+                          <div
+                            className={`w-12 h-12 ${gateColors[cell.gate.type]} rounded-lg flex items-center justify-center font-mono font-bold text-white ${clickable} transition-opacity relative z-10 group`}
+                            onClick={onRemoveGate ? () => onRemoveGate(cell.gate) : undefined}
+                            title={onRemoveGate ? undefined : gateTitle(cell.gate)}
+                          >
+                            {gateSymbol(cell.gate)}
+                            {cell.gate.angle !== undefined && (
+                              <span className="absolute bottom-0.5 text-[9px] font-normal">{formatAngle(cell.gate.angle)}</span>
+                            )}
+                            {cell.gate.type === 'M' && cell.gate.clbit !== undefined && (
+                              <span className="absolute bottom-0.5 text-[9px] font-normal">→{clbitNames[cell.gate.clbit]}</span>
+                            )}
+                            {cell.gate.condition && (
+                              <span className="absolute top-0.5 text-[9px] font-normal">
+                                {clbitNames[cell.gate.condition.clbit]}={cell.gate.condition.value}
+                              </span>
+                            )}
+                            {onRemoveGate && (
+                              <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-destructive text-destructive-foreground text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">
+                                <Trash2 className="w-3 h-3 inline mr-1" />
+                                Click to remove
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        {marker && <Marker marker={marker} />}
+                      </div>
+                    ) : onAddGate ? (
+                      <div
+                        className="w-12 h-12 border-2 border-dashed border-muted-foreground/30 rounded-lg flex items-center justify-center cursor-pointer hover:border-primary hover:bg-primary/10 transition-all"
+                        onClick={() => onAddGate(qubit, step)}
+                      >
+                        <Plus className="w-4 h-4 text-muted-foreground/50" />
+                      </div>
+                    ) : (
+                      <div
+                        className={`w-12 h-12 relative flex items-center justify-center ${onCellClick ? 'cursor-pointer hover:bg-primary/10 rounded-lg' : ''}`}
+                        onClick={pick}
+                      >
+                        <div className="absolute inset-x-0 top-1/2 h-0.5 bg-muted-foreground" />
+                        {marker && <Marker marker={marker} />}
+                      </div>
+                    )}
+                    <div className="h-0.5 w-4 bg-muted-foreground" />
+                  </div>
+                );
+              })}
+            </div>
+            {renderQubitEnd?.(qubit)}
+          </div>
+        ))}
+        {clbitNames.map((name, bit) => (
+          <div key={`c-${bit}`} className="flex items-center gap-2 mb-2">
+            <div className="w-16 font-mono text-sm text-muted-foreground truncate">
+              {name}
+            </div>
+            <div className="flex-1 flex items-center">
+              <div className="h-1 w-4 border-y border-muted-foreground/60" />
+              {Array(numSteps).fill(null).map((_, step) => {
+                const writes = gates.some(g => g.step === step && g.type === 'M' && g.clbit === bit);
+                const reads = gates.some(g => g.step === step && g.condition?.clbit === bit);
+                return (
+                  <div key={step} className={`flex items-center ${columnClass(step)}`}>
+                    <div className="w-12 h-4 relative flex items-center justify-center">
+                      <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1 border-y border-muted-foreground/60" />
+                      {writes && <span className="relative text-yellow-500 text-xs leading-none">▼</span>}
+                      {reads && <span className="relative w-2 h-2 rounded-full bg-primary" />}
+                    </div>
+                    <div className="h-1 w-4 border-y border-muted-foreground/60" />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const Marker = ({ marker }: { marker: DiagramMarker }) => (
+  <span
+    className="absolute -left-3 top-1/2 -translate-y-1/2 z-20 w-5 h-5 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center"
+    title={marker.title}
+  >
+    {marker.label}
+  </span>
+);
+
+export default CircuitDiagram;
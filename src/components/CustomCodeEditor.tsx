@@ -0,0 +1,117 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  CustomCodeAnalysis,
+  CustomCodeInput,
+  MAX_CUSTOM_QUBITS,
+  StabilizerCode,
+  bitFlipCode,
+  customCodeInput,
+  fiveQubitCode,
+  shorCode,
+  steaneCode
+} from '@/lib/quantum/stabilizer-codes';
+
+interface CustomCodeEditorProps {
+  value: CustomCodeInput;
+  onChange: (value: CustomCodeInput) => void;
+  analysis: CustomCodeAnalysis;
+}
+
+const examples: { label: string; code: StabilizerCode }[] = [
+  { label: 'Bit flip', code: bitFlipCode },
+  { label: 'Five-qubit', code: fiveQubitCode },
+  { label: 'Steane', code: steaneCode },
+  { label: 'Shor', code: shorCode },
+];
+
+const CustomCodeEditor = ({ value, onChange, analysis }: CustomCodeEditorProps) => {
+  const { code } = analysis;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Start from:</span>
+        {examples.map(e => (
+          <Button key={e.label} variant="outline" size="sm" onClick={() => onChange(customCodeInput(e.code))}>
+            {e.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm text-muted-foreground mb-2 block">
+            Stabilizer Generators (one per line, n − 1 for n ≤ {MAX_CUSTOM_QUBITS} qubits)
+          </label>
+          <Textarea
+            value={value.stabilizers.join('\n')}
+            onChange={(e) => onChange({ ...value, stabilizers: e.target.value.split('\n') })}
+            placeholder={'XZZXI\nIXZZX\nXIXZZ\nZXIXZ'}
+            className="font-mono text-sm min-h-[160px]"
+            spellCheck={false}
+          />
+        </div>
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm text-muted-foreground mb-2 block">Logical X</label>
+            <Input
+              value={value.logicalX}
+              onChange={(e) => onChange({ ...value, logicalX: e.target.value })}
+              className="font-mono"
+              spellCheck={false}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-2 block">Logical Z</label>
+            <Input
+              value={value.logicalZ}
+              onChange={(e) => onChange({ ...value, logicalZ: e.target.value })}
+              className="font-mono"
+              spellCheck={false}
+            />
+          </div>
+          {analysis.checked && <div className="flex flex-wrap gap-2">
+            <Badge variant={analysis.commuting ? 'secondary' : 'destructive'}>
+              {analysis.commuting ? 'Generators commute' : 'Generators do not commute'}
+            </Badge>
+            <Badge variant={analysis.independent ? 'secondary' : 'destructive'}>
+              {analysis.independent ? 'Independent' : 'Not independent'}
+            </Badge>
+            <Badge variant={analysis.logicalsValid ? 'secondary' : 'destructive'}>
+              {analysis.logicalsValid ? 'Valid logicals' : 'Invalid logicals'}
+            </Badge>
+            {code && (
+              <Badge variant="outline" className="font-mono">
+                [[{code.numQubits},1,{code.distance}]]
+              </Badge>
+            )}
+          </div>}
+        </div>
+      </div>
+
+      {analysis.errors.length > 0 && (
+        <ul className="space-y-1">
+          {analysis.errors.slice(0, 6).map((error, i) => (
+            <li key={i} className="text-sm text-destructive">{error}</li>
+          ))}
+          {analysis.errors.length > 6 && (
+            <li className="text-sm text-muted-foreground">…and {analysis.errors.length - 6} more</li>
+          )}
+        </ul>
+      )}
+      {code && (
+        <p className="text-xs text-muted-foreground">
+          Distance {code.distance} from a search over all Paulis by weight for the lightest one that commutes with
+          every generator but acts on the logical qubit; it detects up to {code.distance - 1} and corrects up to{' '}
+          {Math.floor((code.distance - 1) / 2)} errors. The encoder is a {code.encoder.length}-gate Clifford circuit
+          synthesized from the generators.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CustomCodeEditor;
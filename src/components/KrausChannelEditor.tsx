@@ -0,0 +1,314 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Sigma, Trash2 } from 'lucide-react';
+import BlochSphereCanvas from '@/components/BlochSphere';
+import { Complex, formatComplex } from '@/lib/quantum/complex';
+import { KrausChannel } from '@/lib/quantum/density-matrix';
+import {
+  amplitudeDamping,
+  bitPhaseFlip,
+  coherentOverRotation,
+  pauliChannel,
+  resetChannel
+} from '@/lib/quantum/noise-channels';
+import {
+  averageGateFidelity,
+  blochAffineMap,
+  checkKraus,
+  ellipsoidAxes,
+  formatComplexEntry,
+  parseComplex
+} from '@/lib/quantum/kraus';
+
+type PresetId = 'pauli' | 'bit-phase-flip' | 'reset' | 'over-rotation' | 'amplitude-damping' | 'custom';
+
+interface PresetParams {
+  px: number;
+  py: number;
+  pz: number;
+  p: number;
+  epsilon: number;
+  axis: 'x' | 'y' | 'z';
+}
+
+const presets: { id: Exclude<PresetId, 'custom'>; name: string; build: (params: PresetParams) => KrausChannel }[] = [
+  { id: 'pauli', name: 'Pauli channel', build: ({ px, py, pz }) => pauliChannel(px, py, pz) },
+  { id: 'bit-phase-flip', name: 'Bit-phase flip', build: ({ p }) => bitPhaseFlip(p) },
+  { id: 'reset', name: 'Reset to |0⟩', build: ({ p }) => resetChannel(p) },
+  { id: 'over-rotation', name: 'Coherent over-rotation', build: ({ epsilon, axis }) => coherentOverRotation(epsilon, axis) },
+  { id: 'amplitude-damping', name: 'Amplitude damping', build: ({ p }) => amplitudeDamping(p) },
+];
+
+// The editor holds text so half-typed entries can be shown as invalid
+type Entries = string[][][];
+
+// Preset values at full precision, kept until the cell is edited; the text
+// is rounded for display and would not pass the CPTP check when re-parsed
+type ExactEntries = (Complex | null)[][][];
+
+const toEntries = (channel: KrausChannel): Entries =>
+  channel.map(k => k.map(row => row.map(v => formatComplexEntry(v))));
+
+const MAX_OPERATORS = 8;
+
+const defaultParams: PresetParams = { px: 0.05, py: 0.05, pz: 0.1, p: 0.2, epsilon: 0.2, axis: 'x' };
+
+const KrausChannelEditor = () => {
+  const [presetId, setPresetId] = useState<PresetId>('pauli');
+  const [params, setParams] = useState<PresetParams>(defaultParams);
+  const [entries, setEntries] = useState<Entries>(() => toEntries(presets[0].build(defaultParams)));
+  const [exact, setExact] = useState<ExactEntries>(() => presets[0].build(defaultParams));
+
+  const loadPreset = (id: PresetId, next: PresetParams) => {
+    setPresetId(id);
+    setParams(next);
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    const built = preset.build(next);
+    setEntries(toEntries(built));
+    setExact(built);
+  };
+
+  const updateParam = <K extends keyof PresetParams>(key: K, value: PresetParams[K]) =>
+    loadPreset(presetId, { ...params, [key]: value });
+
+  // px + py + pz may not pass 1, or the identity weight would go negative
+  const updatePauliParam = (key: 'px' | 'py' | 'pz', value: number) => {
+    const others = (['px', 'py', 'pz'] as const).filter(k => k !== key).reduce((acc, k) => acc + params[k], 0);
+    updateParam(key, Math.min(value, Math.round((1 - others) * 100) / 100));
+  };
+
+  const updateEntry = (k: number, i: number, j: number, value: string) => {
+    setPresetId('custom');
+    setEntries(prev => prev.map((op, a) => (a !== k ? op : op.map((row, b) => row.map((v, c) => (b === i && c === j ? value : v))))));
+    setExact(prev => prev.map((op, a) => (a !== k ? op : op.map((row, b) => row.map((v, c) => (b === i && c === j ? null : v))))));
+  };
+
+  const addOperator = () => {
+    setPresetId('custom');
+    setEntries(prev => [...prev, [['0', '0'], ['0', '0']]]);
+    setExact(prev => [...prev, [[null, null], [null, null]]]);
+  };
+
+  const removeOperator = (k: number) => {
+    setPresetId('custom');
+    setEntries(prev => prev.filter((_, a) => a !== k));
+    setExact(prev => prev.filter((_, a) => a !== k));
+  };
+
+  const parsed = useMemo(
+    () => entries.map((op, k) => op.map((row, i) => row.map((text, j) => exact[k]?.[i]?.[j] ?? parseComplex(text)))),
+    [entries, exact]
+  );
+  const channel: KrausChannel | null = useMemo(
+    () => (parsed.length > 0 && parsed.every(op => op.every(row => row.every(v => v !== null))) ? parsed : null),
+    [parsed]
+  );
+
+  const analysis = useMemo(() => {
+    if (!channel) return null;
+    const map = blochAffineMap(channel);
+    return {
+      check: checkKraus(channel),
+      map,
+      axes: ellipsoidAxes(map),
+      fidelity: averageGateFidelity(channel),
+    };
+  }, [channel]);
+
+  // -0.000 reads as a failure at a glance
+  const fixed = (v: number, digits = 3) => (Math.abs(v) < 0.5 * 10 ** -digits ? 0 : v).toFixed(digits);
+
+  return (
+    <div className="glass p-6 rounded-2xl mt-8">
+      <h3 className="text-lg font-semibold mb-2 text-foreground flex items-center gap-2">
+        <Sigma className="w-5 h-5 text-primary" />
+        Custom Kraus Channel
+      </h3>
+      <p className="text-sm text-muted-foreground mb-6">
+        Enter Kraus operators K₀, K₁, … for ρ → Σ K ρ K†, or start from a preset and edit it. Entries are complex
+        numbers such as 0.5, -i or 0.3-0.2i.
+      </p>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Preset</label>
+            <Select value={presetId} onValueChange={(v: PresetId) => loadPreset(v, params)}>
+              <SelectTrigger className="glass">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+                <SelectItem value="custom" disabled>Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {presetId === 'pauli' && (
+            <div className="grid grid-cols-3 gap-4">
+              {(['px', 'py', 'pz'] as const).map(key => (
+                <div key={key}>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-medium text-foreground">p<sub>{key[1]}</sub></label>
+                    <span className="text-sm font-mono text-primary">{params[key].toFixed(2)}</span>
+                  </div>
+                  <Slider value={[params[key]]} onValueChange={([v]) => updatePauliParam(key, v)} min={0} max={0.5} step={0.01} />
+                </div>
+              ))}
+            </div>
+          )}
+          {(presetId === 'bit-phase-flip' || presetId === 'reset' || presetId === 'amplitude-damping') && (
+            <div>
+              <div className="flex justify-between items-center mb-3">
+                <label className="text-sm font-medium text-foreground">{presetId === 'amplitude-damping' ? 'γ' : 'p'}</label>
+                <span className="text-sm font-mono text-primary">{params.p.toFixed(2)}</span>
+              </div>
+              <Slider value={[params.p]} onValueChange={([v]) => updateParam('p', v)} min={0} max={1} step={0.01} />
+            </div>
+          )}
+          {presetId === 'over-rotation' && (
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <div className="col-span-2">
+                <div className="flex justify-between items-center mb-3">
+                  <label className="text-sm font-medium text-foreground">Angle ε</label>
+                  <span className="text-sm font-mono text-primary">{params.epsilon.toFixed(2)} rad</span>
+                </div>
+                <Slider value={[params.epsilon]} onValueChange={([v]) => updateParam('epsilon', v)} min={-Math.PI} max={Math.PI} step={0.01} />
+              </div>
+              <Select value={params.axis} onValueChange={(v: PresetParams['axis']) => updateParam('axis', v)}>
+                <SelectTrigger className="glass">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="x">About X</SelectItem>
+                  <SelectItem value="y">About Y</SelectItem>
+                  <SelectItem value="z">About Z</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            {entries.map((op, k) => (
+              <div key={k} className="glass p-3 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-mono text-foreground">K<sub>{k}</sub></span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => removeOperator(k)}
+                    disabled={entries.length === 1}
+                    title="Remove operator"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {op.map((row, i) => row.map((value, j) => (
+                    <Input
+                      key={`${i}-${j}`}
+                      value={value}
+                      onChange={(e) => updateEntry(k, i, j, e.target.value)}
+                      className={`h-8 font-mono text-xs ${parsed[k][i][j] === null ? 'border-destructive' : ''}`}
+                      aria-label={`K${k} row ${i} column ${j}`}
+                    />
+                  )))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={addOperator} disabled={entries.length >= MAX_OPERATORS}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Operator
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {!analysis ? (
+            <p className="text-sm text-destructive">
+              Some entries are not complex numbers; fix the highlighted cells to analyse the channel.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant={analysis.check.completelyPositive ? 'secondary' : 'destructive'}>
+                  {analysis.check.completelyPositive ? 'Completely positive' : 'Not completely positive'}
+                </Badge>
+                <Badge variant={analysis.check.tracePreserving ? 'secondary' : 'destructive'}>
+                  {analysis.check.tracePreserving
+                    ? 'Trace preserving'
+                    : analysis.check.traceIncreasing ? 'Trace increasing' : 'Trace decreasing'}
+                </Badge>
+                <Badge variant="outline" className="font-mono">
+                  ‖Σ K†K − I‖ = {analysis.check.deviationNorm.toExponential(2)}
+                </Badge>
+              </div>
+
+              {!analysis.check.tracePreserving && (
+                <div className="text-sm space-y-2">
+                  <p className="text-destructive">
+                    Σ K†K ≠ I, so this is not a CPTP channel.{' '}
+                    {analysis.check.traceIncreasing
+                      ? 'Some states would come out with probability above 1.'
+                      : 'It could describe a post-selected process, but probability is lost.'}{' '}
+                    The deviation Σ K†K − I is:
+                  </p>
+                  <div className="grid grid-cols-2 gap-1 font-mono text-xs max-w-sm">
+                    {analysis.check.deviation.flat().map((v, i) => (
+                      <span key={i} className="glass px-2 py-1 rounded">{formatComplex(v)}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <BlochSphereCanvas
+                states={[]}
+                ellipsoid={{ ...analysis.map, color: analysis.check.tracePreserving ? '#a855f7' : '#ef4444' }}
+                className="h-[360px]"
+              />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                <div>
+                  <p className="text-lg font-bold text-primary font-mono">{analysis.axes.map(a => fixed(a, 2)).join(' / ')}</p>
+                  <p className="text-xs text-muted-foreground">Semi-axes</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-accent font-mono">
+                    ({analysis.map.offset.map(v => fixed(v, 2)).join(', ')})
+                  </p>
+                  <p className="text-xs text-muted-foreground">Centre (x, y, z)</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-foreground font-mono">{(analysis.fidelity * 100).toFixed(2)}%</p>
+                  <p className="text-xs text-muted-foreground">Avg. Gate Fidelity</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-foreground font-mono">{analysis.check.krausRank}</p>
+                  <p className="text-xs text-muted-foreground">Kraus Rank</p>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground font-mono">
+                Choi eigenvalues: {analysis.check.choiEigenvalues.map(v => fixed(v, 4)).join(', ')}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                The pure states on the sphere are mapped to the shaded ellipsoid, r → T·r + c. Any list of Kraus
+                operators is completely positive, since its Choi matrix is a sum of positive terms; trace preservation
+                is what a hand-entered channel can get wrong.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KrausChannelEditor;
@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BenchmarkId, benchmarkCircuits, formatObservable, observableOptions } from '@/lib/quantum/benchmark-circuits';
+import { CircuitSource, MitigationCircuit } from '@/hooks/use-mitigation-circuit';
+
+interface MitigationCircuitControlsProps {
+  circuit: MitigationCircuit;
+}
+
+const MitigationCircuitControls = ({ circuit }: MitigationCircuitControlsProps) => {
+  const { circuitSource, selectSource, benchmark, editorCircuit } = circuit;
+
+  return (
+    <>
+      <div className="space-y-3">
+        <label className="text-sm font-medium">Circuit</label>
+        <Select value={circuitSource} onValueChange={(v: CircuitSource) => selectSource(v)}>
+          <SelectTrigger className="glass">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="benchmark">Benchmark circuit</SelectItem>
+            <SelectItem value="editor">From the Circuit Visualizer</SelectItem>
+          </SelectContent>
+        </Select>
+        {circuitSource === 'benchmark' ? (
+          <Select value={benchmark.id} onValueChange={(v: BenchmarkId) => circuit.setBenchmarkId(v)}>
+            <SelectTrigger className="glass">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {benchmarkCircuits.map(b => (
+                <SelectItem key={b.id} value={b.id}>{b.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Button variant="outline" className="w-full" onClick={() => selectSource('editor')}>
+            Reload Editor Circuit
+          </Button>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {circuitSource === 'benchmark'
+            ? benchmark.description
+            : editorCircuit
+              ? `${editorCircuit.numQubits} qubits, ${editorCircuit.gates.length} gates`
+              : 'No editor circuit loaded'}
+        </p>
+      </div>
+
+      {circuitSource === 'benchmark' && benchmark.layered && (
+        <div className="space-y-3">
+          <label className="text-sm font-medium flex items-center justify-between">
+            Benchmark Layers
+            <span className="text-primary font-mono">{circuit.layers}</span>
+          </label>
+          <Slider
+            value={[circuit.layers]}
+            onValueChange={([v]) => circuit.setLayers(v)}
+            min={1}
+            max={10}
+            step={1}
+          />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <label className="text-sm font-medium">Observable</label>
+        <Select value={circuit.observableId} onValueChange={circuit.setObservableId}>
+          <SelectTrigger className="glass">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">
+              {circuitSource === 'benchmark' ? `Benchmark default (${formatObservable(benchmark.observable)})` : 'Z on every qubit'}
+            </SelectItem>
+            {observableOptions.map(o => (
+              <SelectItem key={o.id} value={o.id}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+};
+
+export default MitigationCircuitControls;
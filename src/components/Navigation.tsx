@@ -45,6 +45,8 @@ const Navigation = () => {
     { label: 'More', id: 'more', type: 'dropdown', items: [
       { label: 'Data Analysis', id: '/data-analysis' },
       { label: 'ZNE', id: '/zne' },
+      { label: 'PEC', id: '/pec' },
+      { label: 'Dynamical Decoupling', id: '/dynamical-decoupling' },
       { label: 'Benchmark', id: '/benchmark' },
       { label: 'Noise Models', id: '/noise-models' },
     ]},
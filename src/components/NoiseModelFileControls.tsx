@@ -0,0 +1,86 @@
+import { useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { NoiseModelFile, parseNoiseModelFile, serializeNoiseModelFile } from '@/lib/quantum/noise-model-file';
+
+interface NoiseModelFileControlsProps {
+  // Builds the file from the page's current settings
+  exportFile: () => NoiseModelFile;
+  onImport: (file: NoiseModelFile) => void;
+  // What the page keeps from an imported file
+  note?: string;
+  className?: string;
+}
+
+// Longest list of validation errors shown inline; the rest are counted
+const MAX_SHOWN_ERRORS = 8;
+
+const NoiseModelFileControls = ({ exportFile, onImport, note, className = '' }: NoiseModelFileControlsProps) => {
+  const inputId = useId();
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    e.target.value = '';
+    if (!upload) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const { file, errors: problems } = parseNoiseModelFile(event.target?.result as string);
+      setErrors(problems);
+      if (!file) {
+        toast.error(`${upload.name} is not a valid noise model file`);
+        return;
+      }
+      onImport(file);
+      toast.success(`Loaded noise model "${file.name}" (${file.qubits.length} qubits)`);
+    };
+    reader.readAsText(upload);
+  };
+
+  const handleExport = () => {
+    const file = exportFile();
+    const blob = new Blob([serializeNoiseModelFile(file)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${file.name.replace(/[^\w-]+/g, '_')}.noise.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Noise model exported');
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex flex-wrap gap-2">
+        <input type="file" accept=".json" onChange={handleUpload} className="hidden" id={inputId} />
+        <label htmlFor={inputId}>
+          <Button variant="outline" size="sm" asChild>
+            <span className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              Import Noise Model
+            </span>
+          </Button>
+        </label>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </div>
+      {note && <p className="text-xs text-muted-foreground">{note}</p>}
+      {errors.length > 0 && (
+        <div className="text-xs text-destructive space-y-1">
+          <p className="font-medium">The file was not loaded:</p>
+          <ul className="list-disc pl-4 font-mono space-y-0.5">
+            {errors.slice(0, MAX_SHOWN_ERRORS).map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+          {errors.length > MAX_SHOWN_ERRORS && <p>…and {errors.length - MAX_SHOWN_ERRORS} more</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoiseModelFileControls;
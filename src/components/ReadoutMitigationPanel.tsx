@@ -0,0 +1,292 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crosshair, Download, Play, Upload } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { toast } from 'sonner';
+import { exportQasm } from '@/lib/quantum/qasm';
+import { basisLabel } from '@/lib/quantum/state-vector';
+import { Distribution, normalizeCounts, totalVariationDistance } from '@/lib/quantum/distributions';
+import {
+  CalibrationMode,
+  MAX_FULL_CALIBRATION_BITS,
+  MAX_MITIGATION_BITS,
+  ReadoutCalibration,
+  assignmentFidelity,
+  calibrationCircuits,
+  mitigateDistribution,
+  parseCalibrationFile
+} from '@/lib/quantum/readout';
+
+interface ReadoutMitigationPanelProps {
+  // Width of the measured bitstrings
+  numBits: number;
+  counts: Record<string, number>;
+  // Noiseless distribution to score the mitigation against, if known
+  ideal?: Distribution;
+  // Runs the calibration circuits; without it only uploaded matrices work
+  calibrate?: (mode: CalibrationMode) => ReadoutCalibration;
+  className?: string;
+}
+
+// Largest matrix drawn as a table; bigger ones only show per-bit matrices
+const MAX_TABLE_DIM = 8;
+const MAX_CHART_STATES = 32;
+
+const sourceLabels: Record<ReadoutCalibration['source'], string> = {
+  full: 'Full calibration',
+  'per-qubit': 'Per-qubit calibration',
+  uploaded: 'Uploaded matrix',
+};
+
+const ReadoutMitigationPanel = ({ numBits, counts, ideal, calibrate, className = '' }: ReadoutMitigationPanelProps) => {
+  const [mode, setMode] = useState<CalibrationMode>(numBits <= MAX_FULL_CALIBRATION_BITS ? 'full' : 'per-qubit');
+  const [calibration, setCalibration] = useState<ReadoutCalibration | null>(null);
+  const fullAllowed = numBits <= MAX_FULL_CALIBRATION_BITS;
+  const activeMode = fullAllowed ? mode : 'per-qubit';
+  const tooWide = numBits > MAX_MITIGATION_BITS;
+  // A calibration for a different register width is kept but not applied
+  const matches = calibration !== null && calibration.numBits === numBits;
+
+  const raw = useMemo(() => normalizeCounts(counts), [counts]);
+  const mitigated = useMemo(
+    () => (matches ? mitigateDistribution(raw, calibration) : null),
+    [raw, calibration, matches]
+  );
+
+  const chartData = useMemo(() => {
+    const states = [...new Set([...Object.keys(raw), ...Object.keys(mitigated ?? {}), ...Object.keys(ideal ?? {})])]
+      .filter(s => (raw[s] ?? 0) > 0 || (mitigated?.[s] ?? 0) > 1e-4 || (ideal?.[s] ?? 0) > 1e-12);
+    return states
+      .map(state => ({
+        state,
+        raw: raw[state] ?? 0,
+        ...(mitigated && { mitigated: mitigated[state] ?? 0 }),
+        ...(ideal && { ideal: ideal[state] ?? 0 }),
+      }))
+      .sort((a, b) => b.raw - a.raw || a.state.localeCompare(b.state))
+      .slice(0, MAX_CHART_STATES);
+  }, [raw, mitigated, ideal]);
+
+  const runCalibration = () => {
+    if (!calibrate) return;
+    setCalibration(calibrate(activeMode));
+    toast.success(`Ran ${calibrationCircuits(numBits, activeMode).length} calibration circuits`);
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const { calibration: parsed, error } = parseCalibrationFile(event.target?.result as string, file.name);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      setCalibration(parsed);
+      if (parsed.numBits !== numBits) {
+        toast.warning(`The matrix is for ${parsed.numBits} bits but the counts have ${numBits}`);
+      } else {
+        toast.success(`Loaded a ${parsed.matrix.length}×${parsed.matrix.length} calibration matrix`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  // The circuits as OpenQASM, to calibrate real hardware and upload the result
+  const downloadCircuits = () => {
+    const circuits = calibrationCircuits(numBits, activeMode).map(({ prepared, circuit }) => ({
+      prepared,
+      qasm: exportQasm(circuit, 2),
+    }));
+    const blob = new Blob([JSON.stringify({ mode: activeMode, numBits, circuits }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `readout_calibration_${activeMode}_${numBits}q.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Calibration circuits exported');
+  };
+
+  const dim = calibration?.matrix.length ?? 0;
+  const calibrationBits = calibration?.numBits ?? 0;
+
+  return (
+    <Card className={`glass border-primary/20 ${className}`}>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Crosshair className="w-5 h-5 text-primary" />
+              Readout Mitigation
+            </CardTitle>
+            <CardDescription>
+              Calibrate the assignment matrix A (measured × prepared) and invert it by least squares on the probability simplex
+            </CardDescription>
+          </div>
+          {calibration && (
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{sourceLabels[calibration.source]}</Badge>
+              <Badge variant="outline" className="font-mono">
+                Assignment fidelity: {(assignmentFidelity(calibration) * 100).toFixed(2)}%
+              </Badge>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {tooWide ? (
+          <p className="text-sm text-muted-foreground">
+            Readout mitigation supports up to {MAX_MITIGATION_BITS} bits; these counts have {numBits}.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Calibration</label>
+                <Select value={activeMode} onValueChange={(v: CalibrationMode) => setMode(v)}>
+                  <SelectTrigger className="glass w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="full" disabled={!fullAllowed}>
+                      Full ({fullAllowed ? 1 << numBits : `≤ ${MAX_FULL_CALIBRATION_BITS} bits`} circuits)
+                    </SelectItem>
+                    <SelectItem value="per-qubit">Per-qubit (2 circuits)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {calibrate && (
+                <Button onClick={runCalibration}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Run Calibration
+                </Button>
+              )}
+              <input
+                type="file"
+                accept=".csv,.json"
+                onChange={handleUpload}
+                className="hidden"
+                id="calibration-upload"
+              />
+              <label htmlFor="calibration-upload">
+                <Button variant="outline" asChild>
+                  <span className="cursor-pointer">
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload Matrix
+                  </span>
+                </Button>
+              </label>
+              <Button variant="outline" onClick={downloadCircuits}>
+                <Download className="w-4 h-4 mr-2" />
+                Calibration Circuits
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Upload CSV with rows = measured and columns = prepared bitstrings (bit 0 leftmost; header row and label
+              column optional), or JSON as {'{"matrix": [[…]]}'} or {'{"qubits": [[[p00, p01], [p10, p11]], …]}'}.
+            </p>
+
+            {calibration && !matches && (
+              <p className="text-sm text-destructive">
+                The calibration covers {calibrationBits} bits but the counts have {numBits}; recalibrate or upload a
+                matching matrix.
+              </p>
+            )}
+
+            {calibration && (
+              dim <= MAX_TABLE_DIM ? (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="font-mono">meas \ prep</TableHead>
+                        {calibration.matrix.map((_, j) => (
+                          <TableHead key={j} className="font-mono text-right">{basisLabel(j, calibrationBits)}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {calibration.matrix.map((row, i) => (
+                        <TableRow key={i}>
+                          <TableCell className="font-mono">{basisLabel(i, calibrationBits)}</TableCell>
+                          {row.map((v, j) => (
+                            <TableCell key={j} className={`font-mono text-right ${i === j ? 'text-primary' : ''}`}>
+                              {v.toFixed(3)}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : calibration.qubitMatrices ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {calibration.qubitMatrices.map((m, q) => (
+                    <div key={q} className="glass p-3 rounded-lg">
+                      <div className="text-xs text-muted-foreground mb-1">Bit {q}</div>
+                      <div className="font-mono text-sm">P(1|0) = {m[1][0].toFixed(3)}</div>
+                      <div className="font-mono text-sm">P(0|1) = {m[0][1].toFixed(3)}</div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  The {dim}×{dim} matrix is too large to show.
+                </p>
+              )
+            )}
+
+            {ideal && mitigated && (
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="font-mono">
+                  TVD to ideal, raw: {totalVariationDistance(raw, ideal).toFixed(3)}
+                </Badge>
+                <Badge variant="outline" className="font-mono">
+                  mitigated: {totalVariationDistance(mitigated, ideal).toFixed(3)}
+                </Badge>
+              </div>
+            )}
+
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.2} />
+                  <XAxis
+                    dataKey="state"
+                    stroke="hsl(var(--muted-foreground))"
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                    tick={{ fontSize: 12, fontFamily: 'monospace' }}
+                  />
+                  <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px'
+                    }}
+                    formatter={(value: number, name: string) => [`${(value * 100).toFixed(2)}%`, name]}
+                  />
+                  <Legend verticalAlign="top" />
+                  {ideal && <Bar dataKey="ideal" name="Ideal" fill="hsl(220, 70%, 50%)" radius={[4, 4, 0, 0]} />}
+                  <Bar dataKey="raw" name="Raw" fill="hsl(340, 70%, 55%)" radius={[4, 4, 0, 0]} />
+                  {mitigated && <Bar dataKey="mitigated" name="Mitigated" fill="hsl(150, 60%, 45%)" radius={[4, 4, 0, 0]} />}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReadoutMitigationPanel;
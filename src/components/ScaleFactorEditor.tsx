@@ -0,0 +1,141 @@
+import { useRef, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ScaleFactorEditorProps {
+  scaleFactors: number[];
+  onChange: (scaleFactors: number[]) => void;
+  min?: number;
+  max?: number;
+  maxCount?: number;
+  className?: string;
+}
+
+const STEP = 0.05;
+const MIN_COUNT = 2;
+
+const snap = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.round(value / STEP) * STEP));
+
+const sorted = (values: number[]) => values.slice().sort((a, b) => a - b);
+
+// Handles on a track for every scale factor. Dragging only edits a local
+// draft; the parent sees the new (sorted) list when the handle is released,
+// so the folded circuits are not re-simulated on every pointer move.
+const ScaleFactorEditor = ({
+  scaleFactors,
+  onChange,
+  min = 1,
+  max = 5,
+  maxCount = 8,
+  className = '',
+}: ScaleFactorEditorProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<number[] | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const values = draft ?? scaleFactors;
+
+  const position = (value: number) => `${((value - min) / (max - min)) * 100}%`;
+
+  const valueAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return snap(min + ((clientX - rect.left) / rect.width) * (max - min), min, max);
+  };
+
+  const commit = (next: number[]) => {
+    setDraft(null);
+    setDragging(null);
+    onChange(sorted(next));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent, index: number) => {
+    if (dragging !== index) return;
+    setDraft(values.map((v, i) => (i === index ? valueAt(e.clientX) : v)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const delta = e.key === 'ArrowRight' || e.key === 'ArrowUp' ? STEP : e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -STEP : 0;
+    if (!delta) return;
+    e.preventDefault();
+    onChange(scaleFactors.map((v, i) => (i === index ? snap(v + delta, min, max) : v)));
+  };
+
+  // New factors go just past the largest one, or into the widest gap once
+  // the track is full
+  const addFactor = () => {
+    const ordered = sorted(scaleFactors);
+    const last = ordered[ordered.length - 1] ?? min;
+    if (last + 0.5 <= max) {
+      onChange([...ordered, snap(last + 0.5, min, max)]);
+      return;
+    }
+    const gaps = ordered.slice(1).map((v, i) => ({ at: (v + ordered[i]) / 2, width: v - ordered[i] }));
+    const widest = gaps.reduce((best, gap) => (gap.width > best.width ? gap : best), gaps[0]);
+    onChange(sorted([...ordered, snap(widest.at, min, max)]));
+  };
+
+  const removeFactor = (index: number) => {
+    onChange(scaleFactors.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={className}>
+      <div ref={trackRef} className="relative h-8 mx-2 select-none touch-none">
+        <div className="absolute top-1/2 -translate-y-1/2 h-2 w-full rounded-full bg-muted" />
+        {values.map((value, i) => (
+          <div
+            key={i}
+            role="slider"
+            tabIndex={0}
+            aria-label={`Scale factor ${i + 1}`}
+            aria-valuemin={min}
+            aria-valuemax={max}
+            aria-valuenow={value}
+            className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 h-5 w-5 rounded-full border-2 border-primary bg-background cursor-grab shadow-[0_0_10px_hsl(var(--primary)/0.5)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${dragging === i ? 'cursor-grabbing scale-110' : ''}`}
+            style={{ left: position(value) }}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setDragging(i);
+              setDraft(values);
+            }}
+            onPointerMove={(e) => handlePointerMove(e, i)}
+            onPointerUp={() => dragging === i && commit(values)}
+            onKeyDown={(e) => handleKeyDown(e, i)}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground font-mono mx-2 mb-3">
+        <span>{min}</span>
+        <span>{max}</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {values.map((value, i) => (
+          <span key={i} className="inline-flex items-center gap-1 rounded-md border border-border/50 bg-muted/30 pl-2 pr-1 py-0.5 text-xs font-mono">
+            λ={value.toFixed(2)}
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-destructive disabled:opacity-30 disabled:pointer-events-none"
+              onClick={() => removeFactor(i)}
+              disabled={scaleFactors.length <= MIN_COUNT}
+              title="Remove scale factor"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={addFactor}
+          disabled={scaleFactors.length >= maxCount}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ScaleFactorEditor;
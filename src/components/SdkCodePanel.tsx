@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Code2, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Circuit } from '@/lib/quantum/circuit';
+import { CODE_TARGETS, CodeTarget, generateCode } from '@/lib/quantum/codegen';
+
+interface SdkCodePanelProps {
+  circuit: Circuit;
+  shots?: number;
+  className?: string;
+}
+
+const SdkCodePanel = ({ circuit, shots = 1024, className = '' }: SdkCodePanelProps) => {
+  const [target, setTarget] = useState<CodeTarget>('qiskit');
+
+  const copyCode = (code: string, label: string) => {
+    navigator.clipboard.writeText(code);
+    toast.success(`${label} code copied to clipboard`);
+  };
+
+  return (
+    <Card className={`glass border-primary/20 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Code2 className="w-5 h-5 text-primary" />
+          Run It Yourself
+        </CardTitle>
+        <CardDescription>The same circuit as a runnable Python script for your SDK of choice</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={target} onValueChange={(v) => setTarget(v as CodeTarget)}>
+          <TabsList className="grid grid-cols-3 w-full max-w-sm">
+            {CODE_TARGETS.map(({ id, label }) => (
+              <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+            ))}
+          </TabsList>
+          {CODE_TARGETS.map(({ id, label }) => {
+            const code = generateCode(circuit, id, shots);
+            return (
+              <TabsContent key={id} value={id} className="mt-4 space-y-3">
+                <Button variant="outline" onClick={() => copyCode(code, label)}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy {label}
+                </Button>
+                <pre className="bg-muted/30 p-4 rounded-lg overflow-x-auto text-sm font-mono">
+                  <code>{code}</code>
+                </pre>
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SdkCodePanel;
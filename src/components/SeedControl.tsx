@@ -0,0 +1,37 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dices } from 'lucide-react';
+import { MAX_SEED } from '@/lib/random';
+
+interface SeedControlProps {
+  seed: number;
+  onSeedChange: (seed: number) => void;
+  onReroll: () => void;
+  className?: string;
+}
+
+const SeedControl = ({ seed, onSeedChange, onReroll, className = '' }: SeedControlProps) => {
+  return (
+    <div className={className}>
+      <label className="text-sm text-muted-foreground mb-2 block">
+        Random Seed
+      </label>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={0}
+          max={MAX_SEED}
+          value={seed}
+          onChange={(e) => onSeedChange(Number(e.target.value))}
+          className="h-9 font-mono"
+        />
+        <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={onReroll} title="New random seed">
+          <Dices className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">The same seed reproduces the same results</p>
+    </div>
+  );
+};
+
+export default SeedControl;
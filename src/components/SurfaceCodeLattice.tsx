@@ -0,0 +1,136 @@
+import { DecodingGraph } from '@/lib/quantum/decoders';
+import { SurfaceCodeLayout, SurfaceTrial } from '@/lib/quantum/surface-code';
+
+interface SurfaceCodeLatticeProps {
+  layout: SurfaceCodeLayout;
+  graph: DecodingGraph;
+  trial: SurfaceTrial;
+  // Round whose detection events to show, or null for all of them
+  layer: number | null;
+  className?: string;
+}
+
+// Pixels per data-qubit spacing
+const UNIT = 56;
+
+const colors = {
+  x: 'hsl(var(--primary))',
+  z: 'hsl(var(--accent))',
+  event: '#f59e0b',
+  error: '#ef4444',
+  correction: '#3b82f6',
+};
+
+const SurfaceCodeLattice = ({ layout, graph, trial, layer, className = '' }: SurfaceCodeLatticeProps) => {
+  const d = layout.distance;
+  const size = (d + 1) * UNIT;
+  const m = layout.zChecks.length;
+  const qubitPoint = (q: number) => ({ x: ((q % d) + 1) * UNIT, y: (Math.floor(q / d) + 1) * UNIT });
+  const checkPoint = (k: number) => ({ x: (layout.checks[k].col + 1) * UNIT, y: (layout.checks[k].row + 1) * UNIT });
+  const nodeCheck = (node: number) => layout.zChecks[node % m];
+
+  const eventCounts = new Map<number, number>();
+  trial.detectionEvents
+    .filter(node => layer === null || Math.floor(node / m) === layer)
+    .forEach(node => eventCounts.set(nodeCheck(node), (eventCounts.get(nodeCheck(node)) ?? 0) + 1));
+
+  const correctedQubits = new Set<number>();
+  trial.correction.forEach(e => {
+    const { qubit } = graph.edges[e];
+    if (qubit === null) return;
+    if (correctedQubits.has(qubit)) correctedQubits.delete(qubit);
+    else correctedQubits.add(qubit);
+  });
+  const errorQubits = new Set(trial.dataErrors);
+
+  // Interior checks are squares on their four qubits; boundary checks are
+  // half-discs bulging out of the lattice
+  const checkShape = (k: number) => {
+    const check = layout.checks[k];
+    const points = check.qubits.map(qubitPoint);
+    if (points.length === 4) {
+      const [a, b, c, e] = points;
+      return `M ${a.x} ${a.y} L ${b.x} ${b.y} L ${e.x} ${e.y} L ${c.x} ${c.y} Z`;
+    }
+    let [a, b] = points;
+    const centre = checkPoint(k);
+    // The arc drawn with sweep-flag 1 bulges to the left of a → b on screen
+    if ((b.x - a.x) * (centre.y - a.y) - (b.y - a.y) * (centre.x - a.x) > 0) [a, b] = [b, a];
+    return `M ${a.x} ${a.y} A ${UNIT / 2} ${UNIT / 2} 0 0 1 ${b.x} ${b.y} Z`;
+  };
+
+  // The rings mark the net correction; the chain follows the chosen round
+  const inLayer = (node: number) => node !== graph.boundary && Math.floor(node / m) === layer;
+  const chainEdges = trial.correction.filter(e => layer === null || graph.edges[e].nodes.some(inLayer));
+
+  const chain = chainEdges.map(e => {
+    const { nodes: [u, v], qubit } = graph.edges[e];
+    const from = checkPoint(nodeCheck(u));
+    if (qubit === null) {
+      return <circle key={e} cx={from.x} cy={from.y} r={UNIT / 4} fill="none" stroke={colors.correction} strokeWidth={2} strokeDasharray="4 3" />;
+    }
+    const through = qubitPoint(qubit);
+    const to = v === graph.boundary
+      ? { x: 2 * through.x - from.x, y: 2 * through.y - from.y }
+      : checkPoint(nodeCheck(v));
+    return (
+      <polyline
+        key={e}
+        points={`${from.x},${from.y} ${through.x},${through.y} ${to.x},${to.y}`}
+        fill="none"
+        stroke={colors.correction}
+        strokeWidth={3}
+        strokeLinecap="round"
+        opacity={0.8}
+      />
+    );
+  });
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className={`w-full max-w-lg mx-auto ${className}`}>
+      {layout.checks.map((check, k) => {
+        const events = eventCounts.get(k) ?? 0;
+        return (
+          <path
+            key={k}
+            d={checkShape(k)}
+            fill={events ? colors.event : check.type === 'X' ? colors.x : colors.z}
+            fillOpacity={events ? 0.75 : 0.18}
+            stroke="hsl(var(--border))"
+          >
+            <title>{`${check.type} check${events ? `, ${events} detection event${events > 1 ? 's' : ''}` : ''}`}</title>
+          </path>
+        );
+      })}
+      {[...eventCounts].filter(([, n]) => n > 1).map(([k, n]) => {
+        const { x, y } = checkPoint(k);
+        return (
+          <text key={k} x={x} y={y + 4} textAnchor="middle" fontSize={12} fontWeight={600} fill="hsl(var(--foreground))">
+            {n}
+          </text>
+        );
+      })}
+      {chain}
+      {Array.from({ length: layout.numQubits }, (_, q) => {
+        const { x, y } = qubitPoint(q);
+        return (
+          <g key={q}>
+            <circle
+              cx={x}
+              cy={y}
+              r={9}
+              fill={errorQubits.has(q) ? colors.error : 'hsl(var(--card))'}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            {correctedQubits.has(q) && (
+              <circle cx={x} cy={y} r={14} fill="none" stroke={colors.correction} strokeWidth={3} />
+            )}
+            <title>{`Data qubit ${q}${errorQubits.has(q) ? ', X error' : ''}${correctedQubits.has(q) ? ', corrected' : ''}`}</title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default SurfaceCodeLattice;
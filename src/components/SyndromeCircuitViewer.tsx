@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, CircuitBoard, Eraser, SkipBack, SkipForward } from 'lucide-react';
+import CircuitDiagram from '@/components/CircuitDiagram';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import {
+  InjectedError,
+  PauliNoise,
+  buildLookupDecoder,
+  codeCircuit,
+  recoverLogical,
+  runCodeCircuit
+} from '@/lib/quantum/error-correction';
+import { Pauli } from '@/lib/quantum/stabilizer';
+import { LogicalState, StabilizerCode } from '@/lib/quantum/stabilizer-codes';
+import { createRandom } from '@/lib/random';
+
+interface SyndromeCircuitViewerProps {
+  code: StabilizerCode;
+  noise: PauliNoise;
+  logicalState: LogicalState;
+  seed: number;
+  note?: string;
+}
+
+const stateLabels: Record<LogicalState, string> = {
+  '0': '|0⟩',
+  '1': '|1⟩',
+  '+': '|+⟩',
+  '-': '|−⟩',
+};
+
+const SyndromeCircuitViewer = ({ code, noise, logicalState, seed, note }: SyndromeCircuitViewerProps) => {
+  const circuit = useMemo(() => codeCircuit(code, logicalState), [code, logicalState]);
+  const decoder = useMemo(() => buildLookupDecoder(code, noise), [code, noise]);
+  const [step, setStep] = useState(0);
+  const [pauli, setPauli] = useState<Pauli>('X');
+  const [location, setLocation] = useState<{ qubit: number; step: number } | null>(null);
+
+  const n = code.numQubits;
+  const numSteps = circuit.numSteps;
+  const current = Math.min(step, numSteps);
+  const error = useMemo<InjectedError | null>(() => location && { ...location, pauli }, [location, pauli]);
+  const qubitName = (q: number) => (q < n ? `d[${q}]` : `a[${q - n}]`);
+
+  const { tableau, clbits } = useMemo(
+    () => runCodeCircuit(circuit, current, error, createRandom(seed)),
+    [circuit, current, error, seed]
+  );
+  const complete = current === numSteps;
+  const recovery = complete ? recoverLogical(code, logicalState, decoder, tableau, clbits, createRandom(seed + 1)) : null;
+
+  const phase =
+    current < circuit.encoderStart ? 'State preparation'
+      : current < circuit.extractionStart ? 'Encoding'
+      : current < numSteps ? 'Syndrome extraction'
+      : 'Complete';
+
+  return (
+    <Card className="glass border-primary/20 mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CircuitBoard className="w-5 h-5 text-primary" />
+          Syndrome Extraction Circuit
+        </CardTitle>
+        <CardDescription>
+          The {code.name} circuit gate by gate: {stateLabels[logicalState]} is prepared on d[0] and encoded, then
+          each stabilizer generator is measured onto its own ancilla. Click any cell to inject a Pauli error just
+          before that column and step through to see the ancilla outcomes and the recovery.
+          {note && ` ${note}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" onClick={() => setStep(0)} disabled={current === 0} title="Reset">
+              <SkipBack className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setStep(current - 1)} disabled={current === 0} title="Previous column">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setStep(current + 1)} disabled={complete} title="Next column">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setStep(numSteps)} disabled={complete} title="Run to the end">
+              <SkipForward className="w-4 h-4" />
+            </Button>
+          </div>
+          <Slider
+            value={[current]}
+            onValueChange={([v]) => setStep(v)}
+            min={0}
+            max={numSteps}
+            step={1}
+            className="flex-1 min-w-[160px]"
+          />
+          <span className="text-sm font-mono text-muted-foreground">
+            {current}/{numSteps} columns
+          </span>
+          <Badge variant={complete ? 'default' : 'secondary'}>{phase}</Badge>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-sm text-muted-foreground">Injected error:</span>
+          <Select value={pauli} onValueChange={(v: Pauli) => setPauli(v)}>
+            <SelectTrigger className="glass w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="X">X</SelectItem>
+              <SelectItem value="Y">Y</SelectItem>
+              <SelectItem value="Z">Z</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-sm font-mono">
+            {location ? `${pauli} on ${qubitName(location.qubit)} before column ${location.step + 1}` : 'none (click a cell)'}
+          </span>
+          {location && (
+            <Button variant="ghost" size="sm" onClick={() => setLocation(null)}>
+              <Eraser className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        <CircuitDiagram
+          numQubits={circuit.numQubits}
+          gates={circuit.gates}
+          clbitNames={code.stabilizers.map((_, j) => `s${j}`)}
+          numSteps={numSteps}
+          qubitLabel={(q) => `${qubitName(q)} |0⟩`}
+          onCellClick={(qubit, s) => setLocation({ qubit, step: s })}
+          currentStep={current}
+          markers={error ? [{ qubit: error.qubit, step: error.step, label: error.pauli, title: `Injected ${error.pauli} error` }] : []}
+          renderQubitEnd={(q) => (
+            <span className="w-6 font-mono text-sm text-center">
+              {q >= n && clbits[q - n] !== null ? clbits[q - n] : ''}
+            </span>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-medium mb-2">Ancilla Outcomes</h4>
+            <ul className="space-y-1">
+              {code.stabilizers.map((g, j) => (
+                <li key={j} className="flex items-center gap-3 text-sm">
+                  <span className="font-mono text-muted-foreground w-10">a[{j}]</span>
+                  <code className="px-2 py-0.5 bg-muted rounded text-xs font-mono">{g}</code>
+                  <span
+                    className={`ml-auto font-mono w-6 text-center rounded ${clbits[j] === 1 ? 'bg-amber-500/20 text-amber-500' : 'text-muted-foreground'}`}
+                  >
+                    {clbits[j] ?? '–'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="p-4 rounded-lg bg-muted/30 space-y-2 text-sm">
+            <h4 className="font-medium">Recovery</h4>
+            {recovery ? (
+              <>
+                <div className="flex justify-between gap-2">
+                  <span className="text-muted-foreground">Syndrome</span>
+                  <code className="font-mono">{recovery.syndrome}</code>
+                </div>
+                <div className="flex justify-between gap-2">
+                  <span className="text-muted-foreground">Correction</span>
+                  <code className="font-mono">
+                    {recovery.correction === null
+                      ? 'not in lookup table'
+                      : /[XYZ]/.test(recovery.correction) ? recovery.correction : 'none'}
+                  </code>
+                </div>
+                <div className="flex justify-between items-center gap-2">
+                  <span className="text-muted-foreground">Logical readout</span>
+                  <Badge variant={recovery.logicalFailure ? 'destructive' : 'secondary'}>
+                    {recovery.logicalFailure ? 'Logical error' : `${stateLabels[logicalState]} recovered`}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground pt-2">
+                  The lookup decoder for {noise} noise maps the syndrome to its most likely error, which is applied
+                  to the data qubits before the logical qubit is read out. An error on an ancilla, or on a data
+                  qubit partway through the extraction, can leave a syndrome that points at the wrong qubit.
+                </p>
+              </>
+            ) : (
+              <p className="text-muted-foreground">
+                Step to the end of the circuit to decode the syndrome and apply the recovery.
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SyndromeCircuitViewer;
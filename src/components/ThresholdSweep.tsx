@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  ErrorBar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { Play, Square, TrendingDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { useThresholdSweep } from '@/hooks/use-threshold-sweep';
+import { DecoderId, decoderLabels } from '@/lib/quantum/decoders';
+import { PauliNoise, noisePaulis } from '@/lib/quantum/error-correction';
+import { LogicalState } from '@/lib/quantum/stabilizer-codes';
+import { SurfaceNoiseModel, surfaceNoiseLabels } from '@/lib/quantum/surface-code';
+import {
+  ThresholdSeries,
+  countedPaulis,
+  estimateThreshold,
+  logSpacedRates,
+  thresholdSeries
+} from '@/lib/quantum/threshold';
+
+interface ThresholdSweepProps {
+  noise: PauliNoise;
+  logicalState: LogicalState;
+  surfaceModel: SurfaceNoiseModel;
+  rounds: number;
+  decoder: DecoderId;
+  seed: number;
+}
+
+const seriesColors: Record<string, string> = {
+  bitflip: '#a855f7',
+  phaseflip: '#ec4899',
+  shor: '#14b8a6',
+  steane: '#06b6d4',
+  fivequbit: '#84cc16',
+  'surface-3': '#f59e0b',
+  'surface-5': '#3b82f6',
+  'surface-7': '#22c55e',
+};
+
+const formatRate = (p: number) => `${(p * 100).toPrecision(2)}%`;
+
+const ThresholdSweep = ({ noise, logicalState, surfaceModel, rounds, decoder, seed }: ThresholdSweepProps) => {
+  const [seriesIds, setSeriesIds] = useState(['surface-3', 'surface-5', 'surface-7']);
+  const [rateRange, setRateRange] = useState([0.01, 0.2]);
+  const [numRates, setNumRates] = useState(8);
+  const [trialsPerPoint, setTrialsPerPoint] = useState(500);
+  const { results, progress, isRunning, cancelled, start, cancel } = useThresholdSweep();
+
+  const errorRates = logSpacedRates(rateRange[0], rateRange[1], numRates);
+  // Series that cannot fail under this channel would plot as all zeros
+  const available = thresholdSeries.filter(s => countedPaulis(s, noise).length > 0);
+  const runnableIds = seriesIds.filter(id => available.some(s => s.id === id));
+  const usesSurface = runnableIds.some(id => id.startsWith('surface'));
+  const partial = (series: ThresholdSeries) => {
+    const counted = countedPaulis(series, noise);
+    return counted.length > 0 && counted.length < noisePaulis[noise].length ? counted : null;
+  };
+
+  const toggleSeries = (id: string, checked: boolean) =>
+    setSeriesIds(prev => (checked ? thresholdSeries.map(s => s.id).filter(s => s === id || prev.includes(s)) : prev.filter(s => s !== id)));
+
+  const runSweep = () =>
+    start({ seriesIds: runnableIds, errorRates, trialsPerPoint, noise, logicalState, surfaceModel, rounds, decoder, seed });
+
+  const estimate = estimateThreshold(results);
+  const measured = thresholdSeries.filter(s => results[s.id]?.length);
+  const points = measured.flatMap(s => results[s.id]);
+  const xMin = Math.min(...points.map(p => p.errorRate), rateRange[0]);
+  const xMax = Math.max(...points.map(p => p.errorRate), rateRange[1]);
+  // Lowest decade a single failure could reach; zero rates have no place on
+  // a log axis and are left out
+  const maxTrials = Math.max(...points.map(p => p.trials), trialsPerPoint);
+  const yMin = 10 ** Math.floor(Math.log10(0.5 / maxTrials));
+  const chartSeries = measured.map(s => ({
+    ...s,
+    data: [...results[s.id]]
+      .sort((a, b) => a.errorRate - b.errorRate)
+      .filter(p => p.failures > 0)
+      .map(p => ({
+        errorRate: p.errorRate,
+        rate: p.rate,
+        interval: [p.rate - Math.max(p.low, yMin), p.high - p.rate],
+        failures: p.failures,
+        trials: p.trials,
+      })),
+  }));
+  const breakEven = [{ errorRate: xMin, rate: xMin }, { errorRate: xMax, rate: xMax }];
+  const labelOf = (id: string) => thresholdSeries.find(s => s.id === id)?.label ?? id;
+
+  return (
+    <Card className="glass border-primary/20 mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="w-5 h-5 text-primary" />
+          Threshold Sweep
+        </CardTitle>
+        <CardDescription>
+          Logical error rate against physical error rate for several codes, with 95% Wilson intervals. Below
+          threshold a larger distance wins; above it, it loses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="text-sm text-muted-foreground mb-2 block">Codes</label>
+            <div className="grid grid-cols-2 gap-2">
+              {thresholdSeries.map(s => (
+                <label key={s.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={runnableIds.includes(s.id)}
+                    onCheckedChange={checked => toggleSeries(s.id, checked === true)}
+                    disabled={isRunning || !available.includes(s)}
+                  />
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: seriesColors[s.id] }} />
+                  {s.label}
+                  {partial(s) && <span className="text-xs text-muted-foreground">({partial(s).join(', ')} only)</span>}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              The surface memory experiment keeps logical |0⟩ and only counts X and Y errors, so it cannot fail under
+              phase-flip noise and under depolarizing noise sees fewer errors than the other codes.
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                Physical Error Rates: {formatRate(rateRange[0])} – {formatRate(rateRange[1])}
+              </label>
+              <Slider
+                value={rateRange}
+                onValueChange={v => setRateRange(v[0] < v[1] ? v : rateRange)}
+                min={0.001}
+                max={0.3}
+                step={0.001}
+                disabled={isRunning}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                Grid Points: {numRates} (log-spaced)
+              </label>
+              <Slider
+                value={[numRates]}
+                onValueChange={([v]) => setNumRates(v)}
+                min={3}
+                max={15}
+                step={1}
+                disabled={isRunning}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                Trials per Point: {trialsPerPoint}
+              </label>
+              <Slider
+                value={[trialsPerPoint]}
+                onValueChange={([v]) => setTrialsPerPoint(v)}
+                min={100}
+                max={5000}
+                step={100}
+                disabled={isRunning}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Uses the noise channel, logical state and seed from the settings
+              {usesSurface && (
+                <>; surface codes run {surfaceNoiseLabels[surfaceModel].toLowerCase()} noise
+                  {surfaceModel === 'phenomenological' && ` over ${rounds} rounds`} with the{' '}
+                  {decoderLabels[decoder].toLowerCase()} decoder</>
+              )}.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {isRunning ? (
+            <Button variant="outline" onClick={cancel}>
+              <Square className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={runSweep} disabled={runnableIds.length === 0}>
+              <Play className="w-4 h-4 mr-2" />
+              Run Sweep
+            </Button>
+          )}
+          <Progress value={progress * 100} className="flex-1" />
+          <span className="text-sm text-muted-foreground font-mono w-28 text-right">
+            {isRunning ? `${(progress * 100).toFixed(0)}%` : cancelled ? 'Cancelled' : progress === 1 ? 'Done' : ''}
+          </span>
+        </div>
+
+        {measured.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="h-96 lg:col-span-2">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart margin={{ top: 5, right: 30, left: 20, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.2} />
+                  <XAxis
+                    dataKey="errorRate"
+                    type="number"
+                    scale="log"
+                    domain={[xMin, xMax]}
+                    allowDataOverflow
+                    stroke="hsl(var(--muted-foreground))"
+                    tickFormatter={formatRate}
+                    label={{ value: 'Physical error rate', position: 'insideBottom', offset: -10 }}
+                  />
+                  <YAxis
+                    type="number"
+                    scale="log"
+                    domain={[yMin, 1]}
+                    allowDataOverflow
+                    stroke="hsl(var(--muted-foreground))"
+                    tickFormatter={(v) => v.toExponential(0)}
+                    label={{ value: 'Logical error rate', angle: -90, position: 'insideLeft' }}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px'
+                    }}
+                    labelFormatter={(v: number) => `p = ${formatRate(v)}`}
+                    formatter={(value: number, name: string) => [value.toExponential(2), name]}
+                  />
+                  <Legend verticalAlign="top" />
+                  <Line
+                    data={breakEven}
+                    dataKey="rate"
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name="Logical = physical"
+                    isAnimationActive={false}
+                  />
+                  {chartSeries.map(s => (
+                    <Line
+                      key={s.id}
+                      data={s.data}
+                      dataKey="rate"
+                      stroke={seriesColors[s.id]}
+                      strokeWidth={2}
+                      name={s.label}
+                      isAnimationActive={false}
+                    >
+                      <ErrorBar dataKey="interval" width={4} stroke={seriesColors[s.id]} direction="y" />
+                    </Line>
+                  ))}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-4">
+              <div className="p-4 rounded-lg bg-muted/30 text-center">
+                <p className="text-sm text-muted-foreground mb-1">Estimated Threshold</p>
+                <p className="text-3xl font-bold text-gradient">
+                  {estimate.threshold !== null ? formatRate(estimate.threshold) : '—'}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {estimate.threshold !== null
+                    ? 'Geometric mean of the crossings below'
+                    : 'Needs two distances of one code whose curves cross inside the grid'}
+                </p>
+              </div>
+              {estimate.crossings.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {estimate.crossings.map(c => (
+                    <li key={`${c.lower}-${c.upper}`} className="flex justify-between gap-2">
+                      <span className="text-muted-foreground">{labelOf(c.lower)} × {labelOf(c.upper)}</span>
+                      <span className="font-mono" title={`Between ${formatRate(c.bracket[0])} and ${formatRate(c.bracket[1])}`}>
+                        {formatRate(c.errorRate)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Crossings are interpolated between grid points in log p, so their precision is limited by the grid
+                and by the intervals around each point. Points with no failures are left off the log axes. For the
+                phenomenological model the logical rate is per whole memory experiment, not per round.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThresholdSweep;
@@ -0,0 +1,74 @@
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { Random } from '@/lib/random';
+import { loadEditorCircuit } from '@/lib/editor-circuit';
+import { Circuit, CircuitGate } from '@/lib/quantum/circuit';
+import { unitaryPart } from '@/lib/quantum/folding';
+import { BenchmarkId, benchmarkCircuits, observableOptions } from '@/lib/quantum/benchmark-circuits';
+
+export type CircuitSource = 'benchmark' | 'editor';
+
+export interface MitigationExperiment {
+  // Why there is nothing to run; the other fields are empty when set
+  error: string | null;
+  numQubits: number;
+  // Unitary part of the circuit, final measurements dropped
+  gates: CircuitGate[];
+  observable: number[];
+}
+
+// Circuit and observable choice shared by the error mitigation pages, so
+// they all run the same experiments
+export function useMitigationCircuit() {
+  const [circuitSource, setCircuitSource] = useState<CircuitSource>('benchmark');
+  const [benchmarkId, setBenchmarkId] = useState<BenchmarkId>('ghz');
+  const [layers, setLayers] = useState(3);
+  const [editorCircuit, setEditorCircuit] = useState<Circuit | null>(null);
+  const [observableId, setObservableId] = useState('default');
+
+  const benchmark = benchmarkCircuits.find(b => b.id === benchmarkId)!;
+
+  const selectSource = useCallback((source: CircuitSource) => {
+    setCircuitSource(source);
+    if (source === 'editor') {
+      const circuit = loadEditorCircuit();
+      setEditorCircuit(circuit);
+      if (!circuit) toast.error('No circuit found. Build one in the Circuit Visualizer first.');
+    }
+  }, []);
+
+  // The mirror benchmark draws its Clifford layers from `random`
+  const buildExperiment = useCallback((random: Random): MitigationExperiment => {
+    const empty = { numQubits: 0, gates: [], observable: [] };
+    const circuit = circuitSource === 'editor' ? editorCircuit : benchmark.build(layers, random);
+    if (!circuit) {
+      return { ...empty, error: 'Build a circuit in the Circuit Visualizer, then choose it here again.' };
+    }
+    const { gates, error } = unitaryPart(circuit.gates);
+    if (error || gates.length === 0) {
+      return { ...empty, error: error ?? 'The circuit has no gates to run.' };
+    }
+
+    const option = observableOptions.find(o => o.id === observableId);
+    const observable = (option
+      ? option.qubits(circuit.numQubits)
+      : circuitSource === 'benchmark' ? benchmark.observable : observableOptions[2].qubits(circuit.numQubits)
+    ).filter(q => q < circuit.numQubits);
+    return { error: null, numQubits: circuit.numQubits, gates, observable };
+  }, [circuitSource, editorCircuit, benchmark, layers, observableId]);
+
+  return {
+    circuitSource,
+    selectSource,
+    benchmark,
+    setBenchmarkId,
+    layers,
+    setLayers,
+    editorCircuit,
+    observableId,
+    setObservableId,
+    buildExperiment,
+  };
+}
+
+export type MitigationCircuit = ReturnType<typeof useMitigationCircuit>;
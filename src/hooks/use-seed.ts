@@ -0,0 +1,15 @@
+import { useCallback, useState } from 'react';
+import { MAX_SEED, randomSeed } from '@/lib/random';
+
+// Seed state for a simulation page; out-of-range input is clamped
+export function useSeed(initial?: number) {
+  const [seed, setSeedState] = useState(() => initial ?? randomSeed());
+
+  const setSeed = useCallback((value: number) => {
+    setSeedState(Number.isFinite(value) ? Math.min(MAX_SEED, Math.max(0, Math.floor(value))) : 0);
+  }, []);
+
+  const rerollSeed = useCallback(() => setSeedState(randomSeed()), []);
+
+  return { seed, setSeed, rerollSeed };
+}
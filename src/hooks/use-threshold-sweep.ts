@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  ThresholdPoint,
+  ThresholdSweepOptions,
+  ThresholdWorkerMessage,
+  ThresholdWorkerRequest
+} from '@/lib/quantum/threshold';
+
+// Runs threshold sweeps in a web worker. Points arrive as they finish, so a
+// cancelled sweep keeps what it had already measured.
+export function useThresholdSweep() {
+  const workerRef = useRef<Worker | null>(null);
+  const [results, setResults] = useState<Record<string, ThresholdPoint[]>>({});
+  const [progress, setProgress] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => stopWorker, [stopWorker]);
+
+  const start = useCallback((options: ThresholdSweepOptions) => {
+    stopWorker();
+    const worker = new Worker(new URL('../workers/threshold-sweep.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setResults({});
+    setProgress(0);
+    setCancelled(false);
+    setIsRunning(true);
+
+    worker.onmessage = (event: MessageEvent<ThresholdWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.completed / message.total);
+      } else if (message.type === 'point') {
+        setResults(prev => ({
+          ...prev,
+          [message.seriesId]: [...(prev[message.seriesId] ?? []), message.point],
+        }));
+      } else {
+        stopWorker();
+        setIsRunning(false);
+      }
+    };
+    worker.onerror = (event) => {
+      stopWorker();
+      setIsRunning(false);
+      toast.error(`Threshold sweep failed: ${event.message || 'the worker stopped'}`);
+    };
+    const request: ThresholdWorkerRequest = { type: 'start', options };
+    worker.postMessage(request);
+  }, [stopWorker]);
+
+  const cancel = useCallback(() => {
+    stopWorker();
+    setIsRunning(false);
+    setCancelled(true);
+  }, [stopWorker]);
+
+  return { results, progress, isRunning, cancelled, start, cancel };
+}
@@ -0,0 +1,42 @@
+import { CircuitGate, CircuitGateType, gateQubits } from './quantum/circuit';
+
+// How gates look wherever a circuit is drawn: colour classes, the symbol on
+// the gate box and a one-line text form
+
+export const gateColors: Record<CircuitGateType, string> = {
+  H: 'bg-blue-500',
+  X: 'bg-red-500',
+  Y: 'bg-green-500',
+  Z: 'bg-purple-500',
+  CNOT: 'bg-orange-500',
+  CZ: 'bg-amber-600',
+  SWAP: 'bg-teal-500',
+  CCX: 'bg-rose-600',
+  CCZ: 'bg-violet-600',
+  MCX: 'bg-orange-700',
+  T: 'bg-pink-500',
+  S: 'bg-cyan-500',
+  Rx: 'bg-orange-400',
+  Ry: 'bg-lime-600',
+  Rz: 'bg-indigo-500',
+  M: 'bg-yellow-500'
+};
+
+export const gateSymbol = (gate: CircuitGate) => {
+  if (gate.type === 'SWAP') return '×';
+  if (gate.type === 'CNOT' || gate.type === 'CCX' || gate.type === 'MCX') return '⊕';
+  if (gate.type === 'CZ' || gate.type === 'CCZ') return 'Z';
+  return gate.type;
+};
+
+export const formatAngle = (angle: number) => `${(angle / Math.PI).toFixed(2)}π`;
+
+export const formatGate = (gate: CircuitGate, clbits: string[] = []) => {
+  const name = gate.angle !== undefined ? `${gate.type}(${formatAngle(gate.angle)})` : gate.type;
+  const base = `${name}[${gateQubits(gate).map(q => `q${q}`).join(', ')}]`;
+  const target = gate.type === 'M' && gate.clbit !== undefined ? ` → ${clbits[gate.clbit] ?? `c${gate.clbit}`}` : '';
+  const condition = gate.condition
+    ? ` if ${clbits[gate.condition.clbit] ?? `c${gate.condition.clbit}`}=${gate.condition.value}`
+    : '';
+  return base + target + condition;
+};
@@ -0,0 +1,26 @@
+import { Circuit } from './quantum/circuit';
+
+// The Circuit Visualizer keeps its current circuit here so that other pages
+// (ZNE, PEC, ...) can run it
+const STORAGE_KEY = 'quantum-harmony-lab:editor-circuit';
+
+export const saveEditorCircuit = (circuit: Circuit) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(circuit));
+  } catch {
+    // Storage can be full or disabled; the editor itself keeps working
+  }
+};
+
+export const loadEditorCircuit = (): Circuit | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const circuit = JSON.parse(raw) as Circuit;
+    return Number.isInteger(circuit.numQubits) && Array.isArray(circuit.gates) && Array.isArray(circuit.clbits)
+      ? circuit
+      : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,118 @@
+import { Circuit, CircuitGate, CircuitGateType, compactCircuit } from './circuit';
+import { inverseGate } from './folding';
+import { Random } from '../random';
+
+export type BenchmarkId = 'ghz' | 'grover' | 'mirror' | 'ansatz';
+
+export interface BenchmarkCircuit {
+  id: BenchmarkId;
+  label: string;
+  description: string;
+  // Qubits of the Z-string observable this benchmark is usually read out with
+  observable: number[];
+  // Whether `layers` changes the circuit
+  layered: boolean;
+  build: (layers: number, random: Random) => Circuit;
+}
+
+const gate = (type: CircuitGateType, targets: number[], step: number, controls: number[] = [], angle?: number): CircuitGate => ({
+  id: '',
+  type,
+  targets,
+  controls,
+  step,
+  angle,
+});
+
+const withIds = (gates: CircuitGate[]) => gates.map((g, i) => ({ ...g, id: `bench-${i}` }));
+
+const cliffords: CircuitGateType[] = ['H', 'S', 'X', 'Y', 'Z'];
+
+export const benchmarkCircuits: BenchmarkCircuit[] = [
+  {
+    id: 'ghz',
+    label: 'GHZ state (3 qubits)',
+    description: '(|000⟩ + |111⟩)/√2; ideal ⟨Z₀Z₂⟩ = 1',
+    observable: [0, 2],
+    layered: false,
+    build: () => ({
+      numQubits: 3,
+      clbits: [],
+      gates: withIds([gate('H', [0], 0), gate('CNOT', [1], 1, [0]), gate('CNOT', [2], 2, [1])]),
+    }),
+  },
+  {
+    id: 'grover',
+    label: 'Grover search for |11⟩',
+    description: 'One Grover iteration on 2 qubits finds |11⟩ with certainty; ideal ⟨Z₀⟩ = -1',
+    observable: [0],
+    layered: false,
+    build: () => ({
+      numQubits: 2,
+      clbits: [],
+      gates: withIds([
+        gate('H', [0], 0), gate('H', [1], 0),
+        gate('CZ', [1], 1, [0]),
+        gate('H', [0], 2), gate('H', [1], 2),
+        gate('X', [0], 3), gate('X', [1], 3),
+        gate('CZ', [1], 4, [0]),
+        gate('X', [0], 5), gate('X', [1], 5),
+        gate('H', [0], 6), gate('H', [1], 6),
+      ]),
+    }),
+  },
+  {
+    id: 'mirror',
+    label: 'Mirror circuit (3 qubits)',
+    description: 'Random Clifford layers followed by their inverse; ideal ⟨Z₀Z₁Z₂⟩ = 1',
+    observable: [0, 1, 2],
+    layered: true,
+    build: (layers, random) => {
+      const forward: CircuitGate[] = [];
+      for (let layer = 0; layer < layers; layer++) {
+        for (let q = 0; q < 3; q++) {
+          forward.push(gate(cliffords[Math.floor(random() * cliffords.length)], [q], 2 * layer));
+        }
+        const control = layer % 2;
+        forward.push(gate('CNOT', [control + 1], 2 * layer + 1, [control]));
+      }
+      const mirrored = forward.slice().reverse().map(inverseGate);
+      return {
+        numQubits: 3,
+        clbits: [],
+        gates: compactCircuit(withIds([...forward, ...mirrored].map((g, i) => ({ ...g, step: i })))),
+      };
+    },
+  },
+  {
+    id: 'ansatz',
+    label: 'Hardware-efficient ansatz (2 qubits)',
+    description: 'Layers of Ry rotations and a CNOT, as in a small VQE; observable Z₀Z₁',
+    observable: [0, 1],
+    layered: true,
+    build: layers => ({
+      numQubits: 2,
+      clbits: [],
+      gates: withIds(Array.from({ length: layers }, (_, layer) => [
+        gate('Ry', [0], 2 * layer, [], 0.4 + 0.15 * layer),
+        gate('Ry', [1], 2 * layer, [], 0.9 - 0.1 * layer),
+        gate('CNOT', [1], 2 * layer + 1, [0]),
+      ]).flat()),
+    }),
+  },
+];
+
+export interface ObservableOption {
+  id: string;
+  label: string;
+  qubits: (numQubits: number) => number[];
+}
+
+// Z-string observables offered for any circuit, besides each benchmark's own
+export const observableOptions: ObservableOption[] = [
+  { id: 'z0', label: 'Z₀', qubits: () => [0] },
+  { id: 'z01', label: 'Z₀Z₁', qubits: () => [0, 1] },
+  { id: 'all', label: 'Z⊗…⊗Z (all qubits)', qubits: n => Array.from({ length: n }, (_, q) => q) },
+];
+
+export const formatObservable = (qubits: number[]) => qubits.map(q => `Z${q}`).join('');
@@ -0,0 +1,133 @@
+import { CircuitGate, isRotationGate, sortByStep } from './circuit';
+import { NoiseModel, noisyDistribution } from './noisy-circuit';
+import { normalizeCounts, sampleDistribution, zExpectation } from './distributions';
+import { idealExpectation } from './zne';
+import { Random } from '../random';
+
+// Clifford Data Regression. Circuits that keep only a few of the target's
+// non-Clifford gates are cheap to simulate classically, so their ideal values
+// are known; running them on the noisy device as well gives (noisy, ideal)
+// pairs, and a straight line fitted to those maps the target's noisy value
+// to a mitigated one. Unlike ZNE it assumes nothing about how noise scales.
+
+const HALF_PI = Math.PI / 2;
+
+const isCliffordAngle = (angle: number) => Math.abs(angle / HALF_PI - Math.round(angle / HALF_PI)) < 1e-9;
+
+// Single-qubit gates CDR can swap for a Clifford. CCX, CCZ and MCX with two or
+// more controls are non-Clifford too, but have no nearby Clifford, so
+// training circuits keep them.
+const isReplaceable = (gate: CircuitGate) =>
+  gate.type === 'T' || (isRotationGate(gate.type) && !isCliffordAngle(gate.angle ?? 0));
+
+const isClifford = (gate: CircuitGate) =>
+  !isReplaceable(gate) && !['CCX', 'CCZ'].includes(gate.type) && !(gate.type === 'MCX' && gate.controls.length > 1);
+
+export const countNonClifford = (gates: CircuitGate[]) => gates.filter(g => !isClifford(g)).length;
+
+// One of the two multiples of π/2 around the gate's angle, the nearer one
+// more likely: P ∝ e^(-d²/σ²) with d the angular distance
+const cliffordReplacement = (gate: CircuitGate, random: Random): CircuitGate => {
+  const type = gate.type === 'T' ? 'Rz' : gate.type;
+  const angle = gate.type === 'T' ? Math.PI / 4 : gate.angle ?? 0;
+  const below = Math.floor(angle / HALF_PI) * HALF_PI;
+  const above = below + HALF_PI;
+  const sigma = 0.5;
+  const wBelow = Math.exp(-(((angle - below) / sigma) ** 2));
+  const wAbove = Math.exp(-(((above - angle) / sigma) ** 2));
+  return { ...gate, type, angle: random() * (wBelow + wAbove) < wBelow ? below : above };
+};
+
+// A training circuit: `keep` randomly chosen replaceable gates stay as they
+// are, every other one becomes a nearby Clifford
+export const nearCliffordCircuit = (gates: CircuitGate[], keep: number, random: Random): CircuitGate[] => {
+  const candidates = gates.map((g, i) => (isReplaceable(g) ? i : -1)).filter(i => i >= 0);
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+  }
+  const kept = new Set(candidates.slice(0, keep));
+  return gates.map((g, i) => (isReplaceable(g) && !kept.has(i) ? cliffordReplacement(g, random) : g));
+};
+
+export interface CdrTrainingPoint {
+  noisy: number;
+  ideal: number;
+}
+
+export interface CdrResult {
+  training: CdrTrainingPoint[];
+  // ideal ≈ slope · noisy + intercept
+  slope: number;
+  intercept: number;
+  noisyTarget: number;
+  mitigated: number;
+  // 95% interval of `mitigated` from resampling the training pairs
+  lower: number;
+  upper: number;
+  error: string | null;
+}
+
+// Least-squares line through the pairs; null if every noisy value is the same
+const fitLine = (points: CdrTrainingPoint[]) => {
+  const n = points.length;
+  const mx = points.reduce((acc, p) => acc + p.noisy, 0) / n;
+  const my = points.reduce((acc, p) => acc + p.ideal, 0) / n;
+  const sxx = points.reduce((acc, p) => acc + (p.noisy - mx) ** 2, 0);
+  const sxy = points.reduce((acc, p) => acc + (p.noisy - mx) * (p.ideal - my), 0);
+  if (sxx < 1e-12) return null;
+  const slope = sxy / sxx;
+  return { slope, intercept: my - slope * mx };
+};
+
+const noisyEstimate = (gates: CircuitGate[], numQubits: number, observable: number[], noise: NoiseModel, shots: number, random: Random) => {
+  const { distribution } = noisyDistribution(gates, numQubits, 0, noise);
+  return zExpectation(normalizeCounts(sampleDistribution(distribution, shots, random)), observable);
+};
+
+export const runCdr = (
+  gates: CircuitGate[],
+  numQubits: number,
+  observable: number[],
+  noise: NoiseModel,
+  numTraining: number,
+  keepNonClifford: number,
+  shots: number,
+  random: Random
+): CdrResult => {
+  const ordered = sortByStep(gates);
+  const failed = (error: string): CdrResult => ({
+    training: [], slope: NaN, intercept: NaN, noisyTarget: NaN, mitigated: NaN, lower: NaN, upper: NaN, error,
+  });
+  if (!ordered.some(isReplaceable)) {
+    return failed('The circuit has no T or non-Clifford rotation gates, so every training circuit would be the circuit itself');
+  }
+
+  const training = Array.from({ length: numTraining }, () => {
+    const circuit = nearCliffordCircuit(ordered, keepNonClifford, random);
+    return {
+      noisy: noisyEstimate(circuit, numQubits, observable, noise, shots, random),
+      ideal: idealExpectation(circuit, numQubits, observable),
+    };
+  });
+  const line = fitLine(training);
+  if (!line) return { ...failed('Every training circuit gave the same noisy value; try more of them'), training };
+
+  const noisyTarget = noisyEstimate(ordered, numQubits, observable, noise, shots, random);
+  const resampled: number[] = [];
+  for (let r = 0; r < 200; r++) {
+    const fit = fitLine(training.map(() => training[Math.floor(random() * training.length)]));
+    if (fit) resampled.push(fit.slope * noisyTarget + fit.intercept);
+  }
+  resampled.sort((a, b) => a - b);
+
+  return {
+    training,
+    ...line,
+    noisyTarget,
+    mitigated: line.slope * noisyTarget + line.intercept,
+    lower: resampled[Math.floor(0.025 * (resampled.length - 1))] ?? NaN,
+    upper: resampled[Math.ceil(0.975 * (resampled.length - 1))] ?? NaN,
+    error: null,
+  };
+};
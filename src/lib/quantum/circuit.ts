@@ -0,0 +1,254 @@
+import { GateName, gateMatrix, SWAP_MATRIX } from './gates';
+import { Matrix } from './matrix';
+import {
+  StateVector,
+  zeroState,
+  applyGate,
+  measureQubit,
+  probabilities,
+  qubitProbabilities,
+  sampleCounts
+} from './state-vector';
+
+export type CircuitGateType =
+  | 'H' | 'X' | 'Y' | 'Z' | 'T' | 'S'
+  | 'Rx' | 'Ry' | 'Rz'
+  | 'CNOT' | 'CZ' | 'SWAP' | 'CCX' | 'CCZ' | 'MCX'
+  | 'M';
+
+// Classically-controlled execution, like Qiskit's c_if on a single bit
+export interface ClassicalCondition {
+  clbit: number;
+  value: 0 | 1;
+}
+
+export interface CircuitGate {
+  id: string;
+  type: CircuitGateType;
+  // One target qubit, or the two swapped qubits for SWAP
+  targets: number[];
+  controls: number[];
+  // Moment (column) the gate sits in; gates in one column act in parallel
+  step: number;
+  // Rotation angle in radians for Rx/Ry/Rz
+  angle?: number;
+  // Classical bit an M gate writes its outcome to
+  clbit?: number;
+  condition?: ClassicalCondition;
+}
+
+export interface Circuit {
+  numQubits: number;
+  // Names of the classical bits, bit 0 first
+  clbits: string[];
+  gates: CircuitGate[];
+}
+
+// How many control qubits each controlled gate takes
+export const controlArity: Partial<Record<CircuitGateType, { min: number; max: number }>> = {
+  CNOT: { min: 1, max: 1 },
+  CZ: { min: 1, max: 1 },
+  CCX: { min: 2, max: 2 },
+  CCZ: { min: 2, max: 2 },
+  MCX: { min: 1, max: Infinity },
+};
+
+// Single-qubit operator applied to the target of each controlled gate
+const controlledBase: Partial<Record<CircuitGateType, GateName>> = {
+  CNOT: 'X',
+  CCX: 'X',
+  MCX: 'X',
+  CZ: 'Z',
+  CCZ: 'Z',
+};
+
+export const isRotationGate = (type: CircuitGateType) => type === 'Rx' || type === 'Ry' || type === 'Rz';
+
+export const isControlledGate = (type: CircuitGateType) => controlArity[type] !== undefined;
+
+export const isMultiQubitGate = (type: CircuitGateType) => isControlledGate(type) || type === 'SWAP';
+
+export const gateQubits = (gate: CircuitGate) => [...gate.controls, ...gate.targets];
+
+// Topmost and bottommost qubit the gate touches, including wires it crosses
+export const gateSpan = (gate: CircuitGate): [number, number] => {
+  const qubits = gateQubits(gate);
+  return [Math.min(...qubits), Math.max(...qubits)];
+};
+
+const spansOverlap = (a: [number, number], b: [number, number]) => a[0] <= b[1] && b[0] <= a[1];
+
+// Gates in time order; insertion order breaks ties inside a column
+export const sortByStep = (gates: CircuitGate[]) =>
+  gates.map((gate, idx) => ({ gate, idx }))
+    .sort((a, b) => a.gate.step - b.gate.step || a.idx - b.idx)
+    .map(({ gate }) => gate);
+
+// The gate already drawn where `gate` would go, if any
+export const findStepConflict = (gates: CircuitGate[], gate: CircuitGate): CircuitGate | undefined => {
+  const span = gateSpan(gate);
+  return gates.find(g => g.id !== gate.id && g.step === gate.step && spansOverlap(gateSpan(g), span));
+};
+
+// Classical bits the gate writes (M) or reads (condition)
+export const gateClbits = (gate: CircuitGate) => [
+  ...(gate.type === 'M' && gate.clbit !== undefined ? [gate.clbit] : []),
+  ...(gate.condition ? [gate.condition.clbit] : []),
+];
+
+// Slides every gate left to the earliest column its span is free in, without
+// reordering gates that share a qubit or a classical bit. A column needs the
+// whole span so the drawn gate does not cross another one; circuitDepth only
+// counts the qubits a gate acts on, so it can be smaller than the columns.
+export const compactCircuit = (gates: CircuitGate[]): CircuitGate[] => {
+  const frontier: number[] = [];
+  const classicalFrontier: number[] = [];
+  return sortByStep(gates).map(gate => {
+    const [top, bottom] = gateSpan(gate);
+    const clbits = gateClbits(gate);
+    let step = Math.max(0, ...clbits.map(b => classicalFrontier[b] ?? 0));
+    for (let q = top; q <= bottom; q++) step = Math.max(step, frontier[q] ?? 0);
+    for (let q = top; q <= bottom; q++) frontier[q] = step + 1;
+    clbits.forEach(b => { classicalFrontier[b] = step + 1; });
+    return { ...gate, step };
+  });
+};
+
+// Number of layers when every gate runs as early as its own qubits and
+// classical bits allow
+export const circuitDepth = (gates: CircuitGate[]): number => {
+  const frontier: number[] = [];
+  const classicalFrontier: number[] = [];
+  let depth = 0;
+  sortByStep(gates).forEach(gate => {
+    const qubits = gateQubits(gate);
+    const clbits = gateClbits(gate);
+    const layer = Math.max(
+      ...qubits.map(q => frontier[q] ?? 0),
+      ...clbits.map(b => classicalFrontier[b] ?? 0)
+    ) + 1;
+    qubits.forEach(q => { frontier[q] = layer; });
+    clbits.forEach(b => { classicalFrontier[b] = layer; });
+    depth = Math.max(depth, layer);
+  });
+  return depth;
+};
+
+const isClbitIndex = (clbit: number, numClbits: number) => Number.isInteger(clbit) && clbit >= 0 && clbit < numClbits;
+
+// Returns a user-facing reason the gate cannot be placed, or null if it is valid
+export const validateGate = (gate: CircuitGate, numQubits: number, numClbits = Infinity): string | null => {
+  const qubits = gateQubits(gate);
+  if (qubits.some(q => q < 0 || q >= numQubits)) {
+    return 'Gate uses a qubit outside the circuit';
+  }
+  if (gate.type === 'M' && (gate.clbit === undefined || !isClbitIndex(gate.clbit, numClbits))) {
+    return 'Measurement needs a classical bit to write to';
+  }
+  if (gate.condition && !isClbitIndex(gate.condition.clbit, numClbits)) {
+    return 'Condition reads a classical bit that does not exist';
+  }
+  if (new Set(qubits).size !== qubits.length) {
+    return 'A qubit cannot be both control and target';
+  }
+  if (gate.type === 'SWAP' && gate.targets.length !== 2) {
+    return 'SWAP needs two distinct qubits';
+  }
+  const arity = controlArity[gate.type];
+  if (arity && (gate.controls.length < arity.min || gate.controls.length > arity.max)) {
+    return arity.min === arity.max
+      ? `${gate.type} needs exactly ${arity.min} control qubit${arity.min > 1 ? 's' : ''}`
+      : `${gate.type} needs at least ${arity.min} control qubit`;
+  }
+  return null;
+};
+
+// Unitary acting on the gate's targets; controls are applied around it
+export const gateOperator = (gate: CircuitGate): Matrix => {
+  if (gate.type === 'SWAP') return SWAP_MATRIX;
+  const base = controlledBase[gate.type] ?? (gate.type as GateName);
+  return gateMatrix(base, gate.angle ?? 0);
+};
+
+const applyCircuitGate = (state: StateVector, gate: CircuitGate): StateVector =>
+  applyGate(state, gateOperator(gate), gate.targets, gate.controls);
+
+export const conditionHolds = (gate: CircuitGate, clbits: number[]) =>
+  !gate.condition || (clbits[gate.condition.clbit] ?? 0) === gate.condition.value;
+
+export const hasMeasurements = (gates: CircuitGate[]) => gates.some(g => g.type === 'M');
+
+// Evolves |0…0⟩ through the circuit over the joint amplitude vector, so
+// multi-qubit gates entangle. Measurements are skipped and conditions read a
+// fresh all-zero classical register.
+export const runCircuit = (gates: CircuitGate[], numQubits: number): StateVector => {
+  let state = zeroState(numQubits);
+
+  sortByStep(gates).forEach(gate => {
+    if (gate.type === 'M' || validateGate(gate, numQubits) || !conditionHolds(gate, [])) return;
+    state = applyCircuitGate(state, gate);
+  });
+
+  return state;
+};
+
+// One trajectory: measurements collapse the state as they are reached and
+// later gates see the classical bits written so far.
+export const runShot = (
+  gates: CircuitGate[],
+  numQubits: number,
+  numClbits: number,
+  random: () => number = Math.random
+): { state: StateVector; clbits: number[] } => {
+  let state = zeroState(numQubits);
+  const clbits: number[] = Array(numClbits).fill(0);
+
+  sortByStep(gates).forEach(gate => {
+    if (validateGate(gate, numQubits, numClbits) || !conditionHolds(gate, clbits)) return;
+    if (gate.type === 'M') {
+      const result = measureQubit(state, gate.targets[0], random);
+      state = result.state;
+      clbits[gate.clbit!] = result.outcome;
+    } else {
+      state = applyCircuitGate(state, gate);
+    }
+  });
+
+  return { state, clbits };
+};
+
+export interface ShotResults {
+  // Histogram keys are qubit bitstrings, or classical register values
+  // (bit 0 leftmost) once the circuit contains measurements
+  register: 'qubits' | 'classical';
+  counts: Record<string, number>;
+  // P(|1⟩) of each qubit at the end of the circuit, averaged over shots
+  qubitP1: number[];
+}
+
+export const simulateShots = (
+  gates: CircuitGate[],
+  numQubits: number,
+  numClbits: number,
+  shots: number,
+  random: () => number = Math.random
+): ShotResults => {
+  if (!hasMeasurements(gates)) {
+    const state = runCircuit(gates, numQubits);
+    return {
+      register: 'qubits',
+      counts: sampleCounts(probabilities(state), numQubits, shots, random),
+      qubitP1: Array.from({ length: numQubits }, (_, q) => qubitProbabilities(state, q)[1]),
+    };
+  }
+
+  const counts: Record<string, number> = {};
+  const qubitP1: number[] = Array(numQubits).fill(0);
+  for (let s = 0; s < shots; s++) {
+    const { state, clbits } = runShot(gates, numQubits, numClbits, random);
+    const key = clbits.join('');
+    counts[key] = (counts[key] || 0) + 1;
+    for (let q = 0; q < numQubits; q++) qubitP1[q] += qubitProbabilities(state, q)[1] / shots;
+  }
+  return { register: 'classical', counts, qubitP1 };
+};
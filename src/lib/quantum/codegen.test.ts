@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Circuit, CircuitGate } from './circuit';
+import { generateCode } from './codegen';
+
+const gate = (type: CircuitGate['type'], targets: number[], step: number, extra: Partial<CircuitGate> = {}): CircuitGate => ({
+  id: `${step}-${type}-${targets.join('')}`,
+  type,
+  targets,
+  controls: [],
+  step,
+  ...extra,
+});
+
+// The Circuit Visualizer's repeat-until-success example, which measures c0 twice
+const repeatUntilSuccess: Circuit = {
+  numQubits: 2,
+  clbits: ['c0', 'c1'],
+  gates: [
+    gate('H', [0], 0),
+    gate('M', [0], 1, { clbit: 0 }),
+    gate('H', [0], 2, { condition: { clbit: 0, value: 0 } }),
+    gate('M', [0], 3, { clbit: 0, condition: { clbit: 0, value: 0 } }),
+    gate('CNOT', [1], 4, { controls: [0] }),
+    gate('M', [1], 5, { clbit: 1 }),
+  ],
+};
+
+const measurementKeys = (code: string) => [...code.matchAll(/cirq\.measure\([^)]*key='([^']+)'\)/g)].map(m => m[1]);
+
+describe('generateCode for Cirq', () => {
+  it('gives every measurement in the repeat-until-success example its own key', () => {
+    const code = generateCode(repeatUntilSuccess, 'cirq');
+    const keys = measurementKeys(code);
+    expect(keys).toEqual(['c0_0', 'c0_1', 'c1']);
+    expect(new Set(keys).size).toBe(keys.length);
+    // The conditional H and re-measurement read the first c0 measurement
+    expect(code).toContain(`cirq.H(q[0]).with_classical_controls(sympy.Eq(sympy.Symbol('c0_0'), 0))`);
+    expect(code).toContain(`key='c0_1').with_classical_controls(sympy.Eq(sympy.Symbol('c0_0'), 0))`);
+    expect(code).not.toContain('multi_measurement_histogram');
+    expect(code).toContain(`bit_keys = [['c0_0', 'c0_1'], ['c1']]`);
+  });
+
+  it('keeps bit names as keys when each bit is measured once', () => {
+    const circuit: Circuit = {
+      numQubits: 1,
+      clbits: ['c0'],
+      gates: [gate('H', [0], 0), gate('M', [0], 1, { clbit: 0 })],
+    };
+    const code = generateCode(circuit, 'cirq');
+    expect(measurementKeys(code)).toEqual(['c0']);
+    expect(code).toContain(`multi_measurement_histogram(keys=['c0'])`);
+  });
+
+  it('notes conditions on unmeasured bits the same way as PennyLane', () => {
+    const circuit: Circuit = {
+      numQubits: 1,
+      clbits: ['c0'],
+      gates: [
+        gate('X', [0], 0, { condition: { clbit: 0, value: 1 } }),
+        gate('Z', [0], 1, { condition: { clbit: 0, value: 0 } }),
+        gate('M', [0], 2, { clbit: 0 }),
+      ],
+    };
+    const cirq = generateCode(circuit, 'cirq');
+    const pennylane = generateCode(circuit, 'pennylane');
+    const comments = (code: string) => code.split('\n').map(line => line.trim()).filter(line => line.startsWith('# c0'));
+    expect(comments(cirq)).toEqual([
+      '# c0 is never measured before this point, so the c_if on c0 == 1 never fires',
+      '# c0 is never measured before this point, so the c_if on c0 == 0 always fires',
+    ]);
+    expect(comments(cirq)).toEqual(comments(pennylane));
+    expect(cirq).not.toContain('cirq.X(');
+    expect(cirq).toContain('cirq.Moment(cirq.Z(q[0])),');
+  });
+});
@@ -0,0 +1,322 @@
+import { Circuit, CircuitGate, gateClbits, hasMeasurements, sortByStep } from './circuit';
+import { angleExpression } from './gates';
+
+export type CodeTarget = 'qiskit' | 'cirq' | 'pennylane';
+
+export const CODE_TARGETS: { id: CodeTarget; label: string }[] = [
+  { id: 'qiskit', label: 'Qiskit' },
+  { id: 'cirq', label: 'Cirq' },
+  { id: 'pennylane', label: 'PennyLane' },
+];
+
+// Python keywords and the names the generated scripts use themselves
+const reservedNames = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+  'np', 'pi', 'qml', 'cirq', 'sympy', 'q', 'qc', 'sim', 'dev', 'circuit', 'result', 'counts',
+]);
+
+// Classical bit names are identifiers already; this only dodges collisions
+const pythonName = (name: string) => (reservedNames.has(name) ? `${name}_` : name);
+
+// Classical bits referenced anywhere in the circuit, in register order
+const usedClbits = (circuit: Circuit) => {
+  const used = new Set(circuit.gates.flatMap(gateClbits));
+  return circuit.clbits.map((_, i) => i).filter(i => used.has(i));
+};
+
+// Walks the gates in time order and reports whether each condition reads a bit
+// that has been written yet; unwritten bits are 0, so those conditions are
+// resolved here for SDKs that cannot test a bit before it is measured.
+const withConditionState = (gates: CircuitGate[]) => {
+  const written = new Set<number>();
+  return sortByStep(gates).map(gate => {
+    const unwritten = gate.condition !== undefined && !written.has(gate.condition.clbit);
+    if (gate.type === 'M' && gate.clbit !== undefined) written.add(gate.clbit);
+    return { gate, unwritten };
+  });
+};
+
+const unwrittenComment = (gate: CircuitGate, bit: string, skipped: boolean) =>
+  `# ${bit} is never measured before this point, so the c_if on ${bit} == ${gate.condition!.value} ` +
+  (skipped ? 'never fires' : 'always fires');
+
+// ---------------------------------------------------------------------------
+// Qiskit
+
+const qiskitOperation = (gate: CircuitGate, bits: string[]): string => {
+  const qs = (qubits: number[]) => qubits.map(i => `q[${i}]`).join(', ');
+  const target = qs(gate.targets);
+  switch (gate.type) {
+    case 'CNOT':
+      return `qc.cx(${qs(gate.controls)}, ${target})`;
+    case 'CZ':
+      return `qc.cz(${qs(gate.controls)}, ${target})`;
+    case 'CCX':
+      return `qc.ccx(${qs(gate.controls)}, ${target})`;
+    case 'CCZ':
+      return `qc.ccz(${qs(gate.controls)}, ${target})`;
+    case 'MCX':
+      return `qc.mcx([${qs(gate.controls)}], ${target})`;
+    case 'SWAP':
+      return `qc.swap(${target})`;
+    case 'Rx':
+    case 'Ry':
+    case 'Rz':
+      return `qc.${gate.type.toLowerCase()}(${angleExpression(gate.angle ?? 0)}, ${target})`;
+    case 'M':
+      return `qc.measure(${target}, ${bits[gate.clbit!]}[0])`;
+    default:
+      return `qc.${gate.type.toLowerCase()}(${target})`;
+  }
+};
+
+const generateQiskit = (circuit: Circuit, shots: number): string => {
+  const bits = circuit.clbits.map(pythonName);
+  const registers = usedClbits(circuit).map(i => bits[i]);
+  const lines = [
+    'from math import pi',
+    'from qiskit import QuantumCircuit, QuantumRegister, ClassicalRegister, transpile',
+    'from qiskit_aer import AerSimulator',
+    '',
+    `q = QuantumRegister(${circuit.numQubits}, 'q')`,
+    // One single-bit register per named bit so if_test can read it on its own
+    ...registers.map(bit => `${bit} = ClassicalRegister(1, '${bit}')`),
+    `qc = QuantumCircuit(${['q', ...registers].join(', ')})`,
+    '',
+  ];
+
+  sortByStep(circuit.gates).forEach(gate => {
+    const operation = qiskitOperation(gate, bits);
+    if (!gate.condition) {
+      lines.push(operation);
+      return;
+    }
+    lines.push(`with qc.if_test((${bits[gate.condition.clbit]}[0], ${gate.condition.value})):`, `    ${operation}`);
+  });
+  if (!hasMeasurements(circuit.gates)) lines.push('qc.measure_all()');
+
+  lines.push(
+    '',
+    'sim = AerSimulator()',
+    `counts = sim.run(transpile(qc, sim), shots=${shots}).result().get_counts()`,
+    '# Qiskit prints the last qubit / register on the left, the reverse of this editor',
+    'print(counts)',
+  );
+  return lines.join('\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// Cirq
+
+const cirqOperation = (gate: CircuitGate, key: string): string => {
+  const qs = (qubits: number[]) => qubits.map(i => `q[${i}]`).join(', ');
+  const all = qs([...gate.controls, ...gate.targets]);
+  switch (gate.type) {
+    case 'CNOT':
+      return `cirq.CNOT(${all})`;
+    case 'CZ':
+      return `cirq.CZ(${all})`;
+    case 'CCX':
+      return `cirq.CCX(${all})`;
+    case 'CCZ':
+      return `cirq.CCZ(${all})`;
+    case 'MCX':
+      return `cirq.X(${qs(gate.targets)}).controlled_by(${qs(gate.controls)})`;
+    case 'SWAP':
+      return `cirq.SWAP(${all})`;
+    case 'Rx':
+    case 'Ry':
+    case 'Rz':
+      return `cirq.${gate.type.toLowerCase()}(${angleExpression(gate.angle ?? 0, 'np.pi')})(${all})`;
+    case 'M':
+      return `cirq.measure(${all}, key='${key}')`;
+    default:
+      return `cirq.${gate.type}(${all})`;
+  }
+};
+
+// Cirq needs one key per measurement, so a bit measured more than once gets a
+// numbered key for each write; single-measurement bits keep their name
+const cirqMeasurementKeys = (gates: CircuitGate[], bits: string[]) => {
+  const writes = new Map<number, number>();
+  gates.forEach(g => {
+    if (g.type === 'M' && g.clbit !== undefined) writes.set(g.clbit, (writes.get(g.clbit) ?? 0) + 1);
+  });
+  const seen = new Map<number, number>();
+  const keyOf = new Map<CircuitGate, string>();
+  const keysByBit = new Map<number, string[]>();
+  sortByStep(gates).forEach(g => {
+    if (g.type !== 'M' || g.clbit === undefined) return;
+    const index = seen.get(g.clbit) ?? 0;
+    seen.set(g.clbit, index + 1);
+    const key = writes.get(g.clbit)! > 1 ? `${bits[g.clbit]}_${index}` : bits[g.clbit];
+    keyOf.set(g, key);
+    keysByBit.set(g.clbit, [...(keysByBit.get(g.clbit) ?? []), key]);
+  });
+  return { keyOf, keysByBit };
+};
+
+const generateCirq = (circuit: Circuit, shots: number): string => {
+  const bits = circuit.clbits.map(pythonName);
+  const { keyOf, keysByBit } = cirqMeasurementKeys(circuit.gates, bits);
+  const latestKey = new Map<number, string>();
+  const steps = new Map<number, { comments: string[]; operations: string[] }>();
+  let needsSympy = false;
+
+  withConditionState(circuit.gates).forEach(({ gate, unwritten }) => {
+    const step = steps.get(gate.step) ?? { comments: [], operations: [] };
+    steps.set(gate.step, step);
+    let operation = cirqOperation(gate, keyOf.get(gate) ?? '');
+    if (gate.condition) {
+      const bit = bits[gate.condition.clbit];
+      // Controls read the most recent measurement of the bit
+      const key = latestKey.get(gate.condition.clbit);
+      if (unwritten || key === undefined) {
+        const skipped = gate.condition.value === 1;
+        step.comments.push(unwrittenComment(gate, bit, skipped));
+        if (skipped) return;
+      } else if (gate.condition.value === 1) {
+        operation += `.with_classical_controls('${key}')`;
+      } else {
+        needsSympy = true;
+        operation += `.with_classical_controls(sympy.Eq(sympy.Symbol('${key}'), 0))`;
+      }
+    }
+    if (gate.type === 'M' && gate.clbit !== undefined) latestKey.set(gate.clbit, keyOf.get(gate)!);
+    step.operations.push(operation);
+  });
+
+  const moments = [...steps.keys()].sort((a, b) => a - b).flatMap(step => {
+    const { comments, operations } = steps.get(step)!;
+    return [
+      ...comments.map(comment => `    ${comment}`),
+      ...(operations.length ? [`    cirq.Moment(${operations.join(', ')}),`] : []),
+    ];
+  });
+  const measured = usedClbits(circuit).filter(i => keysByBit.has(i));
+  if (!hasMeasurements(circuit.gates)) {
+    moments.push(`    cirq.Moment(cirq.measure(*q, key='result')),`);
+  }
+  const rewritten = measured.some(i => keysByBit.get(i)!.length > 1);
+
+  const header = [
+    ...(rewritten ? ['import collections'] : []),
+    'import numpy as np',
+    'import cirq',
+    ...(needsSympy ? ['import sympy'] : []),
+    '',
+    `q = cirq.LineQubit.range(${circuit.numQubits})`,
+    'circuit = cirq.Circuit(',
+    ...moments,
+    ')',
+    '',
+    `result = cirq.Simulator().run(circuit, repetitions=${shots})`,
+  ];
+  if (!rewritten) {
+    const keys = measured.length ? measured.map(i => `'${bits[i]}'`) : [`'result'`];
+    return [...header, `print(result.multi_measurement_histogram(keys=[${keys.join(', ')}]))`].join('\n') + '\n';
+  }
+
+  // result.measurements rejects repeated or conditional keys, so each bit's
+  // value is the last record any of its keys wrote in that repetition
+  const keyLists = measured.map(i => `[${keysByBit.get(i)!.map(key => `'${key}'`).join(', ')}]`);
+  return [
+    ...header,
+    '',
+    'def last_value(keys, rep):',
+    '    for key in reversed(keys):',
+    '        records = result.records.get(key)',
+    '        if records is not None and rep < len(records) and len(records[rep]):',
+    '            return int(records[rep][-1][0])',
+    '    return 0',
+    '',
+    `bit_keys = [${keyLists.join(', ')}]`,
+    `counts = collections.Counter(tuple(last_value(keys, rep) for keys in bit_keys) for rep in range(${shots}))`,
+    'print(counts)',
+  ].join('\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// PennyLane
+
+const pennylaneNames: Record<string, string> = {
+  H: 'Hadamard',
+  X: 'PauliX',
+  Y: 'PauliY',
+  Z: 'PauliZ',
+  S: 'S',
+  T: 'T',
+  Rx: 'RX',
+  Ry: 'RY',
+  Rz: 'RZ',
+  CNOT: 'CNOT',
+  CZ: 'CZ',
+  SWAP: 'SWAP',
+  CCX: 'Toffoli',
+  CCZ: 'CCZ',
+  MCX: 'MultiControlledX',
+};
+
+const generatePennyLane = (circuit: Circuit, shots: number): string => {
+  const bits = circuit.clbits.map(pythonName);
+  const body: string[] = [];
+  const measured: number[] = [];
+
+  withConditionState(circuit.gates).forEach(({ gate, unwritten }) => {
+    if (gate.type === 'M') {
+      body.push(`${bits[gate.clbit!]} = qml.measure(${gate.targets[0]})`);
+      if (!measured.includes(gate.clbit!)) measured.push(gate.clbit!);
+      return;
+    }
+    const wires = [...gate.controls, ...gate.targets];
+    const wireArg = wires.length === 1 ? `wires=${wires[0]}` : `wires=[${wires.join(', ')}]`;
+    const angle = gate.angle !== undefined ? `${angleExpression(gate.angle, 'np.pi')}, ` : '';
+    const name = `qml.${pennylaneNames[gate.type]}`;
+
+    if (!gate.condition) {
+      body.push(`${name}(${angle}${wireArg})`);
+      return;
+    }
+    const bit = bits[gate.condition.clbit];
+    if (unwritten) {
+      const skipped = gate.condition.value === 1;
+      body.push(unwrittenComment(gate, bit, skipped));
+      if (!skipped) body.push(`${name}(${angle}${wireArg})`);
+      return;
+    }
+    body.push(`qml.cond(${bit} == ${gate.condition.value}, ${name})(${angle}${wireArg})`);
+  });
+
+  measured.sort((a, b) => a - b);
+  const returned = measured.length
+    ? `qml.counts(op=[${measured.map(i => bits[i]).join(', ')}])`
+    : `qml.counts(wires=range(${circuit.numQubits}))`;
+
+  return [
+    'import numpy as np',
+    'import pennylane as qml',
+    '',
+    `dev = qml.device('default.qubit', wires=${circuit.numQubits}, shots=${shots})`,
+    '',
+    '@qml.qnode(dev)',
+    'def circuit():',
+    ...body.map(line => `    ${line}`),
+    `    return ${returned}`,
+    '',
+    'print(circuit())',
+  ].join('\n') + '\n';
+};
+
+// Runnable Python for the circuit in the chosen SDK, with gates in time order
+export const generateCode = (circuit: Circuit, target: CodeTarget, shots = 1024): string => {
+  switch (target) {
+    case 'qiskit':
+      return generateQiskit(circuit, shots);
+    case 'cirq':
+      return generateCirq(circuit, shots);
+    case 'pennylane':
+      return generatePennyLane(circuit, shots);
+  }
+};
@@ -0,0 +1,38 @@
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export const complex = (re: number, im = 0): Complex => ({ re, im });
+
+export const ZERO: Complex = { re: 0, im: 0 };
+export const ONE: Complex = { re: 1, im: 0 };
+export const I: Complex = { re: 0, im: 1 };
+
+export const add = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+export const sub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+
+export const mul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+export const scale = (a: Complex, s: number): Complex => ({ re: a.re * s, im: a.im * s });
+
+export const conj = (a: Complex): Complex => ({ re: a.re, im: -a.im });
+
+export const neg = (a: Complex): Complex => ({ re: -a.re, im: -a.im });
+
+// |a|², the probability weight of an amplitude
+export const abs2 = (a: Complex): number => a.re * a.re + a.im * a.im;
+
+export const abs = (a: Complex): number => Math.sqrt(abs2(a));
+
+// e^(iθ)
+export const expi = (theta: number): Complex => ({ re: Math.cos(theta), im: Math.sin(theta) });
+
+export const formatComplex = (a: Complex, digits = 3): string => {
+  const sign = a.im < 0 ? '-' : '+';
+  return `${a.re.toFixed(digits)} ${sign} ${Math.abs(a.im).toFixed(digits)}i`;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DecoderId, decoders } from './decoders';
+import { surfaceCodeLayout, surfaceDecodingGraph } from './surface-code';
+
+const layout = surfaceCodeLayout(3);
+const zQubits = layout.zChecks.map(k => layout.checks[k].qubits);
+
+// Applies the fault edges and the correction, then reports whether the data
+// qubits are left with a Z syndrome or a flipped logical Z
+const residual = (layers: number, decoder: DecoderId, fault: number) => {
+  const graph = surfaceDecodingGraph(layout, layers);
+  const defects = graph.edges[fault].nodes.filter(node => node !== graph.boundary);
+  const correction = decoders[decoder](graph, defects);
+  const frame = new Uint8Array(layout.numQubits);
+  [fault, ...correction].forEach(e => {
+    const { qubit } = graph.edges[e];
+    if (qubit !== null) frame[qubit] ^= 1;
+  });
+  return {
+    syndrome: zQubits.map(qubits => qubits.reduce((acc, q) => acc ^ frame[q], 0)),
+    logical: layout.logicalZ.reduce((acc, q) => acc ^ frame[q], 0),
+  };
+};
+
+describe.each<DecoderId>(['mwpm', 'union-find'])('%s decoder on the d = 3 surface code', decoder => {
+  it('corrects every single data-qubit error', () => {
+    const graph = surfaceDecodingGraph(layout, 1);
+    expect(graph.edges).toHaveLength(layout.numQubits);
+    graph.edges.forEach((_, fault) => {
+      const { syndrome, logical } = residual(1, decoder, fault);
+      expect(syndrome.every(s => s === 0)).toBe(true);
+      expect(logical).toBe(0);
+    });
+  });
+
+  it('corrects every single data or measurement fault over three rounds', () => {
+    const graph = surfaceDecodingGraph(layout, 3);
+    graph.edges.forEach((_, fault) => {
+      const { syndrome, logical } = residual(3, decoder, fault);
+      expect(syndrome.every(s => s === 0)).toBe(true);
+      expect(logical).toBe(0);
+    });
+  });
+});
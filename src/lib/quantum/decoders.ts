@@ -0,0 +1,200 @@
+import { WeightedEdge, minimumWeightPerfectMatching } from './matching';
+
+// Decoders for codes whose errors light up detection events in pairs, like
+// the surface code: every edge of the decoding graph is one possible fault
+// (a data-qubit error or a flipped measurement) and flips the detectors at
+// its two ends. Boundary edges have a single detector and end on the shared
+// `boundary` node. A decoder picks a set of edges whose endpoints are
+// exactly the detection events; the data-qubit edges among them are the
+// correction.
+
+export interface DecodingEdge {
+  nodes: [number, number];
+  // Data qubit the fault is on, or null for a measurement error
+  qubit: number | null;
+}
+
+export interface DecodingGraph {
+  // Detector nodes are 0..numNodes-1; `boundary` is one past them
+  numNodes: number;
+  boundary: number;
+  edges: DecodingEdge[];
+  // Edge indices at each node, boundary included
+  incident: number[][];
+}
+
+export const createDecodingGraph = (numNodes: number, edges: DecodingEdge[]): DecodingGraph => {
+  const incident: number[][] = Array.from({ length: numNodes + 1 }, () => []);
+  edges.forEach(({ nodes: [u, v] }, e) => {
+    incident[u].push(e);
+    incident[v].push(e);
+  });
+  return { numNodes, boundary: numNodes, edges, incident };
+};
+
+export type DecoderId = 'mwpm' | 'union-find';
+
+export const decoderLabels: Record<DecoderId, string> = {
+  mwpm: 'Minimum-weight perfect matching',
+  'union-find': 'Union-find',
+};
+
+const otherEnd = (graph: DecodingGraph, e: number, node: number) => {
+  const [u, v] = graph.edges[e].nodes;
+  return u === node ? v : u;
+};
+
+// Unit-weight shortest paths from `source`, not passing through the boundary
+const breadthFirst = (graph: DecodingGraph, source: number) => {
+  const distance: number[] = Array(graph.numNodes + 1).fill(Infinity);
+  const via: number[] = Array(graph.numNodes + 1).fill(-1);
+  distance[source] = 0;
+  const queue = [source];
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    if (node === graph.boundary) continue;
+    graph.incident[node].forEach(e => {
+      const next = otherEnd(graph, e, node);
+      if (distance[next] !== Infinity) return;
+      distance[next] = distance[node] + 1;
+      via[next] = e;
+      queue.push(next);
+    });
+  }
+  return { distance, via };
+};
+
+// Toggling membership makes edges used twice cancel
+const toggle = (set: Set<number>, e: number) => {
+  if (set.has(e)) set.delete(e);
+  else set.add(e);
+};
+
+// Pairs detection events with each other or with the boundary at the least
+// total path length. Each event gets a private boundary copy, and the copies
+// match each other for free, so any event can leave through the boundary.
+export const decodeMwpm = (graph: DecodingGraph, defects: number[]): number[] => {
+  const k = defects.length;
+  if (k === 0) return [];
+  const searches = defects.map(d => breadthFirst(graph, d));
+  const edges: WeightedEdge[] = [];
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) {
+      const d = searches[i].distance[defects[j]];
+      if (d !== Infinity) edges.push([i, j, d]);
+      edges.push([k + i, k + j, 0]);
+    }
+    const toBoundary = searches[i].distance[graph.boundary];
+    if (toBoundary !== Infinity) edges.push([i, k + i, toBoundary]);
+  }
+  const mate = minimumWeightPerfectMatching(edges);
+
+  const correction = new Set<number>();
+  const walk = (from: number, to: number) => {
+    const { via } = searches[from];
+    for (let node = to; node !== defects[from]; node = otherEnd(graph, via[node], node)) toggle(correction, via[node]);
+  };
+  for (let i = 0; i < k; i++) {
+    const m = mate[i];
+    if (m >= k) walk(i, graph.boundary);
+    else if (m > i) walk(i, defects[m]);
+  }
+  return [...correction];
+};
+
+// Delfosse and Nickerson's almost-linear decoder: clusters around the
+// detection events grow by half-edges until each holds an even number of
+// events or touches the boundary, then a spanning forest of every cluster is
+// peeled from the leaves inwards to pick the edges that pair its events.
+export const decodeUnionFind = (graph: DecodingGraph, defects: number[]): number[] => {
+  const size = graph.numNodes + 1;
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const parity: number[] = Array(size).fill(0);
+  const touchesBoundary: boolean[] = Array(size).fill(false);
+  const members: number[][] = Array.from({ length: size }, (_, i) => [i]);
+  const support: number[] = Array(graph.edges.length).fill(0);
+  const isDefect: boolean[] = Array(size).fill(false);
+  defects.forEach(d => {
+    isDefect[d] = true;
+    parity[d] = 1;
+  });
+  touchesBoundary[graph.boundary] = true;
+
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  const union = (a: number, b: number) => {
+    let ra = find(a);
+    let rb = find(b);
+    if (ra === rb) return;
+    if (members[ra].length < members[rb].length) [ra, rb] = [rb, ra];
+    parent[rb] = ra;
+    parity[ra] ^= parity[rb];
+    touchesBoundary[ra] = touchesBoundary[ra] || touchesBoundary[rb];
+    members[ra].push(...members[rb]);
+    members[rb] = [];
+  };
+  const isOdd = (root: number) => parity[root] === 1 && !touchesBoundary[root];
+
+  // Growth: every odd cluster adds half an edge on each edge leaving it
+  for (;;) {
+    const odd = [...new Set(defects.map(find))].filter(isOdd);
+    if (odd.length === 0) break;
+    const grown: number[] = [];
+    odd.forEach(root => {
+      members[root].forEach(node => {
+        if (node === graph.boundary) return;
+        graph.incident[node].forEach(e => {
+          if (support[e] < 2) {
+            support[e]++;
+            if (support[e] === 2) grown.push(e);
+          }
+        });
+      });
+    });
+    grown.forEach(e => union(...graph.edges[e].nodes));
+  }
+
+  // Peeling: a spanning tree of the fully grown edges in each cluster,
+  // rooted at the boundary when the cluster reaches it
+  const marked = [...isDefect];
+  const visited: boolean[] = Array(size).fill(false);
+  const correction: number[] = [];
+  const roots = [...new Set(defects.map(find))];
+  roots.forEach(root => {
+    const nodes = members[root];
+    const start = nodes.includes(graph.boundary) ? graph.boundary : nodes[0];
+    const order: { node: number; edge: number }[] = [];
+    visited[start] = true;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      graph.incident[node].forEach(e => {
+        if (support[e] < 2) return;
+        const next = otherEnd(graph, e, node);
+        if (visited[next]) return;
+        visited[next] = true;
+        order.push({ node: next, edge: e });
+        queue.push(next);
+      });
+    }
+    for (let i = order.length - 1; i >= 0; i--) {
+      const { node, edge } = order[i];
+      if (!marked[node]) continue;
+      correction.push(edge);
+      marked[node] = false;
+      const up = otherEnd(graph, edge, node);
+      if (up !== graph.boundary) marked[up] = !marked[up];
+    }
+  });
+  return correction;
+};
+
+export const decoders: Record<DecoderId, (graph: DecodingGraph, defects: number[]) => number[]> = {
+  mwpm: decodeMwpm,
+  'union-find': decodeUnionFind,
+};
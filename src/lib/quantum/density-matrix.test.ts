@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { CircuitGate, gateOperator, runCircuit } from './circuit';
+import {
+  applyUnitary,
+  densityBlochVector,
+  densityFromState,
+  densityProbabilities,
+  fidelityWithState,
+  mixDensities,
+  purity,
+  trace,
+  zeroDensity
+} from './density-matrix';
+import { NOISELESS_MODEL, noisyDistribution } from './noisy-circuit';
+import { basisLabel, probabilities, qubitBlochVector } from './state-vector';
+
+const gate = (type: CircuitGate['type'], targets: number[], step: number, extra: Partial<CircuitGate> = {}): CircuitGate => ({
+  id: `${step}-${type}-${targets.join('')}`,
+  type,
+  targets,
+  controls: [],
+  step,
+  ...extra,
+});
+
+// Every unitary gate type, entangling all three qubits with complex amplitudes
+const circuit: CircuitGate[] = [
+  gate('H', [0], 0),
+  gate('Rx', [1], 0, { angle: 0.7 }),
+  gate('Ry', [2], 0, { angle: -1.1 }),
+  gate('CNOT', [1], 1, { controls: [0] }),
+  gate('T', [2], 1),
+  gate('S', [0], 2),
+  gate('CZ', [2], 2, { controls: [1] }),
+  gate('Rz', [1], 3, { angle: 2.3 }),
+  gate('Y', [0], 3),
+  gate('SWAP', [0, 2], 4),
+  gate('CCX', [1], 5, { controls: [0, 2] }),
+  gate('CCZ', [0], 6, { controls: [1, 2] }),
+  gate('MCX', [2], 7, { controls: [0, 1] }),
+  gate('X', [1], 8),
+  gate('Z', [2], 8),
+];
+
+const evolve = (gates: CircuitGate[], numQubits: number) =>
+  gates.reduce((dm, g) => applyUnitary(dm, gateOperator(g), g.targets, g.controls), zeroDensity(numQubits));
+
+describe('density matrices on noiseless circuits', () => {
+  it('equal |ψ⟩⟨ψ| of the state-vector result', () => {
+    const expected = densityFromState(runCircuit(circuit, 3)).rho;
+    const dm = evolve(circuit, 3);
+    dm.rho.forEach((row, i) => row.forEach((v, j) => {
+      expect(v.re).toBeCloseTo(expected[i][j].re, 12);
+      expect(v.im).toBeCloseTo(expected[i][j].im, 12);
+    }));
+    expect(trace(dm)).toBeCloseTo(1, 12);
+    expect(purity(dm)).toBeCloseTo(1, 12);
+    expect(fidelityWithState(dm, runCircuit(circuit, 3))).toBeCloseTo(1, 12);
+  });
+
+  it('give the same probabilities and Bloch vectors as the state vector', () => {
+    const state = runCircuit(circuit, 3);
+    const dm = evolve(circuit, 3);
+    densityProbabilities(dm).forEach((p, i) => expect(p).toBeCloseTo(probabilities(state)[i], 12));
+    [0, 1, 2].forEach(q => {
+      const expected = qubitBlochVector(state, q);
+      const bloch = densityBlochVector(dm, q);
+      expect(bloch.x).toBeCloseTo(expected.x, 12);
+      expect(bloch.y).toBeCloseTo(expected.y, 12);
+      expect(bloch.z).toBeCloseTo(expected.z, 12);
+    });
+  });
+
+  it('give the state-vector distribution through noisyDistribution', () => {
+    const probs = probabilities(runCircuit(circuit, 3));
+    const unmeasured = noisyDistribution(circuit, 3, 0, NOISELESS_MODEL);
+    expect(unmeasured.register).toBe('qubits');
+    probs.forEach((p, i) => expect(unmeasured.distribution[basisLabel(i, 3)]).toBeCloseTo(p, 12));
+
+    // Measuring qubit q into bit q at the end reads the same distribution
+    const measured = noisyDistribution(
+      [...circuit, ...[0, 1, 2].map(q => gate('M', [q], 9, { clbit: q }))],
+      3,
+      3,
+      NOISELESS_MODEL
+    );
+    expect(measured.register).toBe('classical');
+    probs.forEach((p, i) => expect(measured.distribution[basisLabel(i, 3)] ?? 0).toBeCloseTo(p, 12));
+  });
+
+  it('branch on mid-circuit measurements', () => {
+    const theta = 1.2;
+    const { distribution } = noisyDistribution([
+      gate('Ry', [0], 0, { angle: theta }),
+      gate('M', [0], 1, { clbit: 0 }),
+      gate('X', [1], 2, { condition: { clbit: 0, value: 1 } }),
+      gate('M', [1], 3, { clbit: 1 }),
+    ], 2, 2, NOISELESS_MODEL);
+    expect(Object.keys(distribution).sort()).toEqual(['00', '11']);
+    expect(distribution['11']).toBeCloseTo(Math.sin(theta / 2) ** 2, 12);
+  });
+});
+
+describe('mixDensities', () => {
+  it('halves the purity of an even mix of orthogonal states', () => {
+    const zero = zeroDensity(1);
+    const one = applyUnitary(zero, gateOperator(gate('X', [0], 0)), [0]);
+    const mixed = mixDensities([{ weight: 0.5, dm: zero }, { weight: 0.5, dm: one }]);
+    expect(trace(mixed)).toBeCloseTo(1, 12);
+    expect(purity(mixed)).toBeCloseTo(0.5, 12);
+    Object.values(densityBlochVector(mixed, 0)).forEach(c => expect(c).toBeCloseTo(0, 12));
+  });
+});
@@ -0,0 +1,108 @@
+import { Complex, ZERO, ONE, add, mul, conj, scale } from './complex';
+import { Matrix, dagger } from './matrix';
+import { StateVector, BlochVector, bitMask, applyGate } from './state-vector';
+
+// Mixed state of n qubits as a 2^n × 2^n matrix, using the same basis order as
+// StateVector (qubit 0 is the most significant bit).
+export interface DensityMatrix {
+  numQubits: number;
+  rho: Matrix;
+}
+
+// A channel given by its Kraus operators, ρ → Σ K ρ K†
+export type KrausChannel = Matrix[];
+
+// |ψ⟩⟨ψ|
+export const densityFromState = (state: StateVector): DensityMatrix => ({
+  numQubits: state.numQubits,
+  rho: state.amplitudes.map(a => state.amplitudes.map(b => mul(a, conj(b)))),
+});
+
+export const zeroDensity = (numQubits: number): DensityMatrix => {
+  const dim = 1 << numQubits;
+  return {
+    numQubits,
+    rho: Array.from({ length: dim }, (_, i) =>
+      Array.from({ length: dim }, (_, j) => (i === 0 && j === 0 ? ONE : ZERO))
+    ),
+  };
+};
+
+// K·ρ, treating every column of ρ as a state vector
+const applyLeft = (rho: Matrix, numQubits: number, op: Matrix, targets: number[], controls: number[]): Matrix => {
+  const columns = rho[0].map((_, j) =>
+    applyGate({ numQubits, amplitudes: rho.map(row => row[j]) }, op, targets, controls).amplitudes
+  );
+  return rho.map((_, i) => columns.map(col => col[i]));
+};
+
+// K ρ K† for an operator on `targets`; since ρ is Hermitian this is K (K ρ)†
+export const applyOperator = (
+  dm: DensityMatrix,
+  op: Matrix,
+  targets: number[],
+  controls: number[] = []
+): DensityMatrix => {
+  const left = applyLeft(dm.rho, dm.numQubits, op, targets, controls);
+  return { numQubits: dm.numQubits, rho: applyLeft(dagger(left), dm.numQubits, op, targets, controls) };
+};
+
+// Unitary gates conjugate ρ exactly like a single Kraus operator
+export const applyUnitary = applyOperator;
+
+const addMatrices = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => add(v, b[i][j])));
+
+export const applyChannel = (dm: DensityMatrix, channel: KrausChannel, targets: number[]): DensityMatrix => {
+  const terms = channel.map(k => applyOperator(dm, k, targets).rho);
+  return { numQubits: dm.numQubits, rho: terms.reduce(addMatrices) };
+};
+
+// Convex mixture Σ pᵢ ρᵢ, e.g. to merge the branches of a measurement
+export const mixDensities = (parts: { weight: number; dm: DensityMatrix }[]): DensityMatrix => ({
+  numQubits: parts[0].dm.numQubits,
+  rho: parts
+    .map(({ weight, dm }) => dm.rho.map(row => row.map(v => scale(v, weight))))
+    .reduce(addMatrices),
+});
+
+export const trace = (dm: DensityMatrix): number => dm.rho.reduce((acc, row, i) => acc + row[i].re, 0);
+
+// Tr(ρ²): 1 for pure states, 1/2^n for the maximally mixed state
+export const purity = (dm: DensityMatrix): number =>
+  dm.rho.reduce((acc, row, i) => acc + row.reduce((s, v, j) => s + mul(v, dm.rho[j][i]).re, 0), 0);
+
+export const densityProbabilities = (dm: DensityMatrix): number[] => dm.rho.map((row, i) => Math.max(0, row[i].re));
+
+// ⟨ψ|ρ|ψ⟩, the fidelity of ρ with a pure target state
+export const fidelityWithState = (dm: DensityMatrix, state: StateVector): number => {
+  const psi = state.amplitudes;
+  let total: Complex = ZERO;
+  dm.rho.forEach((row, i) => {
+    row.forEach((v, j) => {
+      total = add(total, mul(mul(conj(psi[i]), v), psi[j]));
+    });
+  });
+  return total.re;
+};
+
+// One qubit's reduced 2×2 density matrix, tracing out the rest
+export const reducedQubit = (dm: DensityMatrix, qubit: number): Matrix => {
+  const mask = bitMask(qubit, dm.numQubits);
+  let rho00 = 0;
+  let rho11 = 0;
+  let rho01: Complex = ZERO;
+  dm.rho.forEach((row, i) => {
+    if (i & mask) {
+      rho11 += row[i].re;
+    } else {
+      rho00 += row[i].re;
+      rho01 = add(rho01, row[i | mask]);
+    }
+  });
+  return [[{ re: rho00, im: 0 }, rho01], [conj(rho01), { re: rho11, im: 0 }]];
+};
+
+export const densityBlochVector = (dm: DensityMatrix, qubit: number): BlochVector => {
+  const [[rho00, rho01], [, rho11]] = reducedQubit(dm, qubit);
+  return { x: 2 * rho01.re, y: -2 * rho01.im, z: rho00.re - rho11.re };
+};
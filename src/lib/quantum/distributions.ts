@@ -0,0 +1,54 @@
+// Probability distributions over measurement outcomes, keyed by bitstring
+
+export type Distribution = Record<string, number>;
+
+export const normalizeCounts = (counts: Record<string, number>): Distribution => {
+  const total = Object.values(counts).reduce((a, b) => a + b, 0) || 1;
+  return Object.fromEntries(Object.entries(counts).map(([key, count]) => [key, count / total]));
+};
+
+const outcomes = (p: Distribution, q: Distribution) => [...new Set([...Object.keys(p), ...Object.keys(q)])];
+
+// ½ Σ |p(x) - q(x)|: 0 for identical distributions, 1 for disjoint ones
+export const totalVariationDistance = (p: Distribution, q: Distribution): number =>
+  outcomes(p, q).reduce((acc, key) => acc + Math.abs((p[key] ?? 0) - (q[key] ?? 0)), 0) / 2;
+
+// (Σ √(p(x) q(x)))², the squared Bhattacharyya coefficient; this is what
+// Qiskit reports as hellinger_fidelity
+export const hellingerFidelity = (p: Distribution, q: Distribution): number => {
+  const overlap = outcomes(p, q).reduce((acc, key) => acc + Math.sqrt((p[key] ?? 0) * (q[key] ?? 0)), 0);
+  return overlap * overlap;
+};
+
+// Draws `shots` outcomes from a distribution
+export const sampleDistribution = (
+  distribution: Distribution,
+  shots: number,
+  random: () => number = Math.random
+): Record<string, number> => {
+  const entries = Object.entries(distribution).filter(([, p]) => p > 0);
+  const total = entries.reduce((acc, [, p]) => acc + p, 0);
+  const counts: Record<string, number> = {};
+  for (let s = 0; s < shots; s++) {
+    const r = random() * total;
+    let cumulative = 0;
+    let key = entries[entries.length - 1][0];
+    for (const [outcome, p] of entries) {
+      cumulative += p;
+      if (r < cumulative) {
+        key = outcome;
+        break;
+      }
+    }
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+};
+
+// ⟨Z⊗…⊗Z⟩ on `qubits`: each outcome counts +1 or -1 by the parity of those
+// bits (qubit 0 is the leftmost character)
+export const zExpectation = (distribution: Distribution, qubits: number[]): number =>
+  Object.entries(distribution).reduce((acc, [bits, p]) => {
+    const parity = qubits.reduce((par, q) => par ^ (bits[q] === '1' ? 1 : 0), 0);
+    return acc + (parity ? -p : p);
+  }, 0);
@@ -0,0 +1,170 @@
+import { gateMatrix } from './gates';
+import { CircuitGate, gateQubits, sortByStep } from './circuit';
+import { DensityMatrix, applyChannel, applyUnitary, mixDensities, zeroDensity } from './density-matrix';
+import { relaxation } from './noise-channels';
+import { NoiseModel, applyNoisyGate } from './noisy-circuit';
+import { Random, gaussian } from '../random';
+
+// Dynamical decoupling. A qubit left idle picks up a phase from its frequency
+// offset; if the offset drifts slowly compared with a circuit, π pulses that
+// flip the qubit halfway through the wait make the second half undo the
+// first, like a spin echo. Markovian dephasing (the phase damping that T2
+// models) is too fast to be echoed away, so DD only removes the slow part.
+
+export type DdSequenceId = 'XX' | 'XY4' | 'CPMG';
+
+export interface DdSequence {
+  id: DdSequenceId;
+  label: string;
+  description: string;
+  pulses: ('X' | 'Y')[];
+  // evenly spaced from the start of the window, or CPMG-style with half a
+  // gap before the first pulse and after the last
+  spacing: 'uniform' | 'centered';
+}
+
+export const ddSequences: DdSequence[] = [
+  {
+    id: 'XX',
+    label: 'XX',
+    description: 'Two X pulses at even intervals; the simplest echo',
+    pulses: ['X', 'X'],
+    spacing: 'uniform',
+  },
+  {
+    id: 'XY4',
+    label: 'XY4',
+    description: 'X Y X Y; pulse errors about one axis are undone by the other',
+    pulses: ['X', 'Y', 'X', 'Y'],
+    spacing: 'centered',
+  },
+  {
+    id: 'CPMG',
+    label: 'CPMG',
+    description: 'Two Y pulses with τ/2 before the first and after the last',
+    pulses: ['Y', 'Y'],
+    spacing: 'centered',
+  },
+];
+
+export interface IdleWindow {
+  qubit: number;
+  // First idle step and how many steps the qubit waits
+  start: number;
+  length: number;
+}
+
+// Runs of steps in which a qubit has no gate, from its first gate to the end
+// of the circuit (where it waits to be measured). Before its first gate a
+// qubit is still in |0⟩, which dephasing leaves alone.
+export const idleWindows = (gates: CircuitGate[], numQubits: number): IdleWindow[] => {
+  if (gates.length === 0) return [];
+  const lastStep = Math.max(...gates.map(g => g.step));
+  const windows: IdleWindow[] = [];
+  for (let q = 0; q < numQubits; q++) {
+    const busy = new Set(gates.filter(g => gateQubits(g).includes(q)).map(g => g.step));
+    if (busy.size === 0) continue;
+    let start = -1;
+    for (let step = Math.min(...busy); step <= lastStep + 1; step++) {
+      const idle = step <= lastStep && !busy.has(step);
+      if (idle && start < 0) start = step;
+      if (!idle && start >= 0) {
+        windows.push({ qubit: q, start, length: step - start });
+        start = -1;
+      }
+    }
+  }
+  return windows;
+};
+
+// Step offsets of the pulses within a window of `length` steps
+const pulseOffsets = (sequence: DdSequence, length: number) =>
+  sequence.pulses.map((_, k) => Math.floor(
+    ((sequence.spacing === 'centered' ? k + 0.5 : k) * length) / sequence.pulses.length
+  ));
+
+export interface DecoupledCircuit {
+  gates: CircuitGate[];
+  // Windows long enough to hold the sequence, and so given one
+  filled: IdleWindow[];
+  pulseCount: number;
+}
+
+// Puts one copy of the sequence in every idle window that has a free step
+// per pulse. Pulses are π rotations, over-rotated by `overRotation` (a
+// fraction of π) to model miscalibration; they get ids starting with "dd-".
+export const insertDynamicalDecoupling = (
+  gates: CircuitGate[],
+  numQubits: number,
+  sequence: DdSequence,
+  overRotation = 0
+): DecoupledCircuit => {
+  const filled = idleWindows(gates, numQubits).filter(w => w.length >= sequence.pulses.length);
+  const pulses: CircuitGate[] = filled.flatMap(window =>
+    pulseOffsets(sequence, window.length).map((offset, k) => {
+      const axis = sequence.pulses[k];
+      return {
+        id: `dd-${window.qubit}-${window.start + offset}`,
+        type: overRotation ? (axis === 'X' ? 'Rx' as const : 'Ry' as const) : axis,
+        targets: [window.qubit],
+        controls: [],
+        step: window.start + offset,
+        ...(overRotation ? { angle: Math.PI * (1 + overRotation) } : {}),
+      };
+    })
+  );
+  return { gates: sortByStep([...gates, ...pulses]), filled, pulseCount: pulses.length };
+};
+
+export const isDdPulse = (gate: CircuitGate) => gate.id.startsWith('dd-');
+
+// Spread of the quasi-static frequency offset, in rad/µs, that makes a free
+// qubit's coherence decay as e^(-(t/T2*)²)
+const detuningSpread = (t2Star: number) => Math.SQRT2 / t2Star;
+
+// Final density matrix averaged over `realizations` draws of a frequency
+// offset per qubit, each fixed for the whole shot. Every step lasts
+// `noise.layerTime`, including steps with no gates at all, and during it
+// every qubit precesses by its offset and relaxes under T1/T2.
+export const simulateIdleNoise = (
+  gates: CircuitGate[],
+  numQubits: number,
+  noise: NoiseModel,
+  t2Star: number,
+  realizations: number,
+  random: Random
+): DensityMatrix => {
+  const ordered = sortByStep(gates);
+  const lastStep = ordered.length ? ordered[ordered.length - 1].step : -1;
+  const idle = relaxation(noise.t1, noise.t2, noise.layerTime);
+  const sigma = detuningSpread(t2Star);
+
+  const runs = Array.from({ length: realizations }, () => {
+    const phases = Array.from({ length: numQubits }, () => gaussian(random) * sigma * noise.layerTime);
+    let dm = zeroDensity(numQubits);
+    for (let step = 0; step <= lastStep; step++) {
+      ordered.filter(g => g.step === step).forEach(gate => {
+        dm = applyNoisyGate(dm, gate, noise);
+      });
+      for (let q = 0; q < numQubits; q++) {
+        dm = applyUnitary(dm, gateMatrix('Rz', phases[q]), [q], []);
+        idle.forEach(channel => {
+          dm = applyChannel(dm, channel, [q]);
+        });
+      }
+    }
+    return dm;
+  });
+  return mixDensities(runs.map(dm => ({ weight: 1 / realizations, dm })));
+};
+
+// Circuit that idles a qubit for `steps` after preparing |+⟩ and maps it
+// back to |0⟩, for coherence-versus-time curves
+export const ramseyCircuit = (steps: number): CircuitGate[] => [
+  { id: 'ramsey-h0', type: 'H', targets: [0], controls: [], step: 0 },
+  { id: 'ramsey-h1', type: 'H', targets: [0], controls: [], step: steps + 1 },
+];
+
+// Shifts every gate after `afterStep` by `delay` steps, leaving an idle gap
+export const insertIdleDelay = (gates: CircuitGate[], afterStep: number, delay: number): CircuitGate[] =>
+  gates.map(g => (g.step > afterStep ? { ...g, step: g.step + delay } : g));
@@ -0,0 +1,251 @@
+import { Random } from '../random';
+import { CircuitGate, sortByStep } from './circuit';
+import {
+  Pauli,
+  Tableau,
+  applyCliffordGate,
+  applyPauli,
+  cloneTableau,
+  createTableau,
+  measurePauli,
+  paulisCommute,
+  runCliffordShot,
+  singleQubitPauli
+} from './stabilizer';
+import {
+  LogicalState,
+  StabilizerCode,
+  logicalReadout,
+  logicalStatePreparation,
+  syndromeCircuit
+} from './stabilizer-codes';
+
+// Code-capacity experiments: encode perfectly, hit every data qubit with an
+// independent Pauli error, extract the syndrome with ideal ancilla circuits,
+// decode and read the logical qubit out on the stabilizer simulator.
+
+export type PauliNoise = 'bit-flip' | 'phase-flip' | 'depolarizing';
+
+// Paulis each noise channel can apply
+export const noisePaulis: Record<PauliNoise, Pauli[]> = {
+  'bit-flip': ['X'],
+  'phase-flip': ['Z'],
+  depolarizing: ['X', 'Y', 'Z'],
+};
+
+// Each qubit independently suffers one of the channel's Paulis with total
+// probability p
+export const samplePauliError = (numQubits: number, p: number, noise: PauliNoise, random: Random): string => {
+  const paulis = noisePaulis[noise];
+  return Array.from({ length: numQubits }, () =>
+    random() < p ? paulis[Math.floor(random() * paulis.length)] : 'I'
+  ).join('');
+};
+
+// Bit j is 1 when the error anticommutes with generator j
+export const errorSyndrome = (code: StabilizerCode, error: string): string =>
+  code.stabilizers.map(s => (paulisCommute(s, error) ? '0' : '1')).join('');
+
+const combinations = (n: number, k: number): number[][] => {
+  if (k === 0) return [[]];
+  const result: number[][] = [];
+  const walk = (start: number, picked: number[]) => {
+    if (picked.length === k) {
+      result.push(picked);
+      return;
+    }
+    for (let q = start; q < n; q++) walk(q + 1, [...picked, q]);
+  };
+  walk(0, []);
+  return result;
+};
+
+// Syndrome → most likely correction for i.i.d. noise, i.e. the lowest-weight
+// error made of the channel's Paulis that produces it. Errors are tried in
+// order of weight up to `maxWeight`; syndromes nothing reaches are absent.
+export const buildLookupDecoder = (code: StabilizerCode, noise: PauliNoise, maxWeight = 2): Map<string, string> => {
+  const table = new Map<string, string>();
+  const paulis = noisePaulis[noise];
+  const full = 2 ** code.stabilizers.length;
+  for (let w = 0; w <= Math.min(maxWeight, code.numQubits) && table.size < full; w++) {
+    combinations(code.numQubits, w).forEach(qubits => {
+      // Every assignment of the channel's Paulis to the chosen qubits
+      for (let k = 0; k < paulis.length ** w; k++) {
+        const error = Array(code.numQubits).fill('I');
+        qubits.forEach((q, i) => {
+          error[q] = paulis[Math.floor(k / paulis.length ** i) % paulis.length];
+        });
+        const correction = error.join('');
+        const syndrome = errorSyndrome(code, correction);
+        if (!table.has(syndrome)) table.set(syndrome, correction);
+      }
+    });
+  }
+  return table;
+};
+
+export interface CodeTrial {
+  // Pauli error that hit the data qubits
+  error: string;
+  // Measured by the ancillas, generator 0 first; null when correction is off
+  syndrome: string | null;
+  correction: string | null;
+  // The syndrome was non-trivial
+  detected: boolean;
+  // The logical readout disagreed with the encoded state
+  logicalFailure: boolean;
+  // The same error on the first data qubit alone, unencoded, flipped it
+  rawFailure: boolean;
+}
+
+export interface CodeExperimentOptions {
+  errorRate: number;
+  noise: PauliNoise;
+  logicalState: LogicalState;
+  trials: number;
+  // Measure the syndrome and apply the decoder's correction
+  correct: boolean;
+}
+
+export const runCodeTrials = (
+  code: StabilizerCode,
+  { errorRate, noise, logicalState, trials, correct }: CodeExperimentOptions,
+  random: Random
+): CodeTrial[] => {
+  const n = code.numQubits;
+  const ancillas = code.stabilizers.length;
+  const total = n + ancillas;
+  const decoder = buildLookupDecoder(code, noise);
+  const extraction = syndromeCircuit(code);
+  const padding = 'I'.repeat(ancillas);
+  const readout = logicalReadout(code, logicalState);
+  const preparation = logicalStatePreparation(logicalState);
+  const encoder = code.encoder.map(g => ({ ...g, step: g.step + preparation.length }));
+  // One unencoded qubit in the same state, measured in the same basis
+  const rawReadout = readout.pauli === code.logicalZ ? 'Z' : 'X';
+
+  return Array.from({ length: trials }, () => {
+    const { tableau } = runCliffordShot([...preparation, ...encoder], total, 0, random);
+    const error = samplePauliError(n, errorRate, noise, random);
+    applyPauli(tableau, error + padding);
+
+    let syndrome: string | null = null;
+    let correction: string | null = null;
+    if (correct) {
+      const { clbits } = runCliffordShot(extraction, total, ancillas, random, tableau);
+      syndrome = clbits.join('');
+      correction = decoder.get(syndrome) ?? null;
+      if (correction) applyPauli(tableau, correction + padding);
+    }
+    const { outcome } = measurePauli(tableau, readout.pauli + padding, random);
+
+    const raw = runCliffordShot(preparation, 1, 0, random).tableau;
+    applyPauli(raw, error[0]);
+    const rawOutcome = measurePauli(raw, singleQubitPauli(1, 0, rawReadout), random).outcome;
+
+    return {
+      error,
+      syndrome,
+      correction,
+      detected: syndrome !== null && syndrome.includes('1'),
+      logicalFailure: outcome !== readout.expected,
+      rawFailure: rawOutcome !== readout.expected,
+    };
+  });
+};
+
+// Preparation, encoder and syndrome extraction as one circuit on the data
+// qubits plus one ancilla per generator, for stepping through gate by gate
+export interface CodeCircuit {
+  numQubits: number;
+  numClbits: number;
+  gates: CircuitGate[];
+  numSteps: number;
+  // First columns of the encoder and of the syndrome extraction
+  encoderStart: number;
+  extractionStart: number;
+}
+
+const stepCount = (gates: CircuitGate[]) => Math.max(0, ...gates.map(g => g.step + 1));
+
+export const codeCircuit = (code: StabilizerCode, logicalState: LogicalState): CodeCircuit => {
+  const preparation = logicalStatePreparation(logicalState);
+  const encoderStart = preparation.length;
+  const extractionStart = encoderStart + stepCount(code.encoder);
+  const extraction = syndromeCircuit(code);
+  return {
+    numQubits: code.numQubits + code.stabilizers.length,
+    numClbits: code.stabilizers.length,
+    gates: [
+      ...preparation,
+      ...code.encoder.map(g => ({ ...g, step: g.step + encoderStart })),
+      ...extraction.map(g => ({ ...g, step: g.step + extractionStart })),
+    ],
+    numSteps: extractionStart + stepCount(extraction),
+    encoderStart,
+    extractionStart,
+  };
+};
+
+// A single-qubit Pauli applied just before the gates of column `step`
+export interface InjectedError {
+  qubit: number;
+  step: number;
+  pauli: Pauli;
+}
+
+// State after the columns before `upTo`. Ancilla results are 0 or 1 once
+// measured and null before.
+export const runCodeCircuit = (
+  circuit: CodeCircuit,
+  upTo: number,
+  error: InjectedError | null,
+  random: Random
+): { tableau: Tableau; clbits: (0 | 1 | null)[] } => {
+  const tableau = createTableau(circuit.numQubits);
+  const clbits: (0 | 1 | null)[] = Array(circuit.numClbits).fill(null);
+  let injected = !error || error.step > upTo;
+  const inject = () => {
+    applyPauli(tableau, singleQubitPauli(circuit.numQubits, error.qubit, error.pauli));
+    injected = true;
+  };
+  sortByStep(circuit.gates).forEach(gate => {
+    if (gate.step >= upTo) return;
+    if (!injected && gate.step >= error.step) inject();
+    if (gate.type === 'M') {
+      const { outcome } = measurePauli(tableau, singleQubitPauli(circuit.numQubits, gate.targets[0]), random);
+      if (gate.clbit !== undefined) clbits[gate.clbit] = outcome;
+    } else {
+      applyCliffordGate(tableau, gate);
+    }
+  });
+  if (!injected) inject();
+  return { tableau, clbits };
+};
+
+export interface CircuitRecovery {
+  syndrome: string;
+  // Null when the decoder has no entry for the syndrome
+  correction: string | null;
+  logicalFailure: boolean;
+}
+
+// After the whole circuit: look the syndrome up, apply the correction to the
+// data qubits and read the logical qubit out
+export const recoverLogical = (
+  code: StabilizerCode,
+  logicalState: LogicalState,
+  decoder: Map<string, string>,
+  tableau: Tableau,
+  clbits: (0 | 1 | null)[],
+  random: Random
+): CircuitRecovery => {
+  const t = cloneTableau(tableau);
+  const padding = 'I'.repeat(t.numQubits - code.numQubits);
+  const syndrome = clbits.map(b => b ?? 0).join('');
+  const correction = decoder.get(syndrome) ?? null;
+  if (correction) applyPauli(t, correction + padding);
+  const readout = logicalReadout(code, logicalState);
+  const { outcome } = measurePauli(t, readout.pauli + padding, random);
+  return { syndrome, correction, logicalFailure: outcome !== readout.expected };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+import {
+  DEFAULT_EXTRAPOLATOR_OPTIONS,
+  ExtrapolatorId,
+  bootstrapExtrapolation,
+  exponentialDecayRate,
+  extrapolators,
+  runExtrapolator,
+} from './extrapolation';
+
+const byId = (id: ExtrapolatorId) => extrapolators.find(e => e.id === id)!;
+const scales = [1, 1.5, 2, 2.5, 3];
+const sampleAt = (f: (s: number) => number) => scales.map(f);
+
+describe('extrapolators', () => {
+  // Each model is exact on data drawn from its own family
+  it.each<[ExtrapolatorId, (s: number) => number, number]>([
+    ['linear', s => 0.9 - 0.1 * s, 0.9],
+    ['richardson', s => 0.8 - 0.2 * s + 0.03 * s * s - 0.004 * s ** 3 + 0.0002 * s ** 4, 0.8],
+    ['polynomial', s => 0.85 - 0.15 * s + 0.02 * s * s, 0.85],
+    ['poly-exp', s => Math.exp(-0.1 - 0.2 * s - 0.01 * s * s), Math.exp(-0.1)],
+    ['exp', s => 0.7 * Math.exp(-0.3 * s), 0.7],
+    ['adaptive-exp', s => 0.1 + 0.75 * Math.exp(-0.4 * s), 0.85],
+  ])('%s recovers the zero-noise value of its own model', (id, model, zeroNoise) => {
+    const fit = runExtrapolator(byId(id), scales, sampleAt(model), DEFAULT_EXTRAPOLATOR_OPTIONS);
+    expect(fit.error).toBeNull();
+    expect(fit.zeroNoiseValue).toBeCloseTo(zeroNoise, 6);
+    fit.residuals.forEach(r => expect(Math.abs(r)).toBeLessThan(1e-6));
+  });
+
+  it('uses the asymptote option for the exponential fits', () => {
+    const y = sampleAt(s => 0.25 + 0.6 * Math.exp(-0.5 * s));
+    const fit = runExtrapolator(byId('exp'), scales, y, { ...DEFAULT_EXTRAPOLATOR_OPTIONS, asymptote: 0.25 });
+    expect(fit.zeroNoiseValue).toBeCloseTo(0.85, 10);
+    expect(fit.evaluate(4)).toBeCloseTo(0.25 + 0.6 * Math.exp(-2), 10);
+  });
+
+  it('explains why a fit cannot be made', () => {
+    expect(runExtrapolator(byId('adaptive-exp'), [1, 2], [0.5, 0.4], DEFAULT_EXTRAPOLATOR_OPTIONS).error)
+      .toBe('Adaptive exponential needs at least 3 scale factors');
+    expect(runExtrapolator(byId('polynomial'), [1, 3], [0.5, 0.4], { order: 2, asymptote: 0 }).error)
+      .toBe('Polynomial needs at least 3 scale factors');
+    expect(runExtrapolator(byId('linear'), [2, 2, 2], [0.5, 0.4, 0.45], DEFAULT_EXTRAPOLATOR_OPTIONS).error)
+      .toBe('Scale factors must be distinct');
+
+    const crossing = runExtrapolator(byId('exp'), [1, 2, 3], [0.2, 0.05, -0.01], DEFAULT_EXTRAPOLATOR_OPTIONS);
+    expect(crossing.error).toBe('Every value must lie on the same side of the asymptote 0');
+    expect(crossing.zeroNoiseValue).toBeNaN();
+  });
+});
+
+describe('exponentialDecayRate', () => {
+  it('reads the rate from two points and an asymptote, or fits it from three', () => {
+    const decay = (s: number) => 0.25 + 0.6 * Math.exp(-0.4 * s);
+    expect(exponentialDecayRate([1, 2], [decay(1), decay(2)], 0.25)).toBeCloseTo(0.4, 10);
+    expect(exponentialDecayRate([1, 2, 4], [1, 2, 4].map(decay), 0)).toBeCloseTo(0.4, 6);
+    expect(exponentialDecayRate([1, 2], [0.1, 0.3], 0.2)).toBeNull();
+  });
+});
+
+describe('bootstrapExtrapolation', () => {
+  const linear = byId('linear');
+  const y = sampleAt(s => 0.9 - 0.1 * s);
+
+  it('collapses to the fit when there is no shot noise', () => {
+    const result = bootstrapExtrapolation(
+      linear, scales, y, scales.map(() => 0), DEFAULT_EXTRAPOLATOR_OPTIONS, [0, 3], createRandom(1), 50
+    );
+    expect(result.samples).toBe(50);
+    expect(result.lower).toBeCloseTo(0.9, 10);
+    expect(result.upper).toBeCloseTo(0.9, 10);
+    expect(result.band[1][0]).toBeCloseTo(0.6, 10);
+    expect(result.band[1][1]).toBeCloseTo(0.6, 10);
+  });
+
+  it('brackets the fit and widens with the standard errors', () => {
+    const width = (error: number) => {
+      const { lower, upper } = bootstrapExtrapolation(
+        linear, scales, y, scales.map(() => error), DEFAULT_EXTRAPOLATOR_OPTIONS, [], createRandom(2), 400
+      );
+      expect(lower).toBeLessThan(0.9);
+      expect(upper).toBeGreaterThan(0.9);
+      return upper - lower;
+    };
+    // Same seed, same draws: a linear fit's interval scales with the errors
+    expect(width(0.04) / width(0.01)).toBeCloseTo(4, 6);
+  });
+
+  it('is reproducible from the seed', () => {
+    const run = () => bootstrapExtrapolation(
+      linear, scales, y, scales.map(() => 0.02), DEFAULT_EXTRAPOLATOR_OPTIONS, [1], createRandom(3)
+    );
+    expect(run()).toEqual(run());
+  });
+});
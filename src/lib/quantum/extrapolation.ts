@@ -0,0 +1,281 @@
+import { Random, gaussian } from '../random';
+
+// Zero-noise extrapolators. Each one fits ⟨O⟩(λ) at the measured noise scales
+// and evaluates the fit at λ = 0.
+
+export type ExtrapolatorId = 'linear' | 'richardson' | 'polynomial' | 'poly-exp' | 'exp' | 'adaptive-exp';
+
+export interface ExtrapolatorOptions {
+  // Polynomial order for 'polynomial' and 'poly-exp'
+  order: number;
+  // Value ⟨O⟩ decays to at infinite noise, for 'exp' and 'poly-exp'
+  // (0 for Pauli observables under depolarizing noise)
+  asymptote: number;
+}
+
+export interface FitResult {
+  zeroNoiseValue: number;
+  evaluate: (scale: number) => number;
+  // Measured minus fitted value at each scale factor
+  residuals: number[];
+  // Why the fit could not be made; zeroNoiseValue is NaN when set
+  error: string | null;
+}
+
+export interface Extrapolator {
+  id: ExtrapolatorId;
+  label: string;
+  description: string;
+  usesOrder: boolean;
+  usesAsymptote: boolean;
+  // Picks its own scale factors while measuring (see measureAdaptively)
+  // instead of fitting a list chosen up front
+  choosesScales: boolean;
+  minPoints: (options: ExtrapolatorOptions) => number;
+  fit: (x: number[], y: number[], options: ExtrapolatorOptions) => FitResult;
+}
+
+export const DEFAULT_EXTRAPOLATOR_OPTIONS: ExtrapolatorOptions = { order: 2, asymptote: 0 };
+
+const failed = (error: string): FitResult => ({ zeroNoiseValue: NaN, evaluate: () => NaN, residuals: [], error });
+
+const fromCurve = (x: number[], y: number[], evaluate: (scale: number) => number): FitResult => ({
+  zeroNoiseValue: evaluate(0),
+  evaluate,
+  residuals: y.map((yi, i) => yi - evaluate(x[i])),
+  error: null,
+});
+
+// Gaussian elimination with partial pivoting; null if the system is singular
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+// Least-squares polynomial coefficients c₀ + c₁x + … + c_k x^k
+const polyFit = (x: number[], y: number[], order: number): number[] | null => {
+  const size = order + 1;
+  const normal = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => x.reduce((acc, xi) => acc + xi ** (i + j), 0))
+  );
+  const rhs = Array.from({ length: size }, (_, i) => x.reduce((acc, xi, n) => acc + xi ** i * y[n], 0));
+  return solve(normal, rhs);
+};
+
+const polyEval = (coefficients: number[], x: number) =>
+  coefficients.reduceRight((acc, c) => acc * x + c, 0);
+
+const polynomialFit = (x: number[], y: number[], order: number): FitResult => {
+  const coefficients = polyFit(x, y, order);
+  if (!coefficients) return failed('Scale factors must be distinct');
+  return fromCurve(x, y, s => polyEval(coefficients, s));
+};
+
+// y = a ± exp(z(λ)) with z a polynomial fitted to log|y - a|
+const polyExpFit = (x: number[], y: number[], order: number, asymptote: number): FitResult => {
+  const shifted = y.map(yi => yi - asymptote);
+  const sign = Math.sign(shifted[0]);
+  if (sign === 0 || shifted.some(v => Math.sign(v) !== sign)) {
+    return failed(`Every value must lie on the same side of the asymptote ${asymptote}`);
+  }
+  const coefficients = polyFit(x, shifted.map(v => Math.log(Math.abs(v))), order);
+  if (!coefficients) return failed('Scale factors must be distinct');
+  return fromCurve(x, y, s => asymptote + sign * Math.exp(polyEval(coefficients, s)));
+};
+
+// y = a + b·e^(-cλ) with a, b and c all fitted: for each trial decay rate c
+// the best a and b are linear least squares, and c is refined by golden-section
+// search on the residual sum of squares. Null if the scales are not distinct.
+const fitExponentialDecay = (x: number[], y: number[]): { a: number; b: number; c: number } | null => {
+  const linearPart = (c: number) => {
+    const basis = x.map(xi => Math.exp(-c * xi));
+    const n = x.length;
+    const sb = basis.reduce((a, b) => a + b, 0);
+    const sbb = basis.reduce((a, b) => a + b * b, 0);
+    const sy = y.reduce((a, b) => a + b, 0);
+    const sby = basis.reduce((acc, b, i) => acc + b * y[i], 0);
+    const ab = solve([[n, sb], [sb, sbb]], [sy, sby]);
+    if (!ab) return null;
+    const sse = y.reduce((acc, yi, i) => acc + (yi - ab[0] - ab[1] * basis[i]) ** 2, 0);
+    return { a: ab[0], b: ab[1], sse };
+  };
+  const cost = (c: number) => linearPart(c)?.sse ?? Infinity;
+
+  // Coarse scan over rates, then golden-section refinement around the best one
+  const rates = Array.from({ length: 60 }, (_, i) => 0.01 * Math.pow(1.15, i));
+  let best = rates.reduce((b, c) => (cost(c) < cost(b) ? c : b), rates[0]);
+  let lo = best / 1.15;
+  let hi = best * 1.15;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 40; i++) {
+    const c1 = hi - ratio * (hi - lo);
+    const c2 = lo + ratio * (hi - lo);
+    if (cost(c1) < cost(c2)) hi = c2; else lo = c1;
+  }
+  best = (lo + hi) / 2;
+
+  const params = linearPart(best);
+  return params && { a: params.a, b: params.b, c: best };
+};
+
+const adaptiveExpFit = (x: number[], y: number[]): FitResult => {
+  const params = fitExponentialDecay(x, y);
+  if (!params) return failed('Scale factors must be distinct');
+  return fromCurve(x, y, s => params.a + params.b * Math.exp(-params.c * s));
+};
+
+// Decay rate c of ⟨O⟩(λ) ≈ a + b·e^(-cλ), from the fitted-asymptote model
+// once there are three points and from the fixed `asymptote` before that.
+// Null when the points do not decay toward the asymptote.
+export const exponentialDecayRate = (x: number[], y: number[], asymptote: number): number | null => {
+  if (x.length >= 3) return fitExponentialDecay(x, y)?.c ?? null;
+  if (x.length < 2 || x[0] === x[1]) return null;
+  const ratio = (y[0] - asymptote) / (y[1] - asymptote);
+  if (!(ratio > 0)) return null;
+  const rate = Math.log(ratio) / (x[1] - x[0]);
+  return Number.isFinite(rate) ? rate : null;
+};
+
+export const extrapolators: Extrapolator[] = [
+  {
+    id: 'linear',
+    label: 'Linear',
+    description: 'Least-squares straight line through all points',
+    usesOrder: false,
+    usesAsymptote: false,
+    choosesScales: false,
+    minPoints: () => 2,
+    fit: (x, y) => polynomialFit(x, y, 1),
+  },
+  {
+    id: 'richardson',
+    label: 'Richardson',
+    description: 'The unique polynomial of degree n-1 through all n points',
+    usesOrder: false,
+    usesAsymptote: false,
+    choosesScales: false,
+    minPoints: () => 2,
+    fit: (x, y) => polynomialFit(x, y, x.length - 1),
+  },
+  {
+    id: 'polynomial',
+    label: 'Polynomial',
+    description: 'Least-squares polynomial of the chosen order',
+    usesOrder: true,
+    usesAsymptote: false,
+    choosesScales: false,
+    minPoints: ({ order }) => order + 1,
+    fit: (x, y, { order }) => polynomialFit(x, y, order),
+  },
+  {
+    id: 'poly-exp',
+    label: 'Poly-exponential',
+    description: 'a ± exp(z(λ)) with z a polynomial of the chosen order and a fixed asymptote a',
+    usesOrder: true,
+    usesAsymptote: true,
+    choosesScales: false,
+    minPoints: ({ order }) => order + 1,
+    fit: (x, y, { order, asymptote }) => polyExpFit(x, y, order, asymptote),
+  },
+  {
+    id: 'exp',
+    label: 'Exponential',
+    description: 'a + b·e^(-cλ) with a fixed asymptote a',
+    usesOrder: false,
+    usesAsymptote: true,
+    choosesScales: false,
+    minPoints: () => 2,
+    fit: (x, y, { asymptote }) => polyExpFit(x, y, 1, asymptote),
+  },
+  {
+    id: 'adaptive-exp',
+    label: 'Adaptive exponential',
+    description: 'a + b·e^(-cλ) with a fitted too; each next scale factor is chosen from the current fit until the estimate settles',
+    usesOrder: false,
+    usesAsymptote: true,
+    choosesScales: true,
+    minPoints: () => 3,
+    fit: (x, y) => adaptiveExpFit(x, y),
+  },
+];
+
+// Runs an extrapolator, first checking it has enough points
+export const runExtrapolator = (
+  extrapolator: Extrapolator,
+  x: number[],
+  y: number[],
+  options: ExtrapolatorOptions
+): FitResult => {
+  const needed = extrapolator.minPoints(options);
+  if (x.length < needed) {
+    return failed(`${extrapolator.label} needs at least ${needed} scale factors`);
+  }
+  return extrapolator.fit(x, y, options);
+};
+
+export interface BootstrapResult {
+  // Central 95% interval of the zero-noise estimate
+  lower: number;
+  upper: number;
+  // Pointwise 95% band of the fitted curve at each `curveScales` entry
+  band: [number, number][];
+  // Resamples where the fit succeeded
+  samples: number;
+}
+
+const percentile = (sorted: number[], q: number) => {
+  if (!sorted.length) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+// Parametric bootstrap: every resample redraws each point from a normal with
+// its shot-noise standard error and refits.
+export const bootstrapExtrapolation = (
+  extrapolator: Extrapolator,
+  x: number[],
+  y: number[],
+  standardErrors: number[],
+  options: ExtrapolatorOptions,
+  curveScales: number[],
+  random: Random,
+  resamples = 200
+): BootstrapResult => {
+  const estimates: number[] = [];
+  const curves: number[][] = curveScales.map(() => []);
+
+  for (let r = 0; r < resamples; r++) {
+    const resampled = y.map((yi, i) => yi + standardErrors[i] * gaussian(random));
+    const fit = runExtrapolator(extrapolator, x, resampled, options);
+    if (fit.error || !Number.isFinite(fit.zeroNoiseValue)) continue;
+    estimates.push(fit.zeroNoiseValue);
+    curveScales.forEach((s, i) => curves[i].push(fit.evaluate(s)));
+  }
+
+  const sortedEstimates = estimates.sort((a, b) => a - b);
+  return {
+    lower: percentile(sortedEstimates, 0.025),
+    upper: percentile(sortedEstimates, 0.975),
+    band: curves.map(values => {
+      const sorted = values.sort((a, b) => a - b);
+      return [percentile(sorted, 0.025), percentile(sorted, 0.975)];
+    }),
+    samples: estimates.length,
+  };
+};
@@ -0,0 +1,98 @@
+import { CircuitGate, compactCircuit, gateQubits, sortByStep } from './circuit';
+import { Random } from '../random';
+
+// How extra G†G pairs are spread over the circuit when scaling noise:
+// - global: U (U†U)^n, then the last gates of U folded for fractional scales
+// - local:  every gate G → G (G†G)^n, extra folds on the first gates
+// - random: like local, but the gates that get an extra fold are drawn at random
+export type FoldingMethod = 'global' | 'local' | 'random';
+
+export interface FoldedCircuit {
+  gates: CircuitGate[];
+  // Achieved noise scale, (gates after folding) / (gates before)
+  scale: number;
+}
+
+// G† for every gate in the editor's set. S† and T† are written as Rz, which
+// differs from them only by a global phase.
+export const inverseGate = (gate: CircuitGate): CircuitGate => {
+  switch (gate.type) {
+    case 'S':
+      return { ...gate, type: 'Rz', angle: -Math.PI / 2 };
+    case 'T':
+      return { ...gate, type: 'Rz', angle: -Math.PI / 4 };
+    case 'Rx':
+    case 'Ry':
+    case 'Rz':
+      return { ...gate, angle: -(gate.angle ?? 0) };
+    default:
+      return gate;
+  }
+};
+
+// Folding needs a unitary circuit. Measurements are only allowed at the end of
+// their qubit (they are dropped; the observable is read from the final state)
+// and classically controlled gates are rejected. Returns a reason on failure.
+export const unitaryPart = (gates: CircuitGate[]): { gates: CircuitGate[]; error: string | null } => {
+  const ordered = sortByStep(gates);
+  if (ordered.some(g => g.condition)) {
+    return { gates: [], error: 'Folding needs a circuit without classically controlled (c_if) gates' };
+  }
+  const midCircuit = ordered.some((g, i) =>
+    g.type === 'M' && ordered.slice(i + 1).some(later => later.type !== 'M' && gateQubits(later).includes(g.targets[0]))
+  );
+  if (midCircuit) {
+    return { gates: [], error: 'Folding needs measurements to come last on their qubit' };
+  }
+  return { gates: ordered.filter(g => g.type !== 'M'), error: null };
+};
+
+// Indices of `count` distinct gates out of `total`
+const pickGates = (total: number, count: number, method: FoldingMethod, random: Random): Set<number> => {
+  const indices = Array.from({ length: total }, (_, i) => i);
+  if (method === 'random') {
+    for (let i = total - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+  }
+  return new Set(indices.slice(0, count));
+};
+
+// Unitary folding to (approximately) the requested noise scale λ ≥ 1. With d
+// gates, round((λ-1)·d/2) G†G pairs are inserted, so odd integer scales are
+// exact and others land on the nearest achievable value.
+export const foldCircuit = (
+  gates: CircuitGate[],
+  scale: number,
+  method: FoldingMethod,
+  random: Random = Math.random
+): FoldedCircuit => {
+  const ordered = sortByStep(gates);
+  const d = ordered.length;
+  if (d === 0) return { gates: [], scale: 1 };
+
+  const numFolds = Math.max(0, Math.round(((scale - 1) * d) / 2));
+  const full = Math.floor(numFolds / d);
+  const partial = numFolds - full * d;
+  let sequence: CircuitGate[];
+
+  if (method === 'global') {
+    const inverse = ordered.slice().reverse().map(inverseGate);
+    const tail = ordered.slice(d - partial);
+    sequence = [...ordered];
+    for (let n = 0; n < full; n++) sequence.push(...inverse, ...ordered);
+    sequence.push(...tail.slice().reverse().map(inverseGate), ...tail);
+  } else {
+    const extra = pickGates(d, partial, method, random);
+    sequence = ordered.flatMap((gate, i) => {
+      const folds = full + (extra.has(i) ? 1 : 0);
+      return [gate, ...Array.from({ length: folds }, () => [inverseGate(gate), gate]).flat()];
+    });
+  }
+
+  return {
+    gates: compactCircuit(sequence.map((gate, i) => ({ ...gate, id: `fold-${i}`, step: i }))),
+    scale: sequence.length / d,
+  };
+};
@@ -0,0 +1,58 @@
+import { complex, expi, ZERO, ONE, I } from './complex';
+import { Matrix } from './matrix';
+
+export type GateName = 'I' | 'X' | 'Y' | 'Z' | 'H' | 'S' | 'T' | 'Rx' | 'Ry' | 'Rz';
+
+export const PARAMETRIC_GATES: GateName[] = ['Rx', 'Ry', 'Rz'];
+
+export const isParametric = (name: GateName) => PARAMETRIC_GATES.includes(name);
+
+const h = Math.SQRT1_2;
+
+const fixedGates: Record<Exclude<GateName, 'Rx' | 'Ry' | 'Rz'>, Matrix> = {
+  I: [[ONE, ZERO], [ZERO, ONE]],
+  X: [[ZERO, ONE], [ONE, ZERO]],
+  Y: [[ZERO, complex(0, -1)], [I, ZERO]],
+  Z: [[ONE, ZERO], [ZERO, complex(-1)]],
+  H: [[complex(h), complex(h)], [complex(h), complex(-h)]],
+  S: [[ONE, ZERO], [ZERO, I]],
+  T: [[ONE, ZERO], [ZERO, expi(Math.PI / 4)]],
+};
+
+// Unitary for a single-qubit gate; `theta` is only read by the rotation gates
+export const gateMatrix = (name: GateName, theta = 0): Matrix => {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  switch (name) {
+    case 'Rx':
+      return [[complex(c), complex(0, -s)], [complex(0, -s), complex(c)]];
+    case 'Ry':
+      return [[complex(c), complex(-s)], [complex(s), complex(c)]];
+    case 'Rz':
+      return [[expi(-theta / 2), ZERO], [ZERO, expi(theta / 2)]];
+    default:
+      return fixedGates[name];
+  }
+};
+
+// Two-qubit SWAP in the |q_a q_b⟩ basis
+export const SWAP_MATRIX: Matrix = [
+  [ONE, ZERO, ZERO, ZERO],
+  [ZERO, ZERO, ONE, ZERO],
+  [ZERO, ONE, ZERO, ZERO],
+  [ZERO, ZERO, ZERO, ONE],
+];
+
+// Writes an angle as a multiple of π where it is one (e.g. "3*pi/4") so that
+// exported code stays readable, falling back to a decimal literal.
+export const angleExpression = (angle: number, pi = 'pi'): string => {
+  for (let den = 1; den <= 12; den++) {
+    const num = Math.round((angle / Math.PI) * den);
+    if (Math.abs((num * Math.PI) / den - angle) > 1e-9) continue;
+    if (num === 0) return '0';
+    const sign = num < 0 ? '-' : '';
+    const numerator = Math.abs(num) === 1 ? pi : `${Math.abs(num)}*${pi}`;
+    return den === 1 ? sign + numerator : `${sign}${numerator}/${den}`;
+  }
+  return String(Number(angle.toPrecision(12)));
+};
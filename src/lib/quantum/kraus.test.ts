@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { complex, ZERO } from './complex';
+import { KrausChannel } from './density-matrix';
+import { amplitudeDamping, depolarizing, phaseDamping } from './noise-channels';
+import { blochAffineMap, checkKraus, ellipsoidAxes, formatComplexEntry, parseComplex } from './kraus';
+
+describe('parseComplex', () => {
+  it.each<[string, number, number]>([
+    ['0.5', 0.5, 0],
+    ['-i', 0, -1],
+    ['i', 0, 1],
+    ['0.3-0.2i', 0.3, -0.2],
+    ['1e-3+2j', 0.001, 2],
+    ['2i+1', 1, 2],
+    [' -.5 + 1.5I ', -0.5, 1.5],
+    ['3E2', 300, 0],
+  ])('reads "%s"', (text, re, im) => {
+    expect(parseComplex(text)).toEqual(complex(re, im));
+  });
+
+  it.each(['', '+', 'abc', '1 2', '1+2', 'i+i', '0.5i0.5', '1e', '--1', '1+-2i'])('rejects "%s"', text => {
+    expect(parseComplex(text)).toBeNull();
+  });
+
+  it('reads back what formatComplexEntry writes', () => {
+    [complex(0.70710678), complex(0, -0.5), complex(0.3, -0.2), complex(-1, 1), complex(0, 1e-15), complex(1e-7, 3)]
+      .forEach(a => {
+        const back = parseComplex(formatComplexEntry(a))!;
+        expect(back.re).toBeCloseTo(a.re, 5);
+        expect(back.im).toBeCloseTo(a.im, 5);
+      });
+  });
+});
+
+describe('checkKraus', () => {
+  it('accepts the built-in channels as CPTP with their Kraus rank', () => {
+    [
+      { channel: depolarizing(0.1), rank: 4 },
+      { channel: amplitudeDamping(0.3), rank: 2 },
+      { channel: phaseDamping(0.2), rank: 2 },
+      { channel: depolarizing(0), rank: 1 },
+    ].forEach(({ channel, rank }) => {
+      const check = checkKraus(channel);
+      expect(check.tracePreserving).toBe(true);
+      expect(check.traceIncreasing).toBe(false);
+      expect(check.completelyPositive).toBe(true);
+      expect(check.krausRank).toBe(rank);
+      expect(check.choiEigenvalues.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+    });
+  });
+
+  it('tells trace-increasing operators from trace-decreasing ones', () => {
+    const scaled = (s: number): KrausChannel => [[[complex(s), ZERO], [ZERO, complex(s)]]];
+    const increasing = checkKraus(scaled(1.1));
+    expect(increasing.tracePreserving).toBe(false);
+    expect(increasing.traceIncreasing).toBe(true);
+    expect(increasing.deviationNorm).toBeCloseTo(0.21, 10);
+
+    const decreasing = checkKraus(scaled(0.9));
+    expect(decreasing.tracePreserving).toBe(false);
+    expect(decreasing.traceIncreasing).toBe(false);
+    expect(decreasing.completelyPositive).toBe(true);
+  });
+});
+
+describe('ellipsoidAxes', () => {
+  it('shrinks the Bloch sphere uniformly under depolarizing noise', () => {
+    const p = 0.15;
+    const map = blochAffineMap(depolarizing(p));
+    ellipsoidAxes(map).forEach(axis => expect(axis).toBeCloseTo(1 - (4 * p) / 3, 10));
+    map.offset.forEach(c => expect(c).toBeCloseTo(0, 12));
+  });
+
+  it('squashes toward |0⟩ under amplitude damping', () => {
+    const gamma = 0.36;
+    const map = blochAffineMap(amplitudeDamping(gamma));
+    const [a, b, c] = ellipsoidAxes(map);
+    expect(a).toBeCloseTo(Math.sqrt(1 - gamma), 10);
+    expect(b).toBeCloseTo(Math.sqrt(1 - gamma), 10);
+    expect(c).toBeCloseTo(1 - gamma, 10);
+    expect(map.offset[2]).toBeCloseTo(gamma, 10);
+  });
+
+  it('keeps the Z axis and shrinks X and Y under phase damping', () => {
+    const lambda = 0.19;
+    const [a, b, c] = ellipsoidAxes(blochAffineMap(phaseDamping(lambda)));
+    expect(a).toBeCloseTo(1, 10);
+    expect(b).toBeCloseTo(Math.sqrt(1 - lambda), 10);
+    expect(c).toBeCloseTo(Math.sqrt(1 - lambda), 10);
+  });
+});
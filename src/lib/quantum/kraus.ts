@@ -0,0 +1,196 @@
+import { Complex, ZERO, abs2, add, complex, conj, mul } from './complex';
+import { Matrix, dagger, identity, matMul } from './matrix';
+import { KrausChannel } from './density-matrix';
+import { gateMatrix } from './gates';
+
+// Tools for user-entered single-qubit channels: parsing complex entries,
+// checking that the operators form a CPTP map, and the affine map the
+// channel applies to Bloch vectors.
+
+// Accepts "0.5", "-i", "0.3-0.2i", "1e-3+2j", "2i+1"; null if the text is
+// not a complex number
+export const parseComplex = (text: string): Complex | null => {
+  // Spaces may sit around signs and before i, but not inside a number
+  const s = text.trim().replace(/\s*([+-])\s*/g, '$1').replace(/\s+([ij])/gi, '$1').toLowerCase();
+  if (!s || /\s/.test(s)) return null;
+  const term = /([+-]?)((?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)?([ij]?)/y;
+  let re = 0;
+  let im = 0;
+  let seenRe = false;
+  let seenIm = false;
+  let pos = 0;
+  while (pos < s.length) {
+    term.lastIndex = pos;
+    const match = term.exec(s);
+    if (!match || match[0].length === 0) return null;
+    const [whole, sign, digits, unit] = match;
+    // Terms after the first must start with a sign, and each needs a number or i
+    if ((pos > 0 && !sign) || (!digits && !unit)) return null;
+    const value = (sign === '-' ? -1 : 1) * (digits ? Number(digits) : 1);
+    if (unit) {
+      if (seenIm) return null;
+      im = value;
+      seenIm = true;
+    } else {
+      if (seenRe) return null;
+      re = value;
+      seenRe = true;
+    }
+    pos += whole.length;
+  }
+  return complex(re, im);
+};
+
+const formatPart = (v: number) => Number(v.toPrecision(6)).toString();
+
+// Shortest text that parseComplex reads back, e.g. "0.707", "-0.5i", "0.3-0.2i"
+export const formatComplexEntry = (a: Complex, tolerance = 1e-12): string => {
+  const re = Math.abs(a.re) < tolerance ? 0 : a.re;
+  const im = Math.abs(a.im) < tolerance ? 0 : a.im;
+  if (im === 0) return formatPart(re);
+  const imText = Math.abs(im) === 1 ? 'i' : `${formatPart(Math.abs(im))}i`;
+  if (re === 0) return im < 0 ? `-${imText}` : imText;
+  return `${formatPart(re)}${im < 0 ? '-' : '+'}${imText}`;
+};
+
+// Σ K M K† for any 2×2 operator M
+export const applyKraus = (channel: KrausChannel, m: Matrix): Matrix =>
+  channel
+    .map(k => matMul(matMul(k, m), dagger(k)))
+    .reduce((acc, term) => acc.map((row, i) => row.map((v, j) => add(v, term[i][j]))));
+
+// Eigenvalues of a real symmetric matrix by cyclic Jacobi rotations, ascending
+const symmetricEigenvalues = (m: number[][]): number[] => {
+  const a = m.map(row => [...row]);
+  const n = a.length;
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-24) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+      }
+    }
+  }
+  return a.map((row, i) => row[i]).sort((x, y) => x - y);
+};
+
+// A Hermitian H = A + iB has the eigenvalues of [[A, -B], [B, A]], each twice
+export const hermitianEigenvalues = (h: Matrix): number[] => {
+  const n = h.length;
+  const real = Array.from({ length: 2 * n }, (_, i) =>
+    Array.from({ length: 2 * n }, (_, j) => {
+      const v = h[i % n][j % n];
+      if ((i < n) === (j < n)) return v.re;
+      return i < n ? -v.im : v.im;
+    })
+  );
+  return symmetricEigenvalues(real).filter((_, i) => i % 2 === 0);
+};
+
+export interface KrausCheck {
+  // Σ K†K - I, zero for a trace-preserving channel
+  deviation: Matrix;
+  // Largest |eigenvalue| of the deviation, i.e. its operator norm
+  deviationNorm: number;
+  tracePreserving: boolean;
+  // Some input state comes out with trace above 1, which no physical
+  // process does; below 1 is a trace-decreasing (post-selected) channel
+  traceIncreasing: boolean;
+  // Of the Choi matrix Σ |K⟩⟩⟨⟨K| / 2, which is positive exactly when the
+  // map is completely positive
+  choiEigenvalues: number[];
+  completelyPositive: boolean;
+  // Fewest Kraus operators that describe the same channel
+  krausRank: number;
+}
+
+export const CPTP_TOLERANCE = 1e-6;
+
+export const checkKraus = (channel: KrausChannel, tolerance = CPTP_TOLERANCE): KrausCheck => {
+  const dim = channel[0].length;
+  const sum = channel
+    .map(k => matMul(dagger(k), k))
+    .reduce((acc, term) => acc.map((row, i) => row.map((v, j) => add(v, term[i][j]))));
+  const deviation = sum.map((row, i) => row.map((v, j) => (i === j ? complex(v.re - 1, v.im) : v)));
+  const deviationEigenvalues = hermitianEigenvalues(deviation);
+  const deviationNorm = Math.max(...deviationEigenvalues.map(Math.abs));
+
+  // Row-stacked vec(K), so ⟨⟨K|K⟩⟩ = Tr K†K
+  const vecs = channel.map(k => k.flat());
+  const choi = vecs[0].map((_, i) =>
+    vecs[0].map((_, j) =>
+      vecs.reduce((acc, v) => add(acc, mul(v[i], conj(v[j]))), ZERO)
+    ).map(v => complex(v.re / dim, v.im / dim))
+  );
+  const choiEigenvalues = hermitianEigenvalues(choi);
+
+  return {
+    deviation,
+    deviationNorm,
+    tracePreserving: deviationNorm <= tolerance,
+    traceIncreasing: Math.max(...deviationEigenvalues) > tolerance,
+    choiEigenvalues,
+    completelyPositive: choiEigenvalues[0] >= -tolerance,
+    krausRank: choiEigenvalues.filter(v => v > tolerance).length,
+  };
+};
+
+// Average gate fidelity with the identity, (d·F_e + 1)/(d + 1) where the
+// entanglement fidelity F_e = Σ |Tr K|² / d²
+export const averageGateFidelity = (channel: KrausChannel): number => {
+  const dim = channel[0].length;
+  const entanglement = channel.reduce(
+    (acc, k) => acc + abs2(k.reduce((tr, row, i) => add(tr, row[i]), ZERO)),
+    0
+  ) / (dim * dim);
+  return (dim * entanglement + 1) / (dim + 1);
+};
+
+// A single-qubit channel moves Bloch vectors by r → T·r + c. The unit sphere
+// of pure states lands on an ellipsoid centred on c with semi-axes the
+// singular values of T.
+export interface BlochAffineMap {
+  matrix: number[][];
+  offset: number[];
+}
+
+const paulis = [gateMatrix('X'), gateMatrix('Y'), gateMatrix('Z')];
+
+// Tr(σ M), real for Hermitian M
+const pauliComponent = (sigma: Matrix, m: Matrix) =>
+  matMul(sigma, m).reduce((acc, row, i) => acc + row[i].re, 0);
+
+export const blochAffineMap = (channel: KrausChannel): BlochAffineMap => {
+  const halfIdentity = identity(2).map(row => row.map(v => complex(v.re / 2)));
+  const center = applyKraus(channel, halfIdentity);
+  // E(σⱼ)/2 is the change in E(ρ) per unit of rⱼ
+  const images = paulis.map(sigma => applyKraus(channel, sigma));
+  return {
+    matrix: paulis.map(si => images.map(image => pauliComponent(si, image) / 2)),
+    offset: paulis.map(si => pauliComponent(si, center)),
+  };
+};
+
+// Semi-axis lengths of the image of the Bloch sphere, longest first
+export const ellipsoidAxes = ({ matrix }: BlochAffineMap): number[] => {
+  const gram = matrix.map(ri => matrix.map(rj => ri.reduce((acc, v, k) => acc + v * rj[k], 0)));
+  return symmetricEigenvalues(gram).map(v => Math.sqrt(Math.max(0, v))).reverse();
+};
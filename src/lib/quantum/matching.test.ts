@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+import { WeightedEdge, minimumWeightPerfectMatching } from './matching';
+
+// Lightest perfect matching by trying every partner for the lowest free
+// vertex; Infinity when there is none
+const bruteForce = (n: number, edges: WeightedEdge[]): number => {
+  const weight = new Map(edges.map(([i, j, w]) => [`${Math.min(i, j)},${Math.max(i, j)}`, w]));
+  const search = (free: number[]): number => {
+    if (free.length === 0) return 0;
+    const [v, ...rest] = free;
+    return Math.min(
+      Infinity,
+      ...rest.map(u => {
+        const w = weight.get(`${Math.min(u, v)},${Math.max(u, v)}`);
+        return w === undefined ? Infinity : w + search(rest.filter(x => x !== u));
+      })
+    );
+  };
+  return search(Array.from({ length: n }, (_, v) => v));
+};
+
+const randomGraph = (n: number, density: number, maxWeight: number, random: () => number) => {
+  const edges: WeightedEdge[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (random() < density) edges.push([i, j, Math.floor(random() * (maxWeight + 1))]);
+    }
+  }
+  return edges;
+};
+
+describe('minimumWeightPerfectMatching', () => {
+  it('matches the brute-force optimum on small random graphs', () => {
+    const random = createRandom(7);
+    let checked = 0;
+    for (let trial = 0; trial < 400; trial++) {
+      const n = 2 * (1 + Math.floor(random() * 4));
+      const edges = randomGraph(n, 0.3 + 0.7 * random(), trial % 2 === 0 ? 3 : 20, random);
+      const best = bruteForce(n, edges);
+      // The matcher assumes a perfect matching exists
+      if (best === Infinity || Math.max(-1, ...edges.flatMap(([i, j]) => [i, j])) !== n - 1) continue;
+
+      const mate = minimumWeightPerfectMatching(edges);
+      const weight = new Map(edges.map(([i, j, w]) => [`${i},${j}`, w]));
+      let total = 0;
+      mate.forEach((u, v) => {
+        expect(u).toBeGreaterThanOrEqual(0);
+        expect(mate[u]).toBe(v);
+        if (v < u) {
+          expect(weight.has(`${v},${u}`)).toBe(true);
+          total += weight.get(`${v},${u}`);
+        }
+      });
+      expect(total).toBe(best);
+      checked++;
+    }
+    expect(checked).toBeGreaterThan(200);
+  });
+
+  it('returns no pairs for an empty graph', () => {
+    expect(minimumWeightPerfectMatching([])).toEqual([]);
+  });
+});
@@ -0,0 +1,414 @@
+// Maximum-weight matching in general graphs with Edmonds' blossom algorithm,
+// O(n³), following Joris van Rantwijk's well-known reference implementation
+// (primal-dual, with S/T labels, blossom shrinking and expansion). With
+// integer weights every dual variable stays integral, so there are no
+// rounding issues. Used by the MWPM decoder.
+
+export type WeightedEdge = [number, number, number];
+
+// Python-style index from the end for negative j
+const at = <T,>(list: T[], j: number) => list[j < 0 ? j + list.length : j];
+
+// mate[v] is the vertex matched to v, or -1. With `maxCardinality` the
+// result is the heaviest among the matchings of maximum size.
+export const maxWeightMatching = (edges: WeightedEdge[], maxCardinality = false): number[] => {
+  if (edges.length === 0) return [];
+  const nedge = edges.length;
+  const nvertex = 1 + Math.max(...edges.flatMap(([i, j]) => [i, j]));
+  const maxweight = Math.max(0, ...edges.map(([, , w]) => w));
+
+  // endpoint[p] is the vertex at end p of edge p >> 1
+  const endpoint = Array.from({ length: 2 * nedge }, (_, p) => edges[p >> 1][p & 1]);
+  const neighbend: number[][] = Array.from({ length: nvertex }, () => []);
+  edges.forEach(([i, j], k) => {
+    neighbend[i].push(2 * k + 1);
+    neighbend[j].push(2 * k);
+  });
+
+  const mate: number[] = Array(nvertex).fill(-1);
+  // 0 free, 1 S, 2 T (per top-level blossom and per vertex); 5 marks a
+  // breadcrumb during scanBlossom
+  const label: number[] = Array(2 * nvertex).fill(0);
+  const labelend: number[] = Array(2 * nvertex).fill(-1);
+  const inblossom: number[] = Array.from({ length: nvertex }, (_, v) => v);
+  const blossomparent: number[] = Array(2 * nvertex).fill(-1);
+  const blossomchilds: (number[] | null)[] = Array(2 * nvertex).fill(null);
+  const blossombase: number[] = [...Array.from({ length: nvertex }, (_, v) => v), ...Array(nvertex).fill(-1)];
+  const blossomendps: (number[] | null)[] = Array(2 * nvertex).fill(null);
+  const bestedge: number[] = Array(2 * nvertex).fill(-1);
+  const blossombestedges: (number[] | null)[] = Array(2 * nvertex).fill(null);
+  const unusedblossoms: number[] = Array.from({ length: nvertex }, (_, i) => nvertex + i);
+  const dualvar: number[] = [...Array(nvertex).fill(maxweight), ...Array(nvertex).fill(0)];
+  const allowedge: boolean[] = Array(nedge).fill(false);
+  let queue: number[] = [];
+
+  const slack = (k: number) => {
+    const [i, j, w] = edges[k];
+    return dualvar[i] + dualvar[j] - 2 * w;
+  };
+
+  const blossomLeaves = (b: number): number[] =>
+    b < nvertex ? [b] : blossomchilds[b]!.flatMap(t => blossomLeaves(t));
+
+  const assignLabel = (w: number, t: number, p: number) => {
+    const b = inblossom[w];
+    label[w] = label[b] = t;
+    labelend[w] = labelend[b] = p;
+    bestedge[w] = bestedge[b] = -1;
+    if (t === 1) {
+      queue.push(...blossomLeaves(b));
+    } else if (t === 2) {
+      const base = blossombase[b];
+      assignLabel(endpoint[mate[base]], 1, mate[base] ^ 1);
+    }
+  };
+
+  // Trace back from v and w to find a new blossom's base, or -1 if the paths
+  // reach two different free vertices (an augmenting path)
+  const scanBlossom = (v: number, w: number) => {
+    const path: number[] = [];
+    let base = -1;
+    while (v !== -1 || w !== -1) {
+      let b = inblossom[v];
+      if (label[b] & 4) {
+        base = blossombase[b];
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+      if (labelend[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelend[b]];
+        b = inblossom[v];
+        v = endpoint[labelend[b]];
+      }
+      if (w !== -1) [v, w] = [w, v];
+    }
+    path.forEach(b => { label[b] = 1; });
+    return base;
+  };
+
+  const addBlossom = (base: number, k: number) => {
+    let [v, w] = edges[k];
+    const bb = inblossom[base];
+    let bv = inblossom[v];
+    let bw = inblossom[w];
+    const b = unusedblossoms.pop()!;
+    blossombase[b] = base;
+    blossomparent[b] = -1;
+    blossomparent[bb] = b;
+    const path: number[] = [];
+    const endps: number[] = [];
+    while (bv !== bb) {
+      blossomparent[bv] = b;
+      path.push(bv);
+      endps.push(labelend[bv]);
+      v = endpoint[labelend[bv]];
+      bv = inblossom[v];
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+    while (bw !== bb) {
+      blossomparent[bw] = b;
+      path.push(bw);
+      endps.push(labelend[bw] ^ 1);
+      w = endpoint[labelend[bw]];
+      bw = inblossom[w];
+    }
+    blossomchilds[b] = path;
+    blossomendps[b] = endps;
+    label[b] = 1;
+    labelend[b] = labelend[bb];
+    dualvar[b] = 0;
+    blossomLeaves(b).forEach(leaf => {
+      if (label[inblossom[leaf]] === 2) queue.push(leaf);
+      inblossom[leaf] = b;
+    });
+
+    // Cheapest edge from the new blossom to every neighbouring S-blossom
+    const bestedgeto: number[] = Array(2 * nvertex).fill(-1);
+    path.forEach(sub => {
+      const nblists = blossombestedges[sub] === null
+        ? blossomLeaves(sub).map(leaf => neighbend[leaf].map(p => p >> 1))
+        : [blossombestedges[sub]!];
+      nblists.forEach(list => list.forEach(e => {
+        let [i, j] = edges[e];
+        if (inblossom[j] === b) [i, j] = [j, i];
+        const bj = inblossom[j];
+        if (bj !== b && label[bj] === 1 && (bestedgeto[bj] === -1 || slack(e) < slack(bestedgeto[bj]))) {
+          bestedgeto[bj] = e;
+        }
+      }));
+      blossombestedges[sub] = null;
+      bestedge[sub] = -1;
+    });
+    blossombestedges[b] = bestedgeto.filter(e => e !== -1);
+    bestedge[b] = -1;
+    blossombestedges[b]!.forEach(e => {
+      if (bestedge[b] === -1 || slack(e) < slack(bestedge[b])) bestedge[b] = e;
+    });
+  };
+
+  const expandBlossom = (b: number, endstage: boolean) => {
+    blossomchilds[b]!.forEach(s => {
+      blossomparent[s] = -1;
+      if (s < nvertex) {
+        inblossom[s] = s;
+      } else if (endstage && dualvar[s] === 0) {
+        expandBlossom(s, endstage);
+      } else {
+        blossomLeaves(s).forEach(leaf => { inblossom[leaf] = s; });
+      }
+    });
+
+    // A T-blossom expanded mid-stage: relabel the sub-blossoms on the even
+    // path from the entry child to the base
+    if (!endstage && label[b] === 2) {
+      const childs = blossomchilds[b]!;
+      const endps = blossomendps[b]!;
+      const entrychild = inblossom[endpoint[labelend[b] ^ 1]];
+      let j = childs.indexOf(entrychild);
+      let jstep: number;
+      let endptrick: number;
+      if (j & 1) {
+        j -= childs.length;
+        jstep = 1;
+        endptrick = 0;
+      } else {
+        jstep = -1;
+        endptrick = 1;
+      }
+      let p = labelend[b];
+      while (j !== 0) {
+        label[endpoint[p ^ 1]] = 0;
+        label[endpoint[at(endps, j - endptrick) ^ endptrick ^ 1]] = 0;
+        assignLabel(endpoint[p ^ 1], 2, p);
+        allowedge[at(endps, j - endptrick) >> 1] = true;
+        j += jstep;
+        p = at(endps, j - endptrick) ^ endptrick;
+        allowedge[p >> 1] = true;
+        j += jstep;
+      }
+      let bv = at(childs, j);
+      label[endpoint[p ^ 1]] = label[bv] = 2;
+      labelend[endpoint[p ^ 1]] = labelend[bv] = p;
+      bestedge[bv] = -1;
+      j += jstep;
+      while (at(childs, j) !== entrychild) {
+        bv = at(childs, j);
+        if (label[bv] === 1) {
+          j += jstep;
+          continue;
+        }
+        const leaves = blossomLeaves(bv);
+        const v = leaves.find(leaf => label[leaf] !== 0) ?? leaves[leaves.length - 1];
+        if (label[v] !== 0) {
+          label[v] = 0;
+          label[endpoint[mate[blossombase[bv]]]] = 0;
+          assignLabel(v, 2, labelend[v]);
+        }
+        j += jstep;
+      }
+    }
+    label[b] = labelend[b] = -1;
+    blossomchilds[b] = blossomendps[b] = null;
+    blossombase[b] = -1;
+    blossombestedges[b] = null;
+    bestedge[b] = -1;
+    unusedblossoms.push(b);
+  };
+
+  // Swap matched and unmatched edges on the even path through b from its
+  // base to vertex v, and rotate b so v becomes the base
+  const augmentBlossom = (b: number, v: number) => {
+    let t = v;
+    while (blossomparent[t] !== b) t = blossomparent[t];
+    if (t >= nvertex) augmentBlossom(t, v);
+    const childs = blossomchilds[b]!;
+    const endps = blossomendps[b]!;
+    const i = childs.indexOf(t);
+    let j = i;
+    let jstep: number;
+    let endptrick: number;
+    if (i & 1) {
+      j -= childs.length;
+      jstep = 1;
+      endptrick = 0;
+    } else {
+      jstep = -1;
+      endptrick = 1;
+    }
+    while (j !== 0) {
+      j += jstep;
+      t = at(childs, j);
+      const p = at(endps, j - endptrick) ^ endptrick;
+      if (t >= nvertex) augmentBlossom(t, endpoint[p]);
+      j += jstep;
+      t = at(childs, j);
+      if (t >= nvertex) augmentBlossom(t, endpoint[p ^ 1]);
+      mate[endpoint[p]] = p ^ 1;
+      mate[endpoint[p ^ 1]] = p;
+    }
+    blossomchilds[b] = [...childs.slice(i), ...childs.slice(0, i)];
+    blossomendps[b] = [...endps.slice(i), ...endps.slice(0, i)];
+    blossombase[b] = blossombase[blossomchilds[b]![0]];
+  };
+
+  const augmentMatching = (k: number) => {
+    const [v, w] = edges[k];
+    ([[v, 2 * k + 1], [w, 2 * k]] as [number, number][]).forEach(([start, startP]) => {
+      let s = start;
+      let p = startP;
+      for (;;) {
+        const bs = inblossom[s];
+        if (bs >= nvertex) augmentBlossom(bs, s);
+        mate[s] = p;
+        if (labelend[bs] === -1) break;
+        const t = endpoint[labelend[bs]];
+        const bt = inblossom[t];
+        s = endpoint[labelend[bt]];
+        const j = endpoint[labelend[bt] ^ 1];
+        if (bt >= nvertex) augmentBlossom(bt, j);
+        mate[j] = labelend[bt];
+        p = labelend[bt] ^ 1;
+      }
+    });
+  };
+
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestedge.fill(-1);
+    for (let b = nvertex; b < 2 * nvertex; b++) blossombestedges[b] = null;
+    allowedge.fill(false);
+    queue = [];
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inblossom[v]] === 0) assignLabel(v, 1, -1);
+    }
+
+    let augmented = false;
+    for (;;) {
+      while (queue.length > 0 && !augmented) {
+        const v = queue.pop()!;
+        for (const p of neighbend[v]) {
+          const k = p >> 1;
+          const w = endpoint[p];
+          if (inblossom[v] === inblossom[w]) continue;
+          let kslack = 0;
+          if (!allowedge[k]) {
+            kslack = slack(k);
+            if (kslack <= 0) allowedge[k] = true;
+          }
+          if (allowedge[k]) {
+            if (label[inblossom[w]] === 0) {
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inblossom[w]] === 1) {
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              label[w] = 2;
+              labelend[w] = p ^ 1;
+            }
+          } else if (label[inblossom[w]] === 1) {
+            const b = inblossom[v];
+            if (bestedge[b] === -1 || kslack < slack(bestedge[b])) bestedge[b] = k;
+          } else if (label[w] === 0) {
+            if (bestedge[w] === -1 || kslack < slack(bestedge[w])) bestedge[w] = k;
+          }
+        }
+      }
+      if (augmented) break;
+
+      // No augmenting path with the current duals: pick the largest dual
+      // change that keeps every slack non-negative
+      let deltatype = -1;
+      let delta = 0;
+      let deltaedge = -1;
+      let deltablossom = -1;
+      if (!maxCardinality) {
+        deltatype = 1;
+        delta = Math.min(...dualvar.slice(0, nvertex));
+      }
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 0 && bestedge[v] !== -1) {
+          const d = slack(bestedge[v]);
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 2;
+            deltaedge = bestedge[v];
+          }
+        }
+      }
+      for (let b = 0; b < 2 * nvertex; b++) {
+        if (blossomparent[b] === -1 && label[b] === 1 && bestedge[b] !== -1) {
+          const d = slack(bestedge[b]) / 2;
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 3;
+            deltaedge = bestedge[b];
+          }
+        }
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1 && label[b] === 2 && (deltatype === -1 || dualvar[b] < delta)) {
+          delta = dualvar[b];
+          deltatype = 4;
+          deltablossom = b;
+        }
+      }
+      if (deltatype === -1) {
+        deltatype = 1;
+        delta = Math.max(0, Math.min(...dualvar.slice(0, nvertex)));
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 1) dualvar[v] -= delta;
+        else if (label[inblossom[v]] === 2) dualvar[v] += delta;
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1) {
+          if (label[b] === 1) dualvar[b] += delta;
+          else if (label[b] === 2) dualvar[b] -= delta;
+        }
+      }
+
+      if (deltatype === 1) {
+        break;
+      } else if (deltatype === 2) {
+        allowedge[deltaedge] = true;
+        let [i, j] = edges[deltaedge];
+        if (label[inblossom[i]] === 0) [i, j] = [j, i];
+        queue.push(i);
+      } else if (deltatype === 3) {
+        allowedge[deltaedge] = true;
+        queue.push(edges[deltaedge][0]);
+      } else {
+        expandBlossom(deltablossom, false);
+      }
+    }
+
+    if (!augmented) break;
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      if (blossomparent[b] === -1 && blossombase[b] >= 0 && label[b] === 1 && dualvar[b] === 0) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  return mate.map(p => (p >= 0 ? endpoint[p] : -1));
+};
+
+// Pairs every vertex at the smallest total weight; the graph must have a
+// perfect matching. Weights must be non-negative integers.
+export const minimumWeightPerfectMatching = (edges: WeightedEdge[]): number[] => {
+  const top = Math.max(0, ...edges.map(([, , w]) => w)) + 1;
+  return maxWeightMatching(edges.map(([i, j, w]) => [i, j, top - w]), true);
+};
@@ -0,0 +1,28 @@
+import { Complex, ZERO, ONE, add, mul, conj } from './complex';
+
+// Dense complex matrix, row-major
+export type Matrix = Complex[][];
+
+export const identity = (dim: number): Matrix =>
+  Array.from({ length: dim }, (_, i) =>
+    Array.from({ length: dim }, (_, j) => (i === j ? ONE : ZERO))
+  );
+
+export const matMul = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row =>
+    b[0].map((_, j) => row.reduce((acc, aik, k) => add(acc, mul(aik, b[k][j])), ZERO))
+  );
+
+// Conjugate transpose
+export const dagger = (m: Matrix): Matrix =>
+  m[0].map((_, j) => m.map(row => conj(row[j])));
+
+export const kron = (a: Matrix, b: Matrix): Matrix => {
+  const rows = a.length * b.length;
+  const cols = a[0].length * b[0].length;
+  return Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) =>
+      mul(a[Math.floor(i / b.length)][Math.floor(j / b[0].length)], b[i % b.length][j % b[0].length])
+    )
+  );
+};
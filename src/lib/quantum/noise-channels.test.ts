@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+import { add, complex } from './complex';
+import { DensityMatrix, KrausChannel, applyChannel, densityFromState, mixDensities, trace } from './density-matrix';
+import { Matrix, dagger, identity, matMul } from './matrix';
+import {
+  amplitudeDamping,
+  bitPhaseFlip,
+  coherentOverRotation,
+  depolarizing,
+  generalizedAmplitudeDamping,
+  pauliChannel,
+  phaseDamping,
+  relaxation,
+  resetChannel,
+  thermalRelaxation
+} from './noise-channels';
+
+// A random mixed single-qubit state with complex coherences
+const randomDensity = (seed: number): DensityMatrix => {
+  const random = createRandom(seed);
+  const pure = () => {
+    const [a, b, c, d] = [random(), random(), random(), random()].map(v => v - 0.5);
+    const norm = Math.hypot(a, b, c, d);
+    return densityFromState({ numQubits: 1, amplitudes: [complex(a / norm, b / norm), complex(c / norm, d / norm)] });
+  };
+  const w = random();
+  return mixDensities([{ weight: w, dm: pure() }, { weight: 1 - w, dm: pure() }]);
+};
+
+const addMatrices = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => add(v, b[i][j])));
+
+const evolve = (dm: DensityMatrix, channels: KrausChannel[]) =>
+  channels.reduce((state, channel) => applyChannel(state, channel, [0]), dm);
+
+describe('noise channels', () => {
+  it.each<[string, KrausChannel]>([
+    ['depolarizing', depolarizing(0.2)],
+    ['pauliChannel', pauliChannel(0.05, 0.1, 0.15)],
+    ['amplitudeDamping', amplitudeDamping(0.3)],
+    ['phaseDamping', phaseDamping(0.4)],
+    ['generalizedAmplitudeDamping', generalizedAmplitudeDamping(0.25, 0.1)],
+    ['resetChannel', resetChannel(0.35)],
+    ['bitPhaseFlip', bitPhaseFlip(0.2)],
+    ['coherentOverRotation', coherentOverRotation(0.3, 'y')],
+    ...thermalRelaxation(50, 30, 12, 0.05).map((c, i): [string, KrausChannel] => [`thermalRelaxation[${i}]`, c]),
+  ])('%s preserves the trace', (_, channel) => {
+    // Σ K†K = I
+    channel.map(k => matMul(dagger(k), k)).reduce(addMatrices).forEach((row, i) => row.forEach((v, j) => {
+      expect(v.re).toBeCloseTo(identity(2)[i][j].re, 12);
+      expect(v.im).toBeCloseTo(0, 12);
+    }));
+    [1, 2, 3].forEach(seed => expect(trace(applyChannel(randomDensity(seed), channel, [0]))).toBeCloseTo(1, 12));
+  });
+});
+
+describe('relaxation', () => {
+  const t1 = 50;
+  const t2 = 30;
+
+  it.each([0.5, 5, 20, 80])('decays ρ₀₁ as e^(-t/T2) and ρ₁₁ as e^(-t/T1) after t = %f', t => {
+    const plus = densityFromState({ numQubits: 1, amplitudes: [complex(Math.SQRT1_2), complex(Math.SQRT1_2)] });
+    const one = densityFromState({ numQubits: 1, amplitudes: [complex(0), complex(1)] });
+    const coherence = evolve(plus, relaxation(t1, t2, t)).rho[0][1];
+    expect(coherence.re).toBeCloseTo(0.5 * Math.exp(-t / t2), 12);
+    expect(coherence.im).toBeCloseTo(0, 12);
+    expect(evolve(one, relaxation(t1, t2, t)).rho[1][1].re).toBeCloseTo(Math.exp(-t / t1), 12);
+  });
+
+  it('relaxes toward the thermal population at the same rates', () => {
+    const excited = 0.08;
+    const t = 17;
+    const one = densityFromState({ numQubits: 1, amplitudes: [complex(0), complex(1)] });
+    expect(evolve(one, thermalRelaxation(t1, t2, t, excited)).rho[1][1].re)
+      .toBeCloseTo(excited + (1 - excited) * Math.exp(-t / t1), 12);
+    const start = randomDensity(4).rho;
+    const rho = evolve(randomDensity(4), thermalRelaxation(t1, t2, t, excited)).rho;
+    expect(rho[0][1].re).toBeCloseTo(start[0][1].re * Math.exp(-t / t2), 12);
+    expect(rho[0][1].im).toBeCloseTo(start[0][1].im * Math.exp(-t / t2), 12);
+  });
+
+  it('composes over consecutive intervals', () => {
+    const start = randomDensity(5);
+    const once = evolve(start, relaxation(t1, t2, 9));
+    const twice = evolve(evolve(start, relaxation(t1, t2, 4)), relaxation(t1, t2, 5));
+    once.rho.forEach((row, i) => row.forEach((v, j) => {
+      expect(twice.rho[i][j].re).toBeCloseTo(v.re, 12);
+      expect(twice.rho[i][j].im).toBeCloseTo(v.im, 12);
+    }));
+  });
+
+  it('leaves T2 = 2·T1 to amplitude damping alone and does nothing for no time', () => {
+    expect(relaxation(t1, 2 * t1, 10)[1]).toEqual(phaseDamping(0));
+    expect(relaxation(t1, t2, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { complex, ZERO } from './complex';
+import { Matrix } from './matrix';
+import { gateMatrix } from './gates';
+import { KrausChannel } from './density-matrix';
+
+const scaled = (m: Matrix, s: number): Matrix => m.map(row => row.map(v => complex(v.re * s, v.im * s)));
+
+// ρ → (1-p)ρ + (p/3)(XρX + YρY + ZρZ); the Bloch vector shrinks by 1 - 4p/3
+export const depolarizing = (p: number): KrausChannel => [
+  scaled(gateMatrix('I'), Math.sqrt(1 - p)),
+  scaled(gateMatrix('X'), Math.sqrt(p / 3)),
+  scaled(gateMatrix('Y'), Math.sqrt(p / 3)),
+  scaled(gateMatrix('Z'), Math.sqrt(p / 3)),
+];
+
+// ρ → (1-px-py-pz)ρ + px·XρX + py·YρY + pz·ZρZ; depolarizing is px = py = pz = p/3
+export const pauliChannel = (px: number, py: number, pz: number): KrausChannel => [
+  scaled(gateMatrix('I'), Math.sqrt(Math.max(0, 1 - px - py - pz))),
+  scaled(gateMatrix('X'), Math.sqrt(px)),
+  scaled(gateMatrix('Y'), Math.sqrt(py)),
+  scaled(gateMatrix('Z'), Math.sqrt(pz)),
+];
+
+// E₀ = |0⟩⟨0| + √(1-γ)|1⟩⟨1|, E₁ = √γ|0⟩⟨1|
+export const amplitudeDamping = (gamma: number): KrausChannel => [
+  [[complex(1), ZERO], [ZERO, complex(Math.sqrt(1 - gamma))]],
+  [[ZERO, complex(Math.sqrt(gamma))], [ZERO, ZERO]],
+];
+
+// E₀ = |0⟩⟨0| + √(1-λ)|1⟩⟨1|, E₁ = √λ|1⟩⟨1|; coherences shrink by √(1-λ)
+export const phaseDamping = (lambda: number): KrausChannel => [
+  [[complex(1), ZERO], [ZERO, complex(Math.sqrt(1 - lambda))]],
+  [[ZERO, ZERO], [ZERO, complex(Math.sqrt(lambda))]],
+];
+
+// Amplitude damping toward a thermal state whose excited-state population is
+// `excited` rather than toward |0⟩: with weight 1-p the qubit decays
+// |1⟩ → |0⟩, with weight p it is excited |0⟩ → |1⟩ at the same rate γ
+export const generalizedAmplitudeDamping = (gamma: number, excited: number): KrausChannel => {
+  const down = scaled(amplitudeDamping(gamma)[0], Math.sqrt(1 - excited));
+  const decay = scaled(amplitudeDamping(gamma)[1], Math.sqrt(1 - excited));
+  if (excited <= 0) return [down, decay];
+  return [
+    down,
+    decay,
+    [[complex(Math.sqrt(excited * (1 - gamma))), ZERO], [ZERO, complex(Math.sqrt(excited))]],
+    [[ZERO, ZERO], [complex(Math.sqrt(excited * gamma)), ZERO]],
+  ];
+};
+
+// h/k_B in mK per GHz, so hf/kT = PLANCK_OVER_BOLTZMANN · f / T
+const PLANCK_OVER_BOLTZMANN = 47.992;
+
+// Boltzmann excited-state population of a qubit at `frequency` GHz in
+// equilibrium with a bath at `temperature` mK
+export const thermalPopulation = (frequency: number, temperature: number): number =>
+  temperature <= 0 ? 0 : 1 / (1 + Math.exp((PLANCK_OVER_BOLTZMANN * frequency) / temperature));
+
+// Why T1 and T2 cannot describe a physical qubit, or null if they can.
+// Energy decay alone dephases at 1/(2·T1), so T2 can be at most 2·T1.
+export const relaxationTimesError = (t1: number, t2: number): string | null => {
+  if (!(t1 > 0) || !(t2 > 0)) return 'T1 and T2 must be positive';
+  if (t2 > 2 * t1 + 1e-9) return `T2 = ${t2} cannot exceed 2·T1 = ${2 * t1}`;
+  return null;
+};
+
+// Free evolution for `duration` toward a thermal state with excited-state
+// population `excited` (same time unit for T1, T2 and the duration):
+// generalized amplitude damping decays coherences at 1/(2·T1), so pure
+// dephasing supplies the rest of 1/T2. T2 is capped at 2·T1.
+export const thermalRelaxation = (t1: number, t2: number, duration: number, excited: number): KrausChannel[] => {
+  if (duration <= 0) return [];
+  const gamma = 1 - Math.exp(-duration / t1);
+  const dephasingRate = Math.max(0, 1 / t2 - 1 / (2 * t1));
+  const lambda = 1 - Math.exp(-2 * duration * dephasingRate);
+  return [generalizedAmplitudeDamping(gamma, excited), phaseDamping(lambda)];
+};
+
+// Free evolution under T1 relaxation and T2 decoherence at zero temperature
+export const relaxation = (t1: number, t2: number, duration: number): KrausChannel[] =>
+  thermalRelaxation(t1, t2, duration, 0);
+
+// With probability p the qubit is replaced by |0⟩, whatever it was
+export const resetChannel = (p: number): KrausChannel => [
+  scaled(gateMatrix('I'), Math.sqrt(1 - p)),
+  [[complex(Math.sqrt(p)), ZERO], [ZERO, ZERO]],
+  [[ZERO, complex(Math.sqrt(p))], [ZERO, ZERO]],
+];
+
+// ρ → (1-p)ρ + p·YρY, a simultaneous bit and phase flip
+export const bitPhaseFlip = (p: number): KrausChannel => [
+  scaled(gateMatrix('I'), Math.sqrt(1 - p)),
+  scaled(gateMatrix('Y'), Math.sqrt(p)),
+];
+
+// A miscalibrated pulse: an extra rotation by `epsilon` about one axis. A
+// single unitary Kraus operator, so it keeps the state pure but errors add
+// up coherently when repeated
+export const coherentOverRotation = (epsilon: number, axis: 'x' | 'y' | 'z' = 'x'): KrausChannel => [
+  gateMatrix(axis === 'x' ? 'Rx' : axis === 'y' ? 'Ry' : 'Rz', epsilon),
+];
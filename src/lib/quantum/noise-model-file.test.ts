@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NOISE_MODEL } from './noisy-circuit';
+import {
+  NOISE_MODEL_FILE_VERSION,
+  fromNoiseModel,
+  parseNoiseModelFile,
+  serializeNoiseModelFile,
+  toNoiseModel,
+} from './noise-model-file';
+
+const device = {
+  version: NOISE_MODEL_FILE_VERSION,
+  name: 'Test device',
+  qubits: [
+    { t1: 100, t2: 80, readoutError: 0.02, frequency: 5 },
+    { t1: 60, t2: 100, readoutError: 0.04 },
+  ],
+  gates: {
+    H: { error: 0.001, duration: 35 },
+    X: { error: 0.003, duration: 35 },
+    CNOT: { error: 0.01, duration: 300 },
+  },
+  couplingMap: [[0, 1]],
+};
+
+const parse = (value: unknown) => parseNoiseModelFile(JSON.stringify(value));
+
+describe('parseNoiseModelFile', () => {
+  it('accepts a valid file and defaults the crosstalk list', () => {
+    const { file, errors } = parse(device);
+    expect(errors).toEqual([]);
+    expect(file).toEqual({ ...device, crosstalk: [] });
+  });
+
+  it('reports invalid JSON', () => {
+    const { file, errors } = parseNoiseModelFile('{"version": 1,');
+    expect(file).toBeNull();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Invalid JSON: /);
+  });
+
+  it('names the field behind every problem', () => {
+    const { file, errors } = parse({
+      ...device,
+      version: 2,
+      qubits: [{ t1: 10, t2: 15, readoutError: 1.5 }, device.qubits[1]],
+      gates: { ...device.gates, CNOT: { error: 0.01, duration: -1 } },
+    });
+    expect(file).toBeNull();
+    expect(errors).toEqual([
+      'version: only version 1 is supported',
+      'qubits[0].readoutError: must be at most 1',
+      'gates.CNOT.duration: duration must not be negative',
+    ]);
+  });
+
+  // Zod runs these checks only once every field is valid on its own
+  it('checks qubit pairs against the device', () => {
+    const { file, errors } = parse({
+      ...device,
+      couplingMap: [[0, 1], [1, 0], [0, 2]],
+      crosstalk: [{ qubits: [1, 1], zz: 20 }],
+    });
+    expect(file).toBeNull();
+    expect(errors).toEqual([
+      'couplingMap[1]: edge 1-0 is listed twice',
+      'couplingMap[2][1]: qubit 2 does not exist (the device has 2)',
+      'crosstalk[0].qubits: qubit 1 is paired with itself',
+    ]);
+  });
+
+  it('checks T2 against T1 and rejects unknown fields and gates', () => {
+    expect(parse({ ...device, qubits: [{ t1: 10, t2: 30, readoutError: 0 }], couplingMap: [] }).errors)
+      .toEqual(['qubits[0].t2: T2 = 30 µs exceeds 2·T1 = 20 µs']);
+    expect(parse({ ...device, owner: 'lab' }).errors).toHaveLength(1);
+    expect(parse({ ...device, gates: { ...device.gates, U3: { error: 0, duration: 0 } } }).errors).toHaveLength(1);
+    expect(parse({ ...device, gates: {} }).errors).toEqual(['gates: at least one gate is required']);
+  });
+});
+
+describe('toNoiseModel and fromNoiseModel', () => {
+  it('averages the device into the uniform model', () => {
+    const model = toNoiseModel(parse(device).file!);
+    expect(model.singleQubitError).toBeCloseTo(0.002, 12);
+    expect(model.multiQubitError).toBeCloseTo(0.01, 12);
+    expect(model.t1).toBe(80);
+    expect(model.t2).toBe(90);
+    expect(model.readoutError).toBeCloseTo(0.03, 12);
+    // The slowest gate, 300 ns, sets the layer time in µs
+    expect(model.layerTime).toBeCloseTo(0.3, 12);
+  });
+
+  it('falls back to the default model for gate kinds the file leaves out', () => {
+    const model = toNoiseModel(parse({ ...device, gates: { H: { error: 0.001, duration: 0 } } }).file!);
+    expect(model.multiQubitError).toBe(DEFAULT_NOISE_MODEL.multiQubitError);
+    expect(model.layerTime).toBe(DEFAULT_NOISE_MODEL.layerTime);
+  });
+
+  it('round-trips the uniform model through a serialized file', () => {
+    const noise = { ...DEFAULT_NOISE_MODEL, t2: 70 };
+    const file = fromNoiseModel(noise, 3, { name: 'Export', temperature: 15, frequency: 5 });
+    const { file: parsed, errors } = parseNoiseModelFile(serializeNoiseModelFile(file));
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual(file);
+    expect(parsed!.couplingMap).toEqual([[0, 1], [1, 2]]);
+    expect(toNoiseModel(parsed!)).toEqual({
+      singleQubitError: noise.singleQubitError,
+      multiQubitError: noise.multiQubitError,
+      t1: noise.t1,
+      t2: noise.t2,
+      layerTime: expect.closeTo(noise.layerTime, 12),
+      readoutError: noise.readoutError,
+    });
+  });
+
+  it('caps T2 at 2·T1 on export so the file stays valid', () => {
+    const file = fromNoiseModel({ ...DEFAULT_NOISE_MODEL, t1: 20, t2: 60 }, 1, { name: 'Capped' });
+    expect(file.qubits[0].t2).toBe(40);
+    expect(parseNoiseModelFile(serializeNoiseModelFile(file)).errors).toEqual([]);
+  });
+});
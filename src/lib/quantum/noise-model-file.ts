@@ -0,0 +1,201 @@
+import { z } from 'zod';
+import { CircuitGateType, isMultiQubitGate } from './circuit';
+import { DEFAULT_NOISE_MODEL, NoiseModel } from './noisy-circuit';
+
+// Shareable device noise model, one JSON file per device. Times are in µs
+// except gate durations, which hardware calibrations quote in ns. Pages
+// that simulate a single averaged NoiseModel reduce the file with
+// toNoiseModel; the per-qubit values, coupling map and crosstalk are kept
+// in the file for tools that can use them.
+
+export const NOISE_MODEL_FILE_VERSION = 1;
+
+const GATE_TYPES = [
+  'H', 'X', 'Y', 'Z', 'T', 'S', 'Rx', 'Ry', 'Rz', 'CNOT', 'CZ', 'SWAP', 'CCX', 'CCZ', 'MCX',
+] as const satisfies readonly Exclude<CircuitGateType, 'M'>[];
+
+const probability = z.number().min(0, 'must be at least 0').max(1, 'must be at most 1');
+
+const qubitSchema = z
+  .object({
+    t1: z.number().positive('T1 must be positive'),
+    t2: z.number().positive('T2 must be positive'),
+    readoutError: probability,
+    // Transition frequency in GHz, for the thermal population
+    frequency: z.number().positive().optional(),
+  })
+  .strict()
+  .superRefine((qubit, ctx) => {
+    if (qubit.t1 > 0 && qubit.t2 > 2 * qubit.t1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['t2'],
+        message: `T2 = ${qubit.t2} µs exceeds 2·T1 = ${2 * qubit.t1} µs`,
+      });
+    }
+  });
+
+const gateSchema = z
+  .object({
+    // Depolarizing error per qubit the gate acts on
+    error: probability,
+    // ns
+    duration: z.number().nonnegative('duration must not be negative'),
+  })
+  .strict();
+
+const qubitPair = z.tuple([z.number().int().nonnegative(), z.number().int().nonnegative()]);
+
+const crosstalkSchema = z
+  .object({
+    qubits: qubitPair,
+    // Static ZZ interaction strength in kHz
+    zz: z.number(),
+  })
+  .strict();
+
+export const noiseModelFileSchema = z
+  .object({
+    version: z.literal(NOISE_MODEL_FILE_VERSION, {
+      errorMap: () => ({ message: `only version ${NOISE_MODEL_FILE_VERSION} is supported` }),
+    }),
+    name: z.string().min(1, 'must not be empty'),
+    description: z.string().optional(),
+    // Fridge temperature in mK
+    temperature: z.number().nonnegative().optional(),
+    qubits: z.array(qubitSchema).min(1, 'at least one qubit is required'),
+    gates: z
+      .record(z.enum(GATE_TYPES), gateSchema)
+      .refine(gates => Object.keys(gates).length > 0, 'at least one gate is required'),
+    couplingMap: z.array(qubitPair),
+    crosstalk: z.array(crosstalkSchema).default([]),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    const n = file.qubits.length;
+    const checkPair = ([a, b]: number[], path: (string | number)[]) => {
+      [a, b].forEach((q, i) => {
+        if (q >= n) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, i], message: `qubit ${q} does not exist (the device has ${n})` });
+        }
+      });
+      if (a === b) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `qubit ${a} is paired with itself` });
+      }
+    };
+    const seen = new Set<string>();
+    file.couplingMap.forEach(([a, b], i) => {
+      checkPair([a, b], ['couplingMap', i]);
+      const key = `${Math.min(a, b)}-${Math.max(a, b)}`;
+      if (seen.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['couplingMap', i], message: `edge ${a}-${b} is listed twice` });
+      }
+      seen.add(key);
+    });
+    file.crosstalk.forEach(({ qubits: [a, b] }, i) => checkPair([a, b], ['crosstalk', i, 'qubits']));
+  });
+
+export type NoiseModelFile = z.infer<typeof noiseModelFileSchema>;
+
+export interface NoiseModelFileParseResult {
+  file: NoiseModelFile | null;
+  // One line per problem, each naming the field it is about
+  errors: string[];
+}
+
+// qubits[2].t2 style paths
+const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>((acc, key) => (typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key), '');
+
+export const parseNoiseModelFile = (text: string): NoiseModelFileParseResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return { file: null, errors: [`Invalid JSON: ${(e as Error).message}`] };
+  }
+  const result = noiseModelFileSchema.safeParse(json);
+  if (result.success) return { file: result.data, errors: [] };
+  return {
+    file: null,
+    errors: result.error.issues.map(issue => {
+      const path = formatPath(issue.path);
+      return path ? `${path}: ${issue.message}` : issue.message;
+    }),
+  };
+};
+
+export const serializeNoiseModelFile = (file: NoiseModelFile): string => JSON.stringify(file, null, 2);
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Mean error and duration over the file's one- or multi-qubit gates, or
+// null if it lists none of that kind
+export const averageGate = (file: NoiseModelFile, kind: 'single' | 'multi') => {
+  const gates = Object.entries(file.gates)
+    .filter(([type]) => isMultiQubitGate(type as CircuitGateType) === (kind === 'multi'))
+    .map(([, gate]) => gate);
+  if (gates.length === 0) return null;
+  return { error: mean(gates.map(g => g.error)), duration: mean(gates.map(g => g.duration)) };
+};
+
+export const averageQubit = (file: NoiseModelFile) => ({
+  t1: mean(file.qubits.map(q => q.t1)),
+  t2: mean(file.qubits.map(q => q.t2)),
+  readoutError: mean(file.qubits.map(q => q.readoutError)),
+  frequency: file.qubits.some(q => q.frequency !== undefined)
+    ? mean(file.qubits.filter(q => q.frequency !== undefined).map(q => q.frequency!))
+    : null,
+});
+
+// The device averaged into the simulator's uniform model; a layer lasts as
+// long as the slowest gate
+export const toNoiseModel = (file: NoiseModelFile): NoiseModel => {
+  const single = averageGate(file, 'single');
+  const multi = averageGate(file, 'multi');
+  const { t1, t2, readoutError } = averageQubit(file);
+  const longest = Math.max(0, ...Object.values(file.gates).map(g => g.duration));
+  return {
+    singleQubitError: single?.error ?? DEFAULT_NOISE_MODEL.singleQubitError,
+    multiQubitError: multi?.error ?? DEFAULT_NOISE_MODEL.multiQubitError,
+    t1,
+    t2,
+    layerTime: longest > 0 ? longest / 1000 : DEFAULT_NOISE_MODEL.layerTime,
+    readoutError,
+  };
+};
+
+export interface NoiseModelFileOptions {
+  name: string;
+  description?: string;
+  temperature?: number;
+  frequency?: number;
+  // ns; every gate takes the whole layer when absent
+  gateDuration?: number;
+}
+
+// A uniform device with the model's values on every qubit and gate, and
+// nearest-neighbour coupling along a line
+export const fromNoiseModel = (noise: NoiseModel, numQubits: number, options: NoiseModelFileOptions): NoiseModelFile => {
+  const duration = options.gateDuration ?? noise.layerTime * 1000;
+  return {
+    version: NOISE_MODEL_FILE_VERSION,
+    name: options.name,
+    ...(options.description !== undefined && { description: options.description }),
+    ...(options.temperature !== undefined && { temperature: options.temperature }),
+    qubits: Array.from({ length: numQubits }, () => ({
+      t1: noise.t1,
+      // The simulator caps T2 at 2·T1 anyway
+      t2: Math.min(noise.t2, 2 * noise.t1),
+      readoutError: noise.readoutError,
+      ...(options.frequency !== undefined && { frequency: options.frequency }),
+    })),
+    gates: Object.fromEntries(GATE_TYPES.map(type => [
+      type,
+      { error: isMultiQubitGate(type) ? noise.multiQubitError : noise.singleQubitError, duration },
+    ])),
+    couplingMap: Array.from({ length: numQubits - 1 }, (_, q) => [q, q + 1] as [number, number]),
+    crosstalk: [],
+  };
+};
+
@@ -0,0 +1,180 @@
+import { ONE, ZERO } from './complex';
+import { Matrix } from './matrix';
+import { basisLabel } from './state-vector';
+import {
+  CircuitGate,
+  conditionHolds,
+  gateOperator,
+  gateQubits,
+  hasMeasurements,
+  isMultiQubitGate,
+  sortByStep,
+  validateGate
+} from './circuit';
+import {
+  DensityMatrix,
+  applyChannel,
+  applyOperator,
+  applyUnitary,
+  densityProbabilities,
+  mixDensities,
+  trace,
+  zeroDensity
+} from './density-matrix';
+import { pauliChannel, relaxation } from './noise-channels';
+import { Distribution } from './distributions';
+
+export interface NoiseModel {
+  // Depolarizing probability applied to each qubit a gate touches, after the gate
+  singleQubitError: number;
+  multiQubitError: number;
+  // Relaxation of every qubit over each circuit layer, all in µs
+  t1: number;
+  t2: number;
+  layerTime: number;
+  // Chance that a measured bit is recorded flipped
+  readoutError: number;
+  // How each gate error splits into X, Y and Z errors (shares summing to 1);
+  // an even split, i.e. depolarizing noise, when absent
+  pauliBias?: [number, number, number];
+}
+
+export const DEFAULT_NOISE_MODEL: NoiseModel = {
+  singleQubitError: 0.01,
+  multiQubitError: 0.03,
+  t1: 50,
+  t2: 40,
+  layerTime: 0.5,
+  readoutError: 0.02,
+};
+
+// No gate, idle or readout error, for exact ideal distributions
+export const NOISELESS_MODEL: NoiseModel = {
+  singleQubitError: 0,
+  multiQubitError: 0,
+  t1: DEFAULT_NOISE_MODEL.t1,
+  t2: DEFAULT_NOISE_MODEL.t2,
+  layerTime: 0,
+  readoutError: 0,
+};
+
+// One classical-register outcome and the (unnormalised) quantum state that goes
+// with it; the trace of `dm` is the probability of reaching this branch.
+interface Branch {
+  clbits: number[];
+  dm: DensityMatrix;
+}
+
+const projectors: Matrix[] = [
+  [[ONE, ZERO], [ZERO, ZERO]],
+  [[ZERO, ZERO], [ZERO, ONE]],
+];
+
+// Merges branches that ended up with the same classical register
+const mergeBranches = (branches: Branch[]): Branch[] => {
+  const byRegister = new Map<string, Branch>();
+  branches.forEach(branch => {
+    if (trace(branch.dm) < 1e-12) return;
+    const key = branch.clbits.join('');
+    const existing = byRegister.get(key);
+    byRegister.set(key, existing
+      ? { clbits: branch.clbits, dm: mixDensities([{ weight: 1, dm: existing.dm }, { weight: 1, dm: branch.dm }]) }
+      : branch);
+  });
+  return [...byRegister.values()];
+};
+
+// Probabilities of an X, Y and Z error on each qubit the gate touches
+export const gatePauliErrors = (gate: CircuitGate, noise: NoiseModel): [number, number, number] => {
+  const p = isMultiQubitGate(gate.type) ? noise.multiQubitError : noise.singleQubitError;
+  const [bx, by, bz] = noise.pauliBias ?? [1 / 3, 1 / 3, 1 / 3];
+  return [p * bx, p * by, p * bz];
+};
+
+export const applyNoisyGate = (dm: DensityMatrix, gate: CircuitGate, noise: NoiseModel): DensityMatrix => {
+  let next = applyUnitary(dm, gateOperator(gate), gate.targets, gate.controls);
+  const errors = gatePauliErrors(gate, noise);
+  if (errors.some(p => p > 0)) {
+    gateQubits(gate).forEach(q => {
+      next = applyChannel(next, pauliChannel(...errors), [q]);
+    });
+  }
+  return next;
+};
+
+// Splits a branch on the measured outcome, then again on whether the readout
+// records it correctly
+const measureBranch = (branch: Branch, gate: CircuitGate, readoutError: number): Branch[] =>
+  [0, 1].flatMap(outcome => {
+    const collapsed = applyOperator(branch.dm, projectors[outcome], gate.targets);
+    return [0, 1].map(recorded => ({
+      clbits: branch.clbits.map((bit, i) => (i === gate.clbit ? recorded : bit)),
+      dm: mixDensities([{ weight: recorded === outcome ? 1 - readoutError : readoutError, dm: collapsed }]),
+    }));
+  });
+
+// Each output bit is independently recorded flipped with probability `error`
+const applyReadoutError = (probs: number[], numQubits: number, error: number): Distribution => {
+  const distribution: Distribution = {};
+  probs.forEach((_, observed) => {
+    distribution[basisLabel(observed, numQubits)] = probs.reduce((acc, p, actual) => {
+      let weight = p;
+      for (let q = 0; q < numQubits; q++) {
+        weight *= ((actual ^ observed) >> q) & 1 ? error : 1 - error;
+      }
+      return acc + weight;
+    }, 0);
+  });
+  return distribution;
+};
+
+export interface NoisyResult {
+  // Same meaning as ShotResults.register
+  register: 'qubits' | 'classical';
+  distribution: Distribution;
+}
+
+// Exact output distribution under the noise model, from density matrices with
+// one branch per classical register value. Gates in one column form a layer;
+// every qubit relaxes for `layerTime` after each layer.
+export const noisyDistribution = (
+  gates: CircuitGate[],
+  numQubits: number,
+  numClbits: number,
+  noise: NoiseModel
+): NoisyResult => {
+  const ordered = sortByStep(gates).filter(g => validateGate(g, numQubits, numClbits) === null);
+  const layers = [...new Set(ordered.map(g => g.step))].map(step => ordered.filter(g => g.step === step));
+  const idle = relaxation(noise.t1, noise.t2, noise.layerTime);
+  let branches: Branch[] = [{ clbits: Array(numClbits).fill(0), dm: zeroDensity(numQubits) }];
+
+  layers.forEach(layer => {
+    layer.forEach(gate => {
+      branches = mergeBranches(branches.flatMap(branch => {
+        if (!conditionHolds(gate, branch.clbits)) return [branch];
+        if (gate.type === 'M') return measureBranch(branch, gate, noise.readoutError);
+        return [{ ...branch, dm: applyNoisyGate(branch.dm, gate, noise) }];
+      }));
+    });
+    branches = branches.map(branch => {
+      let dm = branch.dm;
+      for (let q = 0; q < numQubits; q++) {
+        idle.forEach(channel => {
+          dm = applyChannel(dm, channel, [q]);
+        });
+      }
+      return { ...branch, dm };
+    });
+  });
+
+  if (!hasMeasurements(ordered)) {
+    return {
+      register: 'qubits',
+      distribution: applyReadoutError(densityProbabilities(branches[0].dm), numQubits, noise.readoutError),
+    };
+  }
+  return {
+    register: 'classical',
+    distribution: Object.fromEntries(branches.map(b => [b.clbits.join(''), trace(b.dm)])),
+  };
+};
@@ -0,0 +1,190 @@
+import { gateMatrix } from './gates';
+import { basisLabel } from './state-vector';
+import { CircuitGate, gateQubits, sortByStep } from './circuit';
+import { applyChannel, applyUnitary, densityProbabilities, zeroDensity } from './density-matrix';
+import { relaxation } from './noise-channels';
+import { NoiseModel, applyNoisyGate, gatePauliErrors } from './noisy-circuit';
+import { Distribution, normalizeCounts, sampleDistribution, zExpectation } from './distributions';
+import { Random } from '../random';
+
+// Probabilistic error cancellation. Every noisy gate is followed by the
+// inverse of its (Pauli) noise channel, written as a quasi-probability
+// mixture of Paulis; sampling those Paulis with their signs and reweighting
+// by γ = Σ|q| gives an unbiased estimate of the ideal expectation.
+
+export type PauliLabel = 'I' | 'X' | 'Y' | 'Z';
+
+export const PAULIS: PauliLabel[] = ['I', 'X', 'Y', 'Z'];
+
+export interface QuasiProbability {
+  pauli: PauliLabel;
+  // Signed; the weights sum to 1
+  weight: number;
+}
+
+const commutes = (a: PauliLabel, b: PauliLabel) => a === b || a === 'I' || b === 'I';
+
+// Fraction of the σ component of the Bloch vector a Pauli channel keeps
+const pauliFidelities = ([px, py, pz]: [number, number, number]): Record<PauliLabel, number> => ({
+  I: 1,
+  X: 1 - 2 * (py + pz),
+  Y: 1 - 2 * (px + pz),
+  Z: 1 - 2 * (px + py),
+});
+
+// Inverse of the single-qubit Pauli channel with X, Y and Z error
+// probabilities `errors`: its fidelities are 1/f_τ, and the Walsh-Hadamard
+// transform turns them back into Pauli weights. Null if the channel
+// cannot be inverted (some f_τ ≤ 0).
+export const inversePauliChannel = (errors: [number, number, number]): QuasiProbability[] | null => {
+  const f = pauliFidelities(errors);
+  if (PAULIS.some(tau => f[tau] <= 0)) return null;
+  return PAULIS.map(sigma => ({
+    pauli: sigma,
+    weight: PAULIS.reduce((acc, tau) => acc + (commutes(sigma, tau) ? 1 : -1) / f[tau], 0) / 4,
+  }));
+};
+
+// Sampling overhead of one quasi-probability distribution, Σ|q|
+export const quasiOverhead = (quasi: QuasiProbability[]): number =>
+  quasi.reduce((acc, q) => acc + Math.abs(q.weight), 0);
+
+export interface PecCorrection {
+  // Index into the step-ordered gates and the qubit the Pauli acts on
+  gateIndex: number;
+  qubit: number;
+  quasi: QuasiProbability[];
+}
+
+export interface PecRepresentation {
+  corrections: PecCorrection[];
+  // Product of the overheads of every correction
+  gamma: number;
+  error: string | null;
+}
+
+// One inverse channel per qubit of every gate, since the gate noise acts on
+// each of its qubits independently
+export const pecRepresentation = (gates: CircuitGate[], noise: NoiseModel): PecRepresentation => {
+  const corrections: PecCorrection[] = [];
+  for (const [gateIndex, gate] of sortByStep(gates).entries()) {
+    const quasi = inversePauliChannel(gatePauliErrors(gate, noise));
+    if (!quasi) {
+      return { corrections: [], gamma: NaN, error: 'The gate noise is too strong to invert' };
+    }
+    gateQubits(gate).forEach(qubit => corrections.push({ gateIndex, qubit, quasi }));
+  }
+  const gamma = corrections.reduce((acc, c) => acc * quasiOverhead(c.quasi), 1);
+  return { corrections, gamma, error: null };
+};
+
+// Exact output distribution of the noisy circuit with `paulis[i]` applied
+// without noise after correction i; relaxation follows every step as in
+// noisyDistribution
+const sampledCircuitDistribution = (
+  ordered: CircuitGate[],
+  numQubits: number,
+  noise: NoiseModel,
+  corrections: PecCorrection[],
+  paulis: PauliLabel[]
+): Distribution => {
+  const idle = relaxation(noise.t1, noise.t2, noise.layerTime);
+  let dm = zeroDensity(numQubits);
+  ordered.forEach((gate, gateIndex) => {
+    dm = applyNoisyGate(dm, gate, noise);
+    corrections.forEach((correction, i) => {
+      if (correction.gateIndex === gateIndex && paulis[i] !== 'I') {
+        dm = applyUnitary(dm, gateMatrix(paulis[i]), [correction.qubit], []);
+      }
+    });
+    if (gateIndex === ordered.length - 1 || ordered[gateIndex + 1].step !== gate.step) {
+      for (let q = 0; q < numQubits; q++) {
+        idle.forEach(channel => {
+          dm = applyChannel(dm, channel, [q]);
+        });
+      }
+    }
+  });
+  return Object.fromEntries(densityProbabilities(dm).map((p, i) => [basisLabel(i, numQubits), p]));
+};
+
+// Draws one Pauli with probability |q|/γ
+const samplePauli = (quasi: QuasiProbability[], random: Random): QuasiProbability => {
+  const r = random() * quasiOverhead(quasi);
+  let cumulative = 0;
+  for (const q of quasi) {
+    cumulative += Math.abs(q.weight);
+    if (r < cumulative) return q;
+  }
+  return quasi[quasi.length - 1];
+};
+
+export interface PecSample {
+  // Product of the signs of the sampled Paulis
+  sign: number;
+  // Shot estimate of ⟨O⟩ for this sampled circuit
+  expectation: number;
+}
+
+export interface PecResult {
+  estimate: number;
+  // Standard error of `estimate` over the sampled circuits
+  standardError: number;
+  gamma: number;
+  samples: PecSample[];
+  // Sampled circuits that differed from each other
+  distinctCircuits: number;
+  error: string | null;
+}
+
+// Shots for the i-th of `circuits` circuits sharing `shotBudget`; the first
+// `shotBudget % circuits` take one extra so the total is the budget
+const circuitShots = (shotBudget: number, circuits: number, i: number) =>
+  Math.floor(shotBudget / circuits) + (i < shotBudget % circuits ? 1 : 0);
+
+// Samples `numCircuits` signed circuits from the representation, splits
+// `shotBudget` over them as evenly as whole shots allow and averages
+// γ·sign·⟨O⟩. No more circuits are sampled than there are shots. Most samples
+// repeat the all-identity circuit, so distributions are cached by the
+// sampled Paulis.
+export const runPec = (
+  gates: CircuitGate[],
+  numQubits: number,
+  observable: number[],
+  noise: NoiseModel,
+  numCircuits: number,
+  shotBudget: number,
+  random: Random
+): PecResult => {
+  const ordered = sortByStep(gates);
+  const { corrections, gamma, error } = pecRepresentation(ordered, noise);
+  if (error) return { estimate: NaN, standardError: NaN, gamma, samples: [], distinctCircuits: 0, error };
+
+  const cache = new Map<string, Distribution>();
+  const circuits = Math.max(1, Math.min(numCircuits, shotBudget));
+  const samples: PecSample[] = Array.from({ length: circuits }, (_, i) => {
+    let sign = 1;
+    const paulis = corrections.map(({ quasi }) => {
+      const picked = samplePauli(quasi, random);
+      if (picked.weight < 0) sign = -sign;
+      return picked.pauli;
+    });
+    const key = paulis.join('');
+    if (!cache.has(key)) cache.set(key, sampledCircuitDistribution(ordered, numQubits, noise, corrections, paulis));
+    const shots = circuitShots(shotBudget, circuits, i);
+    const counts = sampleDistribution(cache.get(key)!, shots, random);
+    return { sign, expectation: zExpectation(normalizeCounts(counts), observable) };
+  });
+
+  const values = samples.map(s => gamma * s.sign * s.expectation);
+  const estimate = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((acc, v) => acc + (v - estimate) ** 2, 0) / Math.max(1, values.length - 1);
+  return {
+    estimate,
+    standardError: Math.sqrt(variance / values.length),
+    gamma,
+    samples,
+    distinctCircuits: cache.size,
+    error: null,
+  };
+};
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Circuit, CircuitGate, sortByStep } from './circuit';
+import { QasmVersion, exportQasm, parseQasm } from './qasm';
+
+const gate = (type: CircuitGate['type'], targets: number[], step: number, extra: Partial<CircuitGate> = {}): CircuitGate => ({
+  id: `${step}-${type}-${targets.join('')}`,
+  type,
+  targets,
+  controls: [],
+  step,
+  ...extra,
+});
+
+// Everything the editor can place: rotations, multi-controlled gates,
+// measurements and classically controlled gates
+const sample: Circuit = {
+  numQubits: 5,
+  clbits: ['c0', 'flag'],
+  gates: [
+    gate('H', [0], 0),
+    gate('Rx', [1], 0, { angle: (3 * Math.PI) / 4 }),
+    gate('Rz', [2], 0, { angle: -0.25 }),
+    gate('CNOT', [1], 1, { controls: [0] }),
+    gate('SWAP', [2, 3], 1),
+    gate('CCZ', [2], 2, { controls: [0, 1] }),
+    gate('MCX', [4], 3, { controls: [0, 1, 2, 3] }),
+    gate('M', [0], 4, { clbit: 0 }),
+    gate('X', [1], 5, { condition: { clbit: 0, value: 1 } }),
+    gate('M', [1], 6, { clbit: 1, condition: { clbit: 0, value: 0 } }),
+  ],
+};
+
+// The parts of a gate that survive export; ids and columns are reassigned
+const summary = (gates: CircuitGate[]) =>
+  sortByStep(gates).map(({ type, targets, controls, angle, clbit, condition }) => ({
+    type, targets, controls, angle, clbit, condition,
+  }));
+
+describe('exportQasm and parseQasm', () => {
+  it.each<QasmVersion>([2, 3])('round-trip a circuit through OpenQASM %i', version => {
+    const { circuit, errors } = parseQasm(exportQasm(sample, version));
+    expect(errors).toEqual([]);
+    expect(circuit!.numQubits).toBe(sample.numQubits);
+    expect(circuit!.clbits).toEqual(sample.clbits);
+    const parsed = summary(circuit!.gates);
+    const original = summary(sample.gates);
+    parsed.forEach((g, i) => {
+      expect({ ...g, angle: undefined }).toEqual({ ...original[i], angle: undefined });
+      if (original[i].angle !== undefined) expect(g.angle).toBeCloseTo(original[i].angle!, 12);
+    });
+    expect(parsed).toHaveLength(original.length);
+  });
+
+  it('renames clashing and reserved classical bits on export', () => {
+    const qasm = exportQasm({ numQubits: 1, clbits: ['q', 'a', 'a', ''], gates: [] }, 2);
+    expect(qasm).toContain('creg q_1[1];');
+    expect(qasm).toContain('creg a[1];');
+    expect(qasm).toContain('creg a_1[1];');
+    expect(qasm).toContain('creg c3[1];');
+    expect(parseQasm(qasm).errors).toEqual([]);
+  });
+
+  it('exports X with 5 controls only as OpenQASM 3', () => {
+    const circuit: Circuit = { numQubits: 6, clbits: [], gates: [gate('MCX', [5], 0, { controls: [0, 1, 2, 3, 4] })] };
+    expect(() => exportQasm(circuit, 2)).toThrow('OpenQASM 2 has no X with 5 controls');
+    const { circuit: parsed, errors } = parseQasm(exportQasm(circuit, 3));
+    expect(errors).toEqual([]);
+    expect(summary(parsed!.gates)).toEqual(summary(circuit.gates));
+  });
+});
+
+describe('parseQasm', () => {
+  it('reads OpenQASM 3 registers, broadcasting and angle expressions', () => {
+    const { circuit, errors } = parseQasm([
+      'OPENQASM 3.0;',
+      'include "stdgates.inc";',
+      'qubit[2] q;',
+      'bit[2] c;',
+      'h q;',
+      'ry(-pi/2 + 0.5) q[1];',
+      'c[1] = measure q[1];',
+    ].join('\n'));
+    expect(errors).toEqual([]);
+    expect(circuit!.clbits).toEqual(['c_0', 'c_1']);
+    const gates = summary(circuit!.gates);
+    expect(gates.map(g => g.type)).toEqual(['H', 'H', 'Ry', 'M']);
+    expect(gates[2].angle).toBeCloseTo(-Math.PI / 2 + 0.5, 12);
+    expect(gates[3].clbit).toBe(1);
+  });
+
+  it('reports the line and column of every bad statement', () => {
+    const { circuit, errors } = parseQasm([
+      'OPENQASM 2.0;',
+      'qreg q[2];',
+      '  foo q[0];',
+      'h q[5];',
+      '/* block\ncomment */ rx q[0];',
+      'cx q[0], q[0];',
+    ].join('\n'));
+    expect(circuit).toBeNull();
+    expect(errors).toEqual([
+      { line: 3, column: 3, message: 'Unsupported instruction "foo"' },
+      { line: 4, column: 3, message: 'Index 5 is out of range for q[2]' },
+      { line: 6, column: 12, message: 'Gate "rx" needs an angle parameter' },
+      { line: 7, column: 1, message: 'A gate cannot use the same qubit twice' },
+    ]);
+  });
+
+  it('rejects a missing header, a missing semicolon and redeclared registers', () => {
+    expect(parseQasm('qreg q[1];\nh q[0];').errors[0]).toEqual({
+      line: 1,
+      column: 1,
+      message: 'Expected an "OPENQASM 2.0;" or "OPENQASM 3.0;" header',
+    });
+    expect(parseQasm('OPENQASM 2.0;\nqreg q[1];\nh q[0]').errors).toEqual([
+      { line: 3, column: 1, message: 'Missing ";" at end of statement' },
+    ]);
+    expect(parseQasm('OPENQASM 2.0;\nqreg q[1];\ncreg q[1];').errors).toEqual([
+      { line: 3, column: 1, message: 'Register "q" is already declared' },
+    ]);
+  });
+
+  it('rejects gates the editor would not accept', () => {
+    const { errors } = parseQasm('OPENQASM 3.0;\nqubit[2] q;\nctrl(0) @ x q[0];\nctrl(0) @ z q[1];');
+    expect(errors).toEqual([
+      { line: 3, column: 1, message: 'MCX needs at least 1 control qubit' },
+      { line: 4, column: 1, message: 'CZ needs exactly 1 control qubit' },
+    ]);
+  });
+
+  it('only accepts conditions on a single bit', () => {
+    const { errors } = parseQasm('OPENQASM 2.0;\nqreg q[1];\ncreg c[2];\nif(c==1) x q[0];');
+    expect(errors).toEqual([
+      { line: 4, column: 4, message: 'Conditions on multi-bit registers are not supported; test a single bit' },
+    ]);
+  });
+});
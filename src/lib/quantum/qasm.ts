@@ -0,0 +1,550 @@
+import {
+  Circuit,
+  CircuitGate,
+  CircuitGateType,
+  ClassicalCondition,
+  compactCircuit,
+  isRotationGate,
+  sortByStep,
+  validateGate
+} from './circuit';
+import { angleExpression } from './gates';
+
+export type QasmVersion = 2 | 3;
+
+export interface QasmError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+// `circuit` is null whenever `errors` is non-empty
+export interface QasmParseResult {
+  circuit: Circuit | null;
+  errors: QasmError[];
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+const CCZ_DEFINITION = 'gate ccz a,b,c { h c; ccx a,b,c; h c; }';
+
+// qelib1.inc names for X with 1-4 controls
+const qasm2MultiControlledX = ['x', 'cx', 'ccx', 'c3x', 'c4x'];
+
+const simpleGateNames: Partial<Record<CircuitGateType, string>> = {
+  H: 'h',
+  X: 'x',
+  Y: 'y',
+  Z: 'z',
+  S: 's',
+  T: 't',
+  Rx: 'rx',
+  Ry: 'ry',
+  Rz: 'rz',
+  CNOT: 'cx',
+  CZ: 'cz',
+  SWAP: 'swap',
+  CCX: 'ccx',
+};
+
+// Names a classical bit may not take: the exported qubit register `q` and
+// words OpenQASM 2 or 3 reserve or that the export uses as gate names
+const RESERVED_NAMES = new Set([
+  'q', 'OPENQASM', 'include', 'qreg', 'creg', 'qubit', 'bit', 'gate', 'opaque', 'measure', 'reset', 'barrier',
+  'if', 'else', 'for', 'while', 'in', 'def', 'return', 'let', 'const', 'input', 'output', 'ctrl', 'negctrl',
+  'inv', 'pow', 'gphase', 'pi', 'U', 'CX', 'int', 'uint', 'float', 'angle', 'bool', 'complex', 'duration',
+  'stretch', 'array', 'box', 'delay', 'cal', 'defcal', 'end', 'break', 'continue', 'switch', 'case', 'default',
+  'true', 'false', ...Object.values(simpleGateNames), ...qasm2MultiControlledX, 'ccz',
+]);
+
+// Register names for the bits, distinct and exportable: blank names become
+// c<i>, and a name that is reserved or taken by an earlier bit gets a _1,
+// _2, … suffix
+export const uniqueClbitNames = (names: string[]): string[] => {
+  const taken = new Set<string>();
+  return names.map((name, i) => {
+    const base = name || `c${i}`;
+    let candidate = base;
+    for (let k = 1; taken.has(candidate) || RESERVED_NAMES.has(candidate); k++) candidate = `${base}_${k}`;
+    taken.add(candidate);
+    return candidate;
+  });
+};
+
+const gateStatement = (gate: CircuitGate, clbits: string[], version: QasmVersion): string => {
+  const operands = [...gate.controls, ...gate.targets].map(q => `q[${q}]`).join(', ');
+
+  if (gate.type === 'M') {
+    const bit = clbits[gate.clbit!];
+    return version === 2 ? `measure q[${gate.targets[0]}] -> ${bit}[0];` : `${bit} = measure q[${gate.targets[0]}];`;
+  }
+  if (gate.type === 'CCZ') {
+    return version === 2 ? `ccz ${operands};` : `ctrl(2) @ z ${operands};`;
+  }
+  if (gate.type === 'MCX') {
+    if (version === 2 && gate.controls.length >= qasm2MultiControlledX.length) {
+      throw new Error(
+        `OpenQASM 2 has no X with ${gate.controls.length} controls (qelib1.inc stops at c4x); export as OpenQASM 3`
+      );
+    }
+    return version === 2
+      ? `${qasm2MultiControlledX[gate.controls.length]} ${operands};`
+      : `ctrl(${gate.controls.length}) @ x ${operands};`;
+  }
+  if (isRotationGate(gate.type)) {
+    return `${simpleGateNames[gate.type]}(${angleExpression(gate.angle ?? 0)}) ${operands};`;
+  }
+  return `${simpleGateNames[gate.type]} ${operands};`;
+};
+
+// Throws for an X with 5 or more controls in OpenQASM 2, which qelib1.inc
+// has no gate for
+export const exportQasm = (circuit: Circuit, version: QasmVersion): string => {
+  const { numQubits, gates } = circuit;
+  const clbits = uniqueClbitNames(circuit.clbits);
+  const ordered = sortByStep(gates);
+  const lines: string[] = [];
+
+  if (version === 2) {
+    lines.push('OPENQASM 2.0;', 'include "qelib1.inc";');
+    if (ordered.some(g => g.type === 'CCZ')) lines.push(CCZ_DEFINITION);
+    lines.push(`qreg q[${numQubits}];`);
+    // One single-bit register per named bit so that if(name==1) tests one bit
+    clbits.forEach(name => lines.push(`creg ${name}[1];`));
+  } else {
+    lines.push('OPENQASM 3.0;', 'include "stdgates.inc";', `qubit[${numQubits}] q;`);
+    clbits.forEach(name => lines.push(`bit ${name};`));
+  }
+
+  ordered.forEach(gate => {
+    const statement = gateStatement(gate, clbits, version);
+    if (!gate.condition) {
+      lines.push(statement);
+      return;
+    }
+    const bit = clbits[gate.condition.clbit];
+    lines.push(version === 2
+      ? `if(${bit}==${gate.condition.value}) ${statement}`
+      : `if (${bit} == ${gate.condition.value}) ${statement}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// Import
+
+interface Statement {
+  text: string;
+  line: number;
+  column: number;
+}
+
+class QasmSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+  }
+}
+
+// Splits source into `;`-terminated statements (gate bodies in braces stay in
+// one statement), dropping comments and remembering where each one starts.
+const splitStatements = (source: string): Statement[] => {
+  const statements: Statement[] = [];
+  let text = '';
+  let start: { line: number; column: number } | null = null;
+  let depth = 0;
+  let line = 1;
+  let column = 1;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (ch === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      line++;
+      column = 1;
+      text += ' ';
+      continue;
+    }
+    if (ch === '/' && source[i + 1] === '*') {
+      i += 2;
+      column += 2;
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+        if (source[i] === '\n') {
+          line++;
+          column = 1;
+        } else {
+          column++;
+        }
+        i++;
+      }
+      i++;
+      column += 2;
+      text += ' ';
+      continue;
+    }
+
+    if (!start && !/\s/.test(ch)) start = { line, column };
+    if (start) text += ch;
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+
+    if (start && ((ch === ';' && depth === 0) || (ch === '}' && depth === 0))) {
+      statements.push({ text: text.replace(/;$/, '').trim(), ...start });
+      text = '';
+      start = null;
+    }
+
+    if (ch === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+
+  if (start && text.trim()) {
+    throw new QasmSyntaxError('Missing ";" at end of statement', start.line, start.column);
+  }
+  return statements;
+};
+
+interface Register {
+  offset: number;
+  size: number;
+}
+
+interface ParseContext {
+  qregs: Map<string, Register>;
+  cregs: Map<string, Register>;
+  clbits: string[];
+  numQubits: number;
+  gates: CircuitGate[];
+}
+
+const columnOf = (stmt: Statement, fragment: string) => {
+  const idx = stmt.text.indexOf(fragment);
+  return stmt.column + Math.max(0, idx);
+};
+
+// Resolves `q[2]` or a whole register `q` to flat qubit/bit indices
+const resolveOperand = (
+  operand: string,
+  registers: Map<string, Register>,
+  kind: string,
+  stmt: Statement
+): number[] => {
+  const match = operand.trim().match(/^([A-Za-z_]\w*)\s*(?:\[\s*(\d+)\s*\])?$/);
+  const column = columnOf(stmt, operand.trim());
+  if (!match) {
+    throw new QasmSyntaxError(`Cannot read ${kind} operand "${operand.trim()}"`, stmt.line, column);
+  }
+  const register = registers.get(match[1]);
+  if (!register) {
+    throw new QasmSyntaxError(`Unknown ${kind} register "${match[1]}"`, stmt.line, column);
+  }
+  if (match[2] === undefined) {
+    return Array.from({ length: register.size }, (_, i) => register.offset + i);
+  }
+  const index = Number(match[2]);
+  if (index >= register.size) {
+    throw new QasmSyntaxError(`Index ${index} is out of range for ${match[1]}[${register.size}]`, stmt.line, column);
+  }
+  return [register.offset + index];
+};
+
+// Evaluates a gate parameter such as `3*pi/4` or `-0.25`: numbers, pi/π,
+// + - * / and parentheses only.
+const evaluateAngle = (expression: string, stmt: Statement): number => {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|pi|π|[-+*/()]|\S/gi) ?? [];
+  let pos = 0;
+  const fail = (): never => {
+    throw new QasmSyntaxError(`Cannot evaluate parameter "${expression.trim()}"`, stmt.line, columnOf(stmt, expression.trim()));
+  };
+
+  const primary = (): number => {
+    const token = tokens[pos++];
+    if (token === undefined) return fail();
+    if (token === '-') return -primary();
+    if (token === '+') return primary();
+    if (token === '(') {
+      const value = sum();
+      if (tokens[pos++] !== ')') fail();
+      return value;
+    }
+    if (/^(pi|π)$/i.test(token)) return Math.PI;
+    const value = Number(token);
+    return Number.isFinite(value) ? value : fail();
+  };
+  const product = (): number => {
+    let value = primary();
+    while (tokens[pos] === '*' || tokens[pos] === '/') {
+      value = tokens[pos++] === '*' ? value * primary() : value / primary();
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (tokens[pos] === '+' || tokens[pos] === '-') {
+      value = tokens[pos++] === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (pos !== tokens.length || !Number.isFinite(value)) fail();
+  return value;
+};
+
+const gateByName: Record<string, { type: CircuitGateType; controls: number }> = {
+  h: { type: 'H', controls: 0 },
+  x: { type: 'X', controls: 0 },
+  y: { type: 'Y', controls: 0 },
+  z: { type: 'Z', controls: 0 },
+  s: { type: 'S', controls: 0 },
+  t: { type: 'T', controls: 0 },
+  rx: { type: 'Rx', controls: 0 },
+  ry: { type: 'Ry', controls: 0 },
+  rz: { type: 'Rz', controls: 0 },
+  cx: { type: 'CNOT', controls: 1 },
+  CX: { type: 'CNOT', controls: 1 },
+  cnot: { type: 'CNOT', controls: 1 },
+  cz: { type: 'CZ', controls: 1 },
+  swap: { type: 'SWAP', controls: 0 },
+  ccx: { type: 'CCX', controls: 2 },
+  toffoli: { type: 'CCX', controls: 2 },
+  ccz: { type: 'CCZ', controls: 2 },
+  c3x: { type: 'MCX', controls: 3 },
+  c4x: { type: 'MCX', controls: 4 },
+};
+
+// Adds a gate once the editor would accept it, e.g. rejecting ctrl(0) @ x
+const addGate = (ctx: ParseContext, gate: Omit<CircuitGate, 'id' | 'step'>, stmt: Statement) => {
+  const error = validateGate({ ...gate, id: '', step: 0 }, ctx.numQubits, ctx.clbits.length);
+  if (error) throw new QasmSyntaxError(error, stmt.line, stmt.column);
+  ctx.gates.push({ ...gate, id: `qasm-${ctx.gates.length}`, step: ctx.gates.length });
+};
+
+const pushGate = (
+  ctx: ParseContext,
+  type: CircuitGateType,
+  qubits: number[],
+  numControls: number,
+  condition: ClassicalCondition | undefined,
+  stmt: Statement,
+  angle?: number
+) => {
+  if (new Set(qubits).size !== qubits.length) {
+    throw new QasmSyntaxError('A gate cannot use the same qubit twice', stmt.line, stmt.column);
+  }
+  addGate(ctx, {
+    type,
+    controls: qubits.slice(0, numControls),
+    targets: qubits.slice(numControls),
+    angle,
+    condition,
+  }, stmt);
+};
+
+const parseMeasure = (
+  ctx: ParseContext,
+  qubitText: string,
+  bitText: string,
+  condition: ClassicalCondition | undefined,
+  stmt: Statement
+) => {
+  const qubits = resolveOperand(qubitText, ctx.qregs, 'quantum', stmt);
+  const bits = resolveOperand(bitText, ctx.cregs, 'classical', stmt);
+  if (qubits.length !== bits.length) {
+    throw new QasmSyntaxError('Measured qubits and classical bits differ in size', stmt.line, stmt.column);
+  }
+  qubits.forEach((q, i) => {
+    addGate(ctx, { type: 'M', controls: [], targets: [q], clbit: bits[i], condition }, stmt);
+  });
+};
+
+const parseOperation = (ctx: ParseContext, stmt: Statement, condition?: ClassicalCondition) => {
+  const text = stmt.text;
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^if\s*\(\s*(.+?)\s*==\s*(\d+)\s*\)\s*(.+)$/s))) {
+    if (condition) {
+      throw new QasmSyntaxError('Nested if statements are not supported', stmt.line, stmt.column);
+    }
+    const bits = resolveOperand(match[1], ctx.cregs, 'classical', stmt);
+    if (bits.length !== 1) {
+      throw new QasmSyntaxError(
+        'Conditions on multi-bit registers are not supported; test a single bit',
+        stmt.line,
+        columnOf(stmt, match[1])
+      );
+    }
+    const value = Number(match[2]);
+    if (value > 1) {
+      throw new QasmSyntaxError(`A single bit cannot equal ${value}`, stmt.line, columnOf(stmt, match[2]));
+    }
+    const body = match[3];
+    parseOperation(ctx, { text: body, line: stmt.line, column: columnOf(stmt, body) }, {
+      clbit: bits[0],
+      value: value ? 1 : 0,
+    });
+    return;
+  }
+
+  if ((match = text.match(/^measure\s+(.+?)\s*->\s*(.+)$/))) {
+    parseMeasure(ctx, match[1], match[2], condition, stmt);
+    return;
+  }
+  if ((match = text.match(/^(.+?)\s*=\s*measure\s+(.+)$/))) {
+    parseMeasure(ctx, match[2], match[1], condition, stmt);
+    return;
+  }
+
+  if ((match = text.match(/^ctrl\s*(?:\(\s*(\d+)\s*\))?\s*@\s*([A-Za-z_]\w*)\s+(.+)$/))) {
+    const numControls = match[1] ? Number(match[1]) : 1;
+    const base = match[2];
+    const qubits = match[3].split(',').flatMap(op => resolveOperand(op, ctx.qregs, 'quantum', stmt));
+    const type: CircuitGateType | undefined =
+      base === 'x' ? (numControls === 1 ? 'CNOT' : numControls === 2 ? 'CCX' : 'MCX')
+        : base === 'z' && numControls <= 2 ? (numControls === 2 ? 'CCZ' : 'CZ')
+          : undefined;
+    if (!type || qubits.length !== numControls + 1) {
+      throw new QasmSyntaxError(`Unsupported controlled gate "ctrl(${numControls}) @ ${base}"`, stmt.line, stmt.column);
+    }
+    pushGate(ctx, type, qubits, numControls, condition, stmt);
+    return;
+  }
+
+  if ((match = text.match(/^([A-Za-z_]\w*)\s*(\(.*\))?\s+([^()]+)$/s))) {
+    const [, name, params, operandText] = match;
+    const known = gateByName[name];
+    if (!known) {
+      throw new QasmSyntaxError(`Unsupported instruction "${name}"`, stmt.line, stmt.column);
+    }
+    let angle: number | undefined;
+    if (isRotationGate(known.type)) {
+      if (!params) {
+        throw new QasmSyntaxError(`Gate "${name}" needs an angle parameter`, stmt.line, stmt.column);
+      }
+      angle = evaluateAngle(params.slice(1, -1), stmt);
+    } else if (params) {
+      throw new QasmSyntaxError(`Gate "${name}" does not take parameters`, stmt.line, columnOf(stmt, params));
+    }
+    const operands = operandText.split(',').map(op => resolveOperand(op, ctx.qregs, 'quantum', stmt));
+    const arity = known.type === 'SWAP' ? 2 : known.controls + 1;
+    if (operands.length !== arity) {
+      throw new QasmSyntaxError(`Gate "${name}" expects ${arity} operand${arity > 1 ? 's' : ''}`, stmt.line, stmt.column);
+    }
+    // A bare register on a single-qubit gate applies it to every qubit
+    if (arity === 1) {
+      operands[0].forEach(q => pushGate(ctx, known.type, [q], 0, condition, stmt, angle));
+      return;
+    }
+    if (operands.some(op => op.length !== 1)) {
+      throw new QasmSyntaxError('Register broadcasting is only supported for single-qubit gates', stmt.line, stmt.column);
+    }
+    pushGate(ctx, known.type, operands.map(op => op[0]), known.controls, condition, stmt);
+    return;
+  }
+
+  throw new QasmSyntaxError(`Unsupported instruction "${text.split(/\s/)[0]}"`, stmt.line, stmt.column);
+};
+
+// Redeclaring a name would silently replace the earlier register
+const checkNewRegister = (ctx: ParseContext, name: string, stmt: Statement) => {
+  if (ctx.qregs.has(name) || ctx.cregs.has(name)) {
+    throw new QasmSyntaxError(`Register "${name}" is already declared`, stmt.line, stmt.column);
+  }
+};
+
+const addQuantumRegister = (ctx: ParseContext, name: string, size: number, stmt: Statement) => {
+  checkNewRegister(ctx, name, stmt);
+  ctx.qregs.set(name, { offset: ctx.numQubits, size });
+  ctx.numQubits += size;
+};
+
+const addClassicalRegister = (ctx: ParseContext, name: string, size: number, stmt: Statement) => {
+  checkNewRegister(ctx, name, stmt);
+  ctx.cregs.set(name, { offset: ctx.clbits.length, size });
+  for (let i = 0; i < size; i++) {
+    ctx.clbits.push(size === 1 ? name : `${name}_${i}`);
+  }
+};
+
+const parseStatement = (ctx: ParseContext, stmt: Statement) => {
+  const text = stmt.text;
+  let match: RegExpMatchArray | null;
+
+  if (/^OPENQASM\s+[23](\.\d+)?$/.test(text)) return;
+  if (/^include\s+"[^"]+"$/.test(text)) return;
+  if (/^barrier\b/.test(text)) return;
+
+  if ((match = text.match(/^qreg\s+([A-Za-z_]\w*)\s*\[\s*(\d+)\s*\]$/))) {
+    addQuantumRegister(ctx, match[1], Number(match[2]), stmt);
+    return;
+  }
+  if ((match = text.match(/^qubit\s*\[\s*(\d+)\s*\]\s+([A-Za-z_]\w*)$/))) {
+    addQuantumRegister(ctx, match[2], Number(match[1]), stmt);
+    return;
+  }
+  if ((match = text.match(/^qubit\s+([A-Za-z_]\w*)$/))) {
+    addQuantumRegister(ctx, match[1], 1, stmt);
+    return;
+  }
+  if ((match = text.match(/^creg\s+([A-Za-z_]\w*)\s*\[\s*(\d+)\s*\]$/))) {
+    addClassicalRegister(ctx, match[1], Number(match[2]), stmt);
+    return;
+  }
+  if ((match = text.match(/^bit\s*(?:\[\s*(\d+)\s*\])?\s+([A-Za-z_]\w*)$/))) {
+    addClassicalRegister(ctx, match[2], match[1] ? Number(match[1]) : 1, stmt);
+    return;
+  }
+  if ((match = text.match(/^gate\s+([A-Za-z_]\w*)/))) {
+    // Our own export defines ccz; anything else is a user gate we cannot expand
+    if (match[1] === 'ccz') return;
+    throw new QasmSyntaxError(`Custom gate definition "${match[1]}" is not supported`, stmt.line, stmt.column);
+  }
+
+  parseOperation(ctx, stmt);
+};
+
+// Parses OpenQASM 2.0 or 3.0 source into the circuit editor's model. Every
+// statement is checked so that all unsupported lines are reported at once.
+export const parseQasm = (source: string): QasmParseResult => {
+  let statements: Statement[];
+  try {
+    statements = splitStatements(source);
+  } catch (e) {
+    if (e instanceof QasmSyntaxError) {
+      return { circuit: null, errors: [{ line: e.line, column: e.column, message: e.message }] };
+    }
+    throw e;
+  }
+
+  const ctx: ParseContext = { qregs: new Map(), cregs: new Map(), clbits: [], numQubits: 0, gates: [] };
+  const errors: QasmError[] = [];
+
+  if (!statements.length || !/^OPENQASM\s+[23]/.test(statements[0].text)) {
+    errors.push({ line: 1, column: 1, message: 'Expected an "OPENQASM 2.0;" or "OPENQASM 3.0;" header' });
+  }
+
+  statements.forEach(stmt => {
+    try {
+      parseStatement(ctx, stmt);
+    } catch (e) {
+      if (!(e instanceof QasmSyntaxError)) throw e;
+      errors.push({ line: e.line, column: e.column, message: e.message });
+    }
+  });
+
+  if (!errors.length && ctx.numQubits === 0) {
+    errors.push({ line: 1, column: 1, message: 'No quantum register declared' });
+  }
+  if (errors.length) return { circuit: null, errors };
+
+  return {
+    circuit: { numQubits: ctx.numQubits, clbits: ctx.clbits, gates: compactCircuit(ctx.gates) },
+    errors: [],
+  };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+import { mitigateDistribution, parseCalibrationFile, projectOntoSimplex, tensorMatrices } from './readout';
+
+describe('projectOntoSimplex', () => {
+  it('leaves points of the simplex where they are', () => {
+    expect(projectOntoSimplex([0.2, 0.3, 0.5])).toEqual([0.2, 0.3, 0.5].map(v => expect.closeTo(v, 12)));
+  });
+
+  it('projects known points', () => {
+    projectOntoSimplex([0.5, 0.5, 0.5]).forEach(v => expect(v).toBeCloseTo(1 / 3, 12));
+    expect(projectOntoSimplex([2, 0])).toEqual([1, 0]);
+    expect(projectOntoSimplex([0.7, 0.5, -0.4])).toEqual([expect.closeTo(0.6, 12), expect.closeTo(0.4, 12), 0]);
+  });
+
+  // The projection is max(0, v - θ) for the one θ that makes it sum to 1
+  it('satisfies the optimality conditions on random points', () => {
+    const random = createRandom(11);
+    for (let trial = 0; trial < 200; trial++) {
+      const v = Array.from({ length: 1 + Math.floor(random() * 8) }, () => 4 * random() - 2);
+      const p = projectOntoSimplex(v);
+      expect(p.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+      const positive = p.map((x, i) => i).filter(i => p[i] > 0);
+      const theta = v[positive[0]] - p[positive[0]];
+      positive.forEach(i => expect(v[i] - p[i]).toBeCloseTo(theta, 10));
+      p.forEach((x, i) => {
+        expect(x).toBeGreaterThanOrEqual(0);
+        if (x === 0) expect(v[i]).toBeLessThanOrEqual(theta + 1e-10);
+      });
+    }
+  });
+});
+
+describe('mitigateDistribution', () => {
+  it('undoes a known assignment matrix', () => {
+    const matrix = tensorMatrices([
+      [[0.95, 0.08], [0.05, 0.92]],
+      [[0.9, 0.1], [0.1, 0.9]],
+    ]);
+    const truth = [0.5, 0, 0.1, 0.4];
+    const raw = Object.fromEntries(['00', '01', '10', '11'].map((bits, i) => [
+      bits,
+      matrix[i].reduce((acc, a, j) => acc + a * truth[j], 0),
+    ]));
+    const mitigated = mitigateDistribution(raw, { numBits: 2, source: 'uploaded', matrix, qubitMatrices: null });
+    ['00', '01', '10', '11'].forEach((bits, i) => expect(mitigated[bits]).toBeCloseTo(truth[i], 6));
+  });
+});
+
+describe('parseCalibrationFile', () => {
+  const expected = [[0.9, 0.2], [0.1, 0.8]];
+
+  it.each([
+    ['a bare matrix', '0.9,0.2\n0.1,0.8'],
+    ['a header row', '0,1\n0.9,0.2\n0.1,0.8'],
+    ['a label column', '0,0.9,0.2\n1,0.1,0.8'],
+    ['a header and a label column', ',0,1\n0,0.9,0.2\n1,0.1,0.8\n'],
+    ['quoted cells and CRLF', '"measured","0","1"\r\n"0","0.9","0.2"\r\n"1","0.1","0.8"'],
+  ])('reads CSV with %s', (_, text) => {
+    const { calibration, error } = parseCalibrationFile(text, 'cal.csv');
+    expect(error).toBeNull();
+    expect(calibration).toEqual({ numBits: 1, source: 'uploaded', matrix: expected, qubitMatrices: null });
+  });
+
+  it('reads the JSON layouts', () => {
+    expect(parseCalibrationFile(JSON.stringify({ matrix: expected }), 'cal.json').calibration?.matrix).toEqual(expected);
+    expect(parseCalibrationFile(JSON.stringify(expected), 'CAL.JSON').calibration?.matrix).toEqual(expected);
+
+    const qubits = [expected, [[1, 0], [0, 1]]];
+    const { calibration } = parseCalibrationFile(JSON.stringify({ qubits }), 'cal.json');
+    expect(calibration?.numBits).toBe(2);
+    expect(calibration?.qubitMatrices).toEqual(qubits);
+    expect(calibration?.matrix).toEqual(tensorMatrices(qubits));
+  });
+
+  it.each([
+    ['cal.csv', '', 'The file is empty'],
+    ['cal.csv', '0.9,x\n0.1,0.8', 'Cell (1, 2) is "x", expected a number'],
+    ['cal.csv', '0.9,0.2,0\n0.1,0.8,0\n0,0,1', 'The matrix must be 2ⁿ×2ⁿ, got 3 rows'],
+    ['cal.csv', '0.9,0.3\n0.1,0.8', 'Column 2 (prepared 1) sums to 1.1000, expected 1'],
+    ['cal.csv', '1.2,0.2\n-0.2,0.8', 'Entry (1, 1) is 1.2, expected a probability'],
+    ['cal.json', '{"matrix": [[1, 0]', 'Invalid JSON: '],
+    ['cal.json', '{"qubits": [[[1, 0, 0], [0, 1, 0]]]}', 'qubits[0] must be a 2×2 matrix'],
+    ['cal.json', '{"rows": []}', 'Expected "matrix" (rows of numbers) or "qubits" (2×2 matrices)'],
+  ])('rejects %s %j', (fileName, text, message) => {
+    const { calibration, error } = parseCalibrationFile(text, fileName);
+    expect(calibration).toBeNull();
+    expect(error).toContain(message);
+  });
+});
@@ -0,0 +1,255 @@
+import { Circuit, CircuitGate } from './circuit';
+import { basisLabel } from './state-vector';
+import { NoiseModel, noisyDistribution } from './noisy-circuit';
+import { Distribution, normalizeCounts, sampleDistribution } from './distributions';
+import { Random } from '../random';
+
+// Readout error mitigation. The assignment matrix A holds
+// A[measured][prepared] = P(read `measured` | prepared `prepared`), indexed by
+// bitstrings with bit 0 leftmost, so raw probabilities are m = A·p and the
+// mitigated p is the point of the probability simplex that best explains m.
+
+// full: one calibration circuit per basis state, capturing correlated errors
+// per-qubit: all-|0⟩ and all-|1⟩ only, with A the tensor product of 2×2
+// matrices; cheap for many qubits but blind to crosstalk
+export type CalibrationMode = 'full' | 'per-qubit';
+
+export interface ReadoutCalibration {
+  numBits: number;
+  source: CalibrationMode | 'uploaded';
+  matrix: number[][];
+  // 2×2 matrix per bit when A is a tensor product, otherwise null
+  qubitMatrices: number[][][] | null;
+}
+
+// 2^n calibration circuits and a 4^n matrix get out of hand quickly
+export const MAX_FULL_CALIBRATION_BITS = 5;
+export const MAX_MITIGATION_BITS = 8;
+
+const realKron = (a: number[][], b: number[][]): number[][] =>
+  a.flatMap(rowA => b.map(rowB => rowA.flatMap(x => rowB.map(y => x * y))));
+
+export const tensorMatrices = (matrices: number[][][]): number[][] =>
+  matrices.reduce((acc, m) => realKron(acc, m), [[1]]);
+
+export interface CalibrationCircuit {
+  // Basis state the circuit prepares
+  prepared: string;
+  circuit: Circuit;
+}
+
+// X on every qubit whose prepared bit is 1, then qubit i measured into bit i
+export const calibrationCircuits = (numBits: number, mode: CalibrationMode): CalibrationCircuit[] => {
+  const prepared = mode === 'full'
+    ? Array.from({ length: 1 << numBits }, (_, i) => basisLabel(i, numBits))
+    : ['0'.repeat(numBits), '1'.repeat(numBits)];
+  return prepared.map(bits => {
+    const flips: CircuitGate[] = [...bits].flatMap((bit, q) =>
+      bit === '1' ? [{ id: `cal-x-${q}`, type: 'X' as const, targets: [q], controls: [], step: 0 }] : []
+    );
+    const step = flips.length ? 1 : 0;
+    const measurements: CircuitGate[] = Array.from({ length: numBits }, (_, q) => ({
+      id: `cal-m-${q}`, type: 'M' as const, targets: [q], controls: [], step, clbit: q,
+    }));
+    return {
+      prepared: bits,
+      circuit: { numQubits: numBits, clbits: Array.from({ length: numBits }, (_, i) => `c${i}`), gates: [...flips, ...measurements] },
+    };
+  });
+};
+
+// Builds the assignment matrix from the counts each calibration circuit gave,
+// keyed by its prepared bitstring
+export const calibrationFromCounts = (
+  numBits: number,
+  mode: CalibrationMode,
+  counts: Record<string, Record<string, number>>
+): ReadoutCalibration => {
+  if (mode === 'full') {
+    const dim = 1 << numBits;
+    const columns = Array.from({ length: dim }, (_, j) => normalizeCounts(counts[basisLabel(j, numBits)] ?? {}));
+    return {
+      numBits,
+      source: 'full',
+      matrix: Array.from({ length: dim }, (_, i) => columns.map(col => col[basisLabel(i, numBits)] ?? 0)),
+      qubitMatrices: null,
+    };
+  }
+
+  // P(read b | prepared a) for bit q, from the all-a circuit's marginal
+  const marginalOne = (prepared: string, q: number) => {
+    const entries = Object.entries(counts[prepared] ?? {});
+    const total = entries.reduce((acc, [, c]) => acc + c, 0) || 1;
+    return entries.reduce((acc, [bits, c]) => acc + (bits[q] === '1' ? c : 0), 0) / total;
+  };
+  const qubitMatrices = Array.from({ length: numBits }, (_, q) => {
+    const flipUp = marginalOne('0'.repeat(numBits), q);
+    const stayUp = marginalOne('1'.repeat(numBits), q);
+    return [[1 - flipUp, 1 - stayUp], [flipUp, stayUp]];
+  });
+  return { numBits, source: 'per-qubit', matrix: tensorMatrices(qubitMatrices), qubitMatrices };
+};
+
+// Runs the calibration circuits on the noisy simulator. Measuring qubit i
+// into bit i at the end is what the qubit register readout already models,
+// so the measurements are left off and the (much cheaper) final
+// distribution is sampled instead.
+export const runCalibration = (
+  numBits: number,
+  mode: CalibrationMode,
+  noise: NoiseModel,
+  shots: number,
+  random: Random
+): ReadoutCalibration => {
+  const counts = Object.fromEntries(calibrationCircuits(numBits, mode).map(({ prepared, circuit }) => {
+    const prep = circuit.gates.filter(g => g.type !== 'M');
+    const { distribution } = noisyDistribution(prep, numBits, 0, noise);
+    return [prepared, sampleDistribution(distribution, shots, random)];
+  }));
+  return calibrationFromCounts(numBits, mode, counts);
+};
+
+// Mean probability of reading back what was prepared
+export const assignmentFidelity = (calibration: ReadoutCalibration): number =>
+  calibration.matrix.reduce((acc, row, i) => acc + row[i], 0) / calibration.matrix.length;
+
+// Euclidean projection onto {p ≥ 0, Σp = 1} (Duchi et al., 2008)
+export const projectOntoSimplex = (v: number[]): number[] => {
+  const sorted = v.slice().sort((a, b) => b - a);
+  let cumulative = 0;
+  let theta = 0;
+  sorted.forEach((u, i) => {
+    cumulative += u;
+    const t = (cumulative - 1) / (i + 1);
+    if (u - t > 0) theta = t;
+  });
+  return v.map(x => Math.max(0, x - theta));
+};
+
+// argmin ‖A·p - m‖² over the probability simplex, by accelerated projected
+// gradient descent (FISTA) from the raw distribution
+const simplexLeastSquares = (a: number[][], m: number[], iterations = 2000): number[] => {
+  const dim = m.length;
+  const multiply = (x: number[]) => a.map(row => row.reduce((acc, v, j) => acc + v * x[j], 0));
+  const multiplyT = (y: number[]) =>
+    Array.from({ length: dim }, (_, j) => a.reduce((acc, row, i) => acc + row[j] * y[i], 0));
+  // ‖A‖₂² ≤ ‖A‖₁·‖A‖∞ bounds the gradient's Lipschitz constant
+  const norm1 = Math.max(...Array.from({ length: dim }, (_, j) => a.reduce((acc, row) => acc + Math.abs(row[j]), 0)));
+  const normInf = Math.max(...a.map(row => row.reduce((acc, v) => acc + Math.abs(v), 0)));
+  const step = 1 / (norm1 * normInf || 1);
+
+  let p = projectOntoSimplex(m);
+  let y = p;
+  let t = 1;
+  for (let k = 0; k < iterations; k++) {
+    const residual = multiply(y).map((v, i) => v - m[i]);
+    const gradient = multiplyT(residual);
+    const next = projectOntoSimplex(y.map((v, j) => v - step * gradient[j]));
+    const tNext = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    y = next.map((v, j) => v + ((t - 1) / tNext) * (v - p[j]));
+    const moved = next.reduce((acc, v, j) => acc + Math.abs(v - p[j]), 0);
+    p = next;
+    t = tNext;
+    if (moved < 1e-12) break;
+  }
+  return p;
+};
+
+export const mitigateDistribution = (raw: Distribution, calibration: ReadoutCalibration): Distribution => {
+  const { numBits, matrix } = calibration;
+  const dim = 1 << numBits;
+  const m = Array.from({ length: dim }, (_, i) => raw[basisLabel(i, numBits)] ?? 0);
+  const total = m.reduce((a, b) => a + b, 0) || 1;
+  const p = simplexLeastSquares(matrix, m.map(v => v / total));
+  return Object.fromEntries(p.map((v, i) => [basisLabel(i, numBits), v]));
+};
+
+export interface CalibrationParseResult {
+  calibration: ReadoutCalibration | null;
+  error: string | null;
+}
+
+// Every column of A is a distribution over readouts
+const validateMatrix = (matrix: number[][]): string | null => {
+  const dim = matrix.length;
+  const numBits = Math.log2(dim);
+  if (!Number.isInteger(numBits) || numBits < 1) {
+    return `The matrix must be 2ⁿ×2ⁿ, got ${dim} rows`;
+  }
+  if (numBits > MAX_MITIGATION_BITS) {
+    return `At most ${MAX_MITIGATION_BITS} bits are supported, the matrix has ${numBits}`;
+  }
+  const badRow = matrix.findIndex(row => row.length !== dim);
+  if (badRow >= 0) {
+    return `Row ${badRow + 1} has ${matrix[badRow].length} entries, expected ${dim}`;
+  }
+  for (let i = 0; i < dim; i++) {
+    for (let j = 0; j < dim; j++) {
+      const v = matrix[i][j];
+      if (!Number.isFinite(v) || v < 0 || v > 1) {
+        return `Entry (${i + 1}, ${j + 1}) is ${v}, expected a probability`;
+      }
+    }
+  }
+  for (let j = 0; j < dim; j++) {
+    const sum = matrix.reduce((acc, row) => acc + row[j], 0);
+    if (Math.abs(sum - 1) > 1e-3) {
+      return `Column ${j + 1} (prepared ${basisLabel(j, numBits)}) sums to ${sum.toFixed(4)}, expected 1`;
+    }
+  }
+  return null;
+};
+
+const fromMatrix = (matrix: number[][], qubitMatrices: number[][][] | null = null): CalibrationParseResult => {
+  const error = validateMatrix(matrix);
+  if (error) return { calibration: null, error };
+  return {
+    calibration: { numBits: Math.log2(matrix.length), source: 'uploaded', matrix, qubitMatrices },
+    error: null,
+  };
+};
+
+// CSV: the 2ⁿ×2ⁿ matrix with rows = measured and columns = prepared; a
+// header row and a leading label column are optional.
+// JSON: { "matrix": [[…]] }, a bare array of rows, or { "qubits": [A₀, A₁, …] }
+// with one 2×2 matrix per bit.
+export const parseCalibrationFile = (text: string, fileName: string): CalibrationParseResult => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      return { calibration: null, error: `Invalid JSON: ${(e as Error).message}` };
+    }
+    const isMatrix = (v: unknown): v is number[][] =>
+      Array.isArray(v) && v.every(row => Array.isArray(row) && row.every(x => typeof x === 'number'));
+    const obj = parsed as { matrix?: unknown; qubits?: unknown };
+    if (isMatrix(parsed)) return fromMatrix(parsed);
+    if (obj && isMatrix(obj.matrix)) return fromMatrix(obj.matrix);
+    if (obj && Array.isArray(obj.qubits) && obj.qubits.every(isMatrix)) {
+      const qubits = obj.qubits as number[][][];
+      const bad = qubits.findIndex(m => m.length !== 2 || m.some(row => row.length !== 2));
+      if (bad >= 0) return { calibration: null, error: `qubits[${bad}] must be a 2×2 matrix` };
+      return fromMatrix(tensorMatrices(qubits), qubits);
+    }
+    return { calibration: null, error: 'Expected "matrix" (rows of numbers) or "qubits" (2×2 matrices)' };
+  }
+
+  const rows = text.trim().split(/\r?\n/).filter(line => line.trim())
+    .map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')));
+  if (rows.length === 0) return { calibration: null, error: 'The file is empty' };
+  // Bitstring labels like "01" parse as numbers, so the header row and label
+  // column are found from the shape: whatever is left must be square
+  const width = rows[0].length;
+  const corner = rows[0][0];
+  const labelled = rows.length === width && (corner === '' || isNaN(Number(corner)));
+  const skipRow = labelled || rows.length === width + 1 ? 1 : 0;
+  const skipColumn = labelled || width === rows.length + 1 ? 1 : 0;
+  const cells = rows.slice(skipRow).map(row => row.slice(skipColumn));
+  const bad = cells.flatMap((row, i) => row.map((cell, j) => ({ cell, i, j }))).find(({ cell }) => cell === '' || isNaN(Number(cell)));
+  if (bad) {
+    return { calibration: null, error: `Cell (${bad.i + skipRow + 1}, ${bad.j + skipColumn + 1}) is "${bad.cell}", expected a number` };
+  }
+  const matrix = cells.map(row => row.map(Number));
+  return fromMatrix(matrix);
+};
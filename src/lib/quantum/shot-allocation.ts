@@ -0,0 +1,73 @@
+import { Extrapolator, ExtrapolatorOptions, runExtrapolator } from './extrapolation';
+
+// How a total shot budget is split over the noise scale factors:
+// - uniform: the same number of shots at every scale
+// - optimal: N_i ∝ |c_i|·σ_i, which minimises Var = Σ c_i² σ_i² / N_i for a
+//   fixed total, with c_i the estimate's sensitivity to point i and σ_i² the
+//   per-shot variance there
+export type ShotAllocation = 'uniform' | 'optimal';
+
+// ∂(zero-noise estimate)/∂y_i. Exact for the polynomial fits, which are
+// linear in y, and the delta-method linearisation for the exponential ones.
+export const estimatorWeights = (
+  extrapolator: Extrapolator,
+  x: number[],
+  y: number[],
+  options: ExtrapolatorOptions
+): number[] => {
+  const h = 1e-4;
+  return y.map((_, i) => {
+    const up = runExtrapolator(extrapolator, x, y.map((v, j) => (j === i ? v + h : v)), options);
+    const down = runExtrapolator(extrapolator, x, y.map((v, j) => (j === i ? v - h : v)), options);
+    const slope = (up.zeroNoiseValue - down.zeroNoiseValue) / (2 * h);
+    return Number.isFinite(slope) ? slope : 0;
+  });
+};
+
+// Variance of one shot of a ±1 observable with mean ⟨O⟩, floored so that
+// points measured at exactly ±1 still count
+export const perShotVariance = (expectation: number): number => Math.max(1 - expectation * expectation, 1e-3);
+
+// Σ c_i² σ_i² / N_i
+export const estimatorVariance = (weights: number[], variances: number[], shots: number[]): number =>
+  weights.reduce((acc, c, i) => acc + (c * c * variances[i]) / Math.max(shots[i], 1), 0);
+
+// Splits `total` shots into integers. Points below `minimum` are pinned there
+// and the rest is shared out again; leftover shots from rounding go to the
+// largest remainders.
+export const allocateShots = (
+  total: number,
+  weights: number[],
+  variances: number[],
+  allocation: ShotAllocation,
+  minimum: number[] = weights.map(() => 1)
+): number[] => {
+  const k = weights.length;
+  const importance = allocation === 'uniform'
+    ? weights.map(() => 1)
+    : weights.map((c, i) => Math.abs(c) * Math.sqrt(variances[i]));
+
+  const pinned = new Set<number>();
+  let shares: number[] = [];
+  for (let round = 0; round <= k; round++) {
+    const free = importance.map((_, i) => i).filter(i => !pinned.has(i));
+    const remaining = total - [...pinned].reduce((acc, i) => acc + minimum[i], 0);
+    const freeImportance = free.reduce((acc, i) => acc + importance[i], 0);
+    shares = importance.map((a, i) => {
+      if (pinned.has(i)) return minimum[i];
+      return freeImportance > 0 ? (remaining * a) / freeImportance : remaining / free.length;
+    });
+    const below = free.filter(i => shares[i] < minimum[i]);
+    if (!below.length) break;
+    below.forEach(i => pinned.add(i));
+  }
+
+  const shots = shares.map(Math.floor);
+  const leftover = total - shots.reduce((a, b) => a + b, 0);
+  shares
+    .map((share, i) => ({ i, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, Math.max(0, leftover))
+    .forEach(({ i }) => { shots[i] += 1; });
+  return shots;
+};
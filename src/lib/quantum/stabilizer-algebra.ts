@@ -0,0 +1,186 @@
+import { CircuitGate, CircuitGateType, compactCircuit } from './circuit';
+import { Tableau, applyCliffordGate, pauliAt, paulisCommute, rowsum } from './stabilizer';
+
+// Linear algebra on Pauli strings for building codes from their generators:
+// independence, code distance and an encoding circuit.
+
+// Tableau whose rows are exactly the given Pauli strings, so Clifford gates
+// conjugate them in place
+const pauliRows = (paulis: string[], numQubits: number): Tableau => {
+  const bits = (pauli: string, p: 'X' | 'Z') =>
+    Uint8Array.from({ length: numQubits }, (_, q) => {
+      const c = pauliAt(pauli, q);
+      return c === p || c === 'Y' ? 1 : 0;
+    });
+  return {
+    numQubits,
+    x: paulis.map(p => bits(p, 'X')),
+    z: paulis.map(p => bits(p, 'Z')),
+    r: new Uint8Array(paulis.length),
+  };
+};
+
+// Rank over GF(2) of the strings as (x | z) bit vectors; they are
+// independent when it equals their count
+export const pauliRank = (paulis: string[], numQubits: number): number => {
+  const t = pauliRows(paulis, numQubits);
+  const rows = paulis.map((_, i) => [...t.x[i], ...t.z[i]]);
+  let rank = 0;
+  for (let col = 0; col < 2 * numQubits && rank < rows.length; col++) {
+    const pivot = rows.findIndex((row, i) => i >= rank && row[col] === 1);
+    if (pivot < 0) continue;
+    [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+    rows.forEach((row, i) => {
+      if (i !== rank && row[col]) rows[i] = row.map((b, j) => b ^ rows[rank][j]);
+    });
+    rank++;
+  }
+  return rank;
+};
+
+// Smallest weight of a Pauli that commutes with every generator yet acts on
+// the logical qubit (anticommutes with logical X or Z), by trying all
+// Paulis of each weight in turn; null if none up to maxWeight
+export const searchDistance = (
+  stabilizers: string[],
+  logicalX: string,
+  logicalZ: string,
+  maxWeight = logicalZ.length
+): number | null => {
+  const n = logicalZ.length;
+  const paulis = ['X', 'Y', 'Z'];
+  const isLogical = (p: string) =>
+    stabilizers.every(s => paulisCommute(s, p)) && (!paulisCommute(p, logicalX) || !paulisCommute(p, logicalZ));
+
+  for (let w = 1; w <= Math.min(maxWeight, n); w++) {
+    const support: number[] = [];
+    const found = (start: number): boolean => {
+      if (support.length === w) {
+        for (let k = 0; k < 3 ** w; k++) {
+          const error = Array(n).fill('I');
+          support.forEach((q, i) => {
+            error[q] = paulis[Math.floor(k / 3 ** i) % 3];
+          });
+          if (isLogical(error.join(''))) return true;
+        }
+        return false;
+      }
+      for (let q = start; q < n; q++) {
+        support.push(q);
+        if (found(q + 1)) return true;
+        support.pop();
+      }
+      return false;
+    };
+    if (found(0)) return w;
+  }
+  return null;
+};
+
+// Clifford circuit taking |ψ⟩ on qubit 0 and |0⟩ elsewhere to the encoded
+// |ψ_L⟩. The generators and logicals are conjugated by gates until logical
+// X and Z are X and Z on qubit 0 and the generators are +Z strings on the
+// other qubits; the encoder is that circuit run backwards. Expects a valid
+// code: n - 1 independent commuting generators and logicals that commute
+// with them and anticommute with each other.
+export const synthesizeEncoder = (stabilizers: string[], logicalX: string, logicalZ: string): CircuitGate[] => {
+  const n = logicalZ.length;
+  const t = pauliRows([logicalX, logicalZ, ...stabilizers], n);
+  const rows = t.x.length;
+  const gates: CircuitGate[] = [];
+  const apply = (type: CircuitGateType, targets: number[], controls: number[] = []) => {
+    const g: CircuitGate = { id: '', type, targets, controls, step: 0 };
+    applyCliffordGate(t, g);
+    gates.push(g);
+  };
+  const swapRows = (a: number, b: number) => {
+    [t.x[a], t.x[b]] = [t.x[b], t.x[a]];
+    [t.z[a], t.z[b]] = [t.z[b], t.z[a]];
+    [t.r[a], t.r[b]] = [t.r[b], t.r[a]];
+  };
+  const others = (skip: number) => Array.from({ length: n }, (_, q) => q).filter(q => q !== skip);
+
+  // Logical X → X on a single qubit, then moved to qubit 0
+  for (let q = 0; q < n; q++) {
+    if (t.z[0][q]) apply(t.x[0][q] ? 'S' : 'H', [q]);
+  }
+  const p = t.x[0][0] ? 0 : t.x[0].indexOf(1);
+  others(p).forEach(q => {
+    if (t.x[0][q]) apply('CNOT', [q], [p]);
+  });
+  if (p !== 0) apply('SWAP', [0, p]);
+
+  // Logical Z → Z on qubit 0; no gate here touches X_0
+  others(0).forEach(q => {
+    if (!t.x[1][q]) return;
+    if (t.z[1][q]) apply('S', [q]);
+    apply('H', [q]);
+  });
+  others(0).forEach(q => {
+    if (t.z[1][q]) apply('CNOT', [0], [q]);
+  });
+  // Y_0 → Z_0 while X_0 stays put
+  if (t.x[1][0]) ['H', 'S', 'H'].forEach(type => apply(type as CircuitGateType, [0]));
+  if (t.r[0]) apply('Z', [0]);
+  if (t.r[1]) apply('X', [0]);
+
+  // Generators now act trivially on qubit 0. Eliminate their X parts so
+  // each column has at most one X pivot...
+  const xPivots: { row: number; col: number }[] = [];
+  let next = 2;
+  others(0).forEach(col => {
+    const k = t.x.findIndex((xs, row) => row >= next && xs[col] === 1);
+    if (k < 0) return;
+    swapRows(k, next);
+    for (let row = 2; row < rows; row++) {
+      if (row !== next && t.x[row][col]) rowsum(t, row, next);
+    }
+    xPivots.push({ row: next, col });
+    next++;
+  });
+  // ...then turn every pivot row into a lone X and Hadamard it to Z. The
+  // rows commute, so no other row has a Z where a pivot row has its X.
+  xPivots.forEach(({ row, col }) => {
+    others(col).forEach(q => {
+      if (t.x[row][q]) apply('CNOT', [q], [col]);
+    });
+  });
+  xPivots.forEach(({ row, col }) => {
+    if (t.z[row][col]) apply('S', [col]);
+    others(col).forEach(q => {
+      if (t.z[row][q]) apply('CZ', [q], [col]);
+    });
+  });
+  xPivots.forEach(({ col }) => apply('H', [col]));
+
+  // All generators are Z strings; in reduced echelon form each has a column
+  // of its own, where an X flips its sign alone
+  const zPivots: { row: number; col: number }[] = [];
+  next = 2;
+  others(0).forEach(col => {
+    const k = t.z.findIndex((zs, row) => row >= next && zs[col] === 1);
+    if (k < 0) return;
+    swapRows(k, next);
+    for (let row = 2; row < rows; row++) {
+      if (row !== next && t.z[row][col]) {
+        t.z[next].forEach((b, q) => {
+          t.z[row][q] ^= b;
+        });
+        t.r[row] ^= t.r[next];
+      }
+    }
+    zPivots.push({ row: next, col });
+    next++;
+  });
+  zPivots.forEach(({ row, col }) => {
+    if (t.r[row]) apply('X', [col]);
+  });
+
+  // Undo the reduction: gates in reverse order, S† as S³
+  return compactCircuit(
+    gates
+      .reverse()
+      .flatMap(g => (g.type === 'S' ? [g, g, g] : [g]))
+      .map((g, i) => ({ ...g, id: `enc-${g.type.toLowerCase()}-${i}` }))
+  );
+};
@@ -0,0 +1,235 @@
+import { CircuitGate, CircuitGateType, compactCircuit } from './circuit';
+import { pauliAt, paulisCommute } from './stabilizer';
+import { pauliRank, searchDistance, synthesizeEncoder } from './stabilizer-algebra';
+
+// Quantum error-correcting codes given by their stabilizer generators. Each
+// code stores one logical qubit in `numQubits` data qubits; codewords are
+// the +1 eigenstates of every generator, and logical |0⟩ is also the +1
+// eigenstate of logicalZ.
+
+export interface StabilizerCode {
+  id: string;
+  name: string;
+  numQubits: number;
+  // Smallest weight of an undetectable logical error
+  distance: number;
+  stabilizers: string[];
+  logicalX: string;
+  logicalZ: string;
+  // Takes |ψ⟩ on qubit 0 and |0⟩ elsewhere to the encoded |ψ_L⟩
+  encoder: CircuitGate[];
+}
+
+const gate = (id: string, type: CircuitGateType, targets: number[], controls: number[] = []): CircuitGate => ({
+  id, type, targets, controls, step: 0,
+});
+
+const fanOut = (prefix: string, control: number, targets: number[]) =>
+  targets.map(t => gate(`${prefix}-cx-${control}-${t}`, 'CNOT', [t], [control]));
+
+export const bitFlipCode: StabilizerCode = {
+  id: 'bitflip',
+  name: '3-Qubit Bit Flip Code',
+  numQubits: 3,
+  // Only against X errors; a single Z flips the logical state undetected
+  distance: 1,
+  stabilizers: ['ZZI', 'ZIZ'],
+  logicalX: 'XXX',
+  logicalZ: 'ZII',
+  encoder: compactCircuit(fanOut('enc', 0, [1, 2])),
+};
+
+export const phaseFlipCode: StabilizerCode = {
+  id: 'phaseflip',
+  name: '3-Qubit Phase Flip Code',
+  numQubits: 3,
+  distance: 1,
+  stabilizers: ['XXI', 'XIX'],
+  logicalX: 'ZZZ',
+  logicalZ: 'XII',
+  encoder: compactCircuit([
+    ...fanOut('enc', 0, [1, 2]),
+    ...[0, 1, 2].map(q => gate(`enc-h-${q}`, 'H', [q])),
+  ]),
+};
+
+export const shorCode: StabilizerCode = {
+  id: 'shor',
+  name: 'Shor 9-Qubit Code',
+  numQubits: 9,
+  distance: 3,
+  stabilizers: [
+    'ZZIIIIIII', 'IZZIIIIII',
+    'IIIZZIIII', 'IIIIZZIII',
+    'IIIIIIZZI', 'IIIIIIIZZ',
+    'XXXXXXIII', 'IIIXXXXXX',
+  ],
+  logicalX: 'ZZZZZZZZZ',
+  logicalZ: 'XXXXXXXXX',
+  // Phase-flip encode across the blocks, then bit-flip encode each block
+  encoder: compactCircuit([
+    ...fanOut('enc', 0, [3, 6]),
+    ...[0, 3, 6].map(q => gate(`enc-h-${q}`, 'H', [q])),
+    ...fanOut('enc', 0, [1, 2]),
+    ...fanOut('enc', 3, [4, 5]),
+    ...fanOut('enc', 6, [7, 8]),
+  ]),
+};
+
+// Codes given only by generators and logicals get a computed distance and a
+// synthesized encoder; the distance search can be skipped by passing it in
+export const fromGenerators = (
+  id: string,
+  name: string,
+  stabilizers: string[],
+  logicalX: string,
+  logicalZ: string,
+  distance = searchDistance(stabilizers, logicalX, logicalZ)
+): StabilizerCode => ({
+  id,
+  name,
+  numQubits: logicalZ.length,
+  distance,
+  stabilizers,
+  logicalX,
+  logicalZ,
+  encoder: synthesizeEncoder(stabilizers, logicalX, logicalZ),
+});
+
+// CSS code from the [7,4] Hamming code: the same three checks in X and in Z
+export const steaneCode = fromGenerators(
+  'steane',
+  'Steane 7-Qubit Code',
+  ['IIIXXXX', 'IXXIIXX', 'XIXIXIX', 'IIIZZZZ', 'IZZIIZZ', 'ZIZIZIZ'],
+  'XXXXXXX',
+  'ZZZZZZZ'
+);
+
+// Smallest code correcting any single-qubit error; the generators are the
+// cyclic shifts of XZZXI
+export const fiveQubitCode = fromGenerators(
+  'fivequbit',
+  'Five-Qubit Code',
+  ['XZZXI', 'IXZZX', 'XIXZZ', 'ZXIXZ'],
+  'XXXXX',
+  'ZZZZZ'
+);
+
+// Largest custom code; the distance search and lookup decoder grow
+// exponentially with it
+export const MAX_CUSTOM_QUBITS = 12;
+
+export interface CustomCodeInput {
+  stabilizers: string[];
+  logicalX: string;
+  logicalZ: string;
+}
+
+export interface CustomCodeAnalysis {
+  // Why the input is not a usable code; empty when `code` is set
+  errors: string[];
+  // The strings were well formed, so the checks below ran
+  checked: boolean;
+  commuting: boolean;
+  independent: boolean;
+  logicalsValid: boolean;
+  code: StabilizerCode | null;
+}
+
+export const customCodeInput = (code: StabilizerCode): CustomCodeInput => ({
+  stabilizers: code.stabilizers,
+  logicalX: code.logicalX,
+  logicalZ: code.logicalZ,
+});
+
+const normalizePauli = (pauli: string) => pauli.trim().toUpperCase().replace(/^\+/, '');
+
+// Checks user-entered generators and logicals for one logical qubit and,
+// when they define a code, builds it
+export const analyzeCustomCode = (input: CustomCodeInput): CustomCodeAnalysis => {
+  const stabilizers = input.stabilizers.map(normalizePauli).filter(Boolean);
+  const logicalX = normalizePauli(input.logicalX);
+  const logicalZ = normalizePauli(input.logicalZ);
+  const result: CustomCodeAnalysis = { errors: [], checked: false, commuting: false, independent: false, logicalsValid: false, code: null };
+  const fail = (...errors: string[]) => ({ ...result, errors: [...result.errors, ...errors] });
+
+  const all = [...stabilizers, logicalX, logicalZ];
+  const invalid = all.filter(p => !/^[IXYZ]+$/.test(p));
+  if (invalid.length) return fail(...invalid.map(p => `"${p || '(empty)'}" is not a Pauli string of I, X, Y and Z`));
+  const n = logicalZ.length;
+  if (all.some(p => p.length !== n)) return fail('All Pauli strings must have the same length');
+  if (n < 2 || n > MAX_CUSTOM_QUBITS) return fail(`Codes need between 2 and ${MAX_CUSTOM_QUBITS} qubits`);
+  if (stabilizers.length !== n - 1) {
+    const needed = `${n - 1} generator${n === 2 ? '' : 's'}`;
+    return fail(`One logical qubit in ${n} qubits takes ${needed}, not ${stabilizers.length}`);
+  }
+
+  result.checked = true;
+  stabilizers.forEach((a, i) => stabilizers.forEach((b, j) => {
+    if (i < j && !paulisCommute(a, b)) result.errors.push(`Generators ${i + 1} and ${j + 1} anticommute`);
+  }));
+  result.commuting = result.errors.length === 0;
+  const rank = pauliRank(stabilizers, n);
+  result.independent = rank === stabilizers.length;
+  if (!result.independent) result.errors.push(`The generators are not independent (rank ${rank} of ${stabilizers.length})`);
+
+  const logicalErrors: string[] = [];
+  ([['X', logicalX], ['Z', logicalZ]] as const).forEach(([name, logical]) => {
+    stabilizers.forEach((g, i) => {
+      if (!paulisCommute(g, logical)) logicalErrors.push(`Logical ${name} anticommutes with generator ${i + 1}`);
+    });
+  });
+  if (paulisCommute(logicalX, logicalZ)) logicalErrors.push('Logical X and Z must anticommute');
+  result.logicalsValid = logicalErrors.length === 0;
+  result.errors.push(...logicalErrors);
+  if (result.errors.length) return result;
+
+  const distance = searchDistance(stabilizers, logicalX, logicalZ);
+  return {
+    ...result,
+    code: fromGenerators('custom', `Custom [[${n},1,${distance}]] Code`, stabilizers, logicalX, logicalZ, distance),
+  };
+};
+
+// Gates that take the logical input state from |0⟩ to |ψ⟩ on qubit 0
+export type LogicalState = '0' | '1' | '+' | '-';
+
+export const logicalStatePreparation = (state: LogicalState): CircuitGate[] => [
+  ...(state === '1' || state === '-' ? [gate('prep-x', 'X', [0])] : []),
+  ...(state === '+' || state === '-' ? [gate('prep-h', 'H', [0])] : []),
+].map((g, step) => ({ ...g, step }));
+
+// Observable whose sign tells the logical state apart, and the eigenvalue
+// bit it should read
+export const logicalReadout = (code: StabilizerCode, state: LogicalState) => ({
+  pauli: state === '0' || state === '1' ? code.logicalZ : code.logicalX,
+  expected: (state === '1' || state === '-' ? 1 : 0) as 0 | 1,
+});
+
+// Measures every generator onto its own ancilla (qubits numQubits and up,
+// written to classical bit j): the ancilla starts in |+⟩, controls the
+// generator's Pauli on each data qubit and is read out in the X basis, so it
+// reads 1 exactly when the data anticommute with the generator.
+export const syndromeCircuit = (code: StabilizerCode): CircuitGate[] =>
+  compactCircuit(code.stabilizers.flatMap((stabilizer, j) => {
+    const ancilla = code.numQubits + j;
+    const prefix = `syn-${j}`;
+    const couplings = Array.from({ length: code.numQubits }, (_, q) => {
+      const p = pauliAt(stabilizer, q);
+      if (p === 'I') return [];
+      if (p === 'X') return [gate(`${prefix}-cx-${q}`, 'CNOT', [q], [ancilla])];
+      if (p === 'Z') return [gate(`${prefix}-cz-${q}`, 'CZ', [q], [ancilla])];
+      // Controlled-Y = S · CNOT · S†, with S† = S³
+      return [
+        ...[0, 1, 2].map(k => gate(`${prefix}-sdg${k}-${q}`, 'S', [q])),
+        gate(`${prefix}-cx-${q}`, 'CNOT', [q], [ancilla]),
+        gate(`${prefix}-s-${q}`, 'S', [q]),
+      ];
+    }).flat();
+    return [
+      gate(`${prefix}-h0`, 'H', [ancilla]),
+      ...couplings,
+      gate(`${prefix}-h1`, 'H', [ancilla]),
+      { ...gate(`${prefix}-m`, 'M', [ancilla]), clbit: j },
+    ];
+  }));
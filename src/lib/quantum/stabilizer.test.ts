@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+import { CircuitGate } from './circuit';
+import { buildLookupDecoder, codeCircuit, recoverLogical, runCodeCircuit, runCodeTrials } from './error-correction';
+import {
+  LogicalState,
+  StabilizerCode,
+  bitFlipCode,
+  fiveQubitCode,
+  phaseFlipCode,
+  shorCode,
+  steaneCode
+} from './stabilizer-codes';
+import { createTableau, measurePauli, rowsum, runCliffordShot, stabilizerGenerators } from './stabilizer';
+
+const gate = (type: CircuitGate['type'], targets: number[], step: number, extra: Partial<CircuitGate> = {}): CircuitGate => ({
+  id: `${step}-${type}-${targets.join('')}`,
+  type,
+  targets,
+  controls: [],
+  step,
+  ...extra,
+});
+
+// H on qubit 0, a CNOT chain and every qubit measured into its own bit
+const ghz = (numQubits: number): CircuitGate[] => [
+  gate('H', [0], 0),
+  ...Array.from({ length: numQubits - 1 }, (_, q) => gate('CNOT', [q + 1], q + 1, { controls: [q] })),
+  ...Array.from({ length: numQubits }, (_, q) => gate('M', [q], numQubits, { clbit: q })),
+];
+
+const shotCounts = (gates: CircuitGate[], numQubits: number, shots: number) => {
+  const random = createRandom(5);
+  const counts: Record<string, number> = {};
+  for (let shot = 0; shot < shots; shot++) {
+    const key = runCliffordShot(gates, numQubits, numQubits, random).clbits.join('');
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+};
+
+describe('runCliffordShot', () => {
+  it.each([2, 3, 5])('measures %i-qubit GHZ states as all zeros or all ones, evenly', numQubits => {
+    const shots = 2000;
+    const counts = shotCounts(ghz(numQubits), numQubits, shots);
+    const zeros = '0'.repeat(numQubits);
+    const ones = '1'.repeat(numQubits);
+    expect(Object.keys(counts).sort()).toEqual([zeros, ones]);
+    // Within four standard deviations of shots / 2
+    expect(Math.abs(counts[zeros] - shots / 2)).toBeLessThan(4 * Math.sqrt(shots / 4));
+  });
+
+  it('stabilizes the Bell state by XX, ZZ and -YY', () => {
+    const { tableau } = runCliffordShot(ghz(2).filter(g => g.type !== 'M'), 2, 0, createRandom(1));
+    expect(stabilizerGenerators(tableau)).toEqual(['+XX', '+ZZ']);
+    const random = createRandom(2);
+    expect(measurePauli(tableau, 'XX', random)).toEqual({ outcome: 0, deterministic: true });
+    expect(measurePauli(tableau, 'ZZ', random)).toEqual({ outcome: 0, deterministic: true });
+    expect(measurePauli(tableau, 'YY', random)).toEqual({ outcome: 1, deterministic: true });
+    expect(measurePauli(tableau, 'ZI', random).deterministic).toBe(false);
+  });
+
+  it('reads earlier measurements in classical conditions', () => {
+    // Copies qubit 0's outcome onto qubit 1 with a conditional X
+    const gates = [
+      gate('H', [0], 0),
+      gate('M', [0], 1, { clbit: 0 }),
+      gate('X', [1], 2, { condition: { clbit: 0, value: 1 } }),
+      gate('M', [1], 3, { clbit: 1 }),
+    ];
+    expect(Object.keys(shotCounts(gates, 2, 200)).sort()).toEqual(['00', '11']);
+  });
+});
+
+describe('rowsum', () => {
+  // Writes Pauli strings with signs into the stabilizer rows of a 2-qubit
+  // tableau, multiplies row 2 into row 3 and reads row 3 back
+  const product = (left: string, right: string) => {
+    const t = createTableau(2);
+    [left, right].forEach((pauli, i) => {
+      const row = 2 + i;
+      t.r[row] = pauli.startsWith('-') ? 1 : 0;
+      [...pauli.replace(/^[-+]/, '')].forEach((p, q) => {
+        t.x[row][q] = p === 'X' || p === 'Y' ? 1 : 0;
+        t.z[row][q] = p === 'Z' || p === 'Y' ? 1 : 0;
+      });
+    });
+    rowsum(t, 3, 2);
+    return stabilizerGenerators(t)[1];
+  };
+
+  it.each([
+    ['ZZ', 'XX', '-YY'],
+    ['XX', 'YY', '-ZZ'],
+    ['YY', 'ZZ', '-XX'],
+    ['XZ', 'ZX', '+YY'],
+    ['-ZZ', 'XX', '+YY'],
+    ['-XI', '-XZ', '+IZ'],
+    ['ZI', 'ZZ', '+IZ'],
+    ['YI', 'YX', '+IX'],
+  ])('%s · %s = %s', (left, right, expected) => {
+    expect(product(left, right)).toBe(expected);
+  });
+});
+
+describe('error correction without errors', () => {
+  const codes: StabilizerCode[] = [bitFlipCode, phaseFlipCode, shorCode, steaneCode, fiveQubitCode];
+  const states: LogicalState[] = ['0', '1', '+', '-'];
+
+  it.each(codes.map(code => [code.name, code] as const))('keeps every logical state of the %s', (_, code) => {
+    states.forEach(logicalState => {
+      const trials = runCodeTrials(
+        code,
+        { errorRate: 0, noise: 'depolarizing', logicalState, trials: 5, correct: true },
+        createRandom(3)
+      );
+      trials.forEach(trial => {
+        expect(trial.error).toBe('I'.repeat(code.numQubits));
+        expect(trial.syndrome).toBe('0'.repeat(code.stabilizers.length));
+        expect(trial.detected).toBe(false);
+        expect(trial.logicalFailure).toBe(false);
+        expect(trial.rawFailure).toBe(false);
+      });
+
+      // The gate-by-gate circuit reads the same trivial syndrome
+      const random = createRandom(4);
+      const circuit = codeCircuit(code, logicalState);
+      const { tableau, clbits } = runCodeCircuit(circuit, circuit.numSteps, null, random);
+      const recovery = recoverLogical(code, logicalState, buildLookupDecoder(code, 'depolarizing'), tableau, clbits, random);
+      expect(recovery.syndrome).toBe('0'.repeat(code.stabilizers.length));
+      expect(recovery.logicalFailure).toBe(false);
+    });
+  });
+});
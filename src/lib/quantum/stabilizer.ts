@@ -0,0 +1,255 @@
+import { CircuitGate, CircuitGateType, conditionHolds, sortByStep } from './circuit';
+import { Random } from '../random';
+
+// Stabilizer (CHP) simulation after Aaronson and Gottesman: a state reachable
+// from |0…0⟩ by Clifford gates is the joint +1 eigenstate of n commuting
+// Pauli operators, so it is stored as those n generators plus n
+// "destabilizers" instead of 2^n amplitudes. Gates and measurements cost
+// O(n) and O(n²), which makes codes with dozens of qubits cheap.
+//
+// Pauli strings are written qubit 0 first, e.g. "XZZXI", like basisLabel.
+
+export type Pauli = 'I' | 'X' | 'Y' | 'Z';
+
+export interface Tableau {
+  numQubits: number;
+  // Rows 0..n-1 are destabilizers, n..2n-1 stabilizers and 2n is scratch
+  // space; (x, z) = (1, 1) on a qubit means Y
+  x: Uint8Array[];
+  z: Uint8Array[];
+  // Sign of each row, (-1)^r
+  r: Uint8Array;
+}
+
+export const createTableau = (numQubits: number): Tableau => {
+  const rows = 2 * numQubits + 1;
+  const x = Array.from({ length: rows }, () => new Uint8Array(numQubits));
+  const z = Array.from({ length: rows }, () => new Uint8Array(numQubits));
+  for (let q = 0; q < numQubits; q++) {
+    x[q][q] = 1;
+    z[numQubits + q][q] = 1;
+  }
+  return { numQubits, x, z, r: new Uint8Array(rows) };
+};
+
+export const cloneTableau = (t: Tableau): Tableau => ({
+  numQubits: t.numQubits,
+  x: t.x.map(row => row.slice()),
+  z: t.z.map(row => row.slice()),
+  r: t.r.slice(),
+});
+
+export const pauliAt = (pauli: string, q: number): Pauli => (pauli[q] ?? 'I') as Pauli;
+
+export const pauliWeight = (pauli: string) => [...pauli].filter(p => p !== 'I').length;
+
+// Two Pauli strings commute when they differ (both non-identity) on an even
+// number of qubits
+export const paulisCommute = (a: string, b: string) => {
+  let differ = 0;
+  for (let q = 0; q < Math.min(a.length, b.length); q++) {
+    if (a[q] !== 'I' && b[q] !== 'I' && a[q] !== b[q]) differ++;
+  }
+  return differ % 2 === 0;
+};
+
+// Product up to phase, e.g. X·Z = Y
+export const multiplyPaulis = (a: string, b: string): string =>
+  [...a].map((p, q) => {
+    const o = b[q] ?? 'I';
+    if (p === 'I') return o;
+    if (o === 'I' || o === p) return o === p ? 'I' : p;
+    return ['X', 'Y', 'Z'].find(c => c !== p && c !== o);
+  }).join('');
+
+const pauliBits = (pauli: string, numQubits: number) => {
+  const x = new Uint8Array(numQubits);
+  const z = new Uint8Array(numQubits);
+  for (let q = 0; q < numQubits; q++) {
+    const p = pauliAt(pauli, q);
+    x[q] = p === 'X' || p === 'Y' ? 1 : 0;
+    z[q] = p === 'Z' || p === 'Y' ? 1 : 0;
+  }
+  return { x, z };
+};
+
+const anticommutesWithRow = (t: Tableau, row: number, x: Uint8Array, z: Uint8Array) => {
+  let parity = 0;
+  for (let q = 0; q < t.numQubits; q++) parity ^= (t.x[row][q] & z[q]) ^ (t.z[row][q] & x[q]);
+  return parity === 1;
+};
+
+// Power of i picked up when the Pauli (x1, z1) multiplies (x2, z2)
+const phaseExponent = (x1: number, z1: number, x2: number, z2: number) => {
+  if (!x1 && !z1) return 0;
+  if (x1 && z1) return z2 - x2;
+  if (x1) return z2 * (2 * x2 - 1);
+  return x2 * (1 - 2 * z2);
+};
+
+// Row h ← row i · row h, tracking the sign
+export const rowsum = (t: Tableau, h: number, i: number) => {
+  let phase = 2 * t.r[h] + 2 * t.r[i];
+  for (let q = 0; q < t.numQubits; q++) {
+    phase += phaseExponent(t.x[i][q], t.z[i][q], t.x[h][q], t.z[h][q]);
+    t.x[h][q] ^= t.x[i][q];
+    t.z[h][q] ^= t.z[i][q];
+  }
+  t.r[h] = ((phase % 4) + 4) % 4 === 0 ? 0 : 1;
+};
+
+const hadamard = (t: Tableau, a: number) => {
+  t.x.forEach((xs, row) => {
+    const zs = t.z[row];
+    t.r[row] ^= xs[a] & zs[a];
+    [xs[a], zs[a]] = [zs[a], xs[a]];
+  });
+};
+
+const phase = (t: Tableau, a: number) => {
+  t.x.forEach((xs, row) => {
+    const zs = t.z[row];
+    t.r[row] ^= xs[a] & zs[a];
+    zs[a] ^= xs[a];
+  });
+};
+
+const cnot = (t: Tableau, a: number, b: number) => {
+  t.x.forEach((xs, row) => {
+    const zs = t.z[row];
+    t.r[row] ^= xs[a] & zs[b] & (xs[b] ^ zs[a] ^ 1);
+    xs[b] ^= xs[a];
+    zs[a] ^= zs[b];
+  });
+};
+
+// Conjugating by a Pauli flips the sign of every row it anticommutes with
+const pauliGate = (t: Tableau, a: number, p: Pauli) => {
+  t.x.forEach((xs, row) => {
+    const zs = t.z[row];
+    t.r[row] ^= p === 'X' ? zs[a] : p === 'Z' ? xs[a] : xs[a] ^ zs[a];
+  });
+};
+
+const CLIFFORD_GATES: CircuitGateType[] = ['H', 'S', 'X', 'Y', 'Z', 'CNOT', 'CZ', 'SWAP', 'M'];
+
+export const isCliffordGate = (type: CircuitGateType) => CLIFFORD_GATES.includes(type);
+
+// Applies a Clifford gate in place. Measurements go through measurePauli
+// instead; other gate types are not stabilizer operations and are ignored,
+// so callers check isCliffordGate first.
+export const applyCliffordGate = (t: Tableau, gate: CircuitGate) => {
+  const [target] = gate.targets;
+  switch (gate.type) {
+    case 'H':
+      return hadamard(t, target);
+    case 'S':
+      return phase(t, target);
+    case 'X':
+    case 'Y':
+    case 'Z':
+      return pauliGate(t, target, gate.type);
+    case 'CNOT':
+      return cnot(t, gate.controls[0], target);
+    case 'CZ':
+      hadamard(t, target);
+      cnot(t, gate.controls[0], target);
+      return hadamard(t, target);
+    case 'SWAP': {
+      const [a, b] = gate.targets;
+      cnot(t, a, b);
+      cnot(t, b, a);
+      return cnot(t, a, b);
+    }
+  }
+};
+
+// Applies a Pauli string (an error or a correction) in place
+export const applyPauli = (t: Tableau, pauli: string) => {
+  const { x, z } = pauliBits(pauli, t.numQubits);
+  for (let row = 0; row < 2 * t.numQubits; row++) {
+    if (anticommutesWithRow(t, row, x, z)) t.r[row] ^= 1;
+  }
+};
+
+export interface PauliMeasurement {
+  // Eigenvalue (-1)^outcome
+  outcome: 0 | 1;
+  // False when the state was not an eigenstate and the outcome was random
+  deterministic: boolean;
+}
+
+// Measures a Hermitian Pauli string and collapses the state onto the result
+export const measurePauli = (t: Tableau, pauli: string, random: Random): PauliMeasurement => {
+  const n = t.numQubits;
+  const { x, z } = pauliBits(pauli, n);
+  let pivot = -1;
+  for (let row = n; row < 2 * n; row++) {
+    if (anticommutesWithRow(t, row, x, z)) {
+      pivot = row;
+      break;
+    }
+  }
+
+  if (pivot >= 0) {
+    for (let row = 0; row < 2 * n; row++) {
+      if (row !== pivot && anticommutesWithRow(t, row, x, z)) rowsum(t, row, pivot);
+    }
+    t.x[pivot - n].set(t.x[pivot]);
+    t.z[pivot - n].set(t.z[pivot]);
+    t.r[pivot - n] = t.r[pivot];
+    const outcome = random() < 0.5 ? 0 : 1;
+    t.x[pivot].set(x);
+    t.z[pivot].set(z);
+    t.r[pivot] = outcome;
+    return { outcome, deterministic: false };
+  }
+
+  // ±P is already a product of stabilizers; the destabilizers it
+  // anticommutes with say which ones
+  const scratch = 2 * n;
+  t.x[scratch].fill(0);
+  t.z[scratch].fill(0);
+  t.r[scratch] = 0;
+  for (let row = 0; row < n; row++) {
+    if (anticommutesWithRow(t, row, x, z)) rowsum(t, scratch, row + n);
+  }
+  return { outcome: t.r[scratch] as 0 | 1, deterministic: true };
+};
+
+// "Z" on one qubit of an n-qubit register
+export const singleQubitPauli = (numQubits: number, qubit: number, pauli: Pauli = 'Z') =>
+  Array.from({ length: numQubits }, (_, q) => (q === qubit ? pauli : 'I')).join('');
+
+// Stabilizer generators of the current state, e.g. "+XX", "-ZZ"
+export const stabilizerGenerators = (t: Tableau): string[] =>
+  Array.from({ length: t.numQubits }, (_, i) => {
+    const row = t.numQubits + i;
+    const paulis = Array.from({ length: t.numQubits }, (_, q) =>
+      t.x[row][q] ? (t.z[row][q] ? 'Y' : 'X') : t.z[row][q] ? 'Z' : 'I'
+    );
+    return `${t.r[row] ? '-' : '+'}${paulis.join('')}`;
+  });
+
+// One shot of a Clifford circuit, like runShot: measurements collapse the
+// tableau and later gates read the classical bits written so far.
+// Non-Clifford gates are skipped.
+export const runCliffordShot = (
+  gates: CircuitGate[],
+  numQubits: number,
+  numClbits: number,
+  random: Random,
+  tableau: Tableau = createTableau(numQubits)
+): { tableau: Tableau; clbits: number[] } => {
+  const clbits: number[] = Array(numClbits).fill(0);
+  sortByStep(gates).forEach(gate => {
+    if (!isCliffordGate(gate.type) || !conditionHolds(gate, clbits)) return;
+    if (gate.type === 'M') {
+      const { outcome } = measurePauli(tableau, singleQubitPauli(numQubits, gate.targets[0]), random);
+      if (gate.clbit !== undefined) clbits[gate.clbit] = outcome;
+    } else {
+      applyCliffordGate(tableau, gate);
+    }
+  });
+  return { tableau, clbits };
+};
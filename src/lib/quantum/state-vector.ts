@@ -0,0 +1,128 @@
+import { Complex, ZERO, ONE, add, mul, abs2, conj, scale } from './complex';
+import { Matrix } from './matrix';
+
+// Full 2^n amplitude vector. Qubit 0 is the most significant bit, so basis
+// labels read q[0] q[1] ... q[n-1] from left to right.
+export interface StateVector {
+  numQubits: number;
+  amplitudes: Complex[];
+}
+
+export interface BlochVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const bitMask = (qubit: number, numQubits: number) => 1 << (numQubits - 1 - qubit);
+
+export const basisLabel = (index: number, numQubits: number) =>
+  index.toString(2).padStart(numQubits, '0');
+
+export const zeroState = (numQubits: number): StateVector => ({
+  numQubits,
+  amplitudes: Array.from({ length: 1 << numQubits }, (_, i) => (i === 0 ? ONE : ZERO)),
+});
+
+// Applies a 2^k × 2^k unitary to `targets` (targets[0] is the most significant
+// index of the matrix), only on the branches where every control qubit is |1⟩.
+export const applyGate = (
+  state: StateVector,
+  matrix: Matrix,
+  targets: number[],
+  controls: number[] = []
+): StateVector => {
+  const { numQubits, amplitudes } = state;
+  const targetMasks = targets.map(q => bitMask(q, numQubits));
+  const controlMask = controls.reduce((acc, q) => acc | bitMask(q, numQubits), 0);
+  const allTargets = targetMasks.reduce((acc, m) => acc | m, 0);
+  const dim = 1 << targets.length;
+  const next = amplitudes.slice();
+
+  for (let base = 0; base < amplitudes.length; base++) {
+    if (base & allTargets) continue;
+    if ((base & controlMask) !== controlMask) continue;
+
+    const indices = Array.from({ length: dim }, (_, j) =>
+      targetMasks.reduce((idx, mask, t) => ((j >> (targets.length - 1 - t)) & 1 ? idx | mask : idx), base)
+    );
+    const old = indices.map(i => amplitudes[i]);
+    indices.forEach((idx, row) => {
+      next[idx] = old.reduce((acc, amp, col) => add(acc, mul(matrix[row][col], amp)), ZERO);
+    });
+  }
+
+  return { numQubits, amplitudes: next };
+};
+
+export const probabilities = (state: StateVector): number[] => state.amplitudes.map(abs2);
+
+// [P(0), P(1)] for a single qubit, tracing out the rest
+export const qubitProbabilities = (state: StateVector, qubit: number): [number, number] => {
+  const mask = bitMask(qubit, state.numQubits);
+  let p1 = 0;
+  state.amplitudes.forEach((amp, i) => {
+    if (i & mask) p1 += abs2(amp);
+  });
+  return [1 - p1, p1];
+};
+
+// Bloch vector of one qubit's reduced density matrix (shorter than 1 when entangled)
+export const qubitBlochVector = (state: StateVector, qubit: number): BlochVector => {
+  const mask = bitMask(qubit, state.numQubits);
+  let rho01 = ZERO;
+  let p0 = 0;
+  let p1 = 0;
+  state.amplitudes.forEach((amp, i) => {
+    if (i & mask) {
+      p1 += abs2(amp);
+    } else {
+      p0 += abs2(amp);
+      rho01 = add(rho01, mul(amp, conj(state.amplitudes[i | mask])));
+    }
+  });
+  return { x: 2 * rho01.re, y: -2 * rho01.im, z: p0 - p1 };
+};
+
+// Draws `shots` samples from a probability distribution over basis states
+export const sampleCounts = (
+  probs: number[],
+  numQubits: number,
+  shots: number,
+  random: () => number = Math.random
+): Record<string, number> => {
+  const total = probs.reduce((a, b) => a + b, 0);
+  const counts: Record<string, number> = {};
+  for (let s = 0; s < shots; s++) {
+    const r = random() * total;
+    let cumulative = 0;
+    let outcome = probs.length - 1;
+    for (let j = 0; j < probs.length; j++) {
+      cumulative += probs[j];
+      if (r < cumulative) {
+        outcome = j;
+        break;
+      }
+    }
+    const label = basisLabel(outcome, numQubits);
+    counts[label] = (counts[label] || 0) + 1;
+  }
+  return counts;
+};
+
+// Projective Z-basis measurement of one qubit; the returned state is collapsed
+// onto the observed outcome and renormalised.
+export const measureQubit = (
+  state: StateVector,
+  qubit: number,
+  random: () => number = Math.random
+): { state: StateVector; outcome: 0 | 1 } => {
+  const [, p1] = qubitProbabilities(state, qubit);
+  const outcome: 0 | 1 = random() < p1 ? 1 : 0;
+  const norm = Math.sqrt(outcome ? p1 : 1 - p1) || 1;
+  const mask = bitMask(qubit, state.numQubits);
+  const amplitudes = state.amplitudes.map((amp, i) =>
+    (i & mask ? 1 : 0) === outcome ? scale(amp, 1 / norm) : ZERO
+  );
+  return { state: { numQubits: state.numQubits, amplitudes }, outcome };
+};
@@ -0,0 +1,206 @@
+import { Random } from '../random';
+import { DecoderId, DecodingEdge, DecodingGraph, createDecodingGraph, decoders } from './decoders';
+import { PauliNoise, samplePauliError } from './error-correction';
+import { StabilizerCode, fromGenerators } from './stabilizer-codes';
+
+// Rotated surface code of odd distance d: d×d data qubits and d²-1 checks.
+// Data qubit (row, col) is index row·d + col. Check (i, j), 0 ≤ i, j ≤ d,
+// sits on the face between data rows i-1, i and columns j-1, j; checks with
+// i + j even measure X, odd ones Z. Weight-2 X checks close the top and
+// bottom edges and weight-2 Z checks the left and right edges, so logical X
+// is a column of Xs and logical Z a row of Zs.
+//
+// The memory experiment keeps logical |0⟩ and watches the Z checks, which
+// catch X (and Y) errors. For Pauli noise with ideal check circuits the
+// stabilizer simulator's outcomes are fixed by which checks the accumulated
+// error anticommutes with, so the experiment tracks that Pauli frame
+// directly instead of a full tableau; this is what makes d = 7 with many
+// rounds fast.
+
+export const SURFACE_DISTANCES = [3, 5, 7];
+
+export interface SurfaceCheck {
+  type: 'X' | 'Z';
+  qubits: number[];
+  // Face centre in data-qubit coordinates
+  row: number;
+  col: number;
+}
+
+export interface SurfaceCodeLayout {
+  distance: number;
+  numQubits: number;
+  checks: SurfaceCheck[];
+  // Indices into checks of the Z checks, which the decoder works with
+  zChecks: number[];
+  logicalX: number[];
+  logicalZ: number[];
+}
+
+export const surfaceCodeLayout = (distance: number): SurfaceCodeLayout => {
+  const d = distance;
+  const checks: SurfaceCheck[] = [];
+  for (let i = 0; i <= d; i++) {
+    for (let j = 0; j <= d; j++) {
+      const type = (i + j) % 2 === 0 ? 'X' : 'Z';
+      const topOrBottom = i === 0 || i === d;
+      const leftOrRight = j === 0 || j === d;
+      if (topOrBottom && leftOrRight) continue;
+      if (topOrBottom && type !== 'X') continue;
+      if (leftOrRight && type !== 'Z') continue;
+      const qubits = [[i - 1, j - 1], [i - 1, j], [i, j - 1], [i, j]]
+        .filter(([r, c]) => r >= 0 && r < d && c >= 0 && c < d)
+        .map(([r, c]) => r * d + c);
+      checks.push({ type, qubits, row: i - 0.5, col: j - 0.5 });
+    }
+  }
+  return {
+    distance: d,
+    numQubits: d * d,
+    checks,
+    zChecks: checks.flatMap((c, k) => (c.type === 'Z' ? [k] : [])),
+    logicalX: Array.from({ length: d }, (_, r) => r * d),
+    logicalZ: Array.from({ length: d }, (_, c) => c),
+  };
+};
+
+export const checkPauliString = (layout: SurfaceCodeLayout, check: SurfaceCheck) =>
+  Array.from({ length: layout.numQubits }, (_, q) => (check.qubits.includes(q) ? check.type : 'I')).join('');
+
+// The layout as a general stabilizer code with a synthesized encoder, for
+// the gate-level circuit tools; the distance is known, so no search
+export const surfaceStabilizerCode = (layout: SurfaceCodeLayout): StabilizerCode => {
+  const onQubits = (qubits: number[], pauli: 'X' | 'Z') =>
+    Array.from({ length: layout.numQubits }, (_, q) => (qubits.includes(q) ? pauli : 'I')).join('');
+  return fromGenerators(
+    `surface-${layout.distance}`,
+    `Distance-${layout.distance} Rotated Surface Code`,
+    layout.checks.map(c => checkPauliString(layout, c)),
+    onQubits(layout.logicalX, 'X'),
+    onQubits(layout.logicalZ, 'Z'),
+    layout.distance
+  );
+};
+
+// Z-check detectors stacked over `layers` rounds; node = check + layer·m for
+// m Z checks. A data qubit's edge joins the two Z checks it belongs to, or
+// its only one and the boundary; time edges join a check to itself one
+// round later and stand for a flipped measurement.
+export const surfaceDecodingGraph = (layout: SurfaceCodeLayout, layers: number): DecodingGraph => {
+  const m = layout.zChecks.length;
+  const boundary = m * layers;
+  const owners: number[][] = Array.from({ length: layout.numQubits }, () => []);
+  layout.zChecks.forEach((check, z) => layout.checks[check].qubits.forEach(q => owners[q].push(z)));
+  const edges: DecodingEdge[] = [];
+  for (let t = 0; t < layers; t++) {
+    owners.forEach(([a, b], qubit) => {
+      edges.push({ nodes: [a + t * m, b === undefined ? boundary : b + t * m], qubit });
+    });
+    if (t + 1 < layers) {
+      for (let z = 0; z < m; z++) edges.push({ nodes: [z + t * m, z + (t + 1) * m], qubit: null });
+    }
+  }
+  return createDecodingGraph(boundary, edges);
+};
+
+export type SurfaceNoiseModel = 'code-capacity' | 'phenomenological';
+
+export const surfaceNoiseLabels: Record<SurfaceNoiseModel, string> = {
+  'code-capacity': 'Code capacity',
+  phenomenological: 'Phenomenological',
+};
+
+export interface SurfaceMemoryOptions {
+  errorRate: number;
+  noise: PauliNoise;
+  model: SurfaceNoiseModel;
+  // Noisy check rounds before the final data readout (phenomenological)
+  rounds: number;
+  decoder: DecoderId;
+  // Decode and apply the correction; otherwise read out the raw data
+  correct: boolean;
+}
+
+export interface SurfaceTrial {
+  // Data qubits whose X frame is flipped before the final readout
+  dataErrors: number[];
+  // Data errors plus flipped check outcomes over all rounds
+  faults: number;
+  // Decoding-graph nodes where the check outcome changed
+  detectionEvents: number[];
+  // Decoding-graph edges the decoder chose
+  correction: number[];
+  logicalFailure: boolean;
+  // One unencoded qubit through the same rounds of noise
+  rawFailure: boolean;
+}
+
+// Rounds of noisy checks followed by a perfect readout of every data qubit
+// in Z, which gives one more, noiseless, set of check values. Under code
+// capacity there is one round of data errors and the readout only.
+export const surfaceLayers = (options: Pick<SurfaceMemoryOptions, 'model' | 'rounds'>) =>
+  options.model === 'code-capacity' ? 1 : options.rounds + 1;
+
+export const runSurfaceMemory = (
+  layout: SurfaceCodeLayout,
+  options: SurfaceMemoryOptions,
+  trials: number,
+  random: Random,
+  graph: DecodingGraph = surfaceDecodingGraph(layout, surfaceLayers(options))
+): SurfaceTrial[] => {
+  const { errorRate, noise, model, decoder, correct } = options;
+  const layers = surfaceLayers(options);
+  const noisyRounds = model === 'code-capacity' ? 1 : options.rounds;
+  const m = layout.zChecks.length;
+  const zQubits = layout.zChecks.map(k => layout.checks[k].qubits);
+  const flipsX = (p: string) => p === 'X' || p === 'Y';
+
+  return Array.from({ length: trials }, () => {
+    const frame = new Uint8Array(layout.numQubits);
+    let faults = 0;
+    let previous = new Uint8Array(m);
+    const detectionEvents: number[] = [];
+    let raw = 0;
+
+    for (let t = 0; t < layers; t++) {
+      const finalReadout = t === layers - 1;
+      if (t < noisyRounds) {
+        const error = samplePauliError(layout.numQubits, errorRate, noise, random);
+        [...error].forEach((p, q) => {
+          if (p !== 'I') faults++;
+          if (flipsX(p)) frame[q] ^= 1;
+        });
+        if (flipsX(samplePauliError(1, errorRate, noise, random))) raw ^= 1;
+      }
+      const outcomes = new Uint8Array(m);
+      zQubits.forEach((qubits, z) => {
+        let value = qubits.reduce((acc, q) => acc ^ frame[q], 0);
+        // The final values come from the data readout and are exact
+        if (model === 'phenomenological' && !finalReadout && random() < errorRate) {
+          value ^= 1;
+          faults++;
+        }
+        outcomes[z] = value;
+        if (value !== previous[z]) detectionEvents.push(z + t * m);
+      });
+      previous = outcomes;
+    }
+
+    const correction = correct ? decoders[decoder](graph, detectionEvents) : [];
+    const residual = frame.slice();
+    correction.forEach(e => {
+      const { qubit } = graph.edges[e];
+      if (qubit !== null) residual[qubit] ^= 1;
+    });
+    const logical = layout.logicalZ.reduce((acc, q) => acc ^ residual[q], 0);
+
+    return {
+      dataErrors: [...frame.keys()].filter(q => frame[q]),
+      faults,
+      detectionEvents,
+      correction,
+      logicalFailure: logical === 1,
+      rawFailure: raw === 1,
+    };
+  });
+};
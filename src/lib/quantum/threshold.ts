@@ -0,0 +1,195 @@
+import { Random } from '../random';
+import { DecoderId } from './decoders';
+import { PauliNoise, noisePaulis, runCodeTrials } from './error-correction';
+import { Pauli } from './stabilizer';
+import {
+  LogicalState,
+  StabilizerCode,
+  bitFlipCode,
+  fiveQubitCode,
+  phaseFlipCode,
+  shorCode,
+  steaneCode
+} from './stabilizer-codes';
+import {
+  SurfaceNoiseModel,
+  runSurfaceMemory,
+  surfaceCodeLayout,
+  surfaceDecodingGraph,
+  surfaceLayers
+} from './surface-code';
+
+// Threshold sweeps: Monte Carlo logical error rates over a grid of physical
+// error rates for several codes. Below threshold, larger distances of the
+// same family fail less often; above it, more often, so the curves cross.
+
+export type ThresholdFamily = 'bitflip' | 'phaseflip' | 'shor' | 'steane' | 'fivequbit' | 'surface';
+
+export interface ThresholdSeries {
+  id: string;
+  label: string;
+  family: ThresholdFamily;
+  distance: number;
+}
+
+export const thresholdSeries: ThresholdSeries[] = [
+  { id: 'bitflip', label: 'Bit flip', family: 'bitflip', distance: 3 },
+  { id: 'phaseflip', label: 'Phase flip', family: 'phaseflip', distance: 3 },
+  { id: 'shor', label: 'Shor', family: 'shor', distance: 3 },
+  { id: 'steane', label: 'Steane', family: 'steane', distance: 3 },
+  { id: 'fivequbit', label: 'Five-qubit', family: 'fivequbit', distance: 3 },
+  { id: 'surface-3', label: 'Surface d = 3', family: 'surface', distance: 3 },
+  { id: 'surface-5', label: 'Surface d = 5', family: 'surface', distance: 5 },
+  { id: 'surface-7', label: 'Surface d = 7', family: 'surface', distance: 7 },
+];
+
+// Paulis of the channel that the series can fail on. The surface memory
+// experiment keeps |0⟩ and watches only the Z checks, so it counts X and Y
+// errors; the stabilizer codes see the whole channel. Empty when the series
+// is blind to the channel, e.g. the surface code under phase-flip noise.
+export const countedPaulis = (series: ThresholdSeries, noise: PauliNoise): Pauli[] =>
+  series.family === 'surface' ? noisePaulis[noise].filter(p => p !== 'Z') : noisePaulis[noise];
+
+const stabilizerCodes: Record<Exclude<ThresholdFamily, 'surface'>, StabilizerCode> = {
+  bitflip: bitFlipCode,
+  phaseflip: phaseFlipCode,
+  shor: shorCode,
+  steane: steaneCode,
+  fivequbit: fiveQubitCode,
+};
+
+export interface ThresholdSweepOptions {
+  seriesIds: string[];
+  errorRates: number[];
+  trialsPerPoint: number;
+  noise: PauliNoise;
+  // Encoded state for the stabilizer codes; the surface code keeps |0⟩
+  logicalState: LogicalState;
+  surfaceModel: SurfaceNoiseModel;
+  rounds: number;
+  decoder: DecoderId;
+  seed: number;
+}
+
+export interface ThresholdPoint {
+  errorRate: number;
+  trials: number;
+  failures: number;
+  rate: number;
+  // 95% Wilson score interval
+  low: number;
+  high: number;
+}
+
+// Binomial confidence interval that stays inside [0, 1] and is sensible at
+// zero or all failures, unlike the normal approximation
+export const wilsonInterval = (failures: number, trials: number, z = 1.96) => {
+  if (trials === 0) return { low: 0, high: 1 };
+  const p = failures / trials;
+  const z2 = z * z;
+  const centre = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const half = (z / (1 + z2 / trials)) * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials));
+  return { low: Math.max(0, centre - half), high: Math.min(1, centre + half) };
+};
+
+export const thresholdPoint = (errorRate: number, failures: number, trials: number): ThresholdPoint => ({
+  errorRate,
+  trials,
+  failures,
+  rate: trials > 0 ? failures / trials : 0,
+  ...wilsonInterval(failures, trials),
+});
+
+export const logSpacedRates = (min: number, max: number, count: number): number[] => {
+  if (count < 2) return [min];
+  const step = Math.log(max / min) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Number((min * Math.exp(step * i)).toPrecision(3)));
+};
+
+// Each (series, rate) point gets its own stream, so a point's samples do not
+// depend on which other points are in the sweep
+export const pointSeed = (seed: number, seriesIndex: number, rateIndex: number) =>
+  (Math.imul(seed + 1, 0x9e3779b1) ^ Math.imul(seriesIndex + 1, 0x85ebca6b) ^ Math.imul(rateIndex + 1, 0xc2b2ae35)) >>> 0;
+
+// Runs trials for one point in chunks, so the caller can report progress
+// between them; returns a function taking the chunk size and giving back the
+// number of logical failures in that chunk
+export const createPointRunner = (
+  series: ThresholdSeries,
+  errorRate: number,
+  options: ThresholdSweepOptions,
+  random: Random
+): ((trials: number) => number) => {
+  const { noise, logicalState, surfaceModel, rounds, decoder } = options;
+  if (series.family === 'surface') {
+    const layout = surfaceCodeLayout(series.distance);
+    const graph = surfaceDecodingGraph(layout, surfaceLayers({ model: surfaceModel, rounds }));
+    const memory = { errorRate, noise, model: surfaceModel, rounds, decoder, correct: true };
+    return trials => runSurfaceMemory(layout, memory, trials, random, graph).filter(t => t.logicalFailure).length;
+  }
+  const code = stabilizerCodes[series.family];
+  return trials =>
+    runCodeTrials(code, { errorRate, noise, logicalState, trials, correct: true }, random)
+      .filter(t => t.logicalFailure).length;
+};
+
+export interface ThresholdCrossing {
+  // The smaller and larger distance of the pair
+  lower: string;
+  upper: string;
+  errorRate: number;
+  // Grid rates the crossing lies between
+  bracket: [number, number];
+}
+
+// Where the smaller code's curve first drops below the larger one's,
+// interpolating the difference of the rates linearly in log p
+export const findCrossing = (small: ThresholdPoint[], large: ThresholdPoint[]): Omit<ThresholdCrossing, 'lower' | 'upper'> | null => {
+  const rates = new Map(large.map(p => [p.errorRate, p.rate]));
+  const diffs = small
+    .filter(p => rates.has(p.errorRate))
+    .sort((a, b) => a.errorRate - b.errorRate)
+    .map(p => ({ x: Math.log(p.errorRate), p: p.errorRate, diff: p.rate - rates.get(p.errorRate)! }));
+  for (let i = 0; i + 1 < diffs.length; i++) {
+    const a = diffs[i];
+    const b = diffs[i + 1];
+    if (a.diff > 0 && b.diff <= 0) {
+      const x = a.x + (b.x - a.x) * (a.diff / (a.diff - b.diff));
+      return { errorRate: Math.exp(x), bracket: [a.p, b.p] };
+    }
+  }
+  return null;
+};
+
+export interface ThresholdEstimate {
+  crossings: ThresholdCrossing[];
+  // Mean of the crossings in log p; null without any
+  threshold: number | null;
+}
+
+// Crossings of consecutive distances within each family that has several
+export const estimateThreshold = (results: Record<string, ThresholdPoint[]>): ThresholdEstimate => {
+  const crossings: ThresholdCrossing[] = [];
+  const families = [...new Set(thresholdSeries.map(s => s.family))];
+  families.forEach(family => {
+    const members = thresholdSeries
+      .filter(s => s.family === family && results[s.id]?.length)
+      .sort((a, b) => a.distance - b.distance);
+    for (let i = 0; i + 1 < members.length; i++) {
+      const crossing = findCrossing(results[members[i].id], results[members[i + 1].id]);
+      if (crossing) crossings.push({ lower: members[i].id, upper: members[i + 1].id, ...crossing });
+    }
+  });
+  const threshold = crossings.length
+    ? Math.exp(crossings.reduce((sum, c) => sum + Math.log(c.errorRate), 0) / crossings.length)
+    : null;
+  return { crossings, threshold };
+};
+
+// Messages between the page and the sweep worker
+export type ThresholdWorkerRequest = { type: 'start'; options: ThresholdSweepOptions };
+
+export type ThresholdWorkerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'point'; seriesId: string; point: ThresholdPoint }
+  | { type: 'done' };
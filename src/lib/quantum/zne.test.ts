@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+import { CircuitGate } from './circuit';
+import { DEFAULT_EXTRAPOLATOR_OPTIONS, extrapolators } from './extrapolation';
+import { DEFAULT_NOISE_MODEL } from './noisy-circuit';
+import { ADAPTIVE_MAX_STEPS, idealExpectation, measureAdaptively } from './zne';
+
+const gate = (type: CircuitGate['type'], targets: number[], step: number, extra: Partial<CircuitGate> = {}): CircuitGate => ({
+  id: `${step}-${type}-${targets.join('')}`,
+  type,
+  targets,
+  controls: [],
+  step,
+  ...extra,
+});
+
+// Bell pair read out as ⟨Z₀Z₁⟩ = 1
+const bell = [gate('H', [0], 0), gate('CNOT', [1], 1, { controls: [0] }), gate('H', [1], 2), gate('H', [1], 3)];
+const noise = { ...DEFAULT_NOISE_MODEL, singleQubitError: 0.02, multiQubitError: 0.04, readoutError: 0 };
+const adaptiveExp = extrapolators.find(e => e.id === 'adaptive-exp')!;
+
+const run = (budget: number, seed = 5) =>
+  measureAdaptively(bell, 2, [0, 1], 'global', noise, budget, adaptiveExp, DEFAULT_EXTRAPOLATOR_OPTIONS, createRandom(seed));
+
+describe('measureAdaptively', () => {
+  it('starts at λ = 1 and 2 and then picks distinct scales from the fit', () => {
+    const { points } = run(60000);
+    expect(points.length).toBeGreaterThanOrEqual(3);
+    expect(points.length).toBeLessThanOrEqual(ADAPTIVE_MAX_STEPS);
+    expect(points.slice(0, 2).map(p => p.scale)).toEqual([1, 2]);
+    expect(new Set(points.map(p => p.scale)).size).toBe(points.length);
+    points.forEach(p => expect(p.scale).toBeGreaterThanOrEqual(1));
+  });
+
+  it('stays within the budget, splitting it evenly over the steps', () => {
+    const budget = 60000;
+    const { points, shotsUsed } = run(budget);
+    const perStep = Math.floor(budget / ADAPTIVE_MAX_STEPS);
+    // A scale reached twice holds the shots of both steps
+    points.forEach(p => expect(p.shots % perStep).toBe(0));
+    expect(shotsUsed).toBe(points.reduce((acc, p) => acc + p.shots, 0));
+    expect(shotsUsed).toBeLessThanOrEqual(budget);
+  });
+
+  it('stops once the estimate settles, close to the ideal value', () => {
+    const budget = 600000;
+    const result = run(budget);
+    const [last, previous] = [...result.estimates].reverse();
+    if (result.converged) {
+      expect(Math.abs(last - previous)).toBeLessThan(1 / Math.sqrt(budget / ADAPTIVE_MAX_STEPS));
+    } else {
+      expect(result.shotsUsed).toBe(budget);
+    }
+    expect(last).toBeCloseTo(idealExpectation(bell, 2, [0, 1]), 1);
+  });
+
+  it('is reproducible from the seed', () => {
+    expect(run(12000, 9)).toEqual(run(12000, 9));
+  });
+});
@@ -0,0 +1,212 @@
+import { CircuitGate, runCircuit } from './circuit';
+import { probabilities, basisLabel } from './state-vector';
+import { FoldingMethod, foldCircuit } from './folding';
+import { NoiseModel, noisyDistribution } from './noisy-circuit';
+import { Distribution, normalizeCounts, sampleDistribution, zExpectation } from './distributions';
+import { Extrapolator, ExtrapolatorOptions, exponentialDecayRate, runExtrapolator } from './extrapolation';
+import { ShotAllocation, allocateShots, estimatorWeights, perShotVariance } from './shot-allocation';
+import { Random } from '../random';
+
+export interface ZnePoint {
+  // Scale factors that were asked for and the one folding achieved
+  requestedScales: number[];
+  scale: number;
+  gateCount: number;
+  shots: number;
+  // Shot estimate of ⟨O⟩ and the exact noisy value it estimates
+  expectation: number;
+  exactExpectation: number;
+  // Shot-noise standard error of `expectation`, √((1 - ⟨O⟩²)/shots)
+  standardError: number;
+}
+
+// Exact ⟨Z…Z⟩ of the noiseless circuit
+export const idealExpectation = (gates: CircuitGate[], numQubits: number, observable: number[]): number => {
+  const probs = probabilities(runCircuit(gates, numQubits));
+  const distribution: Distribution = Object.fromEntries(probs.map((p, i) => [basisLabel(i, numQubits), p]));
+  return zExpectation(distribution, observable);
+};
+
+export interface FoldedRun {
+  // Every requested factor that folded to this scale
+  requestedScales: number[];
+  scale: number;
+  gateCount: number;
+  // Exact noisy output distribution of the folded circuit
+  distribution: Distribution;
+}
+
+// Folds a unitary circuit to each scale factor and runs it on the noisy
+// density-matrix simulator. Sampling is left to the caller, so a shot budget
+// can be spent in stages without re-simulating. Factors closer together than
+// one fold can land on the same achieved scale; the fit needs distinct
+// scales, so those share one run (for random folding, the first circuit
+// drawn).
+export const runFoldedCircuits = (
+  gates: CircuitGate[],
+  numQubits: number,
+  scaleFactors: number[],
+  method: FoldingMethod,
+  noise: NoiseModel,
+  random: Random
+): FoldedRun[] =>
+  scaleFactors.reduce<FoldedRun[]>((runs, requestedScale) => {
+    const folded = foldCircuit(gates, requestedScale, method, random);
+    const same = runs.find(run => run.scale === folded.scale);
+    if (same) {
+      same.requestedScales.push(requestedScale);
+      return runs;
+    }
+    runs.push({
+      requestedScales: [requestedScale],
+      scale: folded.scale,
+      gateCount: folded.gates.length,
+      distribution: noisyDistribution(folded.gates, numQubits, 0, noise).distribution,
+    });
+    return runs;
+  }, []);
+
+const mergeCounts = (a: Record<string, number>, b: Record<string, number>) =>
+  Object.entries(b).reduce((acc, [key, count]) => ({ ...acc, [key]: (acc[key] ?? 0) + count }), { ...a });
+
+const toPoint = (run: FoldedRun, counts: Record<string, number>, shots: number, observable: number[]): ZnePoint => {
+  const expectation = zExpectation(normalizeCounts(counts), observable);
+  return {
+    requestedScales: run.requestedScales,
+    scale: run.scale,
+    gateCount: run.gateCount,
+    shots,
+    expectation,
+    exactExpectation: zExpectation(run.distribution, observable),
+    standardError: Math.sqrt(Math.max(0, 1 - expectation * expectation) / shots),
+  };
+};
+
+// Measures ⟨Z…Z⟩ at every scale factor with `shots` samples each
+export const measureFoldedExpectations = (
+  gates: CircuitGate[],
+  numQubits: number,
+  observable: number[],
+  scaleFactors: number[],
+  method: FoldingMethod,
+  noise: NoiseModel,
+  shots: number,
+  random: Random
+): ZnePoint[] =>
+  runFoldedCircuits(gates, numQubits, scaleFactors, method, noise, random)
+    .map(run => toPoint(run, sampleDistribution(run.distribution, shots, random), shots, observable));
+
+// Fraction of the budget a variance-optimal run spends on its uniform pilot
+const PILOT_FRACTION = 0.1;
+
+// Spends `budget` shots over the folded runs. A variance-optimal allocation
+// needs ⟨O⟩ at each scale before it is known, so it first measures a uniform
+// pilot, allocates the whole budget from those estimates (never below the
+// pilot) and then tops every point up to its share.
+export const measureWithShotBudget = (
+  runs: FoldedRun[],
+  observable: number[],
+  budget: number,
+  allocation: ShotAllocation,
+  extrapolator: Extrapolator,
+  options: ExtrapolatorOptions,
+  random: Random
+): ZnePoint[] => {
+  const x = runs.map(run => run.scale);
+  if (allocation === 'uniform') {
+    const shots = allocateShots(budget, x.map(() => 1), x.map(() => 1), 'uniform');
+    return runs.map((run, i) => toPoint(run, sampleDistribution(run.distribution, shots[i], random), shots[i], observable));
+  }
+
+  // At least 16 shots for a usable pilot, but never more than the budget
+  const pilotShots = Math.min(
+    Math.floor(budget / runs.length),
+    Math.max(16, Math.floor((budget * PILOT_FRACTION) / runs.length))
+  );
+  const pilotCounts = runs.map(run => sampleDistribution(run.distribution, pilotShots, random));
+  const pilot = pilotCounts.map(counts => zExpectation(normalizeCounts(counts), observable));
+  const shots = allocateShots(
+    budget,
+    estimatorWeights(extrapolator, x, pilot, options),
+    pilot.map(perShotVariance),
+    'optimal',
+    runs.map(() => pilotShots)
+  );
+  return runs.map((run, i) => {
+    const extra = sampleDistribution(run.distribution, shots[i] - pilotShots, random);
+    return toPoint(run, mergeCounts(pilotCounts[i], extra), shots[i], observable);
+  });
+};
+
+// Adaptive scale selection: the first scales, the shift that places the next
+// one and the largest scale it may ask for
+export const ADAPTIVE_MAX_STEPS = 6;
+const ADAPTIVE_FIRST_SCALES = [1, 2];
+const ADAPTIVE_SHIFT = 1.27846;
+const ADAPTIVE_MAX_SCALE = 7;
+
+export interface AdaptiveZneResult {
+  // In the order they were measured
+  points: ZnePoint[];
+  // Zero-noise estimate after each step that had enough points to fit
+  estimates: number[];
+  converged: boolean;
+  shotsUsed: number;
+}
+
+// Adaptive exponential ZNE, after Giurgica-Tiron et al. (2020): measure λ = 1
+// and λ = 2, then place each next scale where the current fit of
+// a + b·e^(-cλ) says ⟨O⟩ has decayed by a fixed fraction, λ = 1 + shift/c,
+// and stop once the zero-noise estimate moves by less than one step's shot
+// noise. The budget is split evenly over at most `maxSteps` steps; a step
+// whose scale folds onto one already measured adds its shots to that point,
+// and shots for steps that were not needed stay unspent.
+export const measureAdaptively = (
+  gates: CircuitGate[],
+  numQubits: number,
+  observable: number[],
+  method: FoldingMethod,
+  noise: NoiseModel,
+  budget: number,
+  extrapolator: Extrapolator,
+  options: ExtrapolatorOptions,
+  random: Random,
+  maxSteps = ADAPTIVE_MAX_STEPS
+): AdaptiveZneResult => {
+  const shots = Math.max(1, Math.floor(budget / maxSteps));
+  const tolerance = 1 / Math.sqrt(shots);
+  const points: ZnePoint[] = [];
+  const counts: Record<string, number>[] = [];
+  const estimates: number[] = [];
+  let converged = false;
+  let steps = 0;
+
+  while (steps < maxSteps && !converged) {
+    let scale = ADAPTIVE_FIRST_SCALES[steps];
+    if (scale === undefined) {
+      const rate = exponentialDecayRate(points.map(p => p.scale), points.map(p => p.expectation), options.asymptote);
+      // No decay to follow: spread out to the largest scale instead
+      scale = rate && rate > 0 ? Math.min(ADAPTIVE_MAX_SCALE, 1 + ADAPTIVE_SHIFT / rate) : ADAPTIVE_MAX_SCALE;
+    }
+    const [run] = runFoldedCircuits(gates, numQubits, [scale], method, noise, random);
+    const sampled = sampleDistribution(run.distribution, shots, random);
+    steps++;
+    // Folding only reaches a grid of scales, so the fit can ask for one again
+    const index = points.findIndex(p => p.scale === run.scale);
+    if (index >= 0) {
+      counts[index] = mergeCounts(counts[index], sampled);
+      points[index] = toPoint(run, counts[index], points[index].shots + shots, observable);
+    } else {
+      counts.push(sampled);
+      points.push(toPoint(run, sampled, shots, observable));
+    }
+
+    if (points.length < extrapolator.minPoints(options)) continue;
+    const fit = runExtrapolator(extrapolator, points.map(p => p.scale), points.map(p => p.expectation), options);
+    if (fit.error || !Number.isFinite(fit.zeroNoiseValue)) continue;
+    estimates.push(fit.zeroNoiseValue);
+    converged = estimates.length > 1 && Math.abs(estimates[estimates.length - 1] - estimates[estimates.length - 2]) < tolerance;
+  }
+
+  return { points, estimates, converged, shotsUsed: steps * shots };
+};
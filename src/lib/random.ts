@@ -0,0 +1,30 @@
+// Seeded pseudo-random numbers for every simulator. Simulations take a
+// `random: () => number` argument; pass one built from the page's seed so
+// that re-running with the same seed replays exactly the same samples.
+
+export type Random = () => number;
+
+// Largest seed the seed fields accept; small enough to copy into a report
+export const MAX_SEED = 999999;
+
+// mulberry32: 32-bit state, uniform floats in [0, 1)
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh seed, for the "new seed" buttons
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// Standard normal sample (Box-Muller)
+export const gaussian = (random: Random): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
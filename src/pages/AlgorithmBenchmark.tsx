@@ -7,12 +7,32 @@ import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import QuantumBackground from '@/components/QuantumBackground';
+import NoiseModelFileControls from '@/components/NoiseModelFileControls';
+import { DEFAULT_NOISE_MODEL } from '@/lib/quantum/noisy-circuit';
+import { NoiseModelFile, fromNoiseModel } from '@/lib/quantum/noise-model-file';
 
 const AlgorithmBenchmark = () => {
   const [noiseLevel, setNoiseLevel] = useState(0.02);
   const [qubits, setQubits] = useState(5);
   const [selectedAlgorithm, setSelectedAlgorithm] = useState<string | null>(null);
 
+  // The benchmark uses one error rate for every gate
+  const exportNoiseFile = () =>
+    fromNoiseModel(
+      { ...DEFAULT_NOISE_MODEL, singleQubitError: noiseLevel, multiQubitError: noiseLevel },
+      qubits,
+      { name: 'algorithm-benchmark' }
+    );
+
+  const importNoiseFile = (file: NoiseModelFile) => {
+    const errors = Object.values(file.gates).map(g => g.error);
+    if (errors.length) {
+      const mean = errors.reduce((a, b) => a + b, 0) / errors.length;
+      setNoiseLevel(Math.min(0.1, Math.max(0, Math.round(mean * 1000) / 1000)));
+    }
+    setQubits(Math.min(8, Math.max(2, file.qubits.length)));
+  };
+
   const algorithms = [
     {
       id: 'qft',
@@ -181,6 +201,12 @@ const AlgorithmBenchmark = () => {
 
             {/* Controls */}
             <div className="glass p-6 rounded-2xl mb-8">
+              <NoiseModelFileControls
+                exportFile={exportNoiseFile}
+                onImport={importNoiseFile}
+                note="Imports set the noise level to the file's mean gate error and the qubit count to its number of qubits (2–8); T₁, T₂, readout, coupling and crosstalk are not modelled here."
+                className="mb-6"
+              />
               <div className="grid md:grid-cols-2 gap-8">
                 <div>
                   <div className="flex justify-between items-center mb-3">
@@ -6,9 +6,16 @@ import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
 import BlochSphereCanvas from '@/components/BlochSphere';
 import QuantumBackground from '@/components/QuantumBackground';
+import { gateMatrix } from '@/lib/quantum/gates';
+import { applyGate, zeroState } from '@/lib/quantum/state-vector';
+import { applyChannel, densityBlochVector, densityFromState } from '@/lib/quantum/density-matrix';
+import { amplitudeDamping, depolarizing, phaseDamping } from '@/lib/quantum/noise-channels';
 
 type NoiseChannel = 'depolarizing' | 'amplitude' | 'phase' | 'none';
 
+// Initial state: |+⟩ = (|0⟩ + |1⟩)/√2 on the equator
+const plusVector = applyGate(zeroState(1), gateMatrix('H'), [0]);
+
 const BlochSpherePage = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [time, setTime] = useState(0);
@@ -24,50 +31,26 @@ const BlochSpherePage = () => {
   const animationRef = useRef<number>();
   const lastTimeRef = useRef<number>(0);
 
-  // Initial state: |+⟩ = (|0⟩ + |1⟩)/√2 on the equator
-  const initialState = { x: 1, y: 0, z: 0 };
-
-  // Calculate state evolution under different noise channels
+  // Calculate state evolution under different noise channels. The qubit starts
+  // in |+⟩ and precesses about Z at 0.5 rad per time unit; all three channels
+  // commute with that rotation, so the state at time t is the precessed state
+  // sent through one channel whose parameter has accumulated for time t.
   const calculateState = useCallback((t: number, channel: NoiseChannel) => {
-    const p = noiseStrength * t;
-    
-    // Add some oscillation to make it more interesting
-    const oscillation = Math.sin(t * 2) * 0.1;
-    
+    const rate = noiseStrength;
+    const precessed = densityFromState(applyGate(plusVector, gateMatrix('Rz', t * 0.5), [0]));
+
     switch (channel) {
-      case 'depolarizing': {
-        // Uniform shrinking toward origin
-        const scale = Math.max(0, 1 - (4 * p / 3));
-        return {
-          x: initialState.x * scale,
-          y: oscillation * scale,
-          z: 0,
-        };
-      }
-      case 'amplitude': {
-        // Drift toward |0⟩ (north pole, z=1)
-        const decay = Math.exp(-p);
-        return {
-          x: initialState.x * decay,
-          y: oscillation * decay,
-          z: 1 - decay,
-        };
-      }
-      case 'phase': {
-        // Pure dephasing - x and y components decay, z stays
-        const coherence = Math.exp(-p * 2);
-        return {
-          x: initialState.x * coherence,
-          y: oscillation * coherence,
-          z: 0,
-        };
-      }
+      case 'depolarizing':
+        // Bloch vector shrinks as e^(-rate·t) = 1 - 4p/3
+        return densityBlochVector(applyChannel(precessed, depolarizing(0.75 * (1 - Math.exp(-rate * t))), [0]), 0);
+      case 'amplitude':
+        // Excited population decays as e^(-rate·t) = 1 - γ (T₁ = 1/rate)
+        return densityBlochVector(applyChannel(precessed, amplitudeDamping(1 - Math.exp(-rate * t)), [0]), 0);
+      case 'phase':
+        // Coherence decays as e^(-rate·t) = √(1 - λ)
+        return densityBlochVector(applyChannel(precessed, phaseDamping(1 - Math.exp(-2 * rate * t)), [0]), 0);
       default:
-        return {
-          x: initialState.x * Math.cos(t * 0.5),
-          y: initialState.x * Math.sin(t * 0.5),
-          z: 0,
-        };
+        return densityBlochVector(precessed, 0);
     }
   }, [noiseStrength]);
 
@@ -97,11 +80,7 @@ const BlochSpherePage = () => {
               newTrails[channel] = [...(prev[channel] || []).slice(-100), state];
             });
             // Original state (precessing)
-            newTrails.original = [...(prev.original || []).slice(-100), {
-              x: Math.cos(newTime * 0.5),
-              y: Math.sin(newTime * 0.5),
-              z: 0,
-            }];
+            newTrails.original = [...(prev.original || []).slice(-100), calculateState(newTime, 'none')];
             return newTrails;
           });
         }
@@ -144,11 +123,7 @@ const BlochSpherePage = () => {
   // Build states array for the 3D visualization
   const states = [
     {
-      vector: {
-        x: Math.cos(time * 0.5),
-        y: Math.sin(time * 0.5),
-        z: 0,
-      },
+      vector: calculateState(time, 'none'),
       trail: trails.original || [],
       color: '#ffffff',
       name: 'Original',
@@ -1,11 +1,21 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Helmet } from 'react-helmet-async';
 import Navigation from '@/components/Navigation';
+import SdkCodePanel from '@/components/SdkCodePanel';
+import SeedControl from '@/components/SeedControl';
+import ReadoutMitigationPanel from '@/components/ReadoutMitigationPanel';
+import NoiseModelFileControls from '@/components/NoiseModelFileControls';
+import CircuitDiagram from '@/components/CircuitDiagram';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { Play, RotateCcw, Plus, Trash2, Gauge } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Play, RotateCcw, Plus, Minus, Gauge, Layers, FileCode, Copy, Upload, Activity } from 'lucide-react';
 import {
   BarChart,
   Bar,
@@ -13,34 +23,44 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
   Cell
 } from 'recharts';
+import { toast } from 'sonner';
+import {
+  Circuit,
+  CircuitGate,
+  CircuitGateType,
+  circuitDepth,
+  compactCircuit,
+  controlArity,
+  findStepConflict,
+  isControlledGate,
+  isMultiQubitGate,
+  isRotationGate,
+  simulateShots,
+  sortByStep,
+  validateGate
+} from '@/lib/quantum/circuit';
+import { QasmError, QasmVersion, exportQasm, parseQasm, uniqueClbitNames } from '@/lib/quantum/qasm';
+import { DEFAULT_NOISE_MODEL, NOISELESS_MODEL, NoiseModel, noisyDistribution } from '@/lib/quantum/noisy-circuit';
+import {
+  Distribution,
+  hellingerFidelity,
+  normalizeCounts,
+  sampleDistribution,
+  totalVariationDistance
+} from '@/lib/quantum/distributions';
+import { CalibrationMode, runCalibration } from '@/lib/quantum/readout';
+import { NoiseModelFile, fromNoiseModel, toNoiseModel } from '@/lib/quantum/noise-model-file';
+import { createRandom } from '@/lib/random';
+import { saveEditorCircuit } from '@/lib/editor-circuit';
+import { formatAngle, formatGate, gateColors } from '@/lib/circuit-display';
+import { useSeed } from '@/hooks/use-seed';
 
-type GateType = 'H' | 'X' | 'Y' | 'Z' | 'CNOT' | 'T' | 'S' | 'M';
-
-interface Gate {
-  id: string;
-  type: GateType;
-  qubit: number;
-  controlQubit?: number;
-}
-
-interface QubitState {
-  alpha: { real: number; imag: number };
-  beta: { real: number; imag: number };
-}
-
-const gateColors: Record<GateType, string> = {
-  H: 'bg-blue-500',
-  X: 'bg-red-500',
-  Y: 'bg-green-500',
-  Z: 'bg-purple-500',
-  CNOT: 'bg-orange-500',
-  T: 'bg-pink-500',
-  S: 'bg-cyan-500',
-  M: 'bg-yellow-500'
-};
+type GateType = CircuitGateType;
+type Gate = CircuitGate;
 
 const gateDescriptions: Record<GateType, string> = {
   H: 'Hadamard - Creates superposition',
@@ -48,173 +68,328 @@ const gateDescriptions: Record<GateType, string> = {
   Y: 'Pauli-Y - Bit and phase flip',
   Z: 'Pauli-Z - Phase flip',
   CNOT: 'Controlled-NOT - Entanglement',
+  CZ: 'Controlled-Z - Phase flip when both qubits are |1⟩',
+  SWAP: 'SWAP - Exchanges two qubit states',
+  CCX: 'Toffoli - Flips the target when both controls are |1⟩',
+  CCZ: 'Controlled-controlled-Z - Phase flip on |111⟩',
+  MCX: 'Multi-controlled X - Flips the target when every control is |1⟩',
   T: 'T-gate - π/4 phase rotation',
   S: 'S-gate - π/2 phase rotation',
+  Rx: 'Rotation X - Rotates by θ around the X-axis',
+  Ry: 'Rotation Y - Rotates by θ around the Y-axis',
+  Rz: 'Rotation Z - Rotates by θ around the Z-axis',
   M: 'Measurement - Collapse to classical'
 };
 
+const MAX_QUBITS = 5;
+
+const noiseSliders: { key: Exclude<keyof NoiseModel, 'pauliBias'>; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'singleQubitError', label: '1-qubit gate error', min: 0, max: 0.1, step: 0.001, unit: '' },
+  { key: 'multiQubitError', label: 'Multi-qubit gate error', min: 0, max: 0.2, step: 0.001, unit: '' },
+  { key: 'readoutError', label: 'Readout error', min: 0, max: 0.2, step: 0.001, unit: '' },
+  { key: 't1', label: 'T1', min: 5, max: 200, step: 5, unit: ' µs' },
+  { key: 't2', label: 'T2 (capped at 2·T1)', min: 5, max: 400, step: 5, unit: ' µs' },
+  { key: 'layerTime', label: 'Layer duration', min: 0, max: 5, step: 0.1, unit: ' µs' },
+];
+
+// Decimal places of a slider step, e.g. 1 for 0.1 and 0 for 5
+const stepDigits = (step: number) => Math.max(0, -Math.floor(Math.log10(step)));
+
+// Clamps a value into a slider's range and rounds it to the slider's step
+const snapToSlider = (value: number, { min, max, step }: { min: number; max: number; step: number }) => {
+  const snapped = min + Math.round((Math.min(max, Math.max(min, value)) - min) / step) * step;
+  return Number(Math.min(max, snapped).toFixed(stepDigits(step)));
+};
+
+const defaultClbitName = (index: number) => `c${index}`;
+
+const exampleGate = (type: GateType, targets: number[], step: number, extra: Partial<Gate> = {}): Gate => ({
+  id: `example-${step}-${type}-${targets.join('')}`,
+  type,
+  targets,
+  controls: [],
+  step,
+  ...extra
+});
+
+const exampleCircuits: Record<string, { label: string; numQubits: number; numClbits: number; gates: Gate[] }> = {
+  bell: {
+    label: 'Bell pair',
+    numQubits: 2,
+    numClbits: 2,
+    gates: [
+      exampleGate('H', [0], 0),
+      exampleGate('CNOT', [1], 1, { controls: [0] }),
+      exampleGate('M', [0], 2, { clbit: 0 }),
+      exampleGate('M', [1], 2, { clbit: 1 })
+    ]
+  },
+  teleport: {
+    label: 'Teleportation of |1⟩',
+    numQubits: 3,
+    numClbits: 3,
+    gates: [
+      exampleGate('X', [0], 0),
+      exampleGate('H', [1], 0),
+      exampleGate('CNOT', [2], 1, { controls: [1] }),
+      exampleGate('CNOT', [1], 2, { controls: [0] }),
+      exampleGate('H', [0], 3),
+      exampleGate('M', [0], 4, { clbit: 0 }),
+      exampleGate('M', [1], 4, { clbit: 1 }),
+      exampleGate('X', [2], 5, { condition: { clbit: 1, value: 1 } }),
+      exampleGate('Z', [2], 6, { condition: { clbit: 0, value: 1 } }),
+      exampleGate('M', [2], 7, { clbit: 2 })
+    ]
+  },
+  rus: {
+    label: 'Repeat until success',
+    numQubits: 2,
+    numClbits: 2,
+    gates: [
+      exampleGate('H', [0], 0),
+      exampleGate('M', [0], 1, { clbit: 0 }),
+      exampleGate('H', [0], 2, { condition: { clbit: 0, value: 0 } }),
+      exampleGate('M', [0], 3, { clbit: 0, condition: { clbit: 0, value: 0 } }),
+      exampleGate('CNOT', [1], 4, { controls: [0] }),
+      exampleGate('M', [1], 5, { clbit: 1 })
+    ]
+  }
+};
+
 const CircuitVisualizer = () => {
   const [numQubits, setNumQubits] = useState(3);
   const [gates, setGates] = useState<Gate[]>([]);
   const [selectedGate, setSelectedGate] = useState<GateType>('H');
-  const [qubitStates, setQubitStates] = useState<QubitState[]>([]);
-  const [measurementResults, setMeasurementResults] = useState<{ state: string; probability: number; count: number }[]>([]);
+  const [selectedControls, setSelectedControls] = useState<number[]>([0]);
+  const [rotationAngle, setRotationAngle] = useState(Math.PI / 2);
+  const [clbits, setClbits] = useState<string[]>(['c0', 'c1', 'c2']);
+  const [selectedClbit, setSelectedClbit] = useState(0);
+  const [condition, setCondition] = useState('none');
+  const [qubitP1, setQubitP1] = useState<number[] | null>(null);
+  const [resultRegister, setResultRegister] = useState<'qubits' | 'classical'>('qubits');
+  const [measurementResults, setMeasurementResults] = useState<{
+    state: string;
+    probability: number;
+    count: number;
+    noisyProbability?: number;
+    noisyCount?: number;
+  }[]>([]);
+  const [noiseEnabled, setNoiseEnabled] = useState(false);
+  const [noiseModel, setNoiseModel] = useState<NoiseModel>(DEFAULT_NOISE_MODEL);
+  const { seed, setSeed, rerollSeed } = useSeed();
+  const [noiseMetrics, setNoiseMetrics] = useState<{ tvd: number; hellinger: number } | null>(null);
+  const [idealDistribution, setIdealDistribution] = useState<Distribution | null>(null);
   const [shots, setShots] = useState(1024);
   const [isSimulating, setIsSimulating] = useState(false);
   const [hasRun, setHasRun] = useState(false);
+  const [qasmVersion, setQasmVersion] = useState<QasmVersion>(2);
+  const [qasmInput, setQasmInput] = useState('');
+  const [qasmErrors, setQasmErrors] = useState<QasmError[]>([]);
+
+  const activeControls = selectedControls.filter(q => q < numQubits);
+
+  const selectGate = useCallback((gate: GateType) => {
+    const maxControls = gate === 'SWAP' ? 1 : controlArity[gate]?.max ?? 0;
+    setSelectedGate(gate);
+    if (maxControls > 0) {
+      setSelectedControls(prev => prev.slice(-maxControls));
+    }
+  }, []);
+
+  const toggleControl = useCallback((qubit: number) => {
+    const maxControls = selectedGate === 'SWAP' ? 1 : controlArity[selectedGate]?.max ?? 0;
+    setSelectedControls(prev => {
+      const current = prev.filter(q => q < numQubits);
+      if (current.includes(qubit)) return current.filter(q => q !== qubit);
+      return [...current, qubit].slice(-maxControls);
+    });
+  }, [selectedGate, numQubits]);
 
   const addGate = useCallback((qubit: number, step: number) => {
+    const [conditionBit, conditionValue] = condition.split(':').map(Number);
     const newGate: Gate = {
       id: `${Date.now()}-${Math.random()}`,
       type: selectedGate,
-      qubit,
-      controlQubit: selectedGate === 'CNOT' && qubit > 0 ? qubit - 1 : undefined
+      targets: selectedGate === 'SWAP' ? [...activeControls.slice(0, 1), qubit] : [qubit],
+      controls: isControlledGate(selectedGate) ? [...activeControls].sort((a, b) => a - b) : [],
+      step,
+      angle: isRotationGate(selectedGate) ? rotationAngle : undefined,
+      clbit: selectedGate === 'M' ? selectedClbit : undefined,
+      condition: condition === 'none' ? undefined : { clbit: conditionBit, value: conditionValue ? 1 : 0 }
     };
+    const error = validateGate(newGate, numQubits, clbits.length);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    const conflict = findStepConflict(gates, newGate);
+    if (conflict) {
+      toast.error(`Column ${step + 1} already holds ${formatGate(conflict)} on those qubits`);
+      return;
+    }
     setGates(prev => [...prev, newGate]);
-  }, [selectedGate]);
+  }, [selectedGate, activeControls, numQubits, gates, condition, selectedClbit, clbits.length, rotationAngle]);
 
   const removeGate = useCallback((gateId: string) => {
     setGates(prev => prev.filter(g => g.id !== gateId));
   }, []);
 
+  const compactGates = useCallback(() => {
+    setGates(prev => compactCircuit(prev));
+  }, []);
+
+  const resizeClbits = useCallback((size: number) => {
+    setClbits(prev => Array.from({ length: size }, (_, i) => prev[i] ?? defaultClbitName(i)));
+    setSelectedClbit(prev => Math.min(prev, size - 1));
+    setCondition('none');
+  }, []);
+
+  const renameClbit = useCallback((index: number, name: string) => {
+    // Keep names valid OpenQASM identifiers
+    const cleaned = name.replace(/[^A-Za-z0-9_]/g, '').replace(/^[0-9]+/, '');
+    setClbits(prev => prev.map((n, i) => (i === index ? cleaned : n)));
+  }, []);
+
+  const loadCircuit = useCallback((circuit: Circuit) => {
+    setNumQubits(circuit.numQubits);
+    setClbits(circuit.clbits.length ? circuit.clbits : [defaultClbitName(0)]);
+    setGates(circuit.gates);
+    setSelectedClbit(0);
+    setCondition('none');
+    setQubitP1(null);
+    setMeasurementResults([]);
+    setHasRun(false);
+  }, []);
+
+  const loadExample = useCallback((key: string) => {
+    const example = exampleCircuits[key];
+    loadCircuit({
+      numQubits: example.numQubits,
+      clbits: Array.from({ length: example.numClbits }, (_, i) => defaultClbitName(i)),
+      gates: example.gates
+    });
+  }, [loadCircuit]);
+
+  const importQasm = useCallback(() => {
+    const result = parseQasm(qasmInput);
+    if (!result.circuit) {
+      setQasmErrors(result.errors);
+      return;
+    }
+    if (result.circuit.numQubits > MAX_QUBITS) {
+      setQasmErrors([{ line: 1, column: 1, message: `The visualizer supports up to ${MAX_QUBITS} qubits, this circuit has ${result.circuit.numQubits}` }]);
+      return;
+    }
+    setQasmErrors([]);
+    loadCircuit(result.circuit);
+    toast.success(`Imported ${result.circuit.gates.length} operations`);
+  }, [qasmInput, loadCircuit]);
+
+  const copyQasm = useCallback((text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success('OpenQASM copied to clipboard');
+  }, []);
+
   const clearCircuit = useCallback(() => {
     setGates([]);
-    setQubitStates([]);
+    setQubitP1(null);
     setMeasurementResults([]);
     setHasRun(false);
   }, []);
 
   const simulateCircuit = useCallback(() => {
     setIsSimulating(true);
-    
-    // Initialize qubit states
-    const states: QubitState[] = Array(numQubits).fill(null).map(() => ({
-      alpha: { real: 1, imag: 0 },
-      beta: { real: 0, imag: 0 }
-    }));
-
-    // Simple simulation - apply gates
-    gates.forEach(gate => {
-      const q = gate.qubit;
-      if (q >= numQubits) return;
-      
-      switch (gate.type) {
-        case 'H':
-          const alphaH = states[q].alpha;
-          const betaH = states[q].beta;
-          const sqrt2 = Math.SQRT1_2;
-          states[q] = {
-            alpha: { 
-              real: sqrt2 * (alphaH.real + betaH.real), 
-              imag: sqrt2 * (alphaH.imag + betaH.imag) 
-            },
-            beta: { 
-              real: sqrt2 * (alphaH.real - betaH.real), 
-              imag: sqrt2 * (alphaH.imag - betaH.imag) 
-            }
-          };
-          break;
-        case 'X':
-          const temp = states[q].alpha;
-          states[q].alpha = states[q].beta;
-          states[q].beta = temp;
-          break;
-        case 'Z':
-          states[q].beta = { 
-            real: -states[q].beta.real, 
-            imag: -states[q].beta.imag 
-          };
-          break;
-        case 'Y':
-          const alphaY = states[q].alpha;
-          states[q].alpha = { real: states[q].beta.imag, imag: -states[q].beta.real };
-          states[q].beta = { real: -alphaY.imag, imag: alphaY.real };
-          break;
-        case 'S':
-          states[q].beta = { 
-            real: -states[q].beta.imag, 
-            imag: states[q].beta.real 
-          };
-          break;
-        case 'T':
-          const cos = Math.cos(Math.PI / 4);
-          const sin = Math.sin(Math.PI / 4);
-          const betaT = states[q].beta;
-          states[q].beta = {
-            real: cos * betaT.real - sin * betaT.imag,
-            imag: sin * betaT.real + cos * betaT.imag
-          };
-          break;
-      }
-    });
 
-    setQubitStates(states);
-
-    // Calculate measurement probabilities
-    const numStates = Math.pow(2, numQubits);
-    const probabilities: number[] = [];
-    
-    for (let i = 0; i < numStates; i++) {
-      let prob = 1;
-      for (let q = 0; q < numQubits; q++) {
-        const bit = (i >> (numQubits - 1 - q)) & 1;
-        const state = states[q];
-        const amplitude = bit === 0 ? state.alpha : state.beta;
-        const ampProb = amplitude.real * amplitude.real + amplitude.imag * amplitude.imag;
-        prob *= ampProb;
-      }
-      probabilities.push(prob);
-    }
+    const random = createRandom(seed);
+    const { register, counts, qubitP1 } = simulateShots(gates, numQubits, clbits.length, shots, random);
+    setQubitP1(qubitP1);
+    setResultRegister(register);
 
-    // Normalize
-    const total = probabilities.reduce((a, b) => a + b, 0);
-    const normalized = probabilities.map(p => p / total);
-
-    // Sample shots
-    const counts: Record<string, number> = {};
-    for (let i = 0; i < shots; i++) {
-      let r = Math.random();
-      let cumulative = 0;
-      for (let j = 0; j < numStates; j++) {
-        cumulative += normalized[j];
-        if (r <= cumulative) {
-          const state = j.toString(2).padStart(numQubits, '0');
-          counts[state] = (counts[state] || 0) + 1;
-          break;
-        }
-      }
-    }
+    const noisyCounts = noiseEnabled
+      ? sampleDistribution(noisyDistribution(gates, numQubits, clbits.length, noiseModel).distribution, shots, random)
+      : null;
+    // Exact, unsampled ideal outcome probabilities to compare mitigated counts against
+    setIdealDistribution(noiseEnabled ? noisyDistribution(gates, numQubits, clbits.length, NOISELESS_MODEL).distribution : null);
+    setNoiseMetrics(noisyCounts && {
+      tvd: totalVariationDistance(normalizeCounts(counts), normalizeCounts(noisyCounts)),
+      hellinger: hellingerFidelity(normalizeCounts(counts), normalizeCounts(noisyCounts)),
+    });
 
-    const results = Object.entries(counts)
-      .map(([state, count]) => ({
+    const states = [...new Set([...Object.keys(counts), ...Object.keys(noisyCounts ?? {})])];
+    const results = states
+      .map(state => ({
         state,
-        probability: count / shots,
-        count
+        probability: (counts[state] ?? 0) / shots,
+        count: counts[state] ?? 0,
+        ...(noisyCounts && {
+          noisyProbability: (noisyCounts[state] ?? 0) / shots,
+          noisyCount: noisyCounts[state] ?? 0,
+        }),
       }))
-      .sort((a, b) => b.count - a.count);
+      .sort((a, b) => b.count - a.count || (b.noisyCount ?? 0) - (a.noisyCount ?? 0));
 
     setMeasurementResults(results);
     setHasRun(true);
     setIsSimulating(false);
-  }, [gates, numQubits, shots]);
+  }, [gates, numQubits, clbits.length, shots, noiseEnabled, noiseModel, seed]);
 
-  const getAmplitudeDisplay = (state: QubitState) => {
-    const alphaProb = state.alpha.real ** 2 + state.alpha.imag ** 2;
-    const betaProb = state.beta.real ** 2 + state.beta.imag ** 2;
-    return { alphaProb: (alphaProb * 100).toFixed(1), betaProb: (betaProb * 100).toFixed(1) };
-  };
+  // Noisy counts and the ideal distribution of the last run, for readout mitigation
+  const noisyResults = useMemo(() => {
+    if (!noiseMetrics || !idealDistribution) return null;
+    return {
+      counts: Object.fromEntries(measurementResults.filter(r => r.noisyCount).map(r => [r.state, r.noisyCount!])),
+      ideal: idealDistribution,
+      numBits: resultRegister === 'classical' ? clbits.length : numQubits,
+    };
+  }, [noiseMetrics, idealDistribution, measurementResults, resultRegister, clbits.length, numQubits]);
 
-  const maxSteps = 8;
-  const gatesByQubitAndStep: (Gate | null)[][] = Array(numQubits)
-    .fill(null)
-    .map(() => Array(maxSteps).fill(null));
-  
-  gates.forEach((gate, idx) => {
-    const step = idx % maxSteps;
-    if (gate.qubit < numQubits) {
-      gatesByQubitAndStep[gate.qubit][step] = gate;
+  const importNoiseFile = (file: NoiseModelFile) => {
+    // Kept inside the sliders' ranges and on their steps
+    const imported = toNoiseModel(file);
+    setNoiseModel({
+      ...imported,
+      ...Object.fromEntries(noiseSliders.map(slider => [slider.key, snapToSlider(imported[slider.key], slider)])),
+    });
+    setNoiseEnabled(true);
+    if (file.qubits.length !== numQubits) {
+      toast.info(`The file describes ${file.qubits.length} qubits; its averages apply to all ${numQubits} here`);
     }
-  });
+  };
+
+  const calibrateReadout = useCallback(
+    (mode: CalibrationMode) => runCalibration(noisyResults?.numBits ?? numQubits, mode, noiseModel, shots, createRandom(seed + 1)),
+    [noisyResults, numQubits, noiseModel, shots, seed]
+  );
+
+  const getAmplitudeDisplay = (p1: number) => {
+    return { alphaProb: ((1 - p1) * 100).toFixed(1), betaProb: (p1 * 100).toFixed(1) };
+  };
+
+  // Names as exported: blank, duplicate or reserved ones are filled in or suffixed
+  const clbitNames = uniqueClbitNames(clbits);
+  const clbitName = (index: number) => clbitNames[index];
+
+  // Share the circuit with the error-mitigation pages
+  useEffect(() => {
+    saveEditorCircuit({
+      numQubits,
+      clbits: uniqueClbitNames(clbits),
+      gates: gates.filter(g => validateGate(g, numQubits, clbits.length) === null),
+    });
+  }, [gates, numQubits, clbits]);
+
+  // Always leave an empty column after the last gate so the circuit can grow
+  const visibleGates = gates.filter(g => validateGate(g, numQubits, clbits.length) === null);
+  const numSteps = Math.max(8, ...visibleGates.map(g => g.step + 2));
+  // Depth counts only the qubits a gate acts on, while a drawn column (and
+  // Compact Layers) also keeps the wires a multi-qubit gate crosses free, so
+  // the compacted diagram can have more columns than the depth
+  const depth = circuitDepth(visibleGates);
+  const numColumns = visibleGates.length === 0 ? 0 : Math.max(...visibleGates.map(g => g.step)) + 1;
+  const qasmOutput = exportQasm(
+    { numQubits, clbits: clbitNames, gates: visibleGates },
+    qasmVersion
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -251,7 +426,7 @@ const CircuitVisualizer = () => {
                     key={gate}
                     variant={selectedGate === gate ? 'default' : 'outline'}
                     className={`h-12 font-mono font-bold ${selectedGate === gate ? gateColors[gate] : ''}`}
-                    onClick={() => setSelectedGate(gate)}
+                    onClick={() => selectGate(gate)}
                   >
                     {gate}
                   </Button>
@@ -260,6 +435,78 @@ const CircuitVisualizer = () => {
               <p className="text-xs text-muted-foreground mt-3">
                 {gateDescriptions[selectedGate]}
               </p>
+              {isRotationGate(selectedGate) && (
+                <div className="mt-4">
+                  <label className="text-sm text-muted-foreground mb-2 block">
+                    Rotation Angle: {formatAngle(rotationAngle)} ({(rotationAngle * 180 / Math.PI).toFixed(0)}°)
+                  </label>
+                  <Slider
+                    value={[rotationAngle]}
+                    onValueChange={([v]) => setRotationAngle(v)}
+                    min={0}
+                    max={2 * Math.PI}
+                    step={Math.PI / 12}
+                  />
+                </div>
+              )}
+              {isMultiQubitGate(selectedGate) && (
+                <div className="mt-4">
+                  <label className="text-sm text-muted-foreground mb-2 block">
+                    {selectedGate === 'SWAP' ? 'Swap with' : 'Control qubits'}
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {Array.from({ length: numQubits }, (_, q) => (
+                      <Button
+                        key={q}
+                        size="sm"
+                        variant={activeControls.includes(q) ? 'default' : 'outline'}
+                        className="font-mono"
+                        onClick={() => toggleControl(q)}
+                      >
+                        q[{q}]
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Then click the target qubit on the diagram
+                  </p>
+                </div>
+              )}
+              {selectedGate === 'M' ? (
+                <div className="mt-4">
+                  <label className="text-sm text-muted-foreground mb-2 block">Write outcome to</label>
+                  <div className="flex flex-wrap gap-2">
+                    {clbits.map((_, i) => (
+                      <Button
+                        key={i}
+                        size="sm"
+                        variant={selectedClbit === i ? 'default' : 'outline'}
+                        className="font-mono"
+                        onClick={() => setSelectedClbit(i)}
+                      >
+                        {clbitName(i)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-4">
+                  <label className="text-sm text-muted-foreground mb-2 block">Classical condition (c_if)</label>
+                  <Select value={condition} onValueChange={setCondition}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Always apply</SelectItem>
+                      {clbits.flatMap((_, i) => [0, 1].map(value => (
+                        <SelectItem key={`${i}:${value}`} value={`${i}:${value}`}>
+                          if {clbitName(i)} = {value}
+                        </SelectItem>
+                      )))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -279,7 +526,7 @@ const CircuitVisualizer = () => {
                   value={[numQubits]}
                   onValueChange={([v]) => setNumQubits(v)}
                   min={1}
-                  max={5}
+                  max={MAX_QUBITS}
                   step={1}
                 />
               </div>
@@ -295,6 +542,46 @@ const CircuitVisualizer = () => {
                   step={100}
                 />
               </div>
+              <SeedControl seed={seed} onSeedChange={setSeed} onReroll={rerollSeed} />
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm text-muted-foreground">
+                    Classical Bits: {clbits.length}
+                  </label>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-7 w-7"
+                      onClick={() => resizeClbits(clbits.length - 1)}
+                      disabled={clbits.length <= 1}
+                    >
+                      <Minus className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-7 w-7"
+                      onClick={() => resizeClbits(clbits.length + 1)}
+                      disabled={clbits.length >= 8}
+                    >
+                      <Plus className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {clbits.map((name, i) => (
+                    <Input
+                      key={i}
+                      value={name}
+                      placeholder={defaultClbitName(i)}
+                      onChange={(e) => renameClbit(i, e.target.value)}
+                      className={`h-8 font-mono text-xs ${name && name !== clbitName(i) ? 'border-destructive' : ''}`}
+                      title={name && name !== clbitName(i) ? `"${name}" is taken or reserved; exported as ${clbitName(i)}` : undefined}
+                    />
+                  ))}
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -303,6 +590,16 @@ const CircuitVisualizer = () => {
               <CardTitle className="text-lg">Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
+              <Select value="" onValueChange={loadExample}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Load example circuit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(exampleCircuits).map(([key, example]) => (
+                    <SelectItem key={key} value={key}>{example.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button 
                 className="w-full" 
                 onClick={simulateCircuit}
@@ -311,6 +608,15 @@ const CircuitVisualizer = () => {
                 <Play className="w-4 h-4 mr-2" />
                 {isSimulating ? 'Simulating...' : 'Run Circuit'}
               </Button>
+              <Button 
+                variant="outline" 
+                className="w-full"
+                onClick={compactGates}
+                disabled={gates.length === 0}
+              >
+                <Layers className="w-4 h-4 mr-2" />
+                Compact Layers
+              </Button>
               <Button 
                 variant="outline" 
                 className="w-full"
@@ -323,67 +629,92 @@ const CircuitVisualizer = () => {
           </Card>
         </div>
 
+        {/* Noise Model */}
+        <Card className="glass border-primary/20 mb-8">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Activity className="w-5 h-5 text-primary" />
+                  Noisy Execution
+                </CardTitle>
+                <CardDescription>
+                  Depolarizing error after each gate, T1/T2 relaxation over every layer and readout flips,
+                  simulated exactly with density matrices
+                </CardDescription>
+              </div>
+              <Switch checked={noiseEnabled} onCheckedChange={setNoiseEnabled} />
+            </div>
+            <NoiseModelFileControls
+              exportFile={() => fromNoiseModel(noiseModel, numQubits, { name: 'circuit-visualizer' })}
+              onImport={importNoiseFile}
+              note="Imports average the per-qubit and per-gate values into the uniform model below; the coupling map and crosstalk are not simulated."
+              className="pt-3"
+            />
+          </CardHeader>
+          {noiseEnabled && (
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+              {noiseSliders.map(({ key, label, min, max, step, unit }) => (
+                <div key={key}>
+                  <label className="text-sm text-muted-foreground mb-2 block">
+                    {label}: {unit ? noiseModel[key].toFixed(stepDigits(step)) : `${(noiseModel[key] * 100).toFixed(1)}%`}{unit}
+                  </label>
+                  <Slider
+                    value={[noiseModel[key]]}
+                    onValueChange={([v]) => setNoiseModel(prev => ({ ...prev, [key]: v }))}
+                    min={min}
+                    max={max}
+                    step={step}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+
         {/* Circuit Diagram */}
         <Card className="glass border-primary/20 mb-8">
           <CardHeader>
-            <CardTitle>Circuit Diagram</CardTitle>
-            <CardDescription>Click on a position to add the selected gate</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="overflow-x-auto">
-              <div className="min-w-[600px]">
-                {Array(numQubits).fill(null).map((_, qubit) => (
-                  <div key={qubit} className="flex items-center gap-2 mb-4">
-                    <div className="w-16 font-mono text-sm text-muted-foreground">
-                      q[{qubit}] |0⟩
-                    </div>
-                    <div className="flex-1 flex items-center">
-                      <div className="h-0.5 w-4 bg-muted-foreground" />
-                      {Array(maxSteps).fill(null).map((_, step) => {
-                        const gate = gatesByQubitAndStep[qubit][step];
-                        return (
-                          <div key={step} className="flex items-center">
-                            {gate ? (
-                              <div 
-                                className={`w-12 h-12 ${gateColors[gate.type]} rounded-lg flex items-center justify-center font-mono font-bold text-white cursor-pointer hover:opacity-80 transition-opacity relative group`}
-                                onClick={() => removeGate(gate.id)}
-                              >
-                                {gate.type}
-                                <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-destructive text-destructive-foreground text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">
-                                  <Trash2 className="w-3 h-3 inline mr-1" />
-                                  Click to remove
-                                </div>
-                              </div>
-                            ) : (
-                              <div 
-                                className="w-12 h-12 border-2 border-dashed border-muted-foreground/30 rounded-lg flex items-center justify-center cursor-pointer hover:border-primary hover:bg-primary/10 transition-all"
-                                onClick={() => addGate(qubit, step)}
-                              >
-                                <Plus className="w-4 h-4 text-muted-foreground/50" />
-                              </div>
-                            )}
-                            <div className="h-0.5 w-4 bg-muted-foreground" />
-                          </div>
-                        );
-                      })}
-                    </div>
-                    {hasRun && qubitStates[qubit] && (
-                      <div className="w-32 text-xs font-mono">
-                        <div className="text-blue-400">|0⟩: {getAmplitudeDisplay(qubitStates[qubit]).alphaProb}%</div>
-                        <div className="text-red-400">|1⟩: {getAmplitudeDisplay(qubitStates[qubit]).betaProb}%</div>
-                      </div>
-                    )}
-                  </div>
-                ))}
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Circuit Diagram</CardTitle>
+                <CardDescription>Click on a position to add the selected gate at that time step</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Badge
+                  variant="outline"
+                  className="font-mono"
+                  title="Layers when gates on disjoint qubits run in parallel. A drawn column also reserves the wires a gate crosses, so the diagram can need more columns."
+                >
+                  Depth: {depth}
+                </Badge>
+                <Badge variant="outline" className="font-mono">Columns: {numColumns}</Badge>
+                <Badge variant="outline" className="font-mono">Gates: {visibleGates.length}</Badge>
               </div>
             </div>
+          </CardHeader>
+          <CardContent>
+            <CircuitDiagram
+              numQubits={numQubits}
+              gates={visibleGates}
+              clbitNames={clbitNames}
+              numSteps={numSteps}
+              onAddGate={addGate}
+              onRemoveGate={(gate) => removeGate(gate.id)}
+              renderQubitEnd={(qubit) => hasRun && qubitP1 && qubit < qubitP1.length && (
+                <div className="w-32 text-xs font-mono">
+                  <div className="text-blue-400">|0⟩: {getAmplitudeDisplay(qubitP1[qubit]).alphaProb}%</div>
+                  <div className="text-red-400">|1⟩: {getAmplitudeDisplay(qubitP1[qubit]).betaProb}%</div>
+                </div>
+              )}
+            />
             
             {gates.length > 0 && (
               <div className="mt-4 flex flex-wrap gap-2">
                 <span className="text-sm text-muted-foreground">Applied gates:</span>
-                {gates.map((gate, idx) => (
+                {sortByStep(gates).map((gate) => (
                   <Badge key={gate.id} variant="secondary" className={gateColors[gate.type] + ' text-white'}>
-                    {gate.type}[q{gate.qubit}]
+                    {formatGate(gate, clbits)}
                   </Badge>
                 ))}
               </div>
@@ -391,14 +722,93 @@ const CircuitVisualizer = () => {
           </CardContent>
         </Card>
 
+        {/* OpenQASM */}
+        <Card className="glass border-primary/20 mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileCode className="w-5 h-5 text-primary" />
+              OpenQASM
+            </CardTitle>
+            <CardDescription>Copy the circuit out as OpenQASM, or paste QASM from Qiskit to edit it here</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="export">
+              <TabsList className="grid w-full grid-cols-2 max-w-xs">
+                <TabsTrigger value="export">Export</TabsTrigger>
+                <TabsTrigger value="import">Import</TabsTrigger>
+              </TabsList>
+              <TabsContent value="export" className="mt-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <Select value={String(qasmVersion)} onValueChange={(v) => setQasmVersion(Number(v) as QasmVersion)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="2">OpenQASM 2.0</SelectItem>
+                      <SelectItem value="3">OpenQASM 3.0</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={() => copyQasm(qasmOutput)}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy
+                  </Button>
+                </div>
+                <pre className="bg-muted/30 p-4 rounded-lg overflow-x-auto text-sm font-mono">
+                  <code>{qasmOutput}</code>
+                </pre>
+              </TabsContent>
+              <TabsContent value="import" className="mt-4 space-y-3">
+                <Textarea
+                  value={qasmInput}
+                  onChange={(e) => setQasmInput(e.target.value)}
+                  placeholder={'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\ncreg c[2];\nh q[0];\ncx q[0], q[1];\nmeasure q -> c;'}
+                  className="font-mono text-sm min-h-[180px]"
+                />
+                <Button onClick={importQasm} disabled={!qasmInput.trim()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import into Editor
+                </Button>
+                {qasmErrors.length > 0 && (
+                  <ul className="space-y-1">
+                    {qasmErrors.map((error, i) => (
+                      <li key={i} className="text-sm font-mono text-destructive">
+                        Line {error.line}, col {error.column}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        <SdkCodePanel
+          circuit={{ numQubits, clbits: clbitNames, gates: visibleGates }}
+          shots={shots}
+          className="mb-8"
+        />
+
         {/* Measurement Results */}
         {hasRun && measurementResults.length > 0 && (
           <Card className="glass border-primary/20">
             <CardHeader>
-              <CardTitle>Measurement Results</CardTitle>
-              <CardDescription>
-                Probability histogram from {shots} measurement shots
-              </CardDescription>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Measurement Results</CardTitle>
+                  <CardDescription>
+                    {resultRegister === 'classical'
+                      ? `Classical register values (${clbitNames.join(' ')}) from ${shots} shots`
+                      : `Probability histogram from ${shots} measurement shots`}
+                    {noiseMetrics && ', ideal vs noisy'}
+                  </CardDescription>
+                </div>
+                {noiseMetrics && (
+                  <div className="flex gap-2">
+                    <Badge variant="outline" className="font-mono">TVD: {noiseMetrics.tvd.toFixed(3)}</Badge>
+                    <Badge variant="outline" className="font-mono">Hellinger fidelity: {noiseMetrics.hellinger.toFixed(3)}</Badge>
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
               <div className="h-80">
@@ -425,18 +835,26 @@ const CircuitVisualizer = () => {
                       }}
                       formatter={(value: number, name: string) => [
                         `${(value * 100).toFixed(2)}%`,
-                        'Probability'
+                        noiseMetrics ? name : 'Probability'
                       ]}
-                      labelFormatter={(label) => `State: |${label}⟩`}
+                      labelFormatter={(label) => resultRegister === 'classical' ? `Register: ${label}` : `State: |${label}⟩`}
                     />
-                    <Bar dataKey="probability" radius={[4, 4, 0, 0]}>
-                      {measurementResults.map((entry, index) => (
-                        <Cell 
-                          key={`cell-${index}`} 
-                          fill={`hsl(${220 + index * 30}, 70%, 50%)`}
-                        />
-                      ))}
-                    </Bar>
+                    {noiseMetrics ? (
+                      <>
+                        <Legend verticalAlign="top" />
+                        <Bar dataKey="probability" name="Ideal" fill="hsl(220, 70%, 50%)" radius={[4, 4, 0, 0]} />
+                        <Bar dataKey="noisyProbability" name="Noisy" fill="hsl(340, 70%, 55%)" radius={[4, 4, 0, 0]} />
+                      </>
+                    ) : (
+                      <Bar dataKey="probability" radius={[4, 4, 0, 0]}>
+                        {measurementResults.map((entry, index) => (
+                          <Cell 
+                            key={`cell-${index}`} 
+                            fill={`hsl(${220 + index * 30}, 70%, 50%)`}
+                          />
+                        ))}
+                      </Bar>
+                    )}
                   </BarChart>
                 </ResponsiveContainer>
               </div>
@@ -444,15 +862,32 @@ const CircuitVisualizer = () => {
               <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
                 {measurementResults.slice(0, 8).map((result) => (
                   <div key={result.state} className="glass p-3 rounded-lg text-center">
-                    <div className="font-mono text-lg text-primary">|{result.state}⟩</div>
+                    <div className="font-mono text-lg text-primary">
+                      {resultRegister === 'classical' ? result.state : `|${result.state}⟩`}
+                    </div>
                     <div className="text-2xl font-bold">{(result.probability * 100).toFixed(1)}%</div>
                     <div className="text-xs text-muted-foreground">{result.count} counts</div>
+                    {result.noisyCount !== undefined && (
+                      <div className="text-xs text-muted-foreground">
+                        Noisy: {(result.noisyProbability! * 100).toFixed(1)}% ({result.noisyCount})
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             </CardContent>
           </Card>
         )}
+
+        {hasRun && noisyResults && (
+          <ReadoutMitigationPanel
+            numBits={noisyResults.numBits}
+            counts={noisyResults.counts}
+            ideal={noisyResults.ideal}
+            calibrate={calibrateReadout}
+            className="mt-8"
+          />
+        )}
       </main>
     </div>
   );
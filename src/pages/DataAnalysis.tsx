@@ -1,15 +1,17 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { Helmet } from 'react-helmet-async';
 import Navigation from '@/components/Navigation';
+import ReadoutMitigationPanel from '@/components/ReadoutMitigationPanel';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Upload, FileSpreadsheet, BarChart3, Download, Trash2, TrendingUp, Calculator, Atom } from 'lucide-react';
+import { Upload, FileSpreadsheet, BarChart3, Download, Trash2, TrendingUp, Calculator, Atom, Crosshair } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, ScatterChart, Scatter, Legend, AreaChart, Area } from 'recharts';
 import { toast } from 'sonner';
+import { MAX_MITIGATION_BITS } from '@/lib/quantum/readout';
 
 interface DataRow {
   [key: string]: string | number;
@@ -35,6 +37,19 @@ interface QuantumMetrics {
   errorRate?: number;
 }
 
+// How measurement counts are read from the data: the bitstrings are the
+// column names of a single row (e.g. Qiskit's get_counts() saved as JSON), or
+// one column of bitstrings beside a column of counts
+type CountsSource = { layout: 'keys' } | { layout: 'rows'; bitColumn: string; countColumn: string };
+
+// Which end of a bitstring is qubit 0; Qiskit writes it rightmost, this app
+// leftmost
+type BitOrder = 'left' | 'right';
+
+const KEYS_SOURCE = '__keys';
+
+const isBits = (v: string | number) => /^[01]+$/.test(String(v));
+
 const DataAnalysis = () => {
   const [data, setData] = useState<DataRow[]>([]);
   const [columns, setColumns] = useState<string[]>([]);
@@ -45,6 +60,11 @@ const DataAnalysis = () => {
   const [xAxis, setXAxis] = useState<string>('');
   const [yAxis, setYAxis] = useState<string>('');
   const [isDragging, setIsDragging] = useState(false);
+  // Null until chosen, then the suggestion below is used
+  const [countsSource, setCountsSource] = useState<CountsSource | null>(null);
+  const [bitOrder, setBitOrder] = useState<BitOrder | null>(null);
+  // Null until chosen, then the widest label in the data
+  const [bitWidth, setBitWidth] = useState<number | null>(null);
 
   const calculateStats = useCallback((data: DataRow[], cols: string[]): ColumnStats[] => {
     return cols.map(col => {
@@ -175,6 +195,9 @@ const DataAnalysis = () => {
       
       setData(result.data);
       setColumns(result.columns);
+      setCountsSource(null);
+      setBitOrder(null);
+      setBitWidth(null);
       setFileName(file.name);
       setStats(calculateStats(result.data, result.columns));
       setQuantumMetrics(calculateQuantumMetrics(result.data, result.columns));
@@ -244,6 +267,9 @@ const DataAnalysis = () => {
     setQuantumMetrics({});
     setXAxis('');
     setYAxis('');
+    setCountsSource(null);
+    setBitOrder(null);
+    setBitWidth(null);
   };
 
   const chartData = data.map((row, i) => ({
@@ -253,6 +279,66 @@ const DataAnalysis = () => {
 
   const numericColumns = stats.filter(s => s.type === 'number').map(s => s.name);
 
+  // Columns that could hold counts: non-negative numbers throughout
+  const countColumns = useMemo(
+    () => columns.filter(col => data.length > 0 && data.every(row => typeof row[col] === 'number' && row[col] >= 0)),
+    [data, columns]
+  );
+
+  // Only unambiguous layouts are suggested: a single row keyed by bitstrings,
+  // or a column named like bitstrings or holding 0/1 text. A numeric column of
+  // 0s and 1s is more likely data than outcomes, so it has to be picked.
+  const suggestedSource = useMemo((): CountsSource | null => {
+    if (data.length === 1 && columns.length > 1 && columns.every(col => isBits(col) && typeof data[0][col] === 'number')) {
+      return { layout: 'keys' };
+    }
+    const bitColumn = columns.find(col =>
+      data.length > 1 && data.every(row => isBits(row[col])) &&
+      (/bit|state|outcome|key/i.test(col) || data.every(row => typeof row[col] === 'string'))
+    );
+    const countColumn = countColumns.find(col => col !== bitColumn && /count|shots|freq|prob/i.test(col))
+      ?? countColumns.find(col => col !== bitColumn);
+    return bitColumn && countColumn ? { layout: 'rows', bitColumn, countColumn } : null;
+  }, [data, columns, countColumns]);
+
+  const activeSource = countsSource ?? suggestedSource;
+  // get_counts() keys come from Qiskit, so they default to its order
+  const activeBitOrder: BitOrder = bitOrder ?? (activeSource?.layout === 'keys' ? 'right' : 'left');
+
+  // Measurement counts with qubit 0 leftmost. CSV parsing turns "011" into
+  // 11, so bitstrings are padded back before any reversal. When every label
+  // lost its leading zeros the widest one is too short, so the width can be set.
+  const readoutCounts = useMemo(() => {
+    if (!activeSource) return null;
+    const pairs: [string, number][] = activeSource.layout === 'keys'
+      ? columns.map(col => [col, Number(data[0]?.[col])])
+      : data.map(row => [String(row[activeSource.bitColumn]), Number(row[activeSource.countColumn])]);
+    if (pairs.length === 0) return null;
+    if (pairs.some(([bits, count]) => !isBits(bits) || !(count >= 0))) {
+      return { error: 'The chosen columns do not hold 0/1 bitstrings with non-negative counts' };
+    }
+    const inferredBits = Math.max(...pairs.map(([bits]) => bits.length));
+    const numBits = Math.max(inferredBits, bitWidth ?? 0);
+    const counts: Record<string, number> = {};
+    pairs.forEach(([bits, count]) => {
+      const padded = bits.padStart(numBits, '0');
+      const key = activeBitOrder === 'right' ? [...padded].reverse().join('') : padded;
+      counts[key] = (counts[key] ?? 0) + count;
+    });
+    return { numBits, inferredBits, counts };
+  }, [data, columns, activeSource, activeBitOrder, bitWidth]);
+
+  const setBitSource = (value: string) => {
+    if (value === KEYS_SOURCE) {
+      setCountsSource({ layout: 'keys' });
+      return;
+    }
+    const countColumn = activeSource?.layout === 'rows' && activeSource.countColumn !== value
+      ? activeSource.countColumn
+      : countColumns.find(col => col !== value) ?? '';
+    setCountsSource({ layout: 'rows', bitColumn: value, countColumn });
+  };
+
   const renderChart = () => {
     if (!xAxis || !yAxis || chartData.length === 0) return null;
     
@@ -456,6 +542,10 @@ const DataAnalysis = () => {
                       <FileSpreadsheet className="w-4 h-4" />
                       Data Table
                     </TabsTrigger>
+                    <TabsTrigger value="readout" className="flex items-center gap-2">
+                      <Crosshair className="w-4 h-4" />
+                      Readout Mitigation
+                    </TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="visualization">
@@ -598,6 +688,103 @@ const DataAnalysis = () => {
                       </CardContent>
                     </Card>
                   </TabsContent>
+
+                  <TabsContent value="readout" className="space-y-6">
+                    <Card className="glass border-primary/20">
+                      <CardHeader>
+                        <CardTitle className="text-foreground">Measurement Counts</CardTitle>
+                        <CardDescription>Where the bitstrings and their counts are in the data</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="flex flex-wrap gap-4">
+                          <div className="space-y-2">
+                            <label className="text-sm font-medium text-foreground">Bitstrings</label>
+                            <Select
+                              value={activeSource ? (activeSource.layout === 'keys' ? KEYS_SOURCE : activeSource.bitColumn) : ''}
+                              onValueChange={setBitSource}
+                            >
+                              <SelectTrigger className="w-[200px]">
+                                <SelectValue placeholder="Choose a column" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {data.length === 1 && <SelectItem value={KEYS_SOURCE}>Column names (one row)</SelectItem>}
+                                {columns.map(col => (
+                                  <SelectItem key={col} value={col}>{col}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {activeSource?.layout === 'rows' && (
+                            <div className="space-y-2">
+                              <label className="text-sm font-medium text-foreground">Counts</label>
+                              <Select
+                                value={activeSource.countColumn}
+                                onValueChange={(countColumn) => setCountsSource({ ...activeSource, countColumn })}
+                              >
+                                <SelectTrigger className="w-[160px]">
+                                  <SelectValue placeholder="Choose a column" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {countColumns.filter(col => col !== activeSource.bitColumn).map(col => (
+                                    <SelectItem key={col} value={col}>{col}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          <div className="space-y-2">
+                            <label className="text-sm font-medium text-foreground">Bit Order</label>
+                            <Select value={activeBitOrder} onValueChange={(v: BitOrder) => setBitOrder(v)}>
+                              <SelectTrigger className="w-[240px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="left">Qubit 0 leftmost</SelectItem>
+                                <SelectItem value="right">Qubit 0 rightmost (Qiskit)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {readoutCounts && !('error' in readoutCounts) && (
+                            <div className="space-y-2">
+                              <label className="text-sm font-medium text-foreground">Bits</label>
+                              <Select
+                                value={String(readoutCounts.numBits)}
+                                onValueChange={(v) => setBitWidth(Number(v))}
+                              >
+                                <SelectTrigger className="w-[100px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Array.from(
+                                    { length: Math.max(readoutCounts.inferredBits, MAX_MITIGATION_BITS) - readoutCounts.inferredBits + 1 },
+                                    (_, i) => readoutCounts.inferredBits + i
+                                  ).map(width => (
+                                    <SelectItem key={width} value={String(width)}>{width}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Qiskit writes bitstrings with qubit 0 on the right; they are reversed so that qubit 0 is on
+                          the left, as everywhere else in this app. Numbers such as 11 from a CSV are padded back to
+                          the chosen number of bits, which starts at the longest label in the file.
+                        </p>
+                        {readoutCounts && 'error' in readoutCounts && (
+                          <p className="text-sm text-destructive">{readoutCounts.error}</p>
+                        )}
+                        {!activeSource && (
+                          <p className="text-sm text-muted-foreground">
+                            No bitstring column was recognised; choose one to mitigate readout errors.
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                    {readoutCounts && !('error' in readoutCounts) && (
+                      <ReadoutMitigationPanel numBits={readoutCounts.numBits} counts={readoutCounts.counts} />
+                    )}
+                  </TabsContent>
                 </Tabs>
               </div>
             )}
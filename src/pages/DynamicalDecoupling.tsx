@@ -0,0 +1,535 @@
+import { useState, useMemo } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { ArrowLeft, Info } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { BarChart, Bar, Cell, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Slider } from '@/components/ui/slider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip as UITooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import QuantumBackground from '@/components/QuantumBackground';
+import SeedControl from '@/components/SeedControl';
+import MitigationCircuitControls from '@/components/MitigationCircuitControls';
+import { createRandom } from '@/lib/random';
+import { useSeed } from '@/hooks/use-seed';
+import { useMitigationCircuit } from '@/hooks/use-mitigation-circuit';
+import { formatObservable } from '@/lib/quantum/benchmark-circuits';
+import { CircuitGate, gateQubits, runCircuit } from '@/lib/quantum/circuit';
+import { basisLabel } from '@/lib/quantum/state-vector';
+import { densityProbabilities, fidelityWithState } from '@/lib/quantum/density-matrix';
+import { zExpectation } from '@/lib/quantum/distributions';
+import { DEFAULT_NOISE_MODEL, NoiseModel } from '@/lib/quantum/noisy-circuit';
+import { idealExpectation } from '@/lib/quantum/zne';
+import {
+  DdSequenceId,
+  ddSequences,
+  idleWindows,
+  insertDynamicalDecoupling,
+  insertIdleDelay,
+  isDdPulse,
+  ramseyCircuit,
+  simulateIdleNoise
+} from '@/lib/quantum/dynamical-decoupling';
+
+// Frequency-offset draws averaged per simulation
+const REALIZATIONS = 32;
+const RAMSEY_STEPS = Array.from({ length: 11 }, (_, i) => i * 4);
+
+const sequenceColors: Record<DdSequenceId | 'none', string> = {
+  none: 'hsl(var(--muted-foreground))',
+  XX: 'hsl(var(--accent))',
+  XY4: 'hsl(var(--primary))',
+  CPMG: 'hsl(var(--success))',
+};
+
+// What a gate shows on one qubit's row of the timeline
+const cellLabel = (gate: CircuitGate, qubit: number) => {
+  if (gate.controls.includes(qubit)) return '●';
+  if (gate.type === 'CNOT' || gate.type === 'CCX' || gate.type === 'MCX') return '⊕';
+  if (gate.type === 'SWAP') return '×';
+  return gate.type;
+};
+
+const DynamicalDecoupling = () => {
+  const [sequenceId, setSequenceId] = useState<DdSequenceId>('XY4');
+  const [idleDelay, setIdleDelay] = useState(8);
+  const [t2Star, setT2Star] = useState(5);
+  const [t2, setT2] = useState(80);
+  const [layerTime, setLayerTime] = useState(0.5);
+  const [overRotation, setOverRotation] = useState(0);
+  const [gateError, setGateError] = useState(0.002);
+  const { seed, setSeed, rerollSeed } = useSeed();
+  const circuit = useMitigationCircuit();
+  const { buildExperiment } = circuit;
+  const sequence = ddSequences.find(s => s.id === sequenceId)!;
+
+  const noise: NoiseModel = useMemo(() => ({
+    ...DEFAULT_NOISE_MODEL,
+    singleQubitError: gateError,
+    multiQubitError: 5 * gateError,
+    t1: 2 * t2,
+    t2,
+    layerTime,
+    readoutError: 0,
+  }), [gateError, t2, layerTime]);
+
+  // The circuit with an idle gap halfway through, where DD has room to work
+  const experiment = useMemo(() => {
+    const built = buildExperiment(createRandom(seed));
+    if (built.error) return { ...built, lastStep: -1 };
+    const middle = Math.floor(Math.max(...built.gates.map(g => g.step)) / 2);
+    const gates = insertIdleDelay(built.gates, middle, idleDelay);
+    return { ...built, gates, lastStep: Math.max(...gates.map(g => g.step)) };
+  }, [buildExperiment, seed, idleDelay]);
+
+  const decoupled = useMemo(
+    () => (experiment.error ? null : insertDynamicalDecoupling(experiment.gates, experiment.numQubits, sequence, overRotation)),
+    [experiment, sequence, overRotation]
+  );
+
+  // Every variant sees the same frequency offsets, so differences come from DD alone
+  const comparison = useMemo(() => {
+    if (experiment.error) return [];
+    const { gates, numQubits, observable } = experiment;
+    const target = runCircuit(gates, numQubits);
+    const variants = [
+      { id: 'none' as const, label: 'No DD', gates },
+      ...ddSequences.map(s => ({ id: s.id, label: s.label, gates: insertDynamicalDecoupling(gates, numQubits, s, overRotation).gates })),
+    ];
+    return variants.map(({ id, label, gates: variantGates }) => {
+      const dm = simulateIdleNoise(variantGates, numQubits, noise, t2Star, REALIZATIONS, createRandom(seed + 1));
+      const distribution = Object.fromEntries(densityProbabilities(dm).map((p, i) => [basisLabel(i, numQubits), p]));
+      return {
+        id,
+        label,
+        fidelity: fidelityWithState(dm, target),
+        expectation: zExpectation(distribution, observable),
+      };
+    });
+  }, [experiment, noise, t2Star, overRotation, seed]);
+
+  // Ramsey-style coherence of one qubit left idle, with and without each sequence
+  const coherenceData = useMemo(() => RAMSEY_STEPS.map(steps => {
+    const gates = ramseyCircuit(steps);
+    const fidelity = (g: CircuitGate[]) =>
+      densityProbabilities(simulateIdleNoise(g, 1, noise, t2Star, REALIZATIONS, createRandom(seed + 2)))[0];
+    return {
+      time: steps * layerTime,
+      none: fidelity(gates),
+      ...Object.fromEntries(ddSequences.map(s => [s.id, fidelity(insertDynamicalDecoupling(gates, 1, s, overRotation).gates)])),
+    };
+  }), [noise, t2Star, layerTime, overRotation, seed]);
+
+  const idealValue = experiment.error ? NaN : idealExpectation(experiment.gates, experiment.numQubits, experiment.observable);
+  const free = comparison.find(c => c.id === 'none');
+  const chosen = comparison.find(c => c.id === sequenceId);
+
+  // Timeline cells: gates, DD pulses and idle steps, per qubit and step
+  const windows = useMemo(
+    () => (experiment.error ? [] : idleWindows(experiment.gates, experiment.numQubits)),
+    [experiment]
+  );
+  const timeline = useMemo(() => {
+    if (!decoupled) return [];
+    return Array.from({ length: experiment.numQubits }, (_, q) =>
+      Array.from({ length: experiment.lastStep + 1 }, (_, step) => {
+        const gate = decoupled.gates.find(g => g.step === step && gateQubits(g).includes(q));
+        if (gate) return { kind: isDdPulse(gate) ? 'pulse' : 'gate', label: isDdPulse(gate) ? gate.type.replace(/^R/, '') : cellLabel(gate, q) };
+        const idle = windows.some(w => w.qubit === q && step >= w.start && step < w.start + w.length);
+        return { kind: idle ? 'idle' : 'empty', label: '' };
+      })
+    );
+  }, [decoupled, experiment, windows]);
+
+  return (
+    <>
+      <Helmet>
+        <title>Dynamical Decoupling | QuantumNoise</title>
+        <meta name="description" content="Insert XX, XY4 and CPMG dynamical decoupling sequences into idle windows and compare circuit fidelity under slow dephasing." />
+      </Helmet>
+
+      <main className="relative min-h-screen bg-background overflow-x-hidden">
+        <QuantumBackground />
+
+        {/* Header */}
+        <header className="relative z-10 pt-8 px-4">
+          <div className="container mx-auto max-w-6xl">
+            <Link to="/" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-6 group">
+              <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+              Back to Home
+            </Link>
+
+            <div className="text-center mb-10">
+              <h1 className="text-4xl md:text-5xl font-bold mb-4">
+                <span className="text-gradient">Dynamical</span> Decoupling
+              </h1>
+              <p className="text-muted-foreground max-w-2xl mx-auto">
+                Echo away the phase idle qubits pick up by filling their idle windows with π pulses
+              </p>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <section className="relative z-10 py-8 px-4">
+          <div className="container mx-auto max-w-6xl">
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* Controls Panel */}
+              <Card className="glass border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    Parameters
+                    <UITooltip>
+                      <TooltipTrigger>
+                        <Info className="w-4 h-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Every circuit step lasts one layer time, and every qubit dephases during it whether or not it has a gate</p>
+                      </TooltipContent>
+                    </UITooltip>
+                  </CardTitle>
+                  <CardDescription>Configure simulation parameters</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <MitigationCircuitControls circuit={circuit} />
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      Idle Delay
+                      <span className="text-primary font-mono">{idleDelay} steps</span>
+                    </label>
+                    <Slider
+                      value={[idleDelay]}
+                      onValueChange={([v]) => setIdleDelay(v)}
+                      min={0}
+                      max={20}
+                      step={1}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Empty steps inserted halfway through the circuit
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium">DD Sequence</label>
+                    <Select value={sequenceId} onValueChange={(v: DdSequenceId) => setSequenceId(v)}>
+                      <SelectTrigger className="glass">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ddSequences.map(s => (
+                          <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">{sequence.description}</p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      T2* (slow dephasing)
+                      <span className="text-primary font-mono">{t2Star} μs</span>
+                    </label>
+                    <Slider
+                      value={[t2Star]}
+                      onValueChange={([v]) => setT2Star(v)}
+                      min={1}
+                      max={50}
+                      step={1}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Shot-to-shot frequency offsets; DD can echo these away
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      T2 (phase damping)
+                      <span className="text-primary font-mono">{t2} μs</span>
+                    </label>
+                    <Slider
+                      value={[t2]}
+                      onValueChange={([v]) => setT2(v)}
+                      min={10}
+                      max={200}
+                      step={5}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Markovian dephasing no pulse sequence can undo (T1 = 2·T2)
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      Layer Time
+                      <span className="text-primary font-mono">{layerTime.toFixed(2)} μs</span>
+                    </label>
+                    <Slider
+                      value={[layerTime]}
+                      onValueChange={([v]) => setLayerTime(v)}
+                      min={0.05}
+                      max={2}
+                      step={0.05}
+                    />
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      Pulse Over-rotation
+                      <span className="text-primary font-mono">{(overRotation * 100).toFixed(0)}%</span>
+                    </label>
+                    <Slider
+                      value={[overRotation]}
+                      onValueChange={([v]) => setOverRotation(v)}
+                      min={0}
+                      max={0.2}
+                      step={0.01}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Each π pulse rotates by π·(1 + ε)
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      Gate Error Rate
+                      <span className="text-primary font-mono">{(gateError * 100).toFixed(1)}%</span>
+                    </label>
+                    <Slider
+                      value={[gateError]}
+                      onValueChange={([v]) => setGateError(v)}
+                      min={0}
+                      max={0.02}
+                      step={0.001}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Depolarizing error per 1-qubit gate, DD pulses included (5× for multi-qubit gates)
+                    </p>
+                  </div>
+
+                  <SeedControl seed={seed} onSeedChange={setSeed} onReroll={rerollSeed} />
+                </CardContent>
+              </Card>
+
+              {/* Chart Area */}
+              <div className="lg:col-span-2 space-y-6">
+                <Card className="glass border-border/50">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Idle Windows</CardTitle>
+                    <CardDescription>
+                      Steps each qubit spends waiting (shaded) and the {sequence.label} pulses placed in them
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {experiment.error ? (
+                      <p className="text-sm text-destructive">{experiment.error}</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <div className="space-y-1 min-w-max">
+                          {timeline.map((row, q) => (
+                            <div key={q} className="flex items-center gap-1">
+                              <span className="w-10 text-xs font-mono text-muted-foreground">q{q}</span>
+                              {row.map((cell, step) => (
+                                <div
+                                  key={step}
+                                  className={`w-8 h-8 rounded flex items-center justify-center text-xs font-mono ${
+                                    cell.kind === 'gate'
+                                      ? 'bg-secondary text-foreground'
+                                      : cell.kind === 'pulse'
+                                        ? 'bg-primary text-primary-foreground'
+                                        : cell.kind === 'idle'
+                                          ? 'bg-yellow-500/20'
+                                          : 'bg-muted/20'
+                                  }`}
+                                >
+                                  {cell.label}
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {decoupled && (
+                      <p className="text-xs text-muted-foreground mt-4">
+                        {decoupled.pulseCount} pulses in {decoupled.filled.length} of {windows.length} idle windows;
+                        windows shorter than {sequence.pulses.length} steps are left empty.
+                        Total idle time {(windows.reduce((acc, w) => acc + w.length, 0) * layerTime).toFixed(1)} μs.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="glass border-border/50">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Fidelity With and Without DD</CardTitle>
+                    <CardDescription>
+                      State fidelity with the ideal output, averaged over {REALIZATIONS} draws of the frequency offsets
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={comparison} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                          <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" />
+                          <YAxis
+                            stroke="hsl(var(--muted-foreground))"
+                            domain={[0, 1]}
+                            label={{ value: 'Fidelity', angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))' }}
+                          />
+                          <Tooltip
+                            contentStyle={{
+                              backgroundColor: 'hsl(var(--card))',
+                              border: '1px solid hsl(var(--border))',
+                              borderRadius: '8px'
+                            }}
+                            formatter={(value: number) => value.toFixed(4)}
+                          />
+                          <Bar dataKey="fidelity" name="Fidelity" radius={[4, 4, 0, 0]}>
+                            {comparison.map(c => (
+                              <Cell
+                                key={c.id}
+                                fill={sequenceColors[c.id]}
+                                fillOpacity={c.id === 'none' || c.id === sequenceId ? 1 : 0.4}
+                              />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Metrics Cards */}
+                <div className="grid sm:grid-cols-3 gap-4">
+                  <Card className="glass border-border/50">
+                    <CardContent className="pt-6 text-center">
+                      <p className="text-sm text-muted-foreground mb-1">Without DD</p>
+                      <p className="text-3xl font-bold text-muted-foreground">{free ? free.fidelity.toFixed(4) : '—'}</p>
+                      <p className="text-xs text-muted-foreground mt-1 font-mono">
+                        ⟨{formatObservable(experiment.observable)}⟩ = {free ? free.expectation.toFixed(4) : '—'}
+                      </p>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="glass border-border/50">
+                    <CardContent className="pt-6 text-center">
+                      <p className="text-sm text-muted-foreground mb-1">With {sequence.label}</p>
+                      <p className="text-3xl font-bold text-gradient">{chosen ? chosen.fidelity.toFixed(4) : '—'}</p>
+                      <p className="text-xs text-muted-foreground mt-1 font-mono">
+                        ⟨{formatObservable(experiment.observable)}⟩ = {chosen ? chosen.expectation.toFixed(4) : '—'}
+                      </p>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="glass border-border/50">
+                    <CardContent className="pt-6 text-center">
+                      <p className="text-sm text-muted-foreground mb-1">Fidelity Gain</p>
+                      <p className="text-3xl font-bold text-primary">
+                        {free && chosen ? `${chosen.fidelity >= free.fidelity ? '+' : ''}${((chosen.fidelity - free.fidelity) * 100).toFixed(1)}%` : '—'}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1 font-mono">
+                        ideal ⟨O⟩ = {Number.isFinite(idealValue) ? idealValue.toFixed(4) : '—'}
+                      </p>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <Card className="glass border-border/50">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Idle Coherence</CardTitle>
+                    <CardDescription>
+                      Probability a qubit prepared in |+⟩ is still there after waiting, with and without each sequence
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-72">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={coherenceData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                          <XAxis
+                            dataKey="time"
+                            type="number"
+                            stroke="hsl(var(--muted-foreground))"
+                            label={{ value: 'Idle time (μs)', position: 'bottom', fill: 'hsl(var(--muted-foreground))' }}
+                          />
+                          <YAxis stroke="hsl(var(--muted-foreground))" domain={[0.4, 1]} />
+                          <Tooltip
+                            contentStyle={{
+                              backgroundColor: 'hsl(var(--card))',
+                              border: '1px solid hsl(var(--border))',
+                              borderRadius: '8px'
+                            }}
+                            formatter={(value: number) => value.toFixed(4)}
+                            labelFormatter={(t) => `${Number(t).toFixed(1)} μs`}
+                          />
+                          <Legend verticalAlign="top" />
+                          <Line type="monotone" dataKey="none" name="No DD" stroke={sequenceColors.none} strokeWidth={2} dot={false} />
+                          {ddSequences.map(s => (
+                            <Line
+                              key={s.id}
+                              type="monotone"
+                              dataKey={s.id}
+                              name={s.label}
+                              stroke={sequenceColors[s.id]}
+                              strokeWidth={s.id === sequenceId ? 3 : 1.5}
+                              dot={false}
+                            />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+
+            {/* Info Section */}
+            <Card className="glass border-border/50 mt-8">
+              <CardHeader>
+                <CardTitle className="text-lg">How Dynamical Decoupling Works</CardTitle>
+              </CardHeader>
+              <CardContent className="prose prose-invert max-w-none">
+                <div className="grid md:grid-cols-3 gap-6 text-sm">
+                  <div>
+                    <h4 className="text-primary font-semibold mb-2">1. Idle Dephasing</h4>
+                    <p className="text-muted-foreground">
+                      A waiting qubit precesses at its frequency offset. When the offset wanders between shots,
+                      the averaged coherence decays as e^(-(t/T2*)²), on top of the phase damping set by T2.
+                    </p>
+                  </div>
+                  <div>
+                    <h4 className="text-primary font-semibold mb-2">2. Echo</h4>
+                    <p className="text-muted-foreground">
+                      A π pulse flips the sign of the phase still to come, so the second half of the wait undoes the
+                      first. The pulses multiply to the identity and leave the circuit's logic unchanged.
+                    </p>
+                  </div>
+                  <div>
+                    <h4 className="text-primary font-semibold mb-2">3. Trade-offs</h4>
+                    <p className="text-muted-foreground">
+                      Each pulse is another noisy gate, and miscalibrated pulses add their own error. Sequences that
+                      alternate axes, like XY4, cancel pulse errors too; fast Markovian noise is never refocused.
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </section>
+
+        {/* Footer */}
+        <footer className="relative z-10 py-10 px-4 border-t border-border/50 mt-12">
+          <div className="container mx-auto max-w-6xl text-center">
+            <p className="text-sm text-muted-foreground">
+              Dynamical Decoupling Simulator • Quantum Error Mitigation Research
+            </p>
+          </div>
+        </footer>
+      </main>
+    </>
+  );
+};
+
+export default DynamicalDecoupling;
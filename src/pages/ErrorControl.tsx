@@ -1,12 +1,18 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { Helmet } from 'react-helmet-async';
 import Navigation from '@/components/Navigation';
+import SeedControl from '@/components/SeedControl';
+import SurfaceCodeLattice from '@/components/SurfaceCodeLattice';
+import ThresholdSweep from '@/components/ThresholdSweep';
+import CustomCodeEditor from '@/components/CustomCodeEditor';
+import SyndromeCircuitViewer from '@/components/SyndromeCircuitViewer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Play, RefreshCw, Shield, AlertTriangle, CheckCircle, XCircle, Zap } from 'lucide-react';
 import {
   LineChart,
@@ -21,22 +27,111 @@ import {
   Bar,
   Cell
 } from 'recharts';
+import { createRandom } from '@/lib/random';
+import { useSeed } from '@/hooks/use-seed';
+import {
+  CustomCodeInput,
+  LogicalState,
+  analyzeCustomCode,
+  bitFlipCode,
+  customCodeInput,
+  fiveQubitCode,
+  phaseFlipCode,
+  shorCode,
+  steaneCode
+} from '@/lib/quantum/stabilizer-codes';
+import { PauliNoise, runCodeTrials } from '@/lib/quantum/error-correction';
+import { pauliWeight } from '@/lib/quantum/stabilizer';
+import { DecoderId, DecodingGraph, decoderLabels } from '@/lib/quantum/decoders';
+import {
+  SURFACE_DISTANCES,
+  SurfaceCodeLayout,
+  SurfaceNoiseModel,
+  SurfaceTrial,
+  runSurfaceMemory,
+  surfaceCodeLayout,
+  surfaceDecodingGraph,
+  surfaceLayers,
+  surfaceNoiseLabels,
+  surfaceStabilizerCode
+} from '@/lib/quantum/surface-code';
 
 interface ErrorResult {
   trial: number;
   rawError: number;
+  // Logical error after decoding
   correctedError: number;
   detected: boolean;
   corrected: boolean;
+  // Number of physical faults in the trial
+  faults: number;
+  detail: string;
+}
+
+interface SurfaceRun {
+  layout: SurfaceCodeLayout;
+  graph: DecodingGraph;
+  trials: SurfaceTrial[];
 }
 
+type CodeType = 'bitflip' | 'phaseflip' | 'shor' | 'steane' | 'fivequbit' | 'custom' | 'surface';
+
+const codes = {
+  bitflip: bitFlipCode,
+  phaseflip: phaseFlipCode,
+  shor: shorCode,
+  steane: steaneCode,
+  fivequbit: fiveQubitCode,
+};
+
+const noiseLabels: Record<PauliNoise, string> = {
+  'bit-flip': 'Bit flip (X)',
+  'phase-flip': 'Phase flip (Z)',
+  depolarizing: 'Depolarizing (X, Y, Z)',
+};
+
+const describeTrial = (r: ErrorResult) => {
+  if (!r.faults) return 'No error';
+  const outcome = r.corrected ? 'Corrected'
+    : r.detected ? 'Detected, logical error'
+    : r.correctedError ? 'Undetected logical error'
+    : 'Undetected, no effect';
+  return `${outcome} (${r.detail})`;
+};
+
+const surfaceDetail = (t: SurfaceTrial, graph: DecodingGraph) => {
+  const flipped = t.correction.filter(e => graph.edges[e].qubit !== null).length;
+  return `${t.faults} fault${t.faults === 1 ? '' : 's'}, ${t.detectionEvents.length} detection events, ` +
+    `correction on ${flipped} qubit${flipped === 1 ? '' : 's'}`;
+};
+
+const layerLabel = (layer: number, layers: number) =>
+  layers === 1 ? 'Readout' : layer === layers - 1 ? 'Final readout' : `Round ${layer + 1}`;
+
 const ErrorControl = () => {
   const [errorRate, setErrorRate] = useState(0.05);
   const [numTrials, setNumTrials] = useState(100);
-  const [codeType, setCodeType] = useState<'bitflip' | 'phaseflip' | 'shor'>('bitflip');
+  const [codeType, setCodeType] = useState<CodeType>('bitflip');
+  const [noise, setNoise] = useState<PauliNoise>('depolarizing');
+  const [logicalState, setLogicalState] = useState<LogicalState>('0');
+  const [distance, setDistance] = useState(3);
+  const [surfaceModel, setSurfaceModel] = useState<SurfaceNoiseModel>('code-capacity');
+  const [rounds, setRounds] = useState(3);
+  const [decoder, setDecoder] = useState<DecoderId>('mwpm');
+  const [customInput, setCustomInput] = useState<CustomCodeInput>(() => customCodeInput(fiveQubitCode));
   const [enableCorrection, setEnableCorrection] = useState(true);
   const [results, setResults] = useState<ErrorResult[]>([]);
+  const [surfaceRun, setSurfaceRun] = useState<SurfaceRun | null>(null);
+  const [selectedTrial, setSelectedTrial] = useState(0);
+  const [viewLayer, setViewLayer] = useState<number | null>(null);
   const [isSimulating, setIsSimulating] = useState(false);
+  const { seed, setSeed, rerollSeed } = useSeed();
+  const customAnalysis = useMemo(() => analyzeCustomCode(customInput), [customInput]);
+  const stabilizerCode = codeType === 'custom' ? customAnalysis.code : codeType === 'surface' ? null : codes[codeType];
+  // The circuit viewer draws every gate, so the surface code is shown at d = 3
+  const surfaceCircuitCode = useMemo(() => surfaceStabilizerCode(surfaceCodeLayout(3)), []);
+  const circuitCode = codeType === 'surface' ? surfaceCircuitCode : stabilizerCode;
+  const circuitState = codeType === 'surface' ? '0' : logicalState;
   const [stats, setStats] = useState({ 
     rawErrorRate: 0, 
     correctedErrorRate: 0, 
@@ -46,62 +141,68 @@ const ErrorControl = () => {
 
   const simulateErrors = useCallback(() => {
     setIsSimulating(true);
-    
-    const newResults: ErrorResult[] = [];
-    let totalRawErrors = 0;
-    let totalCorrectedErrors = 0;
-    let detected = 0;
-    let corrected = 0;
-
-    for (let i = 0; i < numTrials; i++) {
-      // Simulate raw error
-      const hasRawError = Math.random() < errorRate;
-      let rawError = hasRawError ? 1 : 0;
-      totalRawErrors += rawError;
-
-      // Error detection and correction
-      let correctedError = rawError;
-      let wasDetected = false;
-      let wasCorrected = false;
-
-      if (hasRawError && enableCorrection) {
-        // Detection probability depends on code type
-        const detectionProb = codeType === 'shor' ? 0.99 : codeType === 'phaseflip' ? 0.92 : 0.95;
-        wasDetected = Math.random() < detectionProb;
-        
-        if (wasDetected) {
-          detected++;
-          // Correction probability
-          const correctionProb = codeType === 'shor' ? 0.95 : codeType === 'phaseflip' ? 0.85 : 0.9;
-          wasCorrected = Math.random() < correctionProb;
-          
-          if (wasCorrected) {
-            corrected++;
-            correctedError = 0;
-          }
-        }
-      }
-
-      totalCorrectedErrors += correctedError;
 
-      newResults.push({
-        trial: i + 1,
-        rawError,
-        correctedError,
-        detected: wasDetected,
-        corrected: wasCorrected
+    const random = createRandom(seed);
+    let newResults: ErrorResult[];
+    if (codeType === 'surface') {
+      const layout = surfaceCodeLayout(distance);
+      const graph = surfaceDecodingGraph(layout, surfaceLayers({ model: surfaceModel, rounds }));
+      const trials = runSurfaceMemory(
+        layout,
+        { errorRate, noise, model: surfaceModel, rounds, decoder, correct: enableCorrection },
+        numTrials,
+        random,
+        graph
+      );
+      newResults = trials.map((t, i) => {
+        const detected = enableCorrection && t.detectionEvents.length > 0;
+        return {
+          trial: i + 1,
+          rawError: t.rawFailure ? 1 : 0,
+          correctedError: t.logicalFailure ? 1 : 0,
+          detected,
+          corrected: detected && !t.logicalFailure,
+          faults: t.faults,
+          detail: surfaceDetail(t, graph),
+        };
       });
+      setSurfaceRun({ layout, graph, trials });
+      setSelectedTrial(trials.length - 1);
+      setViewLayer(null);
+    } else {
+      if (!stabilizerCode) {
+        setIsSimulating(false);
+        return;
+      }
+      const trials = runCodeTrials(
+        stabilizerCode,
+        { errorRate, noise, logicalState, trials: numTrials, correct: enableCorrection },
+        random
+      );
+      newResults = trials.map((t, i) => ({
+        trial: i + 1,
+        rawError: t.rawFailure ? 1 : 0,
+        correctedError: t.logicalFailure ? 1 : 0,
+        detected: t.detected,
+        corrected: t.detected && !t.logicalFailure,
+        faults: pauliWeight(t.error),
+        detail: `error ${t.error}` +
+          (t.syndrome !== null ? `, syndrome ${t.syndrome} → ${t.correction ?? 'no correction'}` : ''),
+      }));
+      setSurfaceRun(null);
     }
 
+    const withErrors = newResults.filter(r => r.faults > 0).length;
+    const detected = newResults.filter(r => r.detected).length;
     setResults(newResults);
     setStats({
-      rawErrorRate: totalRawErrors / numTrials,
-      correctedErrorRate: totalCorrectedErrors / numTrials,
-      detectionRate: totalRawErrors > 0 ? detected / totalRawErrors : 0,
-      correctionRate: detected > 0 ? corrected / detected : 0
+      rawErrorRate: newResults.filter(r => r.rawError).length / numTrials,
+      correctedErrorRate: newResults.filter(r => r.correctedError).length / numTrials,
+      detectionRate: withErrors > 0 ? detected / withErrors : 0,
+      correctionRate: detected > 0 ? newResults.filter(r => r.corrected).length / detected : 0
     });
     setIsSimulating(false);
-  }, [errorRate, numTrials, codeType, enableCorrection]);
+  }, [errorRate, numTrials, codeType, stabilizerCode, noise, logicalState, distance, surfaceModel, rounds, decoder, enableCorrection, seed]);
 
   // Prepare chart data
   const cumulativeData = results.reduce((acc, r, i) => {
@@ -116,11 +217,13 @@ const ErrorControl = () => {
     return acc;
   }, [] as { trial: number; rawErrors: number; correctedErrors: number; rawRate: number; correctedRate: number }[]);
 
+  const hit = results.filter(r => r.faults > 0);
   const syndromeData = [
-    { syndrome: 'No Error', count: results.filter(r => !r.rawError).length, color: '#22c55e' },
-    { syndrome: 'Detected & Corrected', count: results.filter(r => r.corrected).length, color: '#3b82f6' },
-    { syndrome: 'Detected Only', count: results.filter(r => r.detected && !r.corrected).length, color: '#f59e0b' },
-    { syndrome: 'Undetected', count: results.filter(r => r.rawError && !r.detected).length, color: '#ef4444' }
+    { syndrome: 'No Error', count: results.length - hit.length, color: '#22c55e' },
+    { syndrome: 'Detected & Corrected', count: hit.filter(r => r.corrected).length, color: '#3b82f6' },
+    { syndrome: 'Detected, Logical Error', count: hit.filter(r => r.detected && !r.corrected).length, color: '#f59e0b' },
+    { syndrome: 'Undetected, No Effect', count: hit.filter(r => !r.detected && !r.correctedError).length, color: '#94a3b8' },
+    { syndrome: 'Undetected Logical Error', count: hit.filter(r => !r.detected && r.correctedError).length, color: '#ef4444' }
   ].filter(d => d.count > 0);
 
   const codeDescriptions = {
@@ -141,16 +244,47 @@ const ErrorControl = () => {
       description: 'Encodes 1 logical qubit into 9 physical qubits. Corrects any single-qubit error.',
       encoding: '|0⟩ → (|000⟩+|111⟩)⊗3, |1⟩ → (|000⟩-|111⟩)⊗3',
       syndromes: ['Concatenates bit flip and phase flip codes', 'Full protection against any single qubit error']
+    },
+    steane: {
+      name: 'Steane 7-Qubit Code',
+      description: 'Encodes 1 logical qubit into 7 physical qubits. Corrects any single-qubit error, with X and Z errors decoded separately.',
+      encoding: '|0⟩ → uniform superposition of the 8 even-weight [7,4] Hamming codewords',
+      syndromes: ['Three X and three Z checks from the Hamming code', 'The Z checks locate X errors and the X checks locate Z errors']
+    },
+    fivequbit: {
+      name: 'Five-Qubit Code',
+      description: 'Encodes 1 logical qubit into 5 physical qubits, the fewest that correct any single-qubit error.',
+      encoding: '|0⟩ → +1 eigenstate of XZZXI, its cyclic shifts and ZZZZZ',
+      syndromes: ['Four 4-bit syndromes for 15 single-qubit errors plus no error', 'Every syndrome is used: a perfect code']
+    },
+    custom: {
+      name: customAnalysis.code?.name ?? 'Custom Code',
+      description: 'Enter stabilizer generators and logical operators as Pauli strings. The generators are checked for commutation and independence and the distance is found by search.',
+      encoding: 'Clifford encoder synthesized from the generators',
+      syndromes: ['Lookup decoder: the lowest-weight error of the noise channel for each syndrome']
+    },
+    surface: {
+      name: `Distance-${distance} Rotated Surface Code`,
+      description: `Encodes 1 logical qubit into ${distance * distance} data qubits on a square lattice with ` +
+        `${distance * distance - 1} weight-2 and weight-4 checks. Corrects up to ${(distance - 1) / 2} errors.`,
+      encoding: '|0⟩_L: +1 eigenstate of every check and of Z along the top row',
+      syndromes: [
+        'Z checks flag X and Y errors; a detection event is a check whose outcome changed since the last round',
+        'The decoder pairs events with each other or with the top and bottom boundaries; the paths are the correction'
+      ]
     }
   };
 
   const currentCode = codeDescriptions[codeType];
+  const stabilizers = stabilizerCode?.stabilizers ?? [];
+  const surfaceLayerCount = surfaceRun ? surfaceRun.graph.numNodes / surfaceRun.layout.zChecks.length : 0;
+  const shownTrial = surfaceRun?.trials[selectedTrial] ?? null;
 
   return (
     <div className="min-h-screen bg-background">
       <Helmet>
         <title>Error Control Demo | QuantumNoise</title>
-        <meta name="description" content="Interactive quantum error correction demonstration with bit flip, phase flip, and Shor codes" />
+        <meta name="description" content="Interactive quantum error correction demonstration with bit flip, phase flip, Shor, Steane, five-qubit, custom stabilizer and surface codes" />
       </Helmet>
       
       <Navigation />
@@ -177,7 +311,7 @@ const ErrorControl = () => {
             <CardContent className="space-y-6">
               <div>
                 <label className="text-sm text-muted-foreground mb-2 block">
-                  Error Rate: {(errorRate * 100).toFixed(1)}%
+                  Physical Error Rate: {(errorRate * 100).toFixed(1)}%
                 </label>
                 <Slider
                   value={[errorRate]}
@@ -201,6 +335,37 @@ const ErrorControl = () => {
                 />
               </div>
 
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block">Noise Channel</label>
+                <Select value={noise} onValueChange={(v: PauliNoise) => setNoise(v)}>
+                  <SelectTrigger className="glass">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(noiseLabels) as PauliNoise[]).map(id => (
+                      <SelectItem key={id} value={id}>{noiseLabels[id]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {codeType !== 'surface' && <div>
+                <label className="text-sm text-muted-foreground mb-2 block">Logical State</label>
+                <Select value={logicalState} onValueChange={(v: LogicalState) => setLogicalState(v)}>
+                  <SelectTrigger className="glass">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">|0⟩ (read out Z)</SelectItem>
+                    <SelectItem value="1">|1⟩ (read out Z)</SelectItem>
+                    <SelectItem value="+">|+⟩ (read out X)</SelectItem>
+                    <SelectItem value="-">|−⟩ (read out X)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>}
+
+              <SeedControl seed={seed} onSeedChange={setSeed} onReroll={rerollSeed} />
+
               <div className="flex items-center justify-between">
                 <label className="text-sm">Enable Error Correction</label>
                 <Switch
@@ -212,7 +377,7 @@ const ErrorControl = () => {
               <Button 
                 className="w-full" 
                 onClick={simulateErrors}
-                disabled={isSimulating}
+                disabled={isSimulating || (codeType !== 'surface' && !stabilizerCode)}
               >
                 <Play className="w-4 h-4 mr-2" />
                 {isSimulating ? 'Simulating...' : 'Run Simulation'}
@@ -228,11 +393,79 @@ const ErrorControl = () => {
             </CardHeader>
             <CardContent>
               <Tabs value={codeType} onValueChange={(v) => setCodeType(v as typeof codeType)}>
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className="grid w-full grid-cols-4 md:grid-cols-7 h-auto">
                   <TabsTrigger value="bitflip">Bit Flip</TabsTrigger>
                   <TabsTrigger value="phaseflip">Phase Flip</TabsTrigger>
                   <TabsTrigger value="shor">Shor Code</TabsTrigger>
+                  <TabsTrigger value="steane">Steane</TabsTrigger>
+                  <TabsTrigger value="fivequbit">5-Qubit</TabsTrigger>
+                  <TabsTrigger value="custom">Custom</TabsTrigger>
+                  <TabsTrigger value="surface">Surface Code</TabsTrigger>
                 </TabsList>
+
+                {codeType === 'custom' && (
+                  <div className="mt-4">
+                    <CustomCodeEditor value={customInput} onChange={setCustomInput} analysis={customAnalysis} />
+                  </div>
+                )}
+
+                {codeType === 'surface' && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="text-sm text-muted-foreground mb-2 block">Distance</label>
+                      <Select value={String(distance)} onValueChange={v => setDistance(Number(v))}>
+                        <SelectTrigger className="glass">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SURFACE_DISTANCES.map(d => (
+                            <SelectItem key={d} value={String(d)}>d = {d} ({d * d} data qubits)</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground mb-2 block">Noise Model</label>
+                      <Select value={surfaceModel} onValueChange={(v: SurfaceNoiseModel) => setSurfaceModel(v)}>
+                        <SelectTrigger className="glass">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(surfaceNoiseLabels) as SurfaceNoiseModel[]).map(id => (
+                            <SelectItem key={id} value={id}>{surfaceNoiseLabels[id]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground mb-2 block">Decoder</label>
+                      <Select value={decoder} onValueChange={(v: DecoderId) => setDecoder(v)}>
+                        <SelectTrigger className="glass">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(decoderLabels) as DecoderId[]).map(id => (
+                            <SelectItem key={id} value={id}>{decoderLabels[id]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {surfaceModel === 'phenomenological' && (
+                      <div className="md:col-span-3">
+                        <label className="text-sm text-muted-foreground mb-2 block">
+                          Syndrome Rounds: {rounds}
+                        </label>
+                        <Slider
+                          value={[rounds]}
+                          onValueChange={([v]) => setRounds(v)}
+                          min={1}
+                          max={15}
+                          step={1}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
                 
                 <div className="mt-4 p-4 rounded-lg bg-muted/30">
                   <h4 className="font-semibold text-lg mb-2">{currentCode.name}</h4>
@@ -245,6 +478,17 @@ const ErrorControl = () => {
                     </code>
                   </div>
 
+                  {stabilizers.length > 0 && (
+                    <div className="mb-3">
+                      <span className="text-sm font-medium">Stabilizers:</span>
+                      <div className="mt-1 flex flex-wrap gap-2">
+                        {stabilizers.map(g => (
+                          <code key={g} className="px-2 py-1 bg-muted rounded text-xs font-mono">{g}</code>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <span className="text-sm font-medium">Syndrome Measurement:</span>
                     <ul className="mt-1 space-y-1">
@@ -255,12 +499,40 @@ const ErrorControl = () => {
                       ))}
                     </ul>
                   </div>
+
+                  {codeType === 'surface' ? (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      A memory experiment on logical |0⟩: every round each data qubit suffers a Pauli error with the
+                      physical error rate and the Z checks are measured; under phenomenological noise each check
+                      outcome is also flipped with the same probability. A final perfect readout of the data qubits
+                      closes the last round, the decoder corrects the detection events and the logical Z row is read
+                      out. The raw rate is one unencoded qubit through the same rounds of noise.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Each trial runs on a stabilizer (tableau) simulator: the logical state is encoded, every data qubit
+                      suffers a Pauli error with the physical error rate, one ancilla per stabilizer measures the
+                      syndrome, a lookup decoder applies the most likely correction and the logical qubit is read out.
+                      The raw rate is the same error on a single unencoded qubit.
+                    </p>
+                  )}
                 </div>
               </Tabs>
             </CardContent>
           </Card>
         </div>
 
+        {circuitCode && (
+          <SyndromeCircuitViewer
+            key={`${circuitCode.stabilizers.join()}-${circuitCode.logicalX}-${circuitCode.logicalZ}-${circuitState}`}
+            code={circuitCode}
+            noise={noise}
+            logicalState={circuitState}
+            seed={seed}
+            note={codeType === 'surface' && distance > 3 ? 'Shown at d = 3 to keep the circuit readable.' : undefined}
+          />
+        )}
+
         {/* Results */}
         {results.length > 0 && (
           <>
@@ -282,7 +554,7 @@ const ErrorControl = () => {
                   <div className="text-2xl font-bold text-green-500">
                     {(stats.correctedErrorRate * 100).toFixed(1)}%
                   </div>
-                  <div className="text-sm text-muted-foreground">Corrected Error Rate</div>
+                  <div className="text-sm text-muted-foreground">Logical Error Rate</div>
                 </CardContent>
               </Card>
 
@@ -351,7 +623,7 @@ const ErrorControl = () => {
                           dataKey="correctedRate" 
                           stroke="#22c55e" 
                           strokeWidth={2}
-                          name="Corrected Error Rate"
+                          name="Logical Error Rate"
                           dot={false}
                         />
                       </LineChart>
@@ -399,34 +671,38 @@ const ErrorControl = () => {
             <Card className="glass border-primary/20 mt-6">
               <CardHeader>
                 <CardTitle>Recent Trials</CardTitle>
-                <CardDescription>Last 20 trial results</CardDescription>
+                <CardDescription>
+                  Last 20 trial results{surfaceRun && ' — click a trial to draw it on the lattice'}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="flex flex-wrap gap-2">
                   {results.slice(-20).map((r) => (
                     <div 
                       key={r.trial}
+                      onClick={surfaceRun ? () => setSelectedTrial(r.trial - 1) : undefined}
                       className={`w-10 h-10 rounded-lg flex items-center justify-center text-xs font-mono ${
-                        !r.rawError ? 'bg-green-500/20 text-green-500' :
+                        surfaceRun ? 'cursor-pointer' : ''
+                      } ${
+                        surfaceRun && selectedTrial === r.trial - 1 ? 'ring-2 ring-primary' : ''
+                      } ${
+                        !r.faults ? 'bg-green-500/20 text-green-500' :
                         r.corrected ? 'bg-blue-500/20 text-blue-500' :
                         r.detected ? 'bg-yellow-500/20 text-yellow-500' :
-                        'bg-red-500/20 text-red-500'
-                      }`}
-                      title={`Trial ${r.trial}: ${
-                        !r.rawError ? 'No error' :
-                        r.corrected ? 'Corrected' :
-                        r.detected ? 'Detected only' :
-                        'Undetected error'
+                        r.correctedError ? 'bg-red-500/20 text-red-500' :
+                        'bg-muted text-muted-foreground'
                       }`}
+                      title={`Trial ${r.trial}: ${describeTrial(r)}`}
                     >
-                      {!r.rawError ? <CheckCircle className="w-4 h-4" /> :
+                      {!r.faults ? <CheckCircle className="w-4 h-4" /> :
                        r.corrected ? <Shield className="w-4 h-4" /> :
                        r.detected ? <AlertTriangle className="w-4 h-4" /> :
-                       <XCircle className="w-4 h-4" />}
+                       r.correctedError ? <XCircle className="w-4 h-4" /> :
+                       <CheckCircle className="w-4 h-4" />}
                     </div>
                   ))}
                 </div>
-                <div className="flex gap-4 mt-4 text-xs">
+                <div className="flex flex-wrap gap-4 mt-4 text-xs">
                   <div className="flex items-center gap-1">
                     <CheckCircle className="w-3 h-3 text-green-500" /> No error
                   </div>
@@ -434,16 +710,85 @@ const ErrorControl = () => {
                     <Shield className="w-3 h-3 text-blue-500" /> Corrected
                   </div>
                   <div className="flex items-center gap-1">
-                    <AlertTriangle className="w-3 h-3 text-yellow-500" /> Detected
+                    <AlertTriangle className="w-3 h-3 text-yellow-500" /> Detected, logical error
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <CheckCircle className="w-3 h-3 text-muted-foreground" /> Undetected, no effect
                   </div>
                   <div className="flex items-center gap-1">
-                    <XCircle className="w-3 h-3 text-red-500" /> Undetected
+                    <XCircle className="w-3 h-3 text-red-500" /> Undetected logical error
                   </div>
                 </div>
               </CardContent>
             </Card>
+
+            {surfaceRun && shownTrial && (
+              <Card className="glass border-primary/20 mt-6">
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Lattice — Trial {selectedTrial + 1}</CardTitle>
+                    <CardDescription>{describeTrial(results[selectedTrial])}</CardDescription>
+                  </div>
+                  {surfaceLayerCount > 1 && (
+                    <Select
+                      value={viewLayer === null ? 'all' : String(viewLayer)}
+                      onValueChange={v => setViewLayer(v === 'all' ? null : Number(v))}
+                    >
+                      <SelectTrigger className="glass w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All rounds</SelectItem>
+                        {Array.from({ length: surfaceLayerCount }, (_, t) => (
+                          <SelectItem key={t} value={String(t)}>{layerLabel(t, surfaceLayerCount)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <SurfaceCodeLattice
+                    layout={surfaceRun.layout}
+                    graph={surfaceRun.graph}
+                    trial={shownTrial}
+                    layer={viewLayer}
+                  />
+                  <div className="flex flex-wrap gap-4 mt-4 text-xs">
+                    <div className="flex items-center gap-1">
+                      <span className="w-3 h-3 rounded-sm bg-primary/30" /> X check
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="w-3 h-3 rounded-sm bg-accent/30" /> Z check
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="w-3 h-3 rounded-sm bg-amber-500/75" /> Detection event (count when repeated)
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="w-3 h-3 rounded-full bg-red-500" /> Net X error on a data qubit
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="w-3 h-3 rounded-full border-2 border-blue-500" /> Correction chain
+                    </div>
+                    {surfaceLayerCount > 1 && (
+                      <div className="flex items-center gap-1">
+                        <span className="w-3 h-3 rounded-full border-2 border-dashed border-blue-500" /> Measurement error
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </>
         )}
+
+        <ThresholdSweep
+          noise={noise}
+          logicalState={logicalState}
+          surfaceModel={surfaceModel}
+          rounds={rounds}
+          decoder={decoder}
+          seed={seed}
+        />
       </main>
     </div>
   );
@@ -8,8 +8,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Play, RotateCcw, Sparkles, Zap, Target } from 'lucide-react';
 import BlochSphereCanvas from '@/components/BlochSphere';
+import SdkCodePanel from '@/components/SdkCodePanel';
+import { Circuit } from '@/lib/quantum/circuit';
+import { formatComplex } from '@/lib/quantum/complex';
+import { GateName, gateMatrix } from '@/lib/quantum/gates';
+import {
+  StateVector,
+  zeroState,
+  applyGate as applyGateToState,
+  qubitProbabilities,
+  qubitBlochVector
+} from '@/lib/quantum/state-vector';
 
-type GateType = 'I' | 'X' | 'Y' | 'Z' | 'H' | 'S' | 'T' | 'Rx' | 'Ry' | 'Rz';
+type GateType = GateName;
 
 interface GateInfo {
   name: string;
@@ -92,98 +103,43 @@ const gateInfo: Record<GateType, GateInfo> = {
   }
 };
 
+// The gate history as a one-qubit circuit, one column per gate; identities
+// are dropped since they have no SDK instruction to export
+const historyCircuit = (applied: { gate: GateType; angle?: number }[]): Circuit => ({
+  numQubits: 1,
+  clbits: [],
+  gates: applied
+    .filter(({ gate }) => gate !== 'I')
+    .map(({ gate, angle }, step) => ({
+      id: `history-${step}`,
+      type: gate as Exclude<GateType, 'I'>,
+      targets: [0],
+      controls: [],
+      step,
+      angle,
+    })),
+});
+
 const GatePlayground = () => {
   const [selectedGate, setSelectedGate] = useState<GateType>('H');
   const [rotationAngle, setRotationAngle] = useState(Math.PI);
   const [appliedGates, setAppliedGates] = useState<{ gate: GateType; angle?: number }[]>([]);
-  const [stateVector, setStateVector] = useState<{ alpha: [number, number]; beta: [number, number] }>({
-    alpha: [1, 0],
-    beta: [0, 0]
-  });
+  const [stateVector, setStateVector] = useState<StateVector>(() => zeroState(1));
 
   const applyGate = useCallback((gate: GateType, angle?: number) => {
     setAppliedGates(prev => [...prev, { gate, angle }]);
-    
-    setStateVector(prev => {
-      let { alpha, beta } = prev;
-      const theta = angle || Math.PI;
-      
-      switch (gate) {
-        case 'X':
-          return { alpha: beta, beta: alpha };
-        case 'Y':
-          return {
-            alpha: [beta[1], -beta[0]],
-            beta: [-alpha[1], alpha[0]]
-          };
-        case 'Z':
-          return { alpha, beta: [-beta[0], -beta[1]] };
-        case 'H':
-          const sqrt2 = Math.SQRT1_2;
-          return {
-            alpha: [sqrt2 * (alpha[0] + beta[0]), sqrt2 * (alpha[1] + beta[1])],
-            beta: [sqrt2 * (alpha[0] - beta[0]), sqrt2 * (alpha[1] - beta[1])]
-          };
-        case 'S':
-          return { alpha, beta: [-beta[1], beta[0]] };
-        case 'T':
-          const cos45 = Math.cos(Math.PI / 4);
-          const sin45 = Math.sin(Math.PI / 4);
-          return {
-            alpha,
-            beta: [cos45 * beta[0] - sin45 * beta[1], sin45 * beta[0] + cos45 * beta[1]]
-          };
-        case 'Rx':
-          const cosRx = Math.cos(theta / 2);
-          const sinRx = Math.sin(theta / 2);
-          return {
-            alpha: [cosRx * alpha[0] + sinRx * beta[1], cosRx * alpha[1] - sinRx * beta[0]],
-            beta: [sinRx * alpha[1] + cosRx * beta[0], -sinRx * alpha[0] + cosRx * beta[1]]
-          };
-        case 'Ry':
-          const cosRy = Math.cos(theta / 2);
-          const sinRy = Math.sin(theta / 2);
-          return {
-            alpha: [cosRy * alpha[0] - sinRy * beta[0], cosRy * alpha[1] - sinRy * beta[1]],
-            beta: [sinRy * alpha[0] + cosRy * beta[0], sinRy * alpha[1] + cosRy * beta[1]]
-          };
-        case 'Rz':
-          const cosRz = Math.cos(theta / 2);
-          const sinRz = Math.sin(theta / 2);
-          return {
-            alpha: [cosRz * alpha[0] + sinRz * alpha[1], -sinRz * alpha[0] + cosRz * alpha[1]],
-            beta: [cosRz * beta[0] - sinRz * beta[1], sinRz * beta[0] + cosRz * beta[1]]
-          };
-        default:
-          return prev;
-      }
-    });
+    setStateVector(prev => applyGateToState(prev, gateMatrix(gate, angle ?? Math.PI), [0]));
   }, []);
 
   const resetState = useCallback(() => {
-    setStateVector({ alpha: [1, 0], beta: [0, 0] });
+    setStateVector(zeroState(1));
     setAppliedGates([]);
   }, []);
 
-  const getBlochCoordinates = () => {
-    const { alpha, beta } = stateVector;
-    const norm = Math.sqrt(alpha[0]**2 + alpha[1]**2 + beta[0]**2 + beta[1]**2);
-    const a0 = alpha[0] / norm;
-    const a1 = alpha[1] / norm;
-    const b0 = beta[0] / norm;
-    const b1 = beta[1] / norm;
-    
-    const x = 2 * (a0 * b0 + a1 * b1);
-    const y = 2 * (a1 * b0 - a0 * b1);
-    const z = a0**2 + a1**2 - b0**2 - b1**2;
-    
-    return { x, y, z };
-  };
+  const getBlochCoordinates = () => qubitBlochVector(stateVector, 0);
 
   const getProbabilities = () => {
-    const { alpha, beta } = stateVector;
-    const p0 = alpha[0]**2 + alpha[1]**2;
-    const p1 = beta[0]**2 + beta[1]**2;
+    const [p0, p1] = qubitProbabilities(stateVector, 0);
     return { p0, p1 };
   };
 
@@ -334,6 +290,8 @@ const GatePlayground = () => {
                 </CardContent>
               </Card>
             )}
+
+            {appliedGates.length > 0 && <SdkCodePanel circuit={historyCircuit(appliedGates)} />}
           </div>
 
           {/* Bloch Sphere & State */}
@@ -372,7 +330,7 @@ const GatePlayground = () => {
                   <div className="glass p-4 rounded-lg text-center">
                     <div className="text-sm text-muted-foreground mb-1">|0⟩ Amplitude</div>
                     <div className="font-mono text-lg">
-                      {stateVector.alpha[0].toFixed(3)} + {stateVector.alpha[1].toFixed(3)}i
+                      {formatComplex(stateVector.amplitudes[0])}
                     </div>
                     <div className="text-primary font-bold text-xl mt-2">
                       {(probs.p0 * 100).toFixed(1)}%
@@ -381,7 +339,7 @@ const GatePlayground = () => {
                   <div className="glass p-4 rounded-lg text-center">
                     <div className="text-sm text-muted-foreground mb-1">|1⟩ Amplitude</div>
                     <div className="font-mono text-lg">
-                      {stateVector.beta[0].toFixed(3)} + {stateVector.beta[1].toFixed(3)}i
+                      {formatComplex(stateVector.amplitudes[1])}
                     </div>
                     <div className="text-quantum-accent font-bold text-xl mt-2">
                       {(probs.p1 * 100).toFixed(1)}%
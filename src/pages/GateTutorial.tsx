@@ -6,7 +6,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import SdkCodePanel from '@/components/SdkCodePanel';
 import { BookOpen, Code, ExternalLink, Lightbulb, Cpu, Zap, ArrowRight } from 'lucide-react';
+import { Circuit, CircuitGate, CircuitGateType, compactCircuit } from '@/lib/quantum/circuit';
+
+const gate = (type: CircuitGateType, targets: number[], controls: number[] = [], angle?: number) =>
+  ({ type, targets, controls, angle });
+
+// A lesson's example: its gates in order, then every qubit measured into its
+// own bit. The code tab generates the SDK scripts from it.
+const lessonCircuit = (numQubits: number, gates: Omit<CircuitGate, 'id' | 'step'>[]): Circuit => ({
+  numQubits,
+  clbits: Array.from({ length: numQubits }, (_, i) => `c${i}`),
+  gates: compactCircuit([
+    ...gates,
+    ...Array.from({ length: numQubits }, (_, q) => ({ type: 'M' as const, targets: [q], controls: [], clbit: q })),
+  ].map((g, i) => ({ ...g, id: `lesson-${i}`, step: i }))),
+});
 
 const gateLessons = [
   {
@@ -31,22 +47,7 @@ const gateLessons = [
 - Leaves |0⟩ unchanged, maps |1⟩ to -|1⟩
 - Only affects relative phase
 - Matrix: [[1,0],[0,-1]]`,
-      qiskit: `from qiskit import QuantumCircuit
-
-# Create a quantum circuit with 1 qubit
-qc = QuantumCircuit(1)
-
-# Apply Pauli-X gate (bit flip)
-qc.x(0)
-
-# Apply Pauli-Y gate
-qc.y(0)
-
-# Apply Pauli-Z gate (phase flip)
-qc.z(0)
-
-# Draw the circuit
-print(qc.draw())`,
+      circuit: lessonCircuit(1, [gate('X', [0]), gate('Y', [0]), gate('Z', [0])]),
       exercise: 'Try applying X gate twice to a qubit in |0⟩ state. What state do you end up in?'
     }
   },
@@ -72,19 +73,7 @@ print(qc.draw())`,
 - Creating superposition for quantum parallelism
 - Basis for Deutsch-Jozsa algorithm
 - Part of many quantum algorithms`,
-      qiskit: `from qiskit import QuantumCircuit
-from qiskit_aer import AerSimulator
-
-# Create circuit and apply Hadamard
-qc = QuantumCircuit(1, 1)
-qc.h(0)  # Apply Hadamard
-qc.measure(0, 0)
-
-# Simulate
-simulator = AerSimulator()
-result = simulator.run(qc, shots=1000).result()
-counts = result.get_counts()
-print(counts)  # ~{'0': 500, '1': 500}`,
+      circuit: lessonCircuit(1, [gate('H', [0])]),
       exercise: 'What happens when you apply H, then Z, then H to |0⟩? This is called the HZH identity.'
     }
   },
@@ -113,24 +102,7 @@ print(counts)  # ~{'0': 500, '1': 500}`,
 - Creates interference effects
 - Essential for universal quantum computation
 - T gate is expensive in fault-tolerant QC`,
-      qiskit: `from qiskit import QuantumCircuit
-import numpy as np
-
-qc = QuantumCircuit(1)
-
-# First create superposition
-qc.h(0)
-
-# Apply S gate (90° phase)
-qc.s(0)
-
-# Apply T gate (45° phase)
-qc.t(0)
-
-# Can also use parameterized phase
-qc.p(np.pi/3, 0)  # Arbitrary phase
-
-print(qc.draw())`,
+      circuit: lessonCircuit(1, [gate('H', [0]), gate('S', [0]), gate('T', [0]), gate('Rz', [0], [], Math.PI / 3)]),
       exercise: 'Verify that applying S gate 4 times is equivalent to identity (S⁴ = I).'
     }
   },
@@ -159,25 +131,7 @@ print(qc.draw())`,
 **Universal Decomposition:**
 Any single-qubit unitary U can be written as:
 U = e^(iα) Rz(β) Ry(γ) Rz(δ)`,
-      qiskit: `from qiskit import QuantumCircuit
-import numpy as np
-
-qc = QuantumCircuit(1)
-
-# Rotation gates with angle in radians
-qc.rx(np.pi/4, 0)   # 45° around X
-qc.ry(np.pi/2, 0)   # 90° around Y  
-qc.rz(np.pi, 0)     # 180° around Z
-
-# Equivalent to X gate
-qc2 = QuantumCircuit(1)
-qc2.rx(np.pi, 0)
-
-# Universal decomposition example
-qc3 = QuantumCircuit(1)
-qc3.rz(0.5, 0)
-qc3.ry(0.3, 0)
-qc3.rz(0.7, 0)`,
+      circuit: lessonCircuit(1, [gate('Rx', [0], [], Math.PI / 4), gate('Ry', [0], [], Math.PI / 2), gate('Rz', [0], [], Math.PI)]),
       exercise: 'Find rotation angles to transform |0⟩ to the state (|0⟩ + i|1⟩)/√2.'
     }
   },
@@ -205,23 +159,7 @@ This is maximally entangled - measuring one qubit instantly determines the other
 
 **Universal Computing:**
 CNOT + single-qubit gates = universal quantum computing`,
-      qiskit: `from qiskit import QuantumCircuit
-
-# Create Bell state
-qc = QuantumCircuit(2, 2)
-qc.h(0)        # Superposition on qubit 0
-qc.cx(0, 1)    # CNOT with control=0, target=1
-qc.measure([0,1], [0,1])
-
-print(qc.draw())
-# Output: ~{'00': 500, '11': 500}
-
-# GHZ state (3-qubit entanglement)
-ghz = QuantumCircuit(3)
-ghz.h(0)
-ghz.cx(0, 1)
-ghz.cx(1, 2)
-# Creates (|000⟩ + |111⟩)/√2`,
+      circuit: lessonCircuit(2, [gate('H', [0]), gate('CNOT', [1], [0])]),
       exercise: 'Create a circuit that produces the Bell state (|01⟩ + |10⟩)/√2.'
     }
   },
@@ -250,38 +188,7 @@ ghz.cx(1, 2)
 - Often decomposed into CNOT and single-qubit gates
 - Requires ~6 CNOTs for standard decomposition
 - Used in quantum error correction`,
-      qiskit: `from qiskit import QuantumCircuit
-
-# Toffoli gate
-qc = QuantumCircuit(3)
-qc.ccx(0, 1, 2)  # Control: 0,1; Target: 2
-
-# Implementing AND gate
-and_gate = QuantumCircuit(3)
-# Set inputs (example: both 1)
-and_gate.x(0)
-and_gate.x(1)
-# Apply Toffoli
-and_gate.ccx(0, 1, 2)
-# Qubit 2 now contains AND of inputs
-
-# Decomposition into basic gates
-decomposed = QuantumCircuit(3)
-decomposed.h(2)
-decomposed.cx(1, 2)
-decomposed.tdg(2)
-decomposed.cx(0, 2)
-decomposed.t(2)
-decomposed.cx(1, 2)
-decomposed.tdg(2)
-decomposed.cx(0, 2)
-decomposed.t(1)
-decomposed.t(2)
-decomposed.h(2)
-decomposed.cx(0, 1)
-decomposed.t(0)
-decomposed.tdg(1)
-decomposed.cx(0, 1)`,
+      circuit: lessonCircuit(3, [gate('X', [0]), gate('X', [1]), gate('CCX', [2], [0, 1])]),
       exercise: 'Implement a full adder circuit using Toffoli and CNOT gates.'
     }
   }
@@ -321,7 +228,7 @@ const GateTutorial = () => {
     <div className="min-h-screen bg-background">
       <Helmet>
         <title>Gate Tutorial | QuantumNoise</title>
-        <meta name="description" content="Learn quantum gates with interactive tutorials and Qiskit code examples" />
+        <meta name="description" content="Learn quantum gates with interactive tutorials and Qiskit, Cirq and PennyLane code examples" />
       </Helmet>
       
       <Navigation />
@@ -332,7 +239,7 @@ const GateTutorial = () => {
             Quantum Gate Tutorial
           </h1>
           <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-            Master quantum gates from fundamentals to advanced concepts with Qiskit examples
+            Master quantum gates from fundamentals to advanced concepts with Qiskit, Cirq and PennyLane examples
           </p>
         </div>
 
@@ -383,9 +290,9 @@ const GateTutorial = () => {
                       <Lightbulb className="w-4 h-4" />
                       Theory
                     </TabsTrigger>
-                    <TabsTrigger value="qiskit" className="flex items-center gap-2">
+                    <TabsTrigger value="code" className="flex items-center gap-2">
                       <Code className="w-4 h-4" />
-                      Qiskit Code
+                      Code
                     </TabsTrigger>
                     <TabsTrigger value="exercise" className="flex items-center gap-2">
                       <Zap className="w-4 h-4" />
@@ -405,22 +312,10 @@ const GateTutorial = () => {
                     </div>
                   </TabsContent>
                   
-                  <TabsContent value="qiskit" className="mt-6">
-                    <div className="relative">
-                      <pre className="bg-muted/50 p-4 rounded-lg overflow-x-auto text-sm font-mono">
-                        <code className="text-foreground">{selectedLesson.content.qiskit}</code>
-                      </pre>
-                      <Button 
-                        size="sm" 
-                        variant="outline" 
-                        className="absolute top-2 right-2"
-                        onClick={() => navigator.clipboard.writeText(selectedLesson.content.qiskit)}
-                      >
-                        Copy
-                      </Button>
-                    </div>
+                  <TabsContent value="code" className="mt-6">
+                    <SdkCodePanel circuit={selectedLesson.content.circuit} />
                     <p className="text-sm text-muted-foreground mt-4">
-                      Run this code in IBM Quantum Lab or your local Qiskit installation.
+                      Run this code in IBM Quantum Lab, Google Colab or a local Python install with the SDK.
                     </p>
                   </TabsContent>
                   
@@ -1,11 +1,35 @@
 import { useState, useMemo } from 'react';
 import { Helmet } from 'react-helmet-async';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Waves, CircleDot, Shuffle, Target } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, ScatterChart, Scatter, ZAxis } from 'recharts';
+import { ArrowLeft, Waves, CircleDot, Shuffle, Target, Thermometer } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, ScatterChart, Scatter, ZAxis, ReferenceLine } from 'recharts';
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import QuantumBackground from '@/components/QuantumBackground';
+import NoiseModelFileControls from '@/components/NoiseModelFileControls';
+import KrausChannelEditor from '@/components/KrausChannelEditor';
+import { abs } from '@/lib/quantum/complex';
+import { gateMatrix } from '@/lib/quantum/gates';
+import { applyGate, zeroState } from '@/lib/quantum/state-vector';
+import {
+  KrausChannel,
+  applyChannel,
+  densityBlochVector,
+  densityFromState,
+  fidelityWithState,
+  purity,
+  reducedQubit
+} from '@/lib/quantum/density-matrix';
+import {
+  amplitudeDamping,
+  depolarizing,
+  phaseDamping,
+  relaxationTimesError,
+  thermalPopulation,
+  thermalRelaxation
+} from '@/lib/quantum/noise-channels';
+import { DEFAULT_NOISE_MODEL } from '@/lib/quantum/noisy-circuit';
+import { NoiseModelFile, averageGate, averageQubit, fromNoiseModel } from '@/lib/quantum/noise-model-file';
 
 interface BlochPoint {
   x: number;
@@ -14,11 +38,60 @@ interface BlochPoint {
   label: string;
 }
 
+type ChannelId = 'depolarizing' | 'amplitude' | 'phase';
+
+const channelIds: ChannelId[] = ['depolarizing', 'amplitude', 'phase'];
+
+const channelFor = (id: string, p: number): KrausChannel =>
+  id === 'depolarizing' ? depolarizing(p) : id === 'amplitude' ? amplitudeDamping(p) : phaseDamping(p);
+
+// Every plot starts from |+⟩ = (|0⟩ + |1⟩)/√2, Bloch vector (1, 0, 0)
+const plusVector = applyGate(zeroState(1), gateMatrix('H'), [0]);
+const plusState = densityFromState(plusVector);
+const oneState = densityFromState(applyGate(zeroState(1), gateMatrix('X'), [0]));
+
+const evolve = (state: typeof plusState, channels: KrausChannel[]) =>
+  channels.reduce((dm, channel) => applyChannel(dm, channel, [0]), state);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
 const NoiseModels = () => {
   const [depolarizingP, setDepolarizingP] = useState(0.1);
   const [amplitudeDampingGamma, setAmplitudeDampingGamma] = useState(0.2);
   const [phaseDampingLambda, setPhaseDampingLambda] = useState(0.15);
   const [time, setTime] = useState(1);
+  const [t1, setT1] = useState(50);
+  const [t2, setT2] = useState(70);
+  const [gateTime, setGateTime] = useState(50);
+  const [temperature, setTemperature] = useState(50);
+  const [qubitFrequency, setQubitFrequency] = useState(5);
+
+  const relaxationError = relaxationTimesError(t1, t2);
+  const excitedPopulation = thermalPopulation(qubitFrequency, temperature);
+  const maxTime = 3 * t1;
+  const elapsed = Math.min(time, maxTime);
+
+  // One qubit with the depolarizing rate as its gate error
+  const exportNoiseFile = () =>
+    fromNoiseModel(
+      { ...DEFAULT_NOISE_MODEL, singleQubitError: depolarizingP, t1, t2, layerTime: gateTime / 1000 },
+      1,
+      { name: 'noise-models', temperature, frequency: qubitFrequency, gateDuration: gateTime }
+    );
+
+  const importNoiseFile = (file: NoiseModelFile) => {
+    const qubit = averageQubit(file);
+    const single = averageGate(file, 'single');
+    // Kept inside the sliders' ranges
+    setT1(clamp(qubit.t1, 5, 300));
+    setT2(clamp(qubit.t2, 5, 600));
+    if (qubit.frequency !== null) setQubitFrequency(clamp(qubit.frequency, 3, 8));
+    if (file.temperature !== undefined) setTemperature(clamp(file.temperature, 0, 200));
+    if (single) {
+      setDepolarizingP(clamp(single.error, 0, 0.75));
+      if (single.duration > 0) setGateTime(clamp(single.duration, 10, 1000));
+    }
+  };
 
   const noiseModels = [
     {
@@ -47,36 +120,38 @@ const NoiseModels = () => {
     },
   ];
 
-  // Generate fidelity decay over time
+  // Fidelity with |+⟩ after the channel is applied again and again
   const fidelityData = useMemo(() => {
-    const times = Array.from({ length: 50 }, (_, i) => i * 0.1);
-    return times.map(t => ({
-      time: t.toFixed(1),
-      depolarizing: Math.exp(-depolarizingP * t) * 100,
-      amplitude: (1 - amplitudeDampingGamma * (1 - Math.exp(-t))) * 100,
-      phase: Math.exp(-phaseDampingLambda * t) * 100,
-    }));
+    const params = { depolarizing: depolarizingP, amplitude: amplitudeDampingGamma, phase: phaseDampingLambda };
+    const states = { depolarizing: plusState, amplitude: plusState, phase: plusState };
+    return Array.from({ length: 21 }, (_, n) => {
+      const point = {
+        applications: n,
+        depolarizing: fidelityWithState(states.depolarizing, plusVector) * 100,
+        amplitude: fidelityWithState(states.amplitude, plusVector) * 100,
+        phase: fidelityWithState(states.phase, plusVector) * 100,
+      };
+      channelIds.forEach(id => {
+        states[id] = applyChannel(states[id], channelFor(id, params[id]), [0]);
+      });
+      return point;
+    });
   }, [depolarizingP, amplitudeDampingGamma, phaseDampingLambda]);
 
-  // Bloch vector components over parameter sweep
+  // Bloch vector components of |+⟩ after one use of each channel, over a parameter sweep
   const blochComponentData = useMemo(() => {
     const params = Array.from({ length: 21 }, (_, i) => i * 0.05);
     return params.map(p => {
-      // Starting state |+⟩ = (|0⟩ + |1⟩)/√2, Bloch vector (1, 0, 0)
-      const depX = 1 - (4 * p / 3); // Shrinks uniformly
-      const ampX = Math.sqrt(1 - p); // Amplitude damping effect on x
-      const ampZ = p; // Shifts toward |0⟩
-      const phaseX = 1 - p; // Phase damping destroys x coherence
-      
+      const dep = densityBlochVector(applyChannel(plusState, depolarizing(p), [0]), 0);
+      const amp = densityBlochVector(applyChannel(plusState, amplitudeDamping(p), [0]), 0);
+      const phase = densityBlochVector(applyChannel(plusState, phaseDamping(p), [0]), 0);
+
       return {
         param: p.toFixed(2),
-        depX: Math.max(0, depX),
-        depY: 0,
-        depZ: 0,
-        ampX: Math.max(0, ampX),
-        ampZ: Math.min(1, ampZ),
-        phaseX: Math.max(0, phaseX),
-        phaseZ: 0,
+        depX: dep.x,
+        ampX: amp.x,
+        ampZ: amp.z,
+        phaseX: phase.x,
       };
     });
   }, []);
@@ -84,19 +159,12 @@ const NoiseModels = () => {
   // Purity decay comparison
   const purityData = useMemo(() => {
     const params = Array.from({ length: 21 }, (_, i) => i * 0.05);
-    return params.map(p => {
-      // Purity = Tr(ρ²)
-      const depPurity = 1 - (8 * p / 9) * (1 - p / 3);
-      const ampPurity = 1 - p * (1 - p);
-      const phasePurity = 1 - p / 2;
-      
-      return {
-        param: p.toFixed(2),
-        depolarizing: Math.max(0.5, depPurity) * 100,
-        amplitude: Math.max(0.5, ampPurity) * 100,
-        phase: Math.max(0.5, phasePurity) * 100,
-      };
-    });
+    return params.map(p => ({
+      param: p.toFixed(2),
+      depolarizing: purity(applyChannel(plusState, depolarizing(p), [0])) * 100,
+      amplitude: purity(applyChannel(plusState, amplitudeDamping(p), [0])) * 100,
+      phase: purity(applyChannel(plusState, phaseDamping(p), [0])) * 100,
+    }));
   }, []);
 
   // Bloch sphere 2D projection data
@@ -105,49 +173,60 @@ const NoiseModels = () => {
     
     // Original state (|+⟩)
     points.push({ x: 1, z: 0, size: 200, category: 'Original' });
-    
-    // Depolarizing channel effect
-    const depScale = 1 - (4 * depolarizingP / 3);
-    points.push({ x: Math.max(0, depScale), z: 0, size: 150, category: 'Depolarizing' });
-    
-    // Amplitude damping effect
-    const ampX = Math.sqrt(1 - amplitudeDampingGamma);
-    const ampZ = amplitudeDampingGamma;
-    points.push({ x: ampX, z: ampZ, size: 150, category: 'Amplitude' });
-    
-    // Phase damping effect
-    const phaseX = 1 - phaseDampingLambda;
-    points.push({ x: Math.max(0, phaseX), z: 0, size: 150, category: 'Phase' });
+
+    const categories = { depolarizing: 'Depolarizing', amplitude: 'Amplitude', phase: 'Phase' };
+    const params = { depolarizing: depolarizingP, amplitude: amplitudeDampingGamma, phase: phaseDampingLambda };
+    channelIds.forEach(id => {
+      const bloch = densityBlochVector(applyChannel(plusState, channelFor(id, params[id]), [0]), 0);
+      points.push({ x: bloch.x, z: bloch.z, size: 150, category: categories[id] });
+    });
     
     return points;
   }, [depolarizingP, amplitudeDampingGamma, phaseDampingLambda]);
 
+  // |1⟩ population and |+⟩ coherence under thermal relaxation over real time (µs)
+  const thermalData = useMemo(() => {
+    if (relaxationError) return [];
+    return Array.from({ length: 61 }, (_, i) => {
+      const t = (i / 60) * maxTime;
+      const channels = thermalRelaxation(t1, t2, t, excitedPopulation);
+      const [, [, rho11]] = reducedQubit(evolve(oneState, channels), 0);
+      const [[, rho01]] = reducedQubit(evolve(plusState, channels), 0);
+      return { time: t, population: rho11.re * 100, coherence: 2 * abs(rho01) * 100 };
+    });
+  }, [t1, t2, excitedPopulation, maxTime, relaxationError]);
+
+  // The same channel over one gate and at the chosen time
+  const thermalSummary = useMemo(() => {
+    if (relaxationError) return null;
+    const gate = gateTime / 1000;
+    const atTime = thermalRelaxation(t1, t2, elapsed, excitedPopulation);
+    const [, [, rho11]] = reducedQubit(evolve(oneState, atTime), 0);
+    const [[, rho01]] = reducedQubit(evolve(plusState, atTime), 0);
+    return {
+      gamma: 1 - Math.exp(-gate / t1),
+      lambda: 1 - Math.exp(-2 * gate * Math.max(0, 1 / t2 - 1 / (2 * t1))),
+      // 1 - average gate fidelity of T1/T2 decay over the gate, at zero temperature
+      gateError: 1 - (1 / 2 + Math.exp(-gate / t1) / 6 + Math.exp(-gate / t2) / 3),
+      population: rho11.re * 100,
+      coherence: 2 * abs(rho01) * 100,
+    };
+  }, [t1, t2, gateTime, elapsed, excitedPopulation, relaxationError]);
+
   // Calculate current state properties
   const stateProperties = useMemo(() => {
     return noiseModels.map((model, idx) => {
-      let purity, coherence, population;
       const params = [depolarizingP, amplitudeDampingGamma, phaseDampingLambda];
       const p = params[idx];
-      
-      if (model.id === 'depolarizing') {
-        purity = 1 - (8 * p / 9) * (1 - p / 3);
-        coherence = 1 - (4 * p / 3);
-        population = 0.5;
-      } else if (model.id === 'amplitude') {
-        purity = 1 - p * (1 - p);
-        coherence = Math.sqrt(1 - p);
-        population = p;
-      } else {
-        purity = 1 - p / 2;
-        coherence = 1 - p;
-        population = 0.5;
-      }
-      
+      const dm = applyChannel(plusState, channelFor(model.id, p), [0]);
+      const [[, rho01], [, rho11]] = reducedQubit(dm, 0);
+
       return {
         ...model,
-        purity: Math.max(0.5, purity) * 100,
-        coherence: Math.max(0, coherence) * 100,
-        population: population * 100,
+        purity: purity(dm) * 100,
+        // l1-norm of coherence, 2|ρ₀₁|, which is 1 for |+⟩
+        coherence: 2 * abs(rho01) * 100,
+        population: rho11.re * 100,
         param: p,
       };
     });
@@ -222,7 +301,15 @@ const NoiseModels = () => {
 
             {/* Controls */}
             <div className="glass p-6 rounded-2xl mb-8">
-              <h3 className="text-lg font-semibold mb-4 text-foreground">Noise Parameters</h3>
+              <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                <h3 className="text-lg font-semibold text-foreground">Noise Parameters</h3>
+                <NoiseModelFileControls
+                  exportFile={exportNoiseFile}
+                  onImport={importNoiseFile}
+                  note="Imports average the file's qubits and one-qubit gates into T₁, T₂, gate time, frequency and depolarizing p."
+                  className="max-w-md"
+                />
+              </div>
               <div className="grid md:grid-cols-3 gap-8">
                 <div>
                   <div className="flex justify-between items-center mb-3">
@@ -285,9 +372,9 @@ const NoiseModels = () => {
               </TabsList>
 
               <TabsContent value="fidelity" className="glass p-6 rounded-2xl">
-                <h3 className="text-lg font-semibold mb-4 text-foreground">Fidelity Decay Over Time</h3>
+                <h3 className="text-lg font-semibold mb-4 text-foreground">Fidelity Decay Under Repeated Noise</h3>
                 <p className="text-sm text-muted-foreground mb-6">
-                  How state fidelity decreases under continuous noise application
+                  Fidelity ⟨+|ρ|+⟩ after applying each channel n times to the density matrix
                 </p>
                 <ResponsiveContainer width="100%" height={400}>
                   <AreaChart data={fidelityData}>
@@ -307,9 +394,9 @@ const NoiseModels = () => {
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" opacity={0.3} />
                     <XAxis 
-                      dataKey="time" 
+                      dataKey="applications" 
                       stroke="hsl(var(--muted-foreground))"
-                      label={{ value: 'Time (a.u.)', position: 'bottom', fill: 'hsl(var(--muted-foreground))' }}
+                      label={{ value: 'Channel Applications', position: 'bottom', fill: 'hsl(var(--muted-foreground))' }}
                     />
                     <YAxis 
                       stroke="hsl(var(--muted-foreground))"
@@ -382,7 +469,7 @@ const NoiseModels = () => {
                     <YAxis 
                       stroke="hsl(var(--muted-foreground))"
                       label={{ value: 'Component Value', angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))' }}
-                      domain={[0, 1]}
+                      domain={[-0.5, 1]}
                     />
                     <Tooltip 
                       contentStyle={{ 
@@ -457,6 +544,172 @@ const NoiseModels = () => {
               </TabsContent>
             </Tabs>
 
+            {/* Thermal Relaxation */}
+            <div className="glass p-6 rounded-2xl mt-8">
+              <h3 className="text-lg font-semibold mb-2 text-foreground flex items-center gap-2">
+                <Thermometer className="w-5 h-5 text-primary" />
+                Thermal Relaxation from T₁ and T₂
+              </h3>
+              <p className="text-sm text-muted-foreground mb-6">
+                Generalized amplitude damping toward the thermal excited-state population, plus the pure dephasing
+                that makes up the rest of 1/T₂, for a qubit idling in real time
+              </p>
+              <div className="grid md:grid-cols-3 gap-8 mb-6">
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-medium text-foreground">T₁</label>
+                    <span className="text-sm font-mono text-primary">{t1} μs</span>
+                  </div>
+                  <Slider
+                    value={[t1]}
+                    onValueChange={([v]) => setT1(v)}
+                    min={5}
+                    max={300}
+                    step={5}
+                  />
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-medium text-foreground">T₂</label>
+                    <span className="text-sm font-mono text-primary">{t2} μs</span>
+                  </div>
+                  <Slider
+                    value={[t2]}
+                    onValueChange={([v]) => setT2(v)}
+                    min={5}
+                    max={600}
+                    step={5}
+                  />
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-medium text-foreground">Gate Time</label>
+                    <span className="text-sm font-mono text-primary">{gateTime} ns</span>
+                  </div>
+                  <Slider
+                    value={[gateTime]}
+                    onValueChange={([v]) => setGateTime(v)}
+                    min={10}
+                    max={1000}
+                    step={10}
+                  />
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-medium text-foreground">Temperature</label>
+                    <span className="text-sm font-mono text-primary">{temperature} mK</span>
+                  </div>
+                  <Slider
+                    value={[temperature]}
+                    onValueChange={([v]) => setTemperature(v)}
+                    min={0}
+                    max={200}
+                    step={5}
+                  />
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-medium text-foreground">Qubit Frequency</label>
+                    <span className="text-sm font-mono text-primary">{qubitFrequency.toFixed(1)} GHz</span>
+                  </div>
+                  <Slider
+                    value={[qubitFrequency]}
+                    onValueChange={([v]) => setQubitFrequency(v)}
+                    min={3}
+                    max={8}
+                    step={0.1}
+                  />
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-medium text-foreground">Elapsed Time</label>
+                    <span className="text-sm font-mono text-primary">{elapsed.toFixed(1)} μs</span>
+                  </div>
+                  <Slider
+                    value={[elapsed]}
+                    onValueChange={([v]) => setTime(v)}
+                    min={0}
+                    max={maxTime}
+                    step={0.5}
+                  />
+                </div>
+              </div>
+
+              {relaxationError ? (
+                <p className="text-sm text-destructive">{relaxationError}: energy decay alone dephases at 1/(2·T₁).</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6 text-center">
+                    <div>
+                      <p className="text-lg font-bold text-primary font-mono">{(excitedPopulation * 100).toFixed(2)}%</p>
+                      <p className="text-xs text-muted-foreground">Thermal |1⟩ Pop.</p>
+                    </div>
+                    <div>
+                      <p className="text-lg font-bold text-accent font-mono">{thermalSummary.gamma.toExponential(2)}</p>
+                      <p className="text-xs text-muted-foreground">γ per gate</p>
+                    </div>
+                    <div>
+                      <p className="text-lg font-bold text-warning font-mono">{thermalSummary.lambda.toExponential(2)}</p>
+                      <p className="text-xs text-muted-foreground">λ per gate</p>
+                    </div>
+                    <div>
+                      <p className="text-lg font-bold text-foreground font-mono">{thermalSummary.gateError.toExponential(2)}</p>
+                      <p className="text-xs text-muted-foreground">Gate Error (1 - F̄)</p>
+                    </div>
+                    <div>
+                      <p className="text-lg font-bold text-foreground font-mono">{thermalSummary.population.toFixed(1)}%</p>
+                      <p className="text-xs text-muted-foreground">|1⟩ Pop. at {elapsed.toFixed(1)} μs</p>
+                    </div>
+                    <div>
+                      <p className="text-lg font-bold text-foreground font-mono">{thermalSummary.coherence.toFixed(1)}%</p>
+                      <p className="text-xs text-muted-foreground">Coherence at {elapsed.toFixed(1)} μs</p>
+                    </div>
+                  </div>
+
+                  <ResponsiveContainer width="100%" height={360}>
+                    <LineChart data={thermalData} margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" opacity={0.3} />
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        domain={[0, maxTime]}
+                        stroke="hsl(var(--muted-foreground))"
+                        tickFormatter={(v: number) => v.toFixed(0)}
+                        label={{ value: 'Time (μs)', position: 'bottom', fill: 'hsl(var(--muted-foreground))' }}
+                      />
+                      <YAxis
+                        stroke="hsl(var(--muted-foreground))"
+                        domain={[0, 100]}
+                        label={{ value: '%', angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))' }}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '12px',
+                        }}
+                        labelFormatter={(t: number) => `${t.toFixed(1)} μs`}
+                        formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+                      />
+                      <Legend verticalAlign="top" />
+                      <ReferenceLine x={elapsed} stroke="hsl(var(--foreground))" strokeDasharray="4 4" />
+                      <ReferenceLine
+                        y={excitedPopulation * 100}
+                        stroke="hsl(var(--accent))"
+                        strokeDasharray="2 4"
+                        label={{ value: 'Thermal', fill: 'hsl(var(--accent))', position: 'insideTopRight' }}
+                      />
+                      <Line type="monotone" dataKey="population" name="|1⟩ population (from |1⟩)" stroke="hsl(var(--accent))" strokeWidth={2} dot={false} />
+                      <Line type="monotone" dataKey="coherence" name="Coherence 2|ρ₀₁| (from |+⟩)" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </>
+              )}
+            </div>
+
+            {/* Custom Channel */}
+            <KrausChannelEditor />
+
             {/* Key Differences */}
             <div className="glass p-6 rounded-2xl mt-8">
               <h3 className="text-lg font-semibold mb-4 text-foreground">Physical Interpretation</h3>
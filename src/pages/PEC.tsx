@@ -0,0 +1,492 @@
+import { useState, useMemo } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { ArrowLeft, Info } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { ComposedChart, Scatter, ErrorBar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip as UITooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import QuantumBackground from '@/components/QuantumBackground';
+import SeedControl from '@/components/SeedControl';
+import MitigationCircuitControls from '@/components/MitigationCircuitControls';
+import { createRandom } from '@/lib/random';
+import { useSeed } from '@/hooks/use-seed';
+import { useMitigationCircuit } from '@/hooks/use-mitigation-circuit';
+import { formatObservable } from '@/lib/quantum/benchmark-circuits';
+import { DEFAULT_NOISE_MODEL, NoiseModel, noisyDistribution } from '@/lib/quantum/noisy-circuit';
+import { normalizeCounts, sampleDistribution, zExpectation } from '@/lib/quantum/distributions';
+import { idealExpectation, measureAdaptively, measureWithShotBudget, runFoldedCircuits } from '@/lib/quantum/zne';
+import {
+  DEFAULT_EXTRAPOLATOR_OPTIONS,
+  ExtrapolatorId,
+  bootstrapExtrapolation,
+  extrapolators,
+  runExtrapolator
+} from '@/lib/quantum/extrapolation';
+import { PAULIS, inversePauliChannel, quasiOverhead, runPec } from '@/lib/quantum/pec';
+
+type NoiseType = 'depolarizing' | 'pauli';
+
+// Scale factors of the ZNE run PEC is compared against
+const ZNE_SCALES = [1, 2, 3];
+
+const formatEstimate = (value: number) => (Number.isFinite(value) ? value.toFixed(4) : '—');
+
+const PEC = () => {
+  const [gateError, setGateError] = useState(0.01);
+  const [noiseType, setNoiseType] = useState<NoiseType>('depolarizing');
+  const [pauliWeights, setPauliWeights] = useState<[number, number, number]>([0.2, 0.2, 0.6]);
+  const [idleRelaxation, setIdleRelaxation] = useState(false);
+  const [numCircuits, setNumCircuits] = useState(500);
+  const [shotBudget, setShotBudget] = useState(20000);
+  const [extrapolatorId, setExtrapolatorId] = useState<ExtrapolatorId>('richardson');
+  const { seed, setSeed, rerollSeed } = useSeed();
+  const circuit = useMitigationCircuit();
+  const { buildExperiment } = circuit;
+  const extrapolator = extrapolators.find(e => e.id === extrapolatorId)!;
+
+  // The characterized gate noise; idle relaxation, when on, is noise the
+  // PEC representation does not know about
+  const noise: NoiseModel = useMemo(() => {
+    const total = pauliWeights.reduce((a, b) => a + b, 0);
+    return {
+      ...DEFAULT_NOISE_MODEL,
+      singleQubitError: gateError,
+      multiQubitError: 2 * gateError,
+      layerTime: idleRelaxation ? DEFAULT_NOISE_MODEL.layerTime : 0,
+      readoutError: 0,
+      pauliBias: noiseType === 'pauli' && total > 0
+        ? [pauliWeights[0] / total, pauliWeights[1] / total, pauliWeights[2] / total]
+        : undefined,
+    };
+  }, [gateError, noiseType, pauliWeights, idleRelaxation]);
+
+  const experiment = useMemo(() => {
+    const built = buildExperiment(createRandom(seed));
+    return { ...built, ideal: built.error ? 0 : idealExpectation(built.gates, built.numQubits, built.observable) };
+  }, [buildExperiment, seed]);
+
+  // The whole budget on the circuit as it is
+  const unmitigated = useMemo(() => {
+    if (experiment.error) return { value: NaN, standardError: NaN };
+    const { distribution } = noisyDistribution(experiment.gates, experiment.numQubits, 0, noise);
+    const counts = sampleDistribution(distribution, shotBudget, createRandom(seed + 1));
+    const value = zExpectation(normalizeCounts(counts), experiment.observable);
+    return { value, standardError: Math.sqrt(Math.max(0, 1 - value * value) / shotBudget) };
+  }, [experiment, noise, shotBudget, seed]);
+
+  // The same budget split uniformly over folded circuits
+  const zne = useMemo(() => {
+    if (experiment.error) return { value: NaN, lower: NaN, upper: NaN };
+    const random = createRandom(seed + 2);
+    // The adaptive extrapolator picks its own scale factors within the budget
+    const points = extrapolator.choosesScales
+      ? measureAdaptively(
+        experiment.gates, experiment.numQubits, experiment.observable, 'global', noise,
+        shotBudget, extrapolator, DEFAULT_EXTRAPOLATOR_OPTIONS, random
+      ).points
+      : measureWithShotBudget(
+        runFoldedCircuits(experiment.gates, experiment.numQubits, ZNE_SCALES, 'global', noise, random),
+        experiment.observable, shotBudget, 'uniform', extrapolator, DEFAULT_EXTRAPOLATOR_OPTIONS, random
+      );
+    const x = points.map(p => p.scale);
+    const y = points.map(p => p.expectation);
+    const fit = runExtrapolator(extrapolator, x, y, DEFAULT_EXTRAPOLATOR_OPTIONS);
+    const interval = bootstrapExtrapolation(
+      extrapolator, x, y, points.map(p => p.standardError), DEFAULT_EXTRAPOLATOR_OPTIONS, [], createRandom(seed + 3)
+    );
+    return { value: fit.zeroNoiseValue, lower: interval.lower, upper: interval.upper };
+  }, [experiment, noise, shotBudget, extrapolator, seed]);
+
+  // And split again over sampled PEC circuits, at least one shot each
+  const sampledCircuits = Math.min(numCircuits, shotBudget);
+  const pec = useMemo(() => {
+    if (experiment.error) return null;
+    return runPec(
+      experiment.gates, experiment.numQubits, experiment.observable, noise, sampledCircuits, shotBudget, createRandom(seed + 4)
+    );
+  }, [experiment, noise, sampledCircuits, shotBudget, seed]);
+
+  const idealValue = experiment.ideal;
+  const pecError = pec?.error ?? null;
+
+  // 95% intervals as [below, above] offsets for the error bars
+  const comparisonData = [
+    {
+      method: 'Unmitigated',
+      value: unmitigated.value,
+      interval: [1.96 * unmitigated.standardError, 1.96 * unmitigated.standardError],
+      color: 'hsl(var(--muted-foreground))',
+    },
+    {
+      method: `ZNE (${extrapolator.label})`,
+      value: zne.value,
+      interval: [zne.value - zne.lower, zne.upper - zne.value],
+      color: 'hsl(var(--accent))',
+    },
+    {
+      method: 'PEC',
+      value: pec?.estimate ?? NaN,
+      interval: [1.96 * (pec?.standardError ?? 0), 1.96 * (pec?.standardError ?? 0)],
+      color: 'hsl(var(--primary))',
+    },
+  ].filter(d => Number.isFinite(d.value));
+
+  // Representation of the inverse noise after one- and multi-qubit gates
+  const representations = [
+    { label: '1-qubit gates', p: gateError },
+    { label: 'Multi-qubit gates (per qubit)', p: 2 * gateError },
+  ].map(({ label, p }) => {
+    const [bx, by, bz] = noise.pauliBias ?? [1 / 3, 1 / 3, 1 / 3];
+    const quasi = inversePauliChannel([p * bx, p * by, p * bz]);
+    return { label, quasi, overhead: quasi ? quasiOverhead(quasi) : NaN };
+  });
+
+  const gamma = pec?.gamma ?? NaN;
+
+  return (
+    <>
+      <Helmet>
+        <title>Probabilistic Error Cancellation | QuantumNoise</title>
+        <meta name="description" content="Probabilistic error cancellation with quasi-probability decompositions of Pauli noise, sampling overhead and a head-to-head comparison with ZNE." />
+      </Helmet>
+
+      <main className="relative min-h-screen bg-background overflow-x-hidden">
+        <QuantumBackground />
+
+        {/* Header */}
+        <header className="relative z-10 pt-8 px-4">
+          <div className="container mx-auto max-w-6xl">
+            <Link to="/" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-6 group">
+              <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+              Back to Home
+            </Link>
+
+            <div className="text-center mb-10">
+              <h1 className="text-4xl md:text-5xl font-bold mb-4">
+                <span className="text-gradient">Probabilistic</span> Error Cancellation
+              </h1>
+              <p className="text-muted-foreground max-w-2xl mx-auto">
+                Undo characterized gate noise on average by sampling circuits from a quasi-probability distribution
+              </p>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <section className="relative z-10 py-8 px-4">
+          <div className="container mx-auto max-w-6xl">
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* Controls Panel */}
+              <Card className="glass border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    Parameters
+                    <UITooltip>
+                      <TooltipTrigger>
+                        <Info className="w-4 h-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">PEC, ZNE and the unmitigated run all get the same circuit, noise and shot budget</p>
+                      </TooltipContent>
+                    </UITooltip>
+                  </CardTitle>
+                  <CardDescription>Configure simulation parameters</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <MitigationCircuitControls circuit={circuit} />
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium">Characterized Noise</label>
+                    <Select value={noiseType} onValueChange={(v: NoiseType) => setNoiseType(v)}>
+                      <SelectTrigger className="glass">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="depolarizing">Depolarizing</SelectItem>
+                        <SelectItem value="pauli">Biased Pauli</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      Gate Error Rate
+                      <span className="text-primary font-mono">{(gateError * 100).toFixed(1)}%</span>
+                    </label>
+                    <Slider
+                      value={[gateError]}
+                      onValueChange={([v]) => setGateError(v)}
+                      min={0.001}
+                      max={0.05}
+                      step={0.001}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Error per qubit after each 1-qubit gate (twice that for multi-qubit gates)
+                    </p>
+                  </div>
+
+                  {noiseType === 'pauli' && (
+                    <div className="space-y-3">
+                      {(['X', 'Y', 'Z'] as const).map((pauli, i) => (
+                        <div key={pauli} className="space-y-2">
+                          <label className="text-sm font-medium flex items-center justify-between">
+                            {pauli} Error Share
+                            <span className="text-primary font-mono">
+                              {((noise.pauliBias?.[i] ?? 1 / 3) * 100).toFixed(0)}%
+                            </span>
+                          </label>
+                          <Slider
+                            value={[pauliWeights[i]]}
+                            onValueChange={([v]) => setPauliWeights(prev => prev.map((w, j) => (j === i ? v : w)) as [number, number, number])}
+                            min={0}
+                            max={1}
+                            step={0.05}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <label className="text-sm font-medium">Idle Relaxation</label>
+                      <p className="text-xs text-muted-foreground">T1/T2 decay PEC was not told about</p>
+                    </div>
+                    <Switch checked={idleRelaxation} onCheckedChange={setIdleRelaxation} />
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      Total Shot Budget
+                      <span className="text-primary font-mono">{shotBudget.toLocaleString()}</span>
+                    </label>
+                    <Slider
+                      value={[shotBudget]}
+                      onValueChange={([v]) => setShotBudget(v)}
+                      min={1000}
+                      max={100000}
+                      step={1000}
+                    />
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium flex items-center justify-between">
+                      Sampled PEC Circuits
+                      <span className="text-primary font-mono">{sampledCircuits}</span>
+                    </label>
+                    <Slider
+                      value={[numCircuits]}
+                      onValueChange={([v]) => setNumCircuits(v)}
+                      min={100}
+                      max={2000}
+                      step={100}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {shotBudget % sampledCircuits === 0
+                        ? `${shotBudget / sampledCircuits} shots per sampled circuit`
+                        : `${Math.floor(shotBudget / sampledCircuits)}–${Math.ceil(shotBudget / sampledCircuits)} shots per sampled circuit`}
+                      {sampledCircuits < numCircuits && `, capped at one circuit per shot of the budget`}
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium">ZNE Extrapolation</label>
+                    <Select value={extrapolatorId} onValueChange={(v: ExtrapolatorId) => setExtrapolatorId(v)}>
+                      <SelectTrigger className="glass">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {extrapolators.map(e => (
+                          <SelectItem key={e.id} value={e.id}>{e.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Global folding at λ = {ZNE_SCALES.join(', ')}
+                    </p>
+                  </div>
+
+                  <SeedControl seed={seed} onSeedChange={setSeed} onReroll={rerollSeed} />
+                </CardContent>
+              </Card>
+
+              {/* Chart Area */}
+              <div className="lg:col-span-2 space-y-6">
+                <Card className="glass border-border/50">
+                  <CardHeader>
+                    <CardTitle className="text-lg">PEC vs ZNE</CardTitle>
+                    <CardDescription>
+                      ⟨{formatObservable(experiment.observable)}⟩ from {shotBudget.toLocaleString()} shots per method,
+                      with 95% error bars
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {(experiment.error || pecError) && (
+                      <p className="text-sm text-destructive mb-4">{experiment.error ?? pecError}</p>
+                    )}
+                    <div className="h-80">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={comparisonData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                          <XAxis
+                            dataKey="method"
+                            type="category"
+                            stroke="hsl(var(--muted-foreground))"
+                          />
+                          <YAxis
+                            stroke="hsl(var(--muted-foreground))"
+                            domain={['auto', 'auto']}
+                            label={{ value: 'Expectation Value', angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))' }}
+                          />
+                          <Tooltip
+                            contentStyle={{
+                              backgroundColor: 'hsl(var(--card))',
+                              border: '1px solid hsl(var(--border))',
+                              borderRadius: '8px'
+                            }}
+                            formatter={(value: number) => value.toFixed(4)}
+                          />
+                          <ReferenceLine
+                            y={idealValue}
+                            stroke="hsl(var(--success))"
+                            strokeDasharray="5 5"
+                            label={{ value: 'Ideal', fill: 'hsl(var(--success))' }}
+                          />
+                          <Scatter dataKey="value" name="Estimate">
+                            {comparisonData.map(d => (
+                              <Cell key={d.method} fill={d.color} />
+                            ))}
+                            <ErrorBar dataKey="interval" width={8} stroke="hsl(var(--foreground))" direction="y" />
+                          </Scatter>
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Metrics Cards */}
+                <div className="grid sm:grid-cols-3 gap-4">
+                  <Card className="glass border-border/50">
+                    <CardContent className="pt-6 text-center">
+                      <p className="text-sm text-muted-foreground mb-1">PEC Estimate</p>
+                      <p className="text-3xl font-bold text-gradient">{formatEstimate(pec?.estimate ?? NaN)}</p>
+                      <p className="text-xs text-muted-foreground mt-1 font-mono">
+                        ± {formatEstimate(1.96 * (pec?.standardError ?? NaN))} (95%)
+                      </p>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="glass border-border/50">
+                    <CardContent className="pt-6 text-center">
+                      <p className="text-sm text-muted-foreground mb-1">Sampling Overhead γ</p>
+                      <p className="text-3xl font-bold text-primary">{Number.isFinite(gamma) ? gamma.toFixed(3) : '—'}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        γ² = {Number.isFinite(gamma) ? (gamma * gamma).toFixed(2) : '—'}× the shots for the same precision
+                      </p>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="glass border-border/50">
+                    <CardContent className="pt-6 text-center">
+                      <p className="text-sm text-muted-foreground mb-1">Absolute Error</p>
+                      <div className="text-sm font-mono space-y-1 mt-2">
+                        <p>PEC {formatEstimate(Math.abs((pec?.estimate ?? NaN) - idealValue))}</p>
+                        <p>ZNE {formatEstimate(Math.abs(zne.value - idealValue))}</p>
+                        <p className="text-muted-foreground">Raw {formatEstimate(Math.abs(unmitigated.value - idealValue))}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* Quasi-probability table */}
+                <Card className="glass border-border/50">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Quasi-Probability Representation</CardTitle>
+                    <CardDescription>
+                      Inverse noise channel inserted after each gate, per qubit, as signed weights on Paulis.
+                      {pec && !pec.error && ` ${pec.distinctCircuits} distinct circuits among ${sampledCircuits} samples.`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-border/50">
+                            <th className="text-left py-2 px-3 text-muted-foreground">After</th>
+                            {PAULIS.map(p => (
+                              <th key={p} className="text-center py-2 px-3 font-mono">{p}</th>
+                            ))}
+                            <th className="text-center py-2 px-3 text-muted-foreground">Σ|q|</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {representations.map(({ label, quasi, overhead }) => (
+                            <tr key={label} className="border-t border-border/50">
+                              <td className="py-2 px-3 text-muted-foreground">{label}</td>
+                              {PAULIS.map((p, i) => (
+                                <td
+                                  key={p}
+                                  className={`text-center py-2 px-3 font-mono ${quasi && quasi[i].weight < 0 ? 'text-red-400' : 'text-primary'}`}
+                                >
+                                  {quasi ? quasi[i].weight.toFixed(5) : '—'}
+                                </td>
+                              ))}
+                              <td className="text-center py-2 px-3 font-mono">{formatEstimate(overhead)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+
+            {/* Info Section */}
+            <Card className="glass border-border/50 mt-8">
+              <CardHeader>
+                <CardTitle className="text-lg">How Probabilistic Error Cancellation Works</CardTitle>
+              </CardHeader>
+              <CardContent className="prose prose-invert max-w-none">
+                <div className="grid md:grid-cols-3 gap-6 text-sm">
+                  <div>
+                    <h4 className="text-primary font-semibold mb-2">1. Characterize</h4>
+                    <p className="text-muted-foreground">
+                      Learn the noise channel of each gate. A Pauli channel shrinks each Pauli component by a
+                      fidelity f, so its inverse multiplies them by 1/f, which is not a physical channel.
+                    </p>
+                  </div>
+                  <div>
+                    <h4 className="text-primary font-semibold mb-2">2. Decompose</h4>
+                    <p className="text-muted-foreground">
+                      Write the inverse as Σ q·P over Paulis P with some weights q negative. Sampling P with
+                      probability |q|/γ and keeping the sign of q reproduces it on average.
+                    </p>
+                  </div>
+                  <div>
+                    <h4 className="text-primary font-semibold mb-2">3. Reweight</h4>
+                    <p className="text-muted-foreground">
+                      Each sampled circuit's result is multiplied by γ and its sign. The mean is unbiased, but the
+                      variance grows as γ², and γ grows exponentially with the number of gates.
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </section>
+
+        {/* Footer */}
+        <footer className="relative z-10 py-10 px-4 border-t border-border/50 mt-12">
+          <div className="container mx-auto max-w-6xl text-center">
+            <p className="text-sm text-muted-foreground">
+              Probabilistic Error Cancellation Simulator • Quantum Error Mitigation Research
+            </p>
+          </div>
+        </footer>
+      </main>
+    </>
+  );
+};
+
+export default PEC;
@@ -2,148 +2,247 @@ import { useState, useMemo } from 'react';
 import { Helmet } from 'react-helmet-async';
 import { ArrowLeft, Info } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, ReferenceLine } from 'recharts';
+import { ComposedChart, ScatterChart, Line, Area, Scatter, ErrorBar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tooltip as UITooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import QuantumBackground from '@/components/QuantumBackground';
+import SeedControl from '@/components/SeedControl';
+import ScaleFactorEditor from '@/components/ScaleFactorEditor';
+import { createRandom } from '@/lib/random';
+import { useSeed } from '@/hooks/use-seed';
+import { useMitigationCircuit } from '@/hooks/use-mitigation-circuit';
+import MitigationCircuitControls from '@/components/MitigationCircuitControls';
+import NoiseModelFileControls from '@/components/NoiseModelFileControls';
+import { FoldingMethod } from '@/lib/quantum/folding';
+import { formatObservable } from '@/lib/quantum/benchmark-circuits';
+import { DEFAULT_NOISE_MODEL, NoiseModel, noisyDistribution } from '@/lib/quantum/noisy-circuit';
+import { zExpectation } from '@/lib/quantum/distributions';
+import { NoiseModelFile, averageGate, fromNoiseModel } from '@/lib/quantum/noise-model-file';
+import {
+  ADAPTIVE_MAX_STEPS,
+  idealExpectation,
+  measureAdaptively,
+  measureWithShotBudget,
+  runFoldedCircuits
+} from '@/lib/quantum/zne';
+import { countNonClifford, runCdr } from '@/lib/quantum/cdr';
+import { ShotAllocation, estimatorVariance, estimatorWeights, perShotVariance } from '@/lib/quantum/shot-allocation';
+import {
+  DEFAULT_EXTRAPOLATOR_OPTIONS,
+  ExtrapolatorId,
+  bootstrapExtrapolation,
+  extrapolators,
+  runExtrapolator
+} from '@/lib/quantum/extrapolation';
 
-type ExtrapolationMethod = 'linear' | 'polynomial' | 'exponential';
+type MitigationMode = 'zne' | 'cdr';
+
+const formatEstimate = (value: number) => (Number.isFinite(value) ? value.toFixed(4) : '—');
 
 const ZNE = () => {
-  const [baseNoise, setBaseNoise] = useState(0.05);
+  const [mitigationMode, setMitigationMode] = useState<MitigationMode>('zne');
+  const [baseNoise, setBaseNoise] = useState(0.01);
   const [scaleFactors, setScaleFactors] = useState([1, 1.5, 2, 2.5, 3]);
-  const [idealValue, setIdealValue] = useState(1.0);
-  const [extrapolationMethod, setExtrapolationMethod] = useState<ExtrapolationMethod>('polynomial');
-  const [circuitDepth, setCircuitDepth] = useState(10);
-
-  // Generate noisy expectation values based on noise scale
-  const generateNoisyValue = (scale: number, ideal: number, noise: number, depth: number) => {
-    const effectiveNoise = noise * scale * (1 + depth * 0.02);
-    const decay = Math.exp(-effectiveNoise * depth * 0.5);
-    const randomVariation = (Math.random() - 0.5) * 0.02;
-    return ideal * decay + randomVariation;
+  const [extrapolatorId, setExtrapolatorId] = useState<ExtrapolatorId>('polynomial');
+  const [polyOrder, setPolyOrder] = useState(DEFAULT_EXTRAPOLATOR_OPTIONS.order);
+  const [asymptote, setAsymptote] = useState(DEFAULT_EXTRAPOLATOR_OPTIONS.asymptote);
+  const [foldingMethod, setFoldingMethod] = useState<FoldingMethod>('global');
+  const [shotBudget, setShotBudget] = useState(20000);
+  const [shotAllocation, setShotAllocation] = useState<ShotAllocation>('uniform');
+  const [trainingCircuits, setTrainingCircuits] = useState(30);
+  const [keptNonClifford, setKeptNonClifford] = useState(2);
+  const [cdrShots, setCdrShots] = useState(4096);
+  const { seed, setSeed, rerollSeed } = useSeed();
+  const circuit = useMitigationCircuit();
+  const { buildExperiment } = circuit;
+  const extrapolator = extrapolators.find(e => e.id === extrapolatorId)!;
+  // The adaptive extrapolator picks its scale factors while it measures
+  const adaptive = extrapolator.choosesScales;
+
+  // Readout error is not amplified by folding, so it is left out of the model here
+  const noise: NoiseModel = useMemo(
+    () => ({ ...DEFAULT_NOISE_MODEL, singleQubitError: baseNoise, multiQubitError: 2 * baseNoise, readoutError: 0 }),
+    [baseNoise]
+  );
+
+  // Only the gate error survives a round trip; the page keeps its own T1/T2
+  const importNoiseFile = (file: NoiseModelFile) => {
+    const single = averageGate(file, 'single');
+    const multi = averageGate(file, 'multi');
+    const error = single?.error ?? (multi ? multi.error / 2 : null);
+    if (error === null) return;
+    setBaseNoise(Math.min(0.05, Math.max(0.001, Math.round(error * 1000) / 1000)));
   };
 
+  // Fold the circuit to every scale factor and run it on the noisy simulator
+  // (adaptive runs fold as they go instead)
+  const experiment = useMemo(() => {
+    const random = createRandom(seed);
+    const built = buildExperiment(random);
+    const { error, numQubits, gates, observable } = built;
+    if (error) return { ...built, ideal: 0, unfolded: 0, runs: [] };
+
+    return {
+      ...built,
+      ideal: idealExpectation(gates, numQubits, observable),
+      // Exact noisy value of the circuit as given, for when λ = 1 is not measured
+      unfolded: zExpectation(noisyDistribution(gates, numQubits, 0, noise).distribution, observable),
+      runs: mitigationMode === 'zne' && !adaptive
+        ? runFoldedCircuits(gates, numQubits, scaleFactors, foldingMethod, noise, random)
+        : [],
+    };
+  }, [seed, buildExperiment, noise, scaleFactors, foldingMethod, mitigationMode, adaptive]);
+
+  // Requested factors that folded onto the same circuit as another one
+  const collapsedScales = experiment.runs.filter(run => run.requestedScales.length > 1);
+
+  // The order slider can be left above what fewer distinct scales support
+  const maxOrder = Math.max(1, (experiment.runs.length || scaleFactors.length) - 1);
+  const extrapolatorOptions = useMemo(
+    () => ({ order: Math.min(polyOrder, maxOrder), asymptote }),
+    [polyOrder, maxOrder, asymptote]
+  );
+
+  // Clifford Data Regression on the same circuit and noise
+  const nonCliffordCount = useMemo(() => countNonClifford(experiment.gates), [experiment]);
+  const cdr = useMemo(() => {
+    if (mitigationMode !== 'cdr' || experiment.error) return null;
+    return runCdr(
+      experiment.gates, experiment.numQubits, experiment.observable, noise,
+      trainingCircuits, keptNonClifford, cdrShots, createRandom(seed + 1)
+    );
+  }, [mitigationMode, experiment, noise, trainingCircuits, keptNonClifford, cdrShots, seed]);
+
+  // Training pairs with the fitted line across their range
+  const cdrFitLine = useMemo(() => {
+    if (!cdr || cdr.error) return [];
+    const xs = [...cdr.training.map(p => p.noisy), cdr.noisyTarget];
+    return [Math.min(...xs), Math.max(...xs)].map(noisy => ({ noisy, ideal: cdr.slope * noisy + cdr.intercept }));
+  }, [cdr]);
+  const cdrError = cdr ? Math.abs(cdr.mitigated - experiment.ideal) : NaN;
+  const cdrUnmitigatedError = cdr ? Math.abs(cdr.noisyTarget - experiment.ideal) : NaN;
+
+  // Spend the shot budget on the folded runs; only this reruns when the
+  // budget, allocation or extrapolator changes
+  const adaptiveRun = useMemo(() => {
+    if (!adaptive || mitigationMode !== 'zne' || experiment.error) return null;
+    return measureAdaptively(
+      experiment.gates, experiment.numQubits, experiment.observable, foldingMethod, noise,
+      shotBudget, extrapolator, extrapolatorOptions, createRandom(seed + 2)
+    );
+  }, [adaptive, mitigationMode, experiment, foldingMethod, noise, shotBudget, extrapolator, extrapolatorOptions, seed]);
+  const points = useMemo(
+    () => adaptiveRun?.points ?? measureWithShotBudget(
+      experiment.runs, experiment.observable, shotBudget, shotAllocation, extrapolator, extrapolatorOptions, createRandom(seed + 2)
+    ),
+    [adaptiveRun, experiment, shotBudget, shotAllocation, extrapolator, extrapolatorOptions, seed]
+  );
+  const shotsSpent = adaptiveRun?.shotsUsed ?? shotBudget;
+
+  // Noise scales the fitted curve and its confidence band are drawn at
+  const largestScale = adaptive ? Math.max(1, ...points.map(p => p.scale)) : Math.max(...scaleFactors);
+  const xMax = Math.max(3.5, Math.ceil(2 * largestScale) / 2 + 0.5);
+  const fitScales = useMemo(() => Array.from({ length: Math.round(xMax * 10) + 1 }, (_, i) => i / 10), [xMax]);
+
+  const idealValue = experiment.ideal;
+
   // Generate data points for the chart
   const chartData = useMemo(() => {
-    return scaleFactors.map(scale => ({
-      scale,
-      expectation: generateNoisyValue(scale, idealValue, baseNoise, circuitDepth),
+    return points.map(point => ({
+      scale: point.scale,
+      expectation: point.expectation,
+      gateCount: point.gateCount,
+      shots: point.shots,
+      // 95% shot-noise interval
+      errorBar: 1.96 * point.standardError,
     }));
-  }, [scaleFactors, idealValue, baseNoise, circuitDepth]);
-
-  // Perform extrapolation to zero noise
-  const extrapolatedValue = useMemo(() => {
-    const x = chartData.map(d => d.scale);
-    const y = chartData.map(d => d.expectation);
-    
-    if (extrapolationMethod === 'linear') {
-      // Linear regression
-      const n = x.length;
-      const sumX = x.reduce((a, b) => a + b, 0);
-      const sumY = y.reduce((a, b) => a + b, 0);
-      const sumXY = x.reduce((acc, xi, i) => acc + xi * y[i], 0);
-      const sumX2 = x.reduce((acc, xi) => acc + xi * xi, 0);
-      const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-      const intercept = (sumY - slope * sumX) / n;
-      return intercept; // Value at scale = 0
-    } else if (extrapolationMethod === 'polynomial') {
-      // Quadratic fit using least squares
-      const n = x.length;
-      const sumX = x.reduce((a, b) => a + b, 0);
-      const sumX2 = x.reduce((a, b) => a + b * b, 0);
-      const sumX3 = x.reduce((a, b) => a + b * b * b, 0);
-      const sumX4 = x.reduce((a, b) => a + b * b * b * b, 0);
-      const sumY = y.reduce((a, b) => a + b, 0);
-      const sumXY = x.reduce((acc, xi, i) => acc + xi * y[i], 0);
-      const sumX2Y = x.reduce((acc, xi, i) => acc + xi * xi * y[i], 0);
-      
-      // Solve system using Cramer's rule (simplified)
-      const det = n * (sumX2 * sumX4 - sumX3 * sumX3) - sumX * (sumX * sumX4 - sumX2 * sumX3) + sumX2 * (sumX * sumX3 - sumX2 * sumX2);
-      const c = (sumY * (sumX2 * sumX4 - sumX3 * sumX3) - sumX * (sumXY * sumX4 - sumX2Y * sumX3) + sumX2 * (sumXY * sumX3 - sumX2Y * sumX2)) / det;
-      return c;
-    } else {
-      // Exponential fit: y = a * exp(b * x) -> extrapolate to x = 0 gives a
-      const logY = y.map(yi => Math.log(Math.max(yi, 0.001)));
-      const n = x.length;
-      const sumX = x.reduce((a, b) => a + b, 0);
-      const sumLogY = logY.reduce((a, b) => a + b, 0);
-      const sumXLogY = x.reduce((acc, xi, i) => acc + xi * logY[i], 0);
-      const sumX2 = x.reduce((acc, xi) => acc + xi * xi, 0);
-      const b = (n * sumXLogY - sumX * sumLogY) / (n * sumX2 - sumX * sumX);
-      const logA = (sumLogY - b * sumX) / n;
-      return Math.exp(logA);
-    }
-  }, [chartData, extrapolationMethod]);
-
-  // Generate fit curve data
+  }, [points]);
+
+  // Fit the chosen extrapolator and bootstrap its zero-noise estimate
+  const { fit, bootstrap } = useMemo(() => {
+    const x = points.map(p => p.scale);
+    const y = points.map(p => p.expectation);
+    const standardErrors = points.map(p => p.standardError);
+    return {
+      fit: runExtrapolator(extrapolator, x, y, extrapolatorOptions),
+      // Separate stream from the shot sampling so both stay reproducible
+      bootstrap: bootstrapExtrapolation(
+        extrapolator, x, y, standardErrors, extrapolatorOptions, fitScales, createRandom(seed + 1)
+      ),
+    };
+  }, [points, extrapolator, extrapolatorOptions, fitScales, seed]);
+
+  // Estimator variance from the measured points, for this run's shots and
+  // for both allocations of the same budget
+  const variance = useMemo(() => {
+    const x = points.map(p => p.scale);
+    const y = points.map(p => p.expectation);
+    const weights = estimatorWeights(extrapolator, x, y, extrapolatorOptions);
+    const variances = y.map(perShotVariance);
+    const uniformShots = points.map(() => shotsSpent / points.length);
+    const optimalImportance = weights.reduce((acc, c, i) => acc + Math.abs(c) * Math.sqrt(variances[i]), 0);
+    return {
+      weights,
+      actual: estimatorVariance(weights, variances, points.map(p => p.shots)),
+      uniform: estimatorVariance(weights, variances, uniformShots),
+      // Continuous optimum (Σ|c_i|σ_i)² / N
+      optimal: (optimalImportance * optimalImportance) / shotsSpent,
+    };
+  }, [points, extrapolator, extrapolatorOptions, shotsSpent]);
+  const shotSaving = variance.uniform > 0 ? (1 - variance.optimal / variance.uniform) * 100 : 0;
+
+  const extrapolatedValue = fit.zeroNoiseValue;
+  const rmsResidual = fit.residuals.length
+    ? Math.sqrt(fit.residuals.reduce((acc, r) => acc + r * r, 0) / fit.residuals.length)
+    : NaN;
+
+  // Fit curve with its pointwise 95% bootstrap band
   const fitCurveData = useMemo(() => {
-    const points = [];
-    const x = chartData.map(d => d.scale);
-    const y = chartData.map(d => d.expectation);
-    
-    for (let scale = 0; scale <= 3.5; scale += 0.1) {
-      let value;
-      
-      if (extrapolationMethod === 'linear') {
-        const n = x.length;
-        const sumX = x.reduce((a, b) => a + b, 0);
-        const sumY = y.reduce((a, b) => a + b, 0);
-        const sumXY = x.reduce((acc, xi, i) => acc + xi * y[i], 0);
-        const sumX2 = x.reduce((acc, xi) => acc + xi * xi, 0);
-        const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-        const intercept = (sumY - slope * sumX) / n;
-        value = intercept + slope * scale;
-      } else if (extrapolationMethod === 'polynomial') {
-        const n = x.length;
-        const sumX = x.reduce((a, b) => a + b, 0);
-        const sumX2 = x.reduce((a, b) => a + b * b, 0);
-        const sumX3 = x.reduce((a, b) => a + b * b * b, 0);
-        const sumX4 = x.reduce((a, b) => a + b * b * b * b, 0);
-        const sumY = y.reduce((a, b) => a + b, 0);
-        const sumXY = x.reduce((acc, xi, i) => acc + xi * y[i], 0);
-        const sumX2Y = x.reduce((acc, xi, i) => acc + xi * xi * y[i], 0);
-        
-        const det = n * (sumX2 * sumX4 - sumX3 * sumX3) - sumX * (sumX * sumX4 - sumX2 * sumX3) + sumX2 * (sumX * sumX3 - sumX2 * sumX2);
-        const c = (sumY * (sumX2 * sumX4 - sumX3 * sumX3) - sumX * (sumXY * sumX4 - sumX2Y * sumX3) + sumX2 * (sumXY * sumX3 - sumX2Y * sumX2)) / det;
-        const b = (sumXY * (sumX2 * sumX4 - sumX3 * sumX3) - sumY * (sumX * sumX4 - sumX2 * sumX3) + sumX2 * (sumX * sumX2Y - sumXY * sumX2)) / det;
-        const a = (sumX2Y * (sumX2 * n - sumX * sumX) - sumXY * (sumX3 * n - sumX * sumX2) + sumY * (sumX3 * sumX - sumX2 * sumX2)) / det;
-        value = a * scale * scale + b * scale + c;
-      } else {
-        const logY = y.map(yi => Math.log(Math.max(yi, 0.001)));
-        const n = x.length;
-        const sumX = x.reduce((a, b) => a + b, 0);
-        const sumLogY = logY.reduce((a, b) => a + b, 0);
-        const sumXLogY = x.reduce((acc, xi, i) => acc + xi * logY[i], 0);
-        const sumX2 = x.reduce((acc, xi) => acc + xi * xi, 0);
-        const bCoef = (n * sumXLogY - sumX * sumLogY) / (n * sumX2 - sumX * sumX);
-        const logA = (sumLogY - bCoef * sumX) / n;
-        value = Math.exp(logA + bCoef * scale);
-      }
-      
-      points.push({ scale, fit: value });
-    }
-    return points;
-  }, [chartData, extrapolationMethod]);
+    if (fit.error) return [];
+    return fitScales.map((scale, i) => ({
+      scale,
+      fit: fit.evaluate(scale),
+      band: bootstrap.band[i],
+    }));
+  }, [fit, bootstrap, fitScales]);
+
+  // Zero-noise estimate with its asymmetric 95% bootstrap interval
+  const estimateData = fit.error ? [] : [{
+    scale: 0,
+    estimate: extrapolatedValue,
+    interval: [extrapolatedValue - bootstrap.lower, bootstrap.upper - extrapolatedValue],
+  }];
+
+  // Keep the y-axis on the data; high-order fits can run far off beyond it
+  const yDomain = useMemo(() => {
+    const values = [
+      idealValue,
+      ...chartData.flatMap(d => [d.expectation - d.errorBar, d.expectation + d.errorBar]),
+      extrapolatedValue,
+      bootstrap.lower,
+      bootstrap.upper,
+    ].filter(Number.isFinite);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const pad = Math.max(0.05, (max - min) * 0.1);
+    return [Number((min - pad).toFixed(2)), Number((max + pad).toFixed(2))];
+  }, [idealValue, chartData, extrapolatedValue, bootstrap]);
 
   // Error metrics
   const error = Math.abs(extrapolatedValue - idealValue);
-  const percentError = (error / idealValue) * 100;
-  const improvement = ((1 - chartData[0].expectation / idealValue) * 100) - percentError;
-
-  const regenerateData = () => {
-    setBaseNoise(baseNoise + 0.0001);
-    setTimeout(() => setBaseNoise(baseNoise), 10);
-  };
+  // Against the unfolded circuit, measured if λ = 1 is among the scale factors
+  const unfoldedPoint = points.find(p => p.scale === 1);
+  const unmitigatedError = Math.abs((unfoldedPoint?.expectation ?? experiment.unfolded) - idealValue);
+  const improvement = unmitigatedError > 0 ? (1 - error / unmitigatedError) * 100 : 0;
 
   return (
     <>
       <Helmet>
         <title>Zero-Noise Extrapolation | QuantumNoise</title>
-        <meta name="description" content="Interactive ZNE visualization with noise scale vs metric plots and adjustable parameters for quantum error mitigation." />
+        <meta name="description" content="Interactive ZNE visualization with noise scale vs metric plots, Clifford data regression and adjustable parameters for quantum error mitigation." />
       </Helmet>
       
       <main className="relative min-h-screen bg-background overflow-x-hidden">
@@ -189,207 +288,590 @@ const ZNE = () => {
                   <CardDescription>Configure simulation parameters</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium">Mitigation Method</label>
+                    <Select value={mitigationMode} onValueChange={(v: MitigationMode) => setMitigationMode(v)}>
+                      <SelectTrigger className="glass">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="zne">Zero-noise extrapolation</SelectItem>
+                        <SelectItem value="cdr">Clifford data regression</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <MitigationCircuitControls circuit={circuit} />
+
                   <div className="space-y-3">
                     <label className="text-sm font-medium flex items-center justify-between">
-                      Base Noise Rate
+                      Gate Error Rate
                       <span className="text-primary font-mono">{(baseNoise * 100).toFixed(1)}%</span>
                     </label>
                     <Slider
                       value={[baseNoise]}
                       onValueChange={([v]) => setBaseNoise(v)}
-                      min={0.01}
-                      max={0.15}
-                      step={0.005}
+                      min={0.001}
+                      max={0.05}
+                      step={0.001}
                     />
-                  </div>
-
-                  <div className="space-y-3">
-                    <label className="text-sm font-medium flex items-center justify-between">
-                      Circuit Depth
-                      <span className="text-primary font-mono">{circuitDepth}</span>
-                    </label>
-                    <Slider
-                      value={[circuitDepth]}
-                      onValueChange={([v]) => setCircuitDepth(v)}
-                      min={1}
-                      max={50}
-                      step={1}
+                    <p className="text-xs text-muted-foreground">
+                      Depolarizing error per 1-qubit gate (twice that for multi-qubit gates), plus T1/T2 relaxation
+                    </p>
+                    <NoiseModelFileControls
+                      exportFile={() => fromNoiseModel(noise, experiment.numQubits || 1, { name: 'zne' })}
+                      onImport={importNoiseFile}
+                      note="Imports set the gate error rate from the file's mean one-qubit gate error; per-qubit values, the coupling map and crosstalk are not simulated."
                     />
                   </div>
 
-                  <div className="space-y-3">
-                    <label className="text-sm font-medium flex items-center justify-between">
-                      Ideal Expectation Value
-                      <span className="text-primary font-mono">{idealValue.toFixed(2)}</span>
-                    </label>
-                    <Slider
-                      value={[idealValue]}
-                      onValueChange={([v]) => setIdealValue(v)}
-                      min={0.5}
-                      max={1.5}
-                      step={0.05}
-                    />
-                  </div>
+                  {mitigationMode === 'zne' ? (
+                    <>
+                      <div className="space-y-3">
+                        <label className="text-sm font-medium">Folding Method</label>
+                        <Select value={foldingMethod} onValueChange={(v: FoldingMethod) => setFoldingMethod(v)}>
+                          <SelectTrigger className="glass">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="global">Global: U(U†U)ⁿ</SelectItem>
+                            <SelectItem value="local">Local: G(G†G)ⁿ per gate</SelectItem>
+                            <SelectItem value="random">Random gate selection</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                  <div className="space-y-3">
-                    <label className="text-sm font-medium">Extrapolation Method</label>
-                    <Select value={extrapolationMethod} onValueChange={(v: ExtrapolationMethod) => setExtrapolationMethod(v)}>
-                      <SelectTrigger className="glass">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="linear">Linear</SelectItem>
-                        <SelectItem value="polynomial">Polynomial (Quadratic)</SelectItem>
-                        <SelectItem value="exponential">Exponential</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                      <div className="space-y-3">
+                        <label className="text-sm font-medium">Noise Scale Factors</label>
+                        {adaptive ? (
+                          <p className="text-xs text-muted-foreground">
+                            Chosen while measuring: λ = 1 and 2, then each next λ from the current fit
+                            {adaptiveRun && adaptiveRun.points.length > 0 && (
+                              <>; this run measured λ = {adaptiveRun.points.map(p => p.scale.toFixed(2)).join(', ')}</>
+                            )}
+                          </p>
+                        ) : (
+                          <>
+                            <ScaleFactorEditor scaleFactors={scaleFactors} onChange={setScaleFactors} />
+                            <p className="text-xs text-muted-foreground">Drag a handle to move it, or use the arrow keys</p>
+                          </>
+                        )}
+                        {collapsedScales.map(run => (
+                          <p key={run.scale} className="text-xs text-yellow-500">
+                            {run.requestedScales.map(v => `λ = ${v}`).join(', ')} all fold to λ = {run.scale.toFixed(3)} with{' '}
+                            {experiment.gates.length} gates, so they are measured once.
+                          </p>
+                        ))}
+                      </div>
+
+                      <div className="space-y-3">
+                        <label className="text-sm font-medium flex items-center justify-between">
+                          Total Shot Budget
+                          <span className="text-primary font-mono">{shotBudget.toLocaleString()}</span>
+                        </label>
+                        <Slider
+                          value={[shotBudget]}
+                          onValueChange={([v]) => setShotBudget(v)}
+                          min={1000}
+                          max={100000}
+                          step={1000}
+                        />
+                        {adaptive ? (
+                          <p className="text-xs text-muted-foreground">
+                            Split evenly over at most {ADAPTIVE_MAX_STEPS} scale factors
+                            {adaptiveRun && (
+                              <>
+                                ; {adaptiveRun.converged
+                                  ? `the estimate settled after ${adaptiveRun.points.length}`
+                                  : `it had not settled after ${adaptiveRun.points.length}`}
+                                , using {adaptiveRun.shotsUsed.toLocaleString()} shots
+                              </>
+                            )}
+                          </p>
+                        ) : (
+                          <>
+                            <Select value={shotAllocation} onValueChange={(v: ShotAllocation) => setShotAllocation(v)}>
+                              <SelectTrigger className="glass">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="uniform">Uniform allocation</SelectItem>
+                                <SelectItem value="optimal">Variance-optimal allocation</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">
+                              {shotAllocation === 'uniform'
+                                ? 'Every scale factor gets the same number of shots'
+                                : 'Shots ∝ |∂estimate/∂⟨O⟩ᵢ|·σᵢ, planned from a 10% uniform pilot'}
+                            </p>
+                          </>
+                        )}
+                      </div>
+
+                      <div className="space-y-3">
+                        <label className="text-sm font-medium">Extrapolation Method</label>
+                        <Select value={extrapolatorId} onValueChange={(v: ExtrapolatorId) => setExtrapolatorId(v)}>
+                          <SelectTrigger className="glass">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {extrapolators.map(e => (
+                              <SelectItem key={e.id} value={e.id}>{e.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">{extrapolator.description}</p>
+                      </div>
+
+                      {extrapolator.usesOrder && (
+                        <div className="space-y-3">
+                          <label className="text-sm font-medium flex items-center justify-between">
+                            Polynomial Order
+                            <span className="text-primary font-mono">{extrapolatorOptions.order}</span>
+                          </label>
+                          <Slider
+                            value={[extrapolatorOptions.order]}
+                            onValueChange={([v]) => setPolyOrder(v)}
+                            min={1}
+                            max={maxOrder}
+                            step={1}
+                          />
+                        </div>
+                      )}
 
-                  <Button onClick={regenerateData} className="w-full">
-                    Regenerate Data
+                      {extrapolator.usesAsymptote && (
+                        <div className="space-y-3">
+                          <label className="text-sm font-medium flex items-center justify-between">
+                            Asymptote
+                            <span className="text-primary font-mono">{asymptote.toFixed(2)}</span>
+                          </label>
+                          <Slider
+                            value={[asymptote]}
+                            onValueChange={([v]) => setAsymptote(v)}
+                            min={-1}
+                            max={1}
+                            step={0.05}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            ⟨O⟩ at infinite noise; 0 for Z strings under depolarizing noise
+                          </p>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <div className="space-y-3">
+                        <label className="text-sm font-medium flex items-center justify-between">
+                          Training Circuits
+                          <span className="text-primary font-mono">{trainingCircuits}</span>
+                        </label>
+                        <Slider
+                          value={[trainingCircuits]}
+                          onValueChange={([v]) => setTrainingCircuits(v)}
+                          min={5}
+                          max={100}
+                          step={5}
+                        />
+                      </div>
+
+                      <div className="space-y-3">
+                        <label className="text-sm font-medium flex items-center justify-between">
+                          Non-Clifford Gates Kept
+                          <span className="text-primary font-mono">{Math.min(keptNonClifford, nonCliffordCount)} of {nonCliffordCount}</span>
+                        </label>
+                        <Slider
+                          value={[keptNonClifford]}
+                          onValueChange={([v]) => setKeptNonClifford(v)}
+                          min={0}
+                          max={Math.max(1, nonCliffordCount)}
+                          step={1}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          The other T and rotation gates become nearby Cliffords, so training circuits stay cheap to simulate ideally
+                        </p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <label className="text-sm font-medium flex items-center justify-between">
+                          Shots per Circuit
+                          <span className="text-primary font-mono">{cdrShots}</span>
+                        </label>
+                        <Slider
+                          value={[cdrShots]}
+                          onValueChange={([v]) => setCdrShots(v)}
+                          min={256}
+                          max={16384}
+                          step={256}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  <SeedControl seed={seed} onSeedChange={setSeed} onReroll={rerollSeed} />
+
+                  <Button onClick={rerollSeed} className="w-full">
+                    New Shot Samples
                   </Button>
                 </CardContent>
               </Card>
 
               {/* Chart Area */}
-              <div className="lg:col-span-2 space-y-6">
-                <Card className="glass border-border/50">
-                  <CardHeader>
-                    <CardTitle className="text-lg">Noise Scale vs Expectation Value</CardTitle>
-                    <CardDescription>
-                      Measured values at different noise scales with {extrapolationMethod} fit extrapolation
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="h-80">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <LineChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-                          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-                          <XAxis 
-                            dataKey="scale" 
-                            type="number"
-                            domain={[0, 3.5]}
-                            stroke="hsl(var(--muted-foreground))"
-                            label={{ value: 'Noise Scale Factor', position: 'bottom', fill: 'hsl(var(--muted-foreground))' }}
-                          />
-                          <YAxis 
-                            stroke="hsl(var(--muted-foreground))"
-                            domain={['auto', 'auto']}
-                            label={{ value: 'Expectation Value', angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))' }}
-                          />
-                          <Tooltip 
-                            contentStyle={{ 
-                              backgroundColor: 'hsl(var(--card))', 
-                              border: '1px solid hsl(var(--border))',
-                              borderRadius: '8px'
-                            }}
-                            labelFormatter={(value) => `Scale: ${Number(value).toFixed(2)}`}
-                          />
-                          <Legend />
-                          <ReferenceLine 
-                            y={idealValue} 
-                            stroke="hsl(var(--success))" 
-                            strokeDasharray="5 5" 
-                            label={{ value: 'Ideal', fill: 'hsl(var(--success))' }} 
-                          />
-                          <ReferenceLine 
-                            y={extrapolatedValue} 
-                            stroke="hsl(var(--primary))" 
-                            strokeDasharray="3 3" 
-                            label={{ value: 'ZNE', fill: 'hsl(var(--primary))' }} 
-                          />
-                          <Line 
-                            data={fitCurveData}
-                            type="monotone" 
-                            dataKey="fit" 
-                            stroke="hsl(var(--primary))" 
-                            strokeWidth={2}
-                            dot={false}
-                            name="Fit Curve"
-                          />
-                          <Line 
-                            data={chartData}
-                            type="monotone" 
-                            dataKey="expectation" 
-                            stroke="hsl(var(--accent))" 
-                            strokeWidth={0}
-                            dot={{ fill: 'hsl(var(--accent))', r: 6, strokeWidth: 2, stroke: 'hsl(var(--background))' }}
-                            name="Measured"
-                          />
-                        </LineChart>
-                      </ResponsiveContainer>
-                    </div>
-                  </CardContent>
-                </Card>
-
-                {/* Metrics Cards */}
-                <div className="grid sm:grid-cols-3 gap-4">
+              {mitigationMode === 'zne' ? (
+                <div className="lg:col-span-2 space-y-6">
                   <Card className="glass border-border/50">
-                    <CardContent className="pt-6 text-center">
-                      <p className="text-sm text-muted-foreground mb-1">Extrapolated Value</p>
-                      <p className="text-3xl font-bold text-gradient">{extrapolatedValue.toFixed(4)}</p>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Noise Scale vs Expectation Value</CardTitle>
+                      <CardDescription>
+                        ⟨{formatObservable(experiment.observable)}⟩ at each folded noise scale from {shotsSpent.toLocaleString()} shots in total
+                        (bars: 95% shot noise), with a {extrapolator.label.toLowerCase()} fit and its 95% bootstrap band
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {(experiment.error || fit.error) && (
+                        <p className="text-sm text-destructive mb-4">{experiment.error ?? fit.error}</p>
+                      )}
+                      <div className="h-80">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <ComposedChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                            <XAxis 
+                              dataKey="scale" 
+                              type="number"
+                              domain={[0, xMax]}
+                              stroke="hsl(var(--muted-foreground))"
+                              label={{ value: 'Noise Scale Factor', position: 'bottom', fill: 'hsl(var(--muted-foreground))' }}
+                            />
+                            <YAxis 
+                              stroke="hsl(var(--muted-foreground))"
+                              domain={yDomain}
+                              allowDataOverflow
+                              label={{ value: 'Expectation Value', angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))' }}
+                            />
+                            <Tooltip 
+                              contentStyle={{ 
+                                backgroundColor: 'hsl(var(--card))', 
+                                border: '1px solid hsl(var(--border))',
+                                borderRadius: '8px'
+                              }}
+                              labelFormatter={(value) => `Scale: ${Number(value).toFixed(2)}`}
+                            />
+                            <Legend />
+                            <ReferenceLine 
+                              y={idealValue} 
+                              stroke="hsl(var(--success))" 
+                              strokeDasharray="5 5" 
+                              label={{ value: 'Ideal', fill: 'hsl(var(--success))' }} 
+                            />
+                            {Number.isFinite(extrapolatedValue) && (
+                              <ReferenceLine 
+                                y={extrapolatedValue} 
+                                stroke="hsl(var(--primary))" 
+                                strokeDasharray="3 3" 
+                                label={{ value: 'ZNE', fill: 'hsl(var(--primary))' }} 
+                              />
+                            )}
+                            <Area
+                              data={fitCurveData}
+                              type="monotone"
+                              dataKey="band"
+                              stroke="none"
+                              fill="hsl(var(--primary))"
+                              fillOpacity={0.15}
+                              name="95% Bootstrap Band"
+                            />
+                            <Line 
+                              data={fitCurveData}
+                              type="monotone" 
+                              dataKey="fit" 
+                              stroke="hsl(var(--primary))" 
+                              strokeWidth={2}
+                              dot={false}
+                              name="Fit Curve"
+                            />
+                            <Scatter
+                              data={chartData}
+                              dataKey="expectation"
+                              fill="hsl(var(--accent))"
+                              name="Measured"
+                            >
+                              <ErrorBar dataKey="errorBar" width={4} stroke="hsl(var(--accent))" direction="y" />
+                            </Scatter>
+                            <Scatter
+                              data={estimateData}
+                              dataKey="estimate"
+                              fill="hsl(var(--primary))"
+                              shape="diamond"
+                              name="ZNE Estimate (95% CI)"
+                            >
+                              <ErrorBar dataKey="interval" width={6} stroke="hsl(var(--primary))" direction="y" />
+                            </Scatter>
+                          </ComposedChart>
+                        </ResponsiveContainer>
+                      </div>
                     </CardContent>
                   </Card>
+
+                  {/* Metrics Cards */}
+                  <div className="grid sm:grid-cols-3 gap-4">
+                    <Card className="glass border-border/50">
+                      <CardContent className="pt-6 text-center">
+                        <p className="text-sm text-muted-foreground mb-1">Extrapolated Value</p>
+                        <p className="text-3xl font-bold text-gradient">{formatEstimate(extrapolatedValue)}</p>
+                        <p className="text-xs text-muted-foreground mt-1 font-mono">
+                          95% CI [{formatEstimate(bootstrap.lower)}, {formatEstimate(bootstrap.upper)}]
+                        </p>
+                      </CardContent>
+                    </Card>
+                  
+                    <Card className="glass border-border/50">
+                      <CardContent className="pt-6 text-center">
+                        <p className="text-sm text-muted-foreground mb-1">Absolute Error</p>
+                        <p className={`text-3xl font-bold ${error < 0.02 ? 'text-green-400' : error < 0.1 ? 'text-yellow-400' : 'text-red-400'}`}>
+                          {formatEstimate(error)}
+                        </p>
+                      </CardContent>
+                    </Card>
                   
+                    <Card className="glass border-border/50">
+                      <CardContent className="pt-6 text-center">
+                        <p className="text-sm text-muted-foreground mb-1">Error Reduction</p>
+                        <p className={`text-3xl font-bold ${improvement > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {Number.isFinite(improvement) ? `${improvement > 0 ? '+' : ''}${improvement.toFixed(1)}%` : '—'}
+                        </p>
+                        {!unfoldedPoint && (
+                          <p className="text-xs text-muted-foreground mt-1">vs. the exact unfolded value; λ = 1 is not measured</p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  {/* Shot Allocation */}
                   <Card className="glass border-border/50">
-                    <CardContent className="pt-6 text-center">
-                      <p className="text-sm text-muted-foreground mb-1">Percent Error</p>
-                      <p className={`text-3xl font-bold ${percentError < 5 ? 'text-green-400' : percentError < 10 ? 'text-yellow-400' : 'text-red-400'}`}>
-                        {percentError.toFixed(2)}%
+                    <CardHeader>
+                      <CardTitle className="text-lg">Estimator Variance</CardTitle>
+                      <CardDescription>
+                        Var = Σ cᵢ² σᵢ² / Nᵢ, with cᵢ the estimate's sensitivity to ⟨O⟩ at λᵢ, σᵢ² = 1 - ⟨O⟩ᵢ² and Nᵢ its shots
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid sm:grid-cols-4 gap-4 text-center">
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">This Run (σ)</p>
+                          <p className="text-2xl font-bold font-mono text-primary">{formatEstimate(Math.sqrt(variance.actual))}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Uniform (σ)</p>
+                          <p className="text-2xl font-bold font-mono">{formatEstimate(Math.sqrt(variance.uniform))}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Optimal (σ)</p>
+                          <p className="text-2xl font-bold font-mono">{formatEstimate(Math.sqrt(variance.optimal))}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Shots Saved</p>
+                          <p className={`text-2xl font-bold ${shotSaving > 0.5 ? 'text-green-400' : 'text-muted-foreground'}`}>
+                            {shotSaving.toFixed(1)}%
+                          </p>
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-4">
+                        Shots saved is how much smaller a variance-optimal budget can be for the same variance as uniform allocation.
                       </p>
                     </CardContent>
                   </Card>
-                  
+
+                  {/* Scale Factors Table */}
                   <Card className="glass border-border/50">
-                    <CardContent className="pt-6 text-center">
-                      <p className="text-sm text-muted-foreground mb-1">Improvement</p>
-                      <p className={`text-3xl font-bold ${improvement > 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {improvement > 0 ? '+' : ''}{improvement.toFixed(1)}%
-                      </p>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Measurement Data</CardTitle>
+                      <CardDescription>
+                        Expectation values at each noise scale factor; RMS fit residual {formatEstimate(rmsResidual)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b border-border/50">
+                              <th className="text-left py-2 px-3 text-muted-foreground">Scale Factor (λ)</th>
+                              {chartData.map((d, i) => (
+                                <th key={i} className="text-center py-2 px-3 font-mono">{d.scale.toFixed(2)}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            <tr>
+                              <td className="py-2 px-3 text-muted-foreground">Expectation ⟨O⟩</td>
+                              {chartData.map((d, i) => (
+                                <td key={i} className="text-center py-2 px-3 font-mono text-primary">
+                                  {d.expectation.toFixed(4)}
+                                </td>
+                              ))}
+                            </tr>
+                            <tr className="border-t border-border/50">
+                              <td className="py-2 px-3 text-muted-foreground">Shots</td>
+                              {chartData.map((d, i) => (
+                                <td key={i} className="text-center py-2 px-3 font-mono text-muted-foreground">
+                                  {d.shots}
+                                </td>
+                              ))}
+                            </tr>
+                            <tr className="border-t border-border/50">
+                              <td className="py-2 px-3 text-muted-foreground">Sensitivity cᵢ</td>
+                              {chartData.map((d, i) => (
+                                <td key={i} className="text-center py-2 px-3 font-mono text-muted-foreground">
+                                  {formatEstimate(variance.weights[i])}
+                                </td>
+                              ))}
+                            </tr>
+                            <tr className="border-t border-border/50">
+                              <td className="py-2 px-3 text-muted-foreground">Error from Ideal</td>
+                              {chartData.map((d, i) => (
+                                <td key={i} className="text-center py-2 px-3 font-mono text-muted-foreground">
+                                  {(d.expectation - idealValue).toFixed(4)}
+                                </td>
+                              ))}
+                            </tr>
+                            <tr className="border-t border-border/50">
+                              <td className="py-2 px-3 text-muted-foreground">Fit Residual</td>
+                              {chartData.map((d, i) => (
+                                <td key={i} className="text-center py-2 px-3 font-mono text-muted-foreground">
+                                  {formatEstimate(fit.residuals[i])}
+                                </td>
+                              ))}
+                            </tr>
+                            <tr className="border-t border-border/50">
+                              <td className="py-2 px-3 text-muted-foreground">Gates After Folding</td>
+                              {chartData.map((d, i) => (
+                                <td key={i} className="text-center py-2 px-3 font-mono text-muted-foreground">
+                                  {d.gateCount}
+                                </td>
+                              ))}
+                            </tr>
+                          </tbody>
+                        </table>
+                      </div>
                     </CardContent>
                   </Card>
                 </div>
+              ) : (
+                <div className="lg:col-span-2 space-y-6">
+                  <Card className="glass border-border/50">
+                    <CardHeader>
+                      <CardTitle className="text-lg">Clifford Data Regression</CardTitle>
+                      <CardDescription>
+                        Noisy vs ideal ⟨{formatObservable(experiment.observable)}⟩ of {trainingCircuits} near-Clifford training
+                        circuits, and the fitted line that maps the target's noisy value to a mitigated one
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {(experiment.error || cdr?.error) && (
+                        <p className="text-sm text-destructive mb-4">{experiment.error ?? cdr?.error}</p>
+                      )}
+                      <div className="h-80">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <ScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                            <XAxis
+                              dataKey="noisy"
+                              type="number"
+                              domain={['auto', 'auto']}
+                              stroke="hsl(var(--muted-foreground))"
+                              label={{ value: 'Noisy Expectation', position: 'bottom', fill: 'hsl(var(--muted-foreground))' }}
+                            />
+                            <YAxis
+                              dataKey="ideal"
+                              type="number"
+                              domain={['auto', 'auto']}
+                              stroke="hsl(var(--muted-foreground))"
+                              label={{ value: 'Ideal Expectation', angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))' }}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: 'hsl(var(--card))',
+                                border: '1px solid hsl(var(--border))',
+                                borderRadius: '8px'
+                              }}
+                              formatter={(value: number) => value.toFixed(4)}
+                            />
+                            <Legend />
+                            <ReferenceLine
+                              y={experiment.ideal}
+                              stroke="hsl(var(--success))"
+                              strokeDasharray="5 5"
+                              label={{ value: 'Ideal', fill: 'hsl(var(--success))' }}
+                            />
+                            {cdr && !cdr.error && (
+                              <ReferenceLine
+                                x={cdr.noisyTarget}
+                                stroke="hsl(var(--muted-foreground))"
+                                strokeDasharray="3 3"
+                                label={{ value: 'Target (noisy)', fill: 'hsl(var(--muted-foreground))' }}
+                              />
+                            )}
+                            <Scatter
+                              data={cdr?.training ?? []}
+                              fill="hsl(var(--accent))"
+                              name="Training Circuits"
+                            />
+                            <Scatter
+                              data={cdrFitLine}
+                              line={{ stroke: 'hsl(var(--primary))', strokeWidth: 2 }}
+                              shape={() => null}
+                              legendType="line"
+                              name="Linear Fit"
+                            />
+                            {cdr && !cdr.error && (
+                              <Scatter
+                                data={[{ noisy: cdr.noisyTarget, ideal: cdr.mitigated }]}
+                                fill="hsl(var(--primary))"
+                                shape="diamond"
+                                name="Mitigated Target"
+                              />
+                            )}
+                          </ScatterChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
 
-                {/* Scale Factors Table */}
-                <Card className="glass border-border/50">
-                  <CardHeader>
-                    <CardTitle className="text-lg">Measurement Data</CardTitle>
-                    <CardDescription>Expectation values at each noise scale factor</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="overflow-x-auto">
-                      <table className="w-full text-sm">
-                        <thead>
-                          <tr className="border-b border-border/50">
-                            <th className="text-left py-2 px-3 text-muted-foreground">Scale Factor (λ)</th>
-                            {chartData.map(d => (
-                              <th key={d.scale} className="text-center py-2 px-3 font-mono">{d.scale.toFixed(1)}</th>
-                            ))}
-                          </tr>
-                        </thead>
-                        <tbody>
-                          <tr>
-                            <td className="py-2 px-3 text-muted-foreground">Expectation ⟨O⟩</td>
-                            {chartData.map(d => (
-                              <td key={d.scale} className="text-center py-2 px-3 font-mono text-primary">
-                                {d.expectation.toFixed(4)}
-                              </td>
-                            ))}
-                          </tr>
-                          <tr className="border-t border-border/50">
-                            <td className="py-2 px-3 text-muted-foreground">Error from Ideal</td>
-                            {chartData.map(d => (
-                              <td key={d.scale} className="text-center py-2 px-3 font-mono text-muted-foreground">
-                                {((1 - d.expectation / idealValue) * 100).toFixed(2)}%
-                              </td>
-                            ))}
-                          </tr>
-                        </tbody>
-                      </table>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
+                  <div className="grid sm:grid-cols-3 gap-4">
+                    <Card className="glass border-border/50">
+                      <CardContent className="pt-6 text-center">
+                        <p className="text-sm text-muted-foreground mb-1">Mitigated Value</p>
+                        <p className="text-3xl font-bold text-gradient">{formatEstimate(cdr?.mitigated ?? NaN)}</p>
+                        <p className="text-xs text-muted-foreground mt-1 font-mono">
+                          95% CI [{formatEstimate(cdr?.lower ?? NaN)}, {formatEstimate(cdr?.upper ?? NaN)}]
+                        </p>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="glass border-border/50">
+                      <CardContent className="pt-6 text-center">
+                        <p className="text-sm text-muted-foreground mb-1">Fitted Line</p>
+                        <p className="text-lg font-bold font-mono text-primary mt-2">
+                          {cdr && !cdr.error ? `${cdr.slope.toFixed(3)}·x ${cdr.intercept < 0 ? '−' : '+'} ${Math.abs(cdr.intercept).toFixed(3)}` : '—'}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Noisy target {formatEstimate(cdr?.noisyTarget ?? NaN)}
+                        </p>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="glass border-border/50">
+                      <CardContent className="pt-6 text-center">
+                        <p className="text-sm text-muted-foreground mb-1">Absolute Error</p>
+                        <p className={`text-3xl font-bold ${cdrError < 0.02 ? 'text-green-400' : cdrError < 0.1 ? 'text-yellow-400' : 'text-red-400'}`}>
+                          {formatEstimate(cdrError)}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Unmitigated {formatEstimate(cdrUnmitigatedError)}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Info Section */}
@@ -402,8 +884,8 @@ const ZNE = () => {
                   <div>
                     <h4 className="text-primary font-semibold mb-2">1. Noise Amplification</h4>
                     <p className="text-muted-foreground">
-                      Execute the same circuit at multiple noise levels by stretching gates or using identity insertions. 
-                      Each noise scale λ produces a different expectation value.
+                      Execute the same circuit at multiple noise levels by folding gates: G → G(G†G)ⁿ leaves the
+                      ideal result unchanged but multiplies the noise. Each noise scale λ produces a different expectation value.
                     </p>
                   </div>
                   <div>
@@ -416,8 +898,8 @@ const ZNE = () => {
                   <div>
                     <h4 className="text-primary font-semibold mb-2">3. Extrapolation</h4>
                     <p className="text-muted-foreground">
-                      Fit a curve (linear, polynomial, or exponential) to the measured data and 
-                      extrapolate to λ=0 to estimate the zero-noise expectation value.
+                      Fit a curve (Richardson, polynomial or exponential) to the measured data and
+                      extrapolate to λ=0. Refitting to shot-noise resamples gives a confidence interval on the estimate.
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,41 @@
+import { createRandom } from '@/lib/random';
+import {
+  ThresholdWorkerMessage,
+  ThresholdWorkerRequest,
+  createPointRunner,
+  pointSeed,
+  thresholdPoint,
+  thresholdSeries
+} from '@/lib/quantum/threshold';
+
+// Runs a threshold sweep off the main thread. Trials go in chunks so progress
+// messages keep coming during slow points; cancelling terminates the worker.
+
+const CHUNK = 50;
+
+const post = (message: ThresholdWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ThresholdWorkerRequest>) => {
+  const { options } = event.data;
+  const { errorRates, trialsPerPoint } = options;
+  const series = thresholdSeries.filter(s => options.seriesIds.includes(s.id));
+  const total = series.length * errorRates.length * trialsPerPoint;
+  let completed = 0;
+
+  series.forEach(s => {
+    const seriesIndex = thresholdSeries.indexOf(s);
+    errorRates.forEach((errorRate, rateIndex) => {
+      const random = createRandom(pointSeed(options.seed, seriesIndex, rateIndex));
+      const run = createPointRunner(s, errorRate, options, random);
+      let failures = 0;
+      for (let done = 0; done < trialsPerPoint; done += CHUNK) {
+        const trials = Math.min(CHUNK, trialsPerPoint - done);
+        failures += run(trials);
+        completed += trials;
+        post({ type: 'progress', completed, total });
+      }
+      post({ type: 'point', seriesId: s.id, point: thresholdPoint(errorRate, failures, trialsPerPoint) });
+    });
+  });
+  post({ type: 'done' });
+};